@@ -0,0 +1,4 @@
+module.exports = {
+  istanbulReporter: ["html", "lcov"],
+  skipFiles: ["test"],
+};
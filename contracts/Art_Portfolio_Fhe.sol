@@ -1,36 +1,66 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint8, euint64, eaddress, externalEuint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 
 contract ArtPortfolioFhe is SepoliaConfig {
-    using FHE for euint32;
+    using FHE for euint64;
     using FHE for ebool;
 
     error NotOwner();
     error NotProvider();
+    error NotAuthenticator();
     error Paused();
     error CooldownActive();
     error BatchClosed();
     error InvalidBatch();
     error InvalidStateHash();
     error ReplayAttempt();
-    error InvalidProof();
     error AlreadyInitialized();
     error NotInitialized();
     error InvalidParameter();
+    error NotSoleContributor();
+    error NotLender();
+    error BundleNotActive();
+    error ArtworkLocked();
+    error NotTransferParty();
+    error TransferNotPending();
+    error AuctionNotOpen();
+    error AuctionNotEnded();
+    error AlreadyBid();
+    error NotAppraisalParty();
+    error InvalidAppraisalState();
+    error InvalidSignature();
+    error NotDisclosureParty();
+    error DisclosureInactive();
+    error NotArtworkOwner();
+    error BatchAlreadyReserved();
+    error PrivateBatch();
+    error SelfReview();
 
     event ProviderAdded(address indexed provider);
     event ProviderRemoved(address indexed provider);
-    event Paused(address account);
-    event Unpaused(address account);
+    event AuthenticatorAdded(address indexed authenticator);
+    event AuthenticatorRemoved(address indexed authenticator);
+    event ArtworkReviewed(address indexed authenticator, string artId, bool authentic);
+    event ContractPaused(address account);
+    event ContractUnpaused(address account);
     event CooldownChanged(uint256 oldCooldownSeconds, uint256 newCooldownSeconds);
     event BatchOpened(uint256 indexed batchId);
-    event BatchClosed(uint256 indexed batchId);
+    event BatchSealed(uint256 indexed batchId);
+    event BatchReserved(uint256 indexed batchId, address indexed prover);
     event PortfolioSubmitted(address indexed owner, uint256 indexed batchId, uint256 encryptedValue);
     event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId, address caller);
-    event DecryptionCompleted(uint256 indexed requestId, uint256 indexed batchId, uint256 totalValue);
+    event DecryptionCompleted(uint256 indexed requestId, uint256 indexed batchId, uint256 totalValue, bool overflowed);
+    event WealthProofRequested(uint256 indexed requestId, uint256 indexed batchId, address indexed prover, uint64 threshold);
+    event WealthProofCompleted(
+        uint256 indexed requestId,
+        uint256 indexed batchId,
+        address indexed prover,
+        uint64 threshold,
+        bool meetsThreshold
+    );
 
     struct DecryptionContext {
         uint256 batchId;
@@ -38,8 +68,150 @@ contract ArtPortfolioFhe is SepoliaConfig {
         bool processed;
     }
 
+    event BundleCreated(
+        uint256 indexed bundleId,
+        address indexed owner,
+        address indexed lender,
+        uint256 batchId,
+        uint64 loanAmount,
+        string[] artIds
+    );
+    event BundleReleased(uint256 indexed bundleId, address indexed owner, address indexed lender);
+    event TransferOffered(uint256 indexed offerId, address indexed from, address indexed to, string artId);
+    event TransferAccepted(uint256 indexed offerId, address indexed from, address indexed to, string artId);
+    event TransferCancelled(uint256 indexed offerId, address indexed from, address indexed to, address cancelledBy);
+    event AuctionCreated(uint256 indexed auctionId, address indexed seller, string artId, uint64 endTime);
+    event BidPlaced(uint256 indexed auctionId, address indexed bidder);
+    event AuctionClosed(uint256 indexed auctionId, uint256 indexed requestId);
+    event AuctionSettled(uint256 indexed auctionId, address indexed seller, address indexed winner, uint64 winningBid);
+    event AppraisalRequested(uint256 indexed appraisalId, address indexed owner, address indexed appraiser, string artId);
+    event AppraisalAccepted(uint256 indexed appraisalId, address indexed appraiser);
+    event AppraisalDelivered(
+        uint256 indexed appraisalId,
+        address indexed appraiser,
+        bytes32 valuation,
+        bytes32 reportHash,
+        bytes signature
+    );
+    event AppraisalDisputed(uint256 indexed appraisalId, address indexed owner, string reason);
+    event DisclosureGranted(
+        uint256 indexed grantId,
+        address indexed owner,
+        address indexed grantee,
+        string artId,
+        DisclosureField field,
+        uint64 expiresAt
+    );
+    event DisclosureRevoked(uint256 indexed grantId, address indexed owner, address indexed grantee);
+    event DisclosureAccessed(uint256 indexed grantId, address indexed grantee, bytes32 handle);
+    event ArtworkValuesRegistered(address indexed owner, string artId, bytes32 costBasis, bytes32 valuation);
+
+    /// @notice Artworks pledged as collateral for a loan. `value` is the bundle's batch total when it was created.
+    struct Bundle {
+        address owner;
+        address lender;
+        uint256 batchId;
+        uint64 loanAmount;
+        euint64 value;
+        euint8 ltvTier;
+        bool active;
+    }
+
+    /// @notice A pending hand-off of an artwork. The cost basis and valuation are the ones registered in
+    /// artworkValues when the offer was made and are only granted to `to` once they accept.
+    struct TransferOffer {
+        string artId;
+        address from;
+        address to;
+        euint64 costBasis;
+        euint64 valuation;
+        bool pending;
+    }
+
+    /// @notice A sealed-bid sale. Bids stay encrypted; only the highest bid and its bidder are decrypted
+    /// once the auction is closed. `winner` is zero when nobody bid.
+    struct Auction {
+        string artId;
+        address seller;
+        uint64 endTime;
+        uint32 bidCount;
+        euint64 highestBid;
+        eaddress highestBidder;
+        bool closed;
+        bool settled;
+        address winner;
+        uint64 winningBid;
+    }
+
+    enum AppraisalStatus {
+        None,
+        Requested,
+        Accepted,
+        Delivered,
+        Disputed
+    }
+
+    /// @notice A valuation an owner asked a registered provider for. The figure is only granted to the
+    /// owner; `signature` is the appraiser's signature over appraisalDigest, checked on delivery.
+    struct Appraisal {
+        string artId;
+        address owner;
+        address appraiser;
+        AppraisalStatus status;
+        euint64 valuation;
+        bytes32 reportHash;
+        uint64 deliveredAt;
+        bytes signature;
+    }
+
+    enum DisclosureField {
+        CostBasis,
+        Valuation,
+        InsuredValue
+    }
+
+    /// @notice Time-limited, revocable permission for `grantee` to read one field of one artwork.
+    /// ACL grants cannot be withdrawn, so `value` is never allowed to the grantee: each access
+    /// while the grant is live hands them a fresh copy (`disclosed`) instead.
+    struct DisclosureGrant {
+        string artId;
+        address owner;
+        address grantee;
+        DisclosureField field;
+        uint64 expiresAt;
+        bool revoked;
+        uint32 accessCount;
+        euint64 value;
+        euint64 disclosed;
+    }
+
+    /// @notice The encrypted acquisition price and current valuation of a catalogued artwork. Clients
+    /// store these handles in the artwork record; they are taken in here so the ACL lets the owner
+    /// decrypt them. `owner` is whoever registered the artwork first, or accepted a transfer of it since;
+    /// only they may offer, pledge, auction or disclose it.
+    struct ArtworkValues {
+        address owner;
+        euint64 costBasis;
+        euint64 valuation;
+    }
+
+    struct AuctionDecryptionContext {
+        uint256 auctionId;
+        bytes32 stateHash;
+        bool processed;
+    }
+
+    struct WealthProofContext {
+        uint256 batchId;
+        address prover;
+        uint64 threshold;
+        bytes32 stateHash;
+        bool processed;
+    }
+
     address public owner;
     mapping(address => bool) public isProvider;
+    mapping(address => bool) public isAuthenticator;
     bool public paused;
     uint256 public cooldownSeconds;
     mapping(address => uint256) public lastSubmissionTime;
@@ -47,9 +219,54 @@ contract ArtPortfolioFhe is SepoliaConfig {
 
     uint256 public currentBatchId;
     bool public batchOpen;
-    mapping(uint256 => euint32) public portfolioValues; // batchId => encrypted total value for that batch
+    // Every amount is an euint64 in cents (AMOUNT_DECIMALS), the unit the clients encrypt acquisition prices in
+    uint8 public constant AMOUNT_DECIMALS = 2;
+    // Plaintext FX rates are fixed-point with FX_RATE_DECIMALS: 1.08 EUR->USD is 1_080_000
+    uint8 public constant FX_RATE_DECIMALS = 6;
+    uint64 internal constant FX_RATE_SCALE = uint64(10) ** FX_RATE_DECIMALS;
+    mapping(uint256 => euint64) public portfolioValues; // batchId => encrypted total value for that batch
+    // batchId => whether adding to the total ever wrapped around; the total then stays at type(uint64).max
+    mapping(uint256 => ebool) public batchOverflowed;
 
     mapping(uint256 => DecryptionContext) public decryptionContexts;
+    mapping(uint256 => WealthProofContext) public wealthProofContexts;
+
+    // A wealth proof only speaks for one account when that account made every submission to the batch
+    mapping(uint256 => address) public batchFirstContributor;
+    mapping(uint256 => bool) public batchHasMultipleContributors;
+    // batchId => the only account allowed to submit to it, address(0) while the batch is shared
+    mapping(uint256 => address) public batchReservedFor;
+
+    // LTV ceilings, in basis points, that ltvTier counts the bundle as staying under
+    uint16[4] public ltvTiersBps = [2500, 5000, 7500, 10000];
+
+    uint256 public bundleCount;
+    mapping(uint256 => Bundle) public bundles;
+    mapping(uint256 => string[]) internal bundleArtIds;
+    // keccak256(abi.encode(owner, artId)) => id of the active bundle holding the artwork, 0 when unlocked
+    mapping(bytes32 => uint256) public artworkBundle;
+
+    uint256 public transferOfferCount;
+    mapping(uint256 => TransferOffer) public transferOffers;
+    // Same key as artworkBundle => id of the pending offer for the artwork, 0 when there is none
+    mapping(bytes32 => uint256) public artworkTransferOffer;
+
+    uint256 public auctionCount;
+    mapping(uint256 => Auction) public auctions;
+    mapping(uint256 => AuctionDecryptionContext) public auctionDecryptionContexts;
+    // Same key as artworkBundle => id of the unsettled auction selling the artwork, 0 when there is none
+    mapping(bytes32 => uint256) public artworkAuction;
+    // keccak256(abi.encode(auctionId, bidder)) => whether the bidder already bid
+    mapping(bytes32 => bool) internal auctionBids;
+
+    uint256 public appraisalCount;
+    mapping(uint256 => Appraisal) public appraisals;
+
+    uint256 public disclosureGrantCount;
+    mapping(uint256 => DisclosureGrant) public disclosureGrants;
+
+    // keccak256(bytes(artId)) => the artwork's registered owner and encrypted values
+    mapping(bytes32 => ArtworkValues) public artworkValues;
 
     modifier onlyOwner() {
         if (msg.sender != owner) revert NotOwner();
@@ -61,6 +278,11 @@ contract ArtPortfolioFhe is SepoliaConfig {
         _;
     }
 
+    modifier onlyAuthenticator() {
+        if (!isAuthenticator[msg.sender]) revert NotAuthenticator();
+        _;
+    }
+
     modifier whenNotPaused() {
         if (paused) revert Paused();
         _;
@@ -103,14 +325,36 @@ contract ArtPortfolioFhe is SepoliaConfig {
         }
     }
 
+    function addAuthenticator(address _authenticator) external onlyOwner {
+        if (!isAuthenticator[_authenticator]) {
+            isAuthenticator[_authenticator] = true;
+            emit AuthenticatorAdded(_authenticator);
+        }
+    }
+
+    function removeAuthenticator(address _authenticator) external onlyOwner {
+        if (isAuthenticator[_authenticator]) {
+            isAuthenticator[_authenticator] = false;
+            emit AuthenticatorRemoved(_authenticator);
+        }
+    }
+
+    // On-chain attestation that clients match against the status stored in the artwork record.
+    // An authenticator cannot review an artwork registered to themselves.
+    function reviewArtwork(string calldata _artId, bool _authentic) external onlyAuthenticator whenNotPaused {
+        if (bytes(_artId).length == 0) revert InvalidParameter();
+        if (artworkValues[keccak256(bytes(_artId))].owner == msg.sender) revert SelfReview();
+        emit ArtworkReviewed(msg.sender, _artId, _authentic);
+    }
+
     function pause() external onlyOwner whenNotPaused {
         paused = true;
-        emit Paused(msg.sender);
+        emit ContractPaused(msg.sender);
     }
 
     function unpause() external onlyOwner {
         paused = false;
-        emit Unpaused(msg.sender);
+        emit ContractUnpaused(msg.sender);
     }
 
     function setCooldownSeconds(uint256 _cooldownSeconds) external onlyOwner {
@@ -128,44 +372,136 @@ contract ArtPortfolioFhe is SepoliaConfig {
         emit BatchOpened(currentBatchId);
     }
 
+    /// @notice Reserves the open batch for the caller, who then is the only one able to submit to it.
+    /// Without it a prover checking for an empty batch races every other provider submitting to it.
+    /// The batch must be open, empty and not reserved yet.
+    function reserveBatch() external onlyProvider whenNotPaused {
+        if (!batchOpen) revert BatchClosed();
+        if (batchFirstContributor[currentBatchId] != address(0) || batchReservedFor[currentBatchId] != address(0)) {
+            revert BatchAlreadyReserved();
+        }
+        batchReservedFor[currentBatchId] = msg.sender;
+        emit BatchReserved(currentBatchId, msg.sender);
+    }
+
     function closeBatch() external onlyOwner whenNotPaused {
         if (!batchOpen) revert BatchClosed();
         batchOpen = false;
-        emit BatchClosed(currentBatchId);
+        emit BatchSealed(currentBatchId);
     }
 
-    function submitPortfolioValue(euint32 _encryptedValue) external onlyProvider whenNotPaused checkSubmissionCooldown(msg.sender) {
+    function submitPortfolioValue(
+        externalEuint64 _encryptedInput,
+        bytes calldata _inputProof
+    ) external onlyProvider whenNotPaused checkSubmissionCooldown(msg.sender) {
         if (!batchOpen) revert BatchClosed();
-        if (!_encryptedValue.isInitialized()) revert NotInitialized();
+        lastSubmissionTime[msg.sender] = block.timestamp;
+        _addToBatch(FHE.fromExternal(_encryptedInput, _inputProof));
+    }
 
+    /// @notice Adds several values encrypted under one input proof, e.g. every piece of a portfolio, counting as one submission.
+    function submitPortfolioValues(
+        externalEuint64[] calldata _encryptedInputs,
+        bytes calldata _inputProof
+    ) external onlyProvider whenNotPaused checkSubmissionCooldown(msg.sender) {
+        if (!batchOpen) revert BatchClosed();
+        if (_encryptedInputs.length == 0) revert InvalidParameter();
         lastSubmissionTime[msg.sender] = block.timestamp;
+        for (uint256 i = 0; i < _encryptedInputs.length; i++) {
+            _addToBatch(FHE.fromExternal(_encryptedInputs[i], _inputProof));
+        }
+    }
+
+    /// @notice Like submitPortfolioValues, but converts every value into the reporting currency first by
+    /// multiplying it with its plaintext FX rate. Only the rates are public, the amounts stay encrypted.
+    /// @dev A conversion that would overflow saturates and flags the batch, like an overflowing sum.
+    function submitConvertedPortfolioValues(
+        externalEuint64[] calldata _encryptedInputs,
+        uint64[] calldata _rates,
+        bytes calldata _inputProof
+    ) external onlyProvider whenNotPaused checkSubmissionCooldown(msg.sender) {
+        if (!batchOpen) revert BatchClosed();
+        if (_encryptedInputs.length == 0 || _encryptedInputs.length != _rates.length) revert InvalidParameter();
+        lastSubmissionTime[msg.sender] = block.timestamp;
+        for (uint256 i = 0; i < _encryptedInputs.length; i++) {
+            if (_rates[i] == 0) revert InvalidParameter();
+            euint64 value = FHE.fromExternal(_encryptedInputs[i], _inputProof);
+            euint64 product = FHE.mul(value, _rates[i]);
+            // The product wrapped around exactly when dividing it by the rate does not give the value back
+            ebool overflow = FHE.ne(FHE.div(product, _rates[i]), value);
+            _addToBatch(FHE.select(overflow, FHE.asEuint64(type(uint64).max), FHE.div(product, FX_RATE_SCALE)));
+            batchOverflowed[currentBatchId] = FHE.or(batchOverflowed[currentBatchId], overflow);
+            FHE.allowThis(batchOverflowed[currentBatchId]);
+        }
+    }
+
+    /// @notice Lets the sole contributor of a batch decrypt its total and overflow flag themselves,
+    /// e.g. to read their portfolio's worth in a reporting currency without a public decryption.
+    function allowBatchTotal(uint256 _batchId) external whenNotPaused {
+        _requireSoleContributor(_batchId);
+        FHE.allow(portfolioValues[_batchId], msg.sender);
+        FHE.allow(batchOverflowed[_batchId], msg.sender);
+    }
+
+    function _requireSoleContributor(uint256 _batchId) internal view {
+        if (_batchId == 0 || _batchId > currentBatchId || !FHE.isInitialized(portfolioValues[_batchId])) {
+            revert InvalidBatch();
+        }
+        if (batchFirstContributor[_batchId] != msg.sender || batchHasMultipleContributors[_batchId]) {
+            revert NotSoleContributor();
+        }
+    }
+
+    function _addToBatch(euint64 _encryptedValue) internal {
+        if (!_encryptedValue.isInitialized()) revert NotInitialized();
+        address reservedFor = batchReservedFor[currentBatchId];
+        if (reservedFor != address(0) && reservedFor != msg.sender) revert BatchAlreadyReserved();
+
+        if (batchFirstContributor[currentBatchId] == address(0)) {
+            batchFirstContributor[currentBatchId] = msg.sender;
+        } else if (batchFirstContributor[currentBatchId] != msg.sender) {
+            batchHasMultipleContributors[currentBatchId] = true;
+        }
 
         // For simplicity, this example aggregates by adding.
         // A real system might have more complex logic or store individual items.
         // This contract assumes portfolioValues[currentBatchId] is initialized if batch has items.
         if (FHE.isInitialized(portfolioValues[currentBatchId])) {
-            portfolioValues[currentBatchId] = portfolioValues[currentBatchId].add(_encryptedValue);
+            // FHE addition wraps around silently; a sum smaller than what it was added to did. The total
+            // saturates instead, which keeps threshold and LTV comparisons right, and the flag sticks.
+            euint64 sum = portfolioValues[currentBatchId].add(_encryptedValue);
+            ebool overflow = FHE.lt(sum, portfolioValues[currentBatchId]);
+            portfolioValues[currentBatchId] = FHE.select(overflow, FHE.asEuint64(type(uint64).max), sum);
+            batchOverflowed[currentBatchId] = FHE.or(batchOverflowed[currentBatchId], overflow);
         } else {
             portfolioValues[currentBatchId] = _encryptedValue;
+            batchOverflowed[currentBatchId] = FHE.asEbool(false);
         }
-        
-        emit PortfolioSubmitted(msg.sender, currentBatchId, _encryptedValue.toBytes32());
+        // The contract must stay allowed on the running total to add to it and request its decryption later.
+        FHE.allowThis(portfolioValues[currentBatchId]);
+        FHE.allowThis(batchOverflowed[currentBatchId]);
+
+        emit PortfolioSubmitted(msg.sender, currentBatchId, uint256(_encryptedValue.toBytes32()));
     }
 
-    function requestBatchValueDecryption(uint256 _batchId) external whenNotPaused checkDecryptionCooldown(msg.sender) {
+    /// @notice Publicly decrypts the total of a batch several providers submitted to. The total of a batch
+    /// with a single contributor, which includes every reserved batch, is that contributor's own portfolio
+    /// or collateral value: it is never decrypted publicly, only for them through allowBatchTotal.
+    function requestBatchValueDecryption(
+        uint256 _batchId
+    ) external onlyProvider whenNotPaused checkDecryptionCooldown(msg.sender) {
         if (_batchId == 0 || _batchId > currentBatchId || !FHE.isInitialized(portfolioValues[_batchId])) {
             revert InvalidBatch();
         }
+        if (!batchHasMultipleContributors[_batchId]) revert PrivateBatch();
 
         lastDecryptionRequestTime[msg.sender] = block.timestamp;
 
         // 1. Prepare Ciphertexts
-        euint32 encryptedTotalValue = portfolioValues[_batchId];
-        bytes32[] memory cts = new bytes32[](1);
-        cts[0] = encryptedTotalValue.toBytes32();
+        bytes32[] memory cts = _batchCiphertexts(_batchId);
 
         // 2. Compute State Hash
-        bytes32 stateHash = keccak256(abi.encode(cts, address(this)));
+        bytes32 stateHash = _hashCiphertexts(cts);
 
         // 3. Request Decryption
         uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
@@ -184,43 +520,554 @@ contract ArtPortfolioFhe is SepoliaConfig {
 
         // 5.b. State Verification
         // Rebuild cts array in the exact same order as in requestBatchValueDecryption
-        euint32 encryptedTotalValue = portfolioValues[decryptionContexts[requestId].batchId];
+        if (_batchStateHash(decryptionContexts[requestId].batchId) != decryptionContexts[requestId].stateHash) {
+            revert InvalidStateHash();
+        }
+
+        // 5.c. Proof Verification (reverts with InvalidKMSSignatures on a bad proof)
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        // 5.d. Decode & Finalize
+        // cleartexts is abi.encode(uint64 totalValue, bool overflowed), one 32-byte word per ciphertext
+        require(cleartexts.length == 64, "ArtPortfolioFhe: Invalid cleartext length");
+        (uint64 totalValue, bool overflowed) = abi.decode(cleartexts, (uint64, bool));
+
+        decryptionContexts[requestId].processed = true;
+        emit DecryptionCompleted(requestId, decryptionContexts[requestId].batchId, totalValue, overflowed);
+    }
+
+    /// @notice Proves "batch total >= threshold" without revealing the total: only the comparison is decrypted.
+    /// @dev Restricted to the batch's sole contributor so nobody can bisect someone else's total.
+    function requestWealthProof(
+        uint256 _batchId,
+        uint64 _threshold
+    ) external whenNotPaused checkDecryptionCooldown(msg.sender) {
+        _requireSoleContributor(_batchId);
+
+        lastDecryptionRequestTime[msg.sender] = block.timestamp;
+
+        ebool meetsThreshold = FHE.ge(portfolioValues[_batchId], FHE.asEuint64(_threshold));
+        FHE.allowThis(meetsThreshold);
         bytes32[] memory cts = new bytes32[](1);
-        cts[0] = encryptedTotalValue.toBytes32();
-        bytes32 currentHash = keccak256(abi.encode(cts, address(this)));
+        cts[0] = meetsThreshold.toBytes32();
 
-        if (currentHash != decryptionContexts[requestId].stateHash) {
+        uint256 requestId = FHE.requestDecryption(cts, this.wealthProofCallback.selector);
+        wealthProofContexts[requestId] = WealthProofContext({
+            batchId: _batchId,
+            prover: msg.sender,
+            threshold: _threshold,
+            stateHash: _batchStateHash(_batchId),
+            processed: false
+        });
+
+        emit WealthProofRequested(requestId, _batchId, msg.sender, _threshold);
+    }
+
+    function wealthProofCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        if (wealthProofContexts[requestId].processed) {
+            revert ReplayAttempt();
+        }
+        // The batch total must be the one the comparison was computed on
+        if (_batchStateHash(wealthProofContexts[requestId].batchId) != wealthProofContexts[requestId].stateHash) {
             revert InvalidStateHash();
         }
 
-        // 5.c. Proof Verification
-        if (!FHE.checkSignatures(requestId, cleartexts, proof)) {
-            revert InvalidProof();
-        }
+        FHE.checkSignatures(requestId, cleartexts, proof);
 
-        // 5.d. Decode & Finalize
-        // cleartexts is abi.encodePacked(uint256 totalValue)
-        // It's a single uint256, so we can directly cast the bytes.
         require(cleartexts.length == 32, "ArtPortfolioFhe: Invalid cleartext length");
-        uint256 totalValue = uint256(bytes32(cleartexts));
+        bool meetsThreshold = uint256(bytes32(cleartexts)) != 0;
 
-        decryptionContexts[requestId].processed = true;
-        emit DecryptionCompleted(requestId, decryptionContexts[requestId].batchId, totalValue);
+        wealthProofContexts[requestId].processed = true;
+        emit WealthProofCompleted(
+            requestId,
+            wealthProofContexts[requestId].batchId,
+            wealthProofContexts[requestId].prover,
+            wealthProofContexts[requestId].threshold,
+            meetsThreshold
+        );
+    }
+
+    /// @notice Pledges `_artIds` to `_lender`. The caller must be the registered owner of every artwork and
+    /// the sole contributor of `_batchId`, whose total becomes the encrypted collateral value.
+    /// @dev The contract cannot tie the batch total to the pledged artworks: it is whatever the owner
+    /// submitted, so the lender relies on the owner's word for the collateral value.
+    /// @dev ltvTier counts how many ltvTiersBps ceilings the loan stays under: 4 means LTV <= 25%,
+    /// 0 means the loan exceeds the collateral. Only the owner and the lender may decrypt it.
+    function createBundle(
+        uint256 _batchId,
+        address _lender,
+        uint64 _loanAmount,
+        string[] calldata _artIds
+    ) external whenNotPaused returns (uint256) {
+        if (_lender == address(0) || _lender == msg.sender || _loanAmount == 0 || _artIds.length == 0) {
+            revert InvalidParameter();
+        }
+        _requireSoleContributor(_batchId);
+
+        uint256 bundleId = ++bundleCount;
+        for (uint256 i = 0; i < _artIds.length; i++) {
+            _requireArtworkOwner(_artIds[i]);
+            bytes32 artKey = keccak256(abi.encode(msg.sender, _artIds[i]));
+            if (_isArtworkLocked(artKey)) revert ArtworkLocked();
+            artworkBundle[artKey] = bundleId;
+            bundleArtIds[bundleId].push(_artIds[i]);
+        }
+
+        euint64 value = portfolioValues[_batchId];
+        euint8 ltvTier = FHE.asEuint8(0);
+        for (uint256 i = 0; i < ltvTiersBps.length; i++) {
+            // LTV <= ceiling  <=>  value >= loan / ceiling
+            uint256 minValue = (uint256(_loanAmount) * 10000 + ltvTiersBps[i] - 1) / ltvTiersBps[i];
+            if (minValue > type(uint64).max) continue;
+            ebool covered = FHE.ge(value, FHE.asEuint64(uint64(minValue)));
+            ltvTier = FHE.add(ltvTier, FHE.select(covered, FHE.asEuint8(1), FHE.asEuint8(0)));
+        }
+
+        FHE.allowThis(value);
+        FHE.allow(value, msg.sender);
+        FHE.allow(value, _lender);
+        FHE.allowThis(ltvTier);
+        FHE.allow(ltvTier, msg.sender);
+        FHE.allow(ltvTier, _lender);
+
+        bundles[bundleId] = Bundle({
+            owner: msg.sender,
+            lender: _lender,
+            batchId: _batchId,
+            loanAmount: _loanAmount,
+            value: value,
+            ltvTier: ltvTier,
+            active: true
+        });
+
+        emit BundleCreated(bundleId, msg.sender, _lender, _batchId, _loanAmount, _artIds);
+        return bundleId;
+    }
+
+    /// @notice Called by the lender once the loan is repaid; unlocks every artwork of the bundle.
+    function releaseBundle(uint256 _bundleId) external whenNotPaused {
+        if (!bundles[_bundleId].active) revert BundleNotActive();
+        if (bundles[_bundleId].lender != msg.sender) revert NotLender();
+
+        for (uint256 i = 0; i < bundleArtIds[_bundleId].length; i++) {
+            delete artworkBundle[keccak256(abi.encode(bundles[_bundleId].owner, bundleArtIds[_bundleId][i]))];
+        }
+        bundles[_bundleId].active = false;
+
+        emit BundleReleased(_bundleId, bundles[_bundleId].owner, msg.sender);
+    }
+
+    function getBundleArtIds(uint256 _bundleId) external view returns (string[] memory) {
+        return bundleArtIds[_bundleId];
+    }
+
+    /// @notice Takes in the encrypted acquisition price and valuation of artwork `_artId` and allows
+    /// them to the caller. The first caller becomes the artwork's owner; only they, or whoever accepts a
+    /// transfer of it, may register new values.
+    function registerArtworkValues(
+        string calldata _artId,
+        externalEuint64 _costBasis,
+        externalEuint64 _valuation,
+        bytes calldata _inputProof
+    ) external whenNotPaused {
+        if (bytes(_artId).length == 0) revert InvalidParameter();
+        ArtworkValues storage values = artworkValues[keccak256(bytes(_artId))];
+        if (values.owner == address(0)) {
+            values.owner = msg.sender;
+        } else if (values.owner != msg.sender) {
+            revert NotArtworkOwner();
+        }
+
+        values.costBasis = FHE.fromExternal(_costBasis, _inputProof);
+        values.valuation = FHE.fromExternal(_valuation, _inputProof);
+        FHE.allowThis(values.costBasis);
+        FHE.allow(values.costBasis, msg.sender);
+        FHE.allowThis(values.valuation);
+        FHE.allow(values.valuation, msg.sender);
+
+        emit ArtworkValuesRegistered(msg.sender, _artId, FHE.toBytes32(values.costBasis), FHE.toBytes32(values.valuation));
+    }
+
+    /// @notice Offers an artwork to `_to` with the values registered for it, so the recipient gets the
+    /// amounts the caller registered rather than ones picked for the offer. Only the registered owner can
+    /// offer an artwork; pledged artworks and artworks with a pending offer cannot be offered.
+    function offerTransfer(string calldata _artId, address _to) external whenNotPaused returns (uint256) {
+        if (_to == address(0) || _to == msg.sender || bytes(_artId).length == 0) revert InvalidParameter();
+        ArtworkValues storage values = _requireArtworkOwner(_artId);
+        bytes32 artKey = keccak256(abi.encode(msg.sender, _artId));
+        if (_isArtworkLocked(artKey)) revert ArtworkLocked();
+
+        uint256 offerId = ++transferOfferCount;
+        artworkTransferOffer[artKey] = offerId;
+        transferOffers[offerId] = TransferOffer({
+            artId: _artId,
+            from: msg.sender,
+            to: _to,
+            costBasis: values.costBasis,
+            valuation: values.valuation,
+            pending: true
+        });
+
+        emit TransferOffered(offerId, msg.sender, _to, _artId);
+        return offerId;
+    }
+
+    /// @notice Called by the recipient; makes them the registered owner and grants them the offered
+    /// cost basis and valuation.
+    function acceptTransfer(uint256 _offerId) external whenNotPaused {
+        if (!transferOffers[_offerId].pending) revert TransferNotPending();
+        if (transferOffers[_offerId].to != msg.sender) revert NotTransferParty();
+
+        transferOffers[_offerId].pending = false;
+        delete artworkTransferOffer[keccak256(abi.encode(transferOffers[_offerId].from, transferOffers[_offerId].artId))];
+        ArtworkValues storage values = artworkValues[keccak256(bytes(transferOffers[_offerId].artId))];
+        values.owner = msg.sender;
+        values.costBasis = transferOffers[_offerId].costBasis;
+        values.valuation = transferOffers[_offerId].valuation;
+        FHE.allow(values.costBasis, msg.sender);
+        FHE.allow(values.valuation, msg.sender);
+
+        emit TransferAccepted(_offerId, transferOffers[_offerId].from, msg.sender, transferOffers[_offerId].artId);
+    }
+
+    /// @notice Withdraws an offer (current owner) or declines it (recipient).
+    function cancelTransfer(uint256 _offerId) external {
+        if (!transferOffers[_offerId].pending) revert TransferNotPending();
+        address from = transferOffers[_offerId].from;
+        address to = transferOffers[_offerId].to;
+        if (msg.sender != from && msg.sender != to) revert NotTransferParty();
+
+        transferOffers[_offerId].pending = false;
+        delete artworkTransferOffer[keccak256(abi.encode(from, transferOffers[_offerId].artId))];
+
+        emit TransferCancelled(_offerId, from, to, msg.sender);
+    }
+
+    /// @notice Lists an artwork the caller is the registered owner of for a sealed-bid sale ending at
+    /// `_endTime`. The artwork stays locked until it is settled.
+    function createAuction(string calldata _artId, uint64 _endTime) external whenNotPaused returns (uint256) {
+        if (bytes(_artId).length == 0 || _endTime <= block.timestamp) revert InvalidParameter();
+        _requireArtworkOwner(_artId);
+        bytes32 artKey = keccak256(abi.encode(msg.sender, _artId));
+        if (_isArtworkLocked(artKey)) revert ArtworkLocked();
+
+        euint64 highestBid = FHE.asEuint64(0);
+        eaddress highestBidder = FHE.asEaddress(address(0));
+        FHE.allowThis(highestBid);
+        FHE.allowThis(highestBidder);
+
+        uint256 auctionId = ++auctionCount;
+        artworkAuction[artKey] = auctionId;
+        auctions[auctionId] = Auction({
+            artId: _artId,
+            seller: msg.sender,
+            endTime: _endTime,
+            bidCount: 0,
+            highestBid: highestBid,
+            highestBidder: highestBidder,
+            closed: false,
+            settled: false,
+            winner: address(0),
+            winningBid: 0
+        });
+
+        emit AuctionCreated(auctionId, msg.sender, _artId, _endTime);
+        return auctionId;
+    }
+
+    /// @notice One sealed bid per bidder. Ties go to the earlier bid. The first bid leads until a higher one
+    /// comes in, whatever its amount, so an auction with bids always has a winner even if every bid is 0.
+    function placeBid(uint256 _auctionId, externalEuint64 _bid, bytes calldata _inputProof) external whenNotPaused {
+        if (auctions[_auctionId].seller == address(0) || auctions[_auctionId].closed) revert AuctionNotOpen();
+        if (block.timestamp >= auctions[_auctionId].endTime) revert AuctionNotOpen();
+        if (auctions[_auctionId].seller == msg.sender) revert InvalidParameter();
+        bytes32 bidKey = keccak256(abi.encode(_auctionId, msg.sender));
+        if (auctionBids[bidKey]) revert AlreadyBid();
+        auctionBids[bidKey] = true;
+
+        euint64 bid = FHE.fromExternal(_bid, _inputProof);
+        FHE.allowThis(bid);
+        FHE.allow(bid, msg.sender);
+
+        euint64 highestBid = bid;
+        eaddress highestBidder = FHE.asEaddress(msg.sender);
+        if (auctions[_auctionId].bidCount != 0) {
+            ebool higher = FHE.gt(bid, auctions[_auctionId].highestBid);
+            highestBid = FHE.select(higher, bid, auctions[_auctionId].highestBid);
+            highestBidder = FHE.select(higher, highestBidder, auctions[_auctionId].highestBidder);
+        }
+        FHE.allowThis(highestBid);
+        FHE.allowThis(highestBidder);
+        auctions[_auctionId].highestBid = highestBid;
+        auctions[_auctionId].highestBidder = highestBidder;
+        auctions[_auctionId].bidCount++;
+
+        emit BidPlaced(_auctionId, msg.sender);
+    }
+
+    /// @notice Anyone may close an auction after it ended; the winner and winning bid are revealed by the oracle.
+    function closeAuction(uint256 _auctionId) external whenNotPaused {
+        if (auctions[_auctionId].seller == address(0) || auctions[_auctionId].closed) revert AuctionNotOpen();
+        if (block.timestamp < auctions[_auctionId].endTime) revert AuctionNotEnded();
+        auctions[_auctionId].closed = true;
+
+        if (auctions[_auctionId].bidCount == 0) {
+            _settleAuction(_auctionId, address(0), 0);
+            return;
+        }
+
+        uint256 requestId = FHE.requestDecryption(_auctionCiphertexts(_auctionId), this.auctionCallback.selector);
+        auctionDecryptionContexts[requestId] = AuctionDecryptionContext({
+            auctionId: _auctionId,
+            stateHash: _hashCiphertexts(_auctionCiphertexts(_auctionId)),
+            processed: false
+        });
+
+        emit AuctionClosed(_auctionId, requestId);
+    }
+
+    function auctionCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        if (auctionDecryptionContexts[requestId].processed) {
+            revert ReplayAttempt();
+        }
+        uint256 auctionId = auctionDecryptionContexts[requestId].auctionId;
+        if (_hashCiphertexts(_auctionCiphertexts(auctionId)) != auctionDecryptionContexts[requestId].stateHash) {
+            revert InvalidStateHash();
+        }
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        require(cleartexts.length == 64, "ArtPortfolioFhe: Invalid cleartext length");
+        (uint64 winningBid, address winner) = abi.decode(cleartexts, (uint64, address));
+
+        auctionDecryptionContexts[requestId].processed = true;
+        _settleAuction(auctionId, winner, winningBid);
+    }
+
+    function _settleAuction(uint256 _auctionId, address _winner, uint64 _winningBid) internal {
+        auctions[_auctionId].settled = true;
+        auctions[_auctionId].winner = _winner;
+        auctions[_auctionId].winningBid = _winningBid;
+        delete artworkAuction[keccak256(abi.encode(auctions[_auctionId].seller, auctions[_auctionId].artId))];
+
+        emit AuctionSettled(_auctionId, auctions[_auctionId].seller, _winner, _winningBid);
+    }
+
+    function _auctionCiphertexts(uint256 _auctionId) internal view returns (bytes32[] memory cts) {
+        cts = new bytes32[](2);
+        cts[0] = FHE.toBytes32(auctions[_auctionId].highestBid);
+        cts[1] = FHE.toBytes32(auctions[_auctionId].highestBidder);
+    }
+
+    /// @notice Asks registered provider `_appraiser` to value one of the caller's artworks.
+    function requestAppraisal(string calldata _artId, address _appraiser) external whenNotPaused returns (uint256) {
+        if (bytes(_artId).length == 0 || _appraiser == msg.sender) revert InvalidParameter();
+        if (!isProvider[_appraiser]) revert NotProvider();
+
+        uint256 appraisalId = ++appraisalCount;
+        appraisals[appraisalId].artId = _artId;
+        appraisals[appraisalId].owner = msg.sender;
+        appraisals[appraisalId].appraiser = _appraiser;
+        appraisals[appraisalId].status = AppraisalStatus.Requested;
+
+        emit AppraisalRequested(appraisalId, msg.sender, _appraiser, _artId);
+        return appraisalId;
+    }
+
+    function acceptAppraisal(uint256 _appraisalId) external onlyProvider whenNotPaused {
+        if (appraisals[_appraisalId].appraiser != msg.sender) revert NotAppraisalParty();
+        if (appraisals[_appraisalId].status != AppraisalStatus.Requested) revert InvalidAppraisalState();
+        appraisals[_appraisalId].status = AppraisalStatus.Accepted;
+
+        emit AppraisalAccepted(_appraisalId, msg.sender);
+    }
+
+    /// @notice Delivers the encrypted figure of an accepted appraisal, or a revised one after a dispute.
+    /// `_signature` must be the caller's personal_sign signature over appraisalDigest.
+    function deliverAppraisal(
+        uint256 _appraisalId,
+        externalEuint64 _valuation,
+        bytes calldata _inputProof,
+        bytes32 _reportHash,
+        bytes calldata _signature
+    ) external onlyProvider whenNotPaused {
+        Appraisal storage appraisal = appraisals[_appraisalId];
+        if (appraisal.appraiser != msg.sender) revert NotAppraisalParty();
+        if (appraisal.status != AppraisalStatus.Accepted && appraisal.status != AppraisalStatus.Disputed) {
+            revert InvalidAppraisalState();
+        }
+        bytes32 handle = externalEuint64.unwrap(_valuation);
+        if (_recoverSigner(appraisalDigest(_appraisalId, handle, _reportHash), _signature) != msg.sender) {
+            revert InvalidSignature();
+        }
+
+        euint64 valuation = FHE.fromExternal(_valuation, _inputProof);
+        FHE.allowThis(valuation);
+        FHE.allow(valuation, appraisal.owner);
+
+        appraisal.valuation = valuation;
+        appraisal.reportHash = _reportHash;
+        appraisal.deliveredAt = uint64(block.timestamp);
+        appraisal.signature = _signature;
+        appraisal.status = AppraisalStatus.Delivered;
+
+        emit AppraisalDelivered(_appraisalId, msg.sender, handle, _reportHash, _signature);
+    }
+
+    /// @notice Owner only; the appraiser may then deliver a revised figure.
+    function disputeAppraisal(uint256 _appraisalId, string calldata _reason) external whenNotPaused {
+        if (appraisals[_appraisalId].owner != msg.sender) revert NotAppraisalParty();
+        if (appraisals[_appraisalId].status != AppraisalStatus.Delivered) revert InvalidAppraisalState();
+        appraisals[_appraisalId].status = AppraisalStatus.Disputed;
+
+        emit AppraisalDisputed(_appraisalId, msg.sender, _reason);
+    }
+
+    /// @notice What an appraiser signs for a delivery: the appraisal, the encrypted input handle of
+    /// the figure and the hash of the written report, bound to this contract and chain.
+    function appraisalDigest(uint256 _appraisalId, bytes32 _valuation, bytes32 _reportHash) public view returns (bytes32) {
+        return keccak256(
+            abi.encode(
+                address(this),
+                block.chainid,
+                _appraisalId,
+                keccak256(bytes(appraisals[_appraisalId].artId)),
+                appraisals[_appraisalId].owner,
+                _valuation,
+                _reportHash
+            )
+        );
+    }
+
+    /// @notice Lets `_grantee` read the given fields of artworks the caller is the registered owner of
+    /// until `_expiresAt`. The owner re-encrypts each value for this contract; one grant is created per entry.
+    /// @dev The values are not compared with artworkValues (an insured value is never registered), so the
+    /// grantee relies on the owner's word for them, as with any figure the owner discloses.
+    function grantDisclosures(
+        address _grantee,
+        string[] calldata _artIds,
+        DisclosureField[] calldata _fields,
+        externalEuint64[] calldata _values,
+        bytes calldata _inputProof,
+        uint64 _expiresAt
+    ) external whenNotPaused returns (uint256 firstGrantId) {
+        if (_grantee == address(0) || _grantee == msg.sender || _expiresAt <= block.timestamp) revert InvalidParameter();
+        if (_artIds.length == 0 || _artIds.length != _fields.length || _artIds.length != _values.length) {
+            revert InvalidParameter();
+        }
+
+        firstGrantId = disclosureGrantCount + 1;
+        for (uint256 i = 0; i < _artIds.length; i++) {
+            if (bytes(_artIds[i]).length == 0) revert InvalidParameter();
+            _requireArtworkOwner(_artIds[i]);
+            euint64 value = FHE.fromExternal(_values[i], _inputProof);
+            FHE.allowThis(value);
+            FHE.allow(value, msg.sender);
+
+            uint256 grantId = ++disclosureGrantCount;
+            disclosureGrants[grantId].artId = _artIds[i];
+            disclosureGrants[grantId].owner = msg.sender;
+            disclosureGrants[grantId].grantee = _grantee;
+            disclosureGrants[grantId].field = _fields[i];
+            disclosureGrants[grantId].expiresAt = _expiresAt;
+            disclosureGrants[grantId].value = value;
+
+            emit DisclosureGranted(grantId, msg.sender, _grantee, _artIds[i], _fields[i], _expiresAt);
+        }
+    }
+
+    /// @notice Owner only. Copies the grantee already decrypted stay readable to them; no new ones are handed out.
+    function revokeDisclosure(uint256 _grantId) external {
+        if (disclosureGrants[_grantId].owner != msg.sender) revert NotDisclosureParty();
+        if (disclosureGrants[_grantId].revoked) revert DisclosureInactive();
+        disclosureGrants[_grantId].revoked = true;
+
+        emit DisclosureRevoked(_grantId, msg.sender, disclosureGrants[_grantId].grantee);
+    }
+
+    /// @notice Grantee only, while the grant is live: allows them a fresh copy of the value and logs the access.
+    function accessDisclosure(uint256 _grantId) external whenNotPaused returns (bytes32) {
+        return _accessDisclosure(_grantId);
+    }
+
+    /// @notice Same as accessDisclosure for several grants at once, e.g. every line of an insurance schedule.
+    function accessDisclosures(uint256[] calldata _grantIds) external whenNotPaused returns (bytes32[] memory handles) {
+        handles = new bytes32[](_grantIds.length);
+        for (uint256 i = 0; i < _grantIds.length; i++) {
+            handles[i] = _accessDisclosure(_grantIds[i]);
+        }
+    }
+
+    /// @notice Whether the ACL lets `_account` decrypt the latest copy handed out for the grant.
+    function isDisclosedTo(uint256 _grantId, address _account) external view returns (bool) {
+        euint64 disclosed = disclosureGrants[_grantId].disclosed;
+        return FHE.isInitialized(disclosed) && FHE.isAllowed(disclosed, _account);
+    }
+
+    function _accessDisclosure(uint256 _grantId) internal returns (bytes32) {
+        DisclosureGrant storage grant = disclosureGrants[_grantId];
+        if (grant.grantee != msg.sender) revert NotDisclosureParty();
+        if (grant.revoked || block.timestamp >= grant.expiresAt) revert DisclosureInactive();
+
+        euint64 disclosed = FHE.add(grant.value, uint64(0));
+        FHE.allowThis(disclosed);
+        FHE.allow(disclosed, msg.sender);
+        grant.disclosed = disclosed;
+        grant.accessCount++;
+
+        bytes32 handle = FHE.toBytes32(disclosed);
+        emit DisclosureAccessed(_grantId, msg.sender, handle);
+        return handle;
+    }
+
+    function _recoverSigner(bytes32 _digest, bytes memory _signature) internal pure returns (address) {
+        if (_signature.length != 65) return address(0);
+        bytes32 r;
+        bytes32 s;
+        uint8 v;
+        assembly {
+            r := mload(add(_signature, 32))
+            s := mload(add(_signature, 64))
+            v := byte(0, mload(add(_signature, 96)))
+        }
+        // Only the lower half of s, as ECDSA signers produce, so a signature has one valid encoding
+        if (uint256(s) > 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0) return address(0);
+        bytes32 signed = keccak256(abi.encodePacked("\x19Ethereum Signed Message:\n32", _digest));
+        return ecrecover(signed, v, r, s);
+    }
+
+    function _requireArtworkOwner(string calldata _artId) internal view returns (ArtworkValues storage values) {
+        values = artworkValues[keccak256(bytes(_artId))];
+        if (values.owner != msg.sender) revert NotArtworkOwner();
+    }
+
+    function _isArtworkLocked(bytes32 _artKey) internal view returns (bool) {
+        return artworkBundle[_artKey] != 0 || artworkTransferOffer[_artKey] != 0 || artworkAuction[_artKey] != 0;
+    }
+
+    function _batchCiphertexts(uint256 _batchId) internal view returns (bytes32[] memory cts) {
+        cts = new bytes32[](2);
+        cts[0] = portfolioValues[_batchId].toBytes32();
+        cts[1] = batchOverflowed[_batchId].toBytes32();
+    }
+
+    function _batchStateHash(uint256 _batchId) internal view returns (bytes32) {
+        return _hashCiphertexts(_batchCiphertexts(_batchId));
     }
 
-    function _hashCiphertexts(bytes32[] memory _cts) internal pure returns (bytes32) {
+    function _hashCiphertexts(bytes32[] memory _cts) internal view returns (bytes32) {
         return keccak256(abi.encode(_cts, address(this)));
     }
 
-    function _initIfNeeded(euint32 _val, uint32 _plain) internal {
+    function _initIfNeeded(euint64 _val, uint64 _plain) internal {
         if (!_val.isInitialized()) {
-            _val = FHE.asEuint32(_plain);
+            _val = FHE.asEuint64(_plain);
         } else {
             revert AlreadyInitialized();
         }
     }
 
-    function _requireInitialized(euint32 _val) internal pure {
+    function _requireInitialized(euint64 _val) internal pure {
         if (!_val.isInitialized()) {
             revert NotInitialized();
         }
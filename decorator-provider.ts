@@ -1,3 +0,0 @@
-import { ethers } from 'ethers';
-
-export const order = () => { return null; };
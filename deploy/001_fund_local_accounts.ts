@@ -0,0 +1,28 @@
+// deploy/001_fund_local_accounts.ts
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DRY_RUN } from "../scripts/deploy-manifest";
+
+const FUNDING_ETH = "100";
+
+// Lets a wallet that already has an account use the local node without importing a test key.
+// LOCAL_FUND_ADDRESSES is a comma or space separated list.
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { ethers, getNamedAccounts } = hre;
+  const { deployer } = await getNamedAccounts();
+  const signer = await ethers.getSigner(deployer);
+  const accounts = (process.env.LOCAL_FUND_ADDRESSES ?? "").split(/[\s,]+/).filter((a) => a !== "");
+  for (const account of accounts) {
+    if (DRY_RUN) {
+      console.log(`Would fund ${account} with ${FUNDING_ETH} ETH`);
+      continue;
+    }
+    await (await signer.sendTransaction({ to: ethers.getAddress(account), value: ethers.parseEther(FUNDING_ETH) })).wait();
+    console.log(`Funded ${account} with ${FUNDING_ETH} ETH`);
+  }
+};
+
+func.tags = ["fund"];
+func.skip = async (hre: HardhatRuntimeEnvironment) => !hre.network.tags.local;
+
+export default func;
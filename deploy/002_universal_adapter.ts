@@ -0,0 +1,31 @@
+// deploy/002_universal_adapter.ts
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DRY_RUN } from "../scripts/deploy-manifest";
+// UniversalAdapter has no source here. Its ABI and the bytecode deployed on Sepolia are kept next to the
+// sources rather than in the generated types/, which every compile rewrites.
+import UniversalAdapter from "../contracts/prebuilt/UniversalAdapter.json";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  if (!deployer) {
+    throw new Error(`No deployer account on ${hre.network.name}: set DEPLOYER_PRIVATE_KEY or DEPLOYER_KEYSTORE`);
+  }
+  if (DRY_RUN) {
+    const existing = await hre.deployments.getOrNull("UniversalAdapter");
+    console.log(existing ? `Would reuse UniversalAdapter at ${existing.address}` : "Would deploy UniversalAdapter");
+    return;
+  }
+  await hre.deployments.deploy("UniversalAdapter", {
+    from: deployer,
+    contract: { abi: UniversalAdapter.abi, bytecode: UniversalAdapter.bytecode },
+    // It holds the whole catalogue, so an existing deployment is never replaced. The Sepolia
+    // artifact was written by hand with only its address and ABI, so it has no receipt or deploy block.
+    skipIfAlreadyDeployed: true,
+    log: true,
+  });
+};
+
+func.tags = ["UniversalAdapter"];
+
+export default func;
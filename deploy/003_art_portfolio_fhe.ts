@@ -0,0 +1,19 @@
+// deploy/003_art_portfolio_fhe.ts
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DRY_RUN } from "../scripts/deploy-manifest";
+
+// Redeployed only when the compiled bytecode differs from the saved deployment.
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  if (DRY_RUN) {
+    const { differences, address } = await hre.deployments.fetchIfDifferent("ArtPortfolioFhe", { from: deployer });
+    console.log(differences ? "Would deploy ArtPortfolioFhe" : `Would reuse ArtPortfolioFhe at ${address}`);
+    return;
+  }
+  await hre.deployments.deploy("ArtPortfolioFhe", { from: deployer, log: true });
+};
+
+func.tags = ["ArtPortfolioFhe"];
+
+export default func;
@@ -0,0 +1,46 @@
+// deploy/004_bootstrap_providers.ts
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DRY_RUN } from "../scripts/deploy-manifest";
+
+// Short enough to resubmit right away while developing; live networks keep the contract's own default.
+const LOCAL_COOLDOWN_SECONDS = 1;
+const DEFAULT_COOLDOWN_SECONDS = 60;
+
+/**
+ * Registers the portfolio providers (the deployer already is one) from PORTFOLIO_PROVIDERS and sets
+ * PORTFOLIO_COOLDOWN_SECONDS. Each step reads the current state first, so a rerun sends nothing.
+ */
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, ethers, getNamedAccounts, network } = hre;
+  const { deployer } = await getNamedAccounts();
+  const options = { from: deployer, log: true };
+  // A dry run may not have deployed the contract; a fresh one starts with no providers and the default cooldown
+  const deployed = !DRY_RUN || !!(await deployments.getOrNull("ArtPortfolioFhe"));
+  const send = async (method: string, ...args: unknown[]) => {
+    if (DRY_RUN) console.log(`Would call ArtPortfolioFhe.${method}(${args.join(", ")})`);
+    else await deployments.execute("ArtPortfolioFhe", options, method, ...args);
+  };
+
+  const providers = (process.env.PORTFOLIO_PROVIDERS ?? "").split(/[\s,]+/).filter((a) => a !== "");
+  for (const provider of providers.map((a) => ethers.getAddress(a))) {
+    if (deployed && (await deployments.read("ArtPortfolioFhe", "isProvider", provider))) continue;
+    await send("addProvider", provider);
+  }
+
+  const cooldown = BigInt(
+    process.env.PORTFOLIO_COOLDOWN_SECONDS ?? (network.tags.local ? LOCAL_COOLDOWN_SECONDS : DEFAULT_COOLDOWN_SECONDS)
+  );
+  // hardhat-deploy reads through ethers v5, which returns a BigNumber
+  const current = deployed
+    ? BigInt((await deployments.read("ArtPortfolioFhe", "cooldownSeconds")).toString())
+    : BigInt(DEFAULT_COOLDOWN_SECONDS);
+  if (current !== cooldown) {
+    await send("setCooldownSeconds", cooldown);
+  }
+};
+
+func.tags = ["bootstrap"];
+func.dependencies = ["ArtPortfolioFhe"];
+
+export default func;
@@ -0,0 +1,31 @@
+// deploy/005_frontend_registry.ts
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment, HttpNetworkConfig } from "hardhat/types";
+import { DRY_RUN, printManifest } from "../scripts/deploy-manifest";
+import { copyFrontendAbis, registerFrontendDeployment } from "../scripts/frontend-registry";
+
+// Points the frontend's entry for this chain at the saved deployments.
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, getChainId, getNamedAccounts, network } = hre;
+  printManifest(network.name, ["UniversalAdapter", "ArtPortfolioFhe"]);
+  if (DRY_RUN) return;
+  const [adapter, portfolio] = await Promise.all([deployments.get("UniversalAdapter"), deployments.get("ArtPortfolioFhe")]);
+  const registered = registerFrontendDeployment({
+    chainId: Number(await getChainId()),
+    name: network.name.charAt(0).toUpperCase() + network.name.slice(1),
+    rpcUrl: (network.config as HttpNetworkConfig).url,
+    deployer: (await getNamedAccounts()).deployer,
+    contracts: {
+      UniversalAdapter: { address: adapter.address, deployBlock: adapter.receipt?.blockNumber },
+      ArtPortfolioFhe: { address: portfolio.address, deployBlock: portfolio.receipt?.blockNumber },
+    },
+  });
+  if (registered) copyFrontendAbis();
+};
+
+func.tags = ["frontend"];
+func.dependencies = ["UniversalAdapter", "ArtPortfolioFhe"];
+// The in-process hardhat network is gone once the command exits.
+func.skip = async (hre: HardhatRuntimeEnvironment) => hre.network.name === "hardhat";
+
+export default func;
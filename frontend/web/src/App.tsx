@@ -3,103 +3,147 @@ import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
 import React, { useEffect, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { getActiveDeployment, getContractReadOnly, getContractWithSigner, getPortfolioContractReadOnly, getPortfolioContractWithSigner, getRpcPool, setActiveChain } from "./contract";
+import { defaultDeployment, explorerTxUrl, SupportedDeployment } from "./deployments";
+import { decryptAmount, decryptAmounts, DecryptionContext, DEFAULT_DURATION_DAYS, encryptAmount, EncryptionContext } from "./fhe";
+import {
+  ArtCondition, ART_CURRENCIES, ART_KEYS_KEY, ART_SCHEMA_VERSION, ArtCurrency, artIdFromKey, buildProvenance, ProvenanceEvent, ArtPiece, ArtRecord, ArtRecordError, artRecordKey, decodeArtKeys,
+  decodeArtRecord, encodeArtKeys, encodeArtRecord, findOrphanedArt, isTrustedWriter, newArtId, OrphanedArt, ownerIndexKey, PORTFOLIO_ROUTE, RecordAuthority, trustedVersions,
+  MAX_SHARED_WITH, needsReencryption, portfolioPath, PortfolioView, PUBLIC_PATH, selectPortfolio, SHARED_PATH
+} from "./art";
+import { getKeyHistory, IndexedEntry, syncDataStored } from "./indexer";
+import { ArtReview, canReview, loadAuthenticators, loadReviews, reviewState } from "./authentication";
+import { BundleStep, CollateralBundle, createCollateralBundle, decryptBundle, isLocked, loadBundles, lockedArtwork, releaseCollateralBundle } from "./bundles";
+import { ArtAuction, closeArtAuction, createArtAuction, loadAuctions, placeSealedBid, runningAuction } from "./auctions";
+import { acceptArtAppraisal, ArtAppraisal, deliverArtAppraisal, disputeArtAppraisal, loadAppraisals, loadAppraisers, requestArtAppraisal } from "./appraisals";
+import AppraisalDesk from "./components/AppraisalDesk";
+import AppraisalList from "./components/AppraisalList";
+import ConditionReportForm from "./components/ConditionReportForm";
+import DisclosurePage from "./components/DisclosurePage";
+import InsuranceSchedulePage from "./components/InsuranceSchedulePage";
+import { accessArtDisclosure, DisclosureField, DisclosureGrant, grantArtDisclosures, loadDisclosureGrants, revokeArtDisclosure } from "./disclosures";
+import { accessInsuranceSchedule, InsuranceSchedule, InsuredPiece, InsuredValues, issueInsuranceSchedule, readableLines } from "./insurance";
+import AuctionPage from "./components/AuctionPage";
+import AuthenticatorAdmin from "./components/AuthenticatorAdmin";
+import BundleModal from "./components/BundleModal";
+import LoanBundles from "./components/LoanBundles";
+import TransferInbox from "./components/TransferInbox";
+import UnsupportedNetwork from "./components/UnsupportedNetwork";
+import { acceptArtTransfer, acceptedTransfer, ArtTransfer, cancelArtTransfer, handOvers, loadTransfers, offerArtTransfer, pendingTransfer, transferredRecord } from "./transfers";
+import RevaluationForm from "./components/RevaluationForm";
+import RpcDebugPanel from "./components/RpcDebugPanel";
+import WealthProofModal from "./components/WealthProofModal";
+import { convertAmount, fixedRate, formatAmount, formatCents, FxQuote, getFxRateProvider } from "./fx";
+import { AcquisitionCostModel, AppraisalModel, revaluedRecord, runValuation, ValuationModel } from "./valuation";
+import { registerArtValues } from "./artValues";
+import { decryptPortfolioTotal, proveWealth, verifyWealthProofReceipt, WealthProofReceipt, WealthProofStep } from "./wealth";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
-
-interface ArtPiece {
-  id: string;
-  encryptedValue: string;
-  title: string;
-  artist: string;
-  year: number;
-  acquisitionDate: number;
-  owner: string;
-  status: "authenticated" | "pending" | "rejected";
-  valuation: string;
-}
+import { useAccount } from 'wagmi';
+import { useMatch, useNavigate } from 'react-router-dom';
 
-const FHEEncryptNumber = (value: number): string => {
-  return `FHE-${btoa(value.toString())}`;
-};
+const EMPTY_ART_PIECE = { title: "", artist: "", year: 0, acquisitionPrice: 0, currency: "USD", location: "", visibility: "public", sharedWith: "" };
+const REPORTING_CURRENCY_KEY = "reportingCurrency";
+const RPC_DEBUG_KEY = "rpcDebug";
 
-const FHEDecryptNumber = (encryptedData: string): number => {
-  if (encryptedData.startsWith('FHE-')) {
-    return parseFloat(atob(encryptedData.substring(4)));
-  }
-  return parseFloat(encryptedData);
-};
+const parseAddressList = (value: string): string[] => value.split(/[\s,;]+/).filter(a => a !== "");
 
-const FHECompute = (encryptedData: string, operation: string): string => {
-  const value = FHEDecryptNumber(encryptedData);
-  let result = value;
-  
-  switch(operation) {
-    case 'increase10%':
-      result = value * 1.1;
-      break;
-    case 'decrease10%':
-      result = value * 0.9;
-      break;
-    case 'double':
-      result = value * 2;
-      break;
-    default:
-      result = value;
-  }
-  
-  return FHEEncryptNumber(result);
+const ADMIN_PATH = "/admin/authenticators";
+const LOANS_PATH = "/loans";
+const TRANSFERS_PATH = "/transfers";
+const AUCTIONS_PATH = "/auctions";
+const APPRAISALS_PATH = "/appraisals";
+const DISCLOSURES_PATH = "/disclosures";
+const INSURANCE_PATH = "/insurance";
+
+// Style randomization (Art Deco UI with gold/black color scheme)
+const colors = {
+  primary: "#D4AF37", // Gold
+  secondary: "#000000", // Black
+  accent: "#FFFFFF", // White
+  background: "#1A1A1A", // Dark gray
+  text: "#E5E5E5", // Light gray
+  highlight: "#FFD700" // Brighter gold
 };
 
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
+type TimedProvenanceEvent = ProvenanceEvent & { timestamp: number | null };
 
-const App: React.FC = () => {
+const App: React.FC<{ deployment: SupportedDeployment }> = ({ deployment }) => {
   const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
+  const adapter = deployment.contracts.UniversalAdapter;
+  const portfolioContractAddress = deployment.contracts.ArtPortfolioFhe?.address;
   const [loading, setLoading] = useState(true);
   const [artCollection, setArtCollection] = useState<ArtPiece[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showAddModal, setShowAddModal] = useState(false);
   const [adding, setAdding] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
-  const [newArtPiece, setNewArtPiece] = useState({ title: "", artist: "", year: 0, acquisitionPrice: 0 });
+  const [newArtPiece, setNewArtPiece] = useState(EMPTY_ART_PIECE);
   const [selectedArt, setSelectedArt] = useState<ArtPiece | null>(null);
   const [decryptedValue, setDecryptedValue] = useState<number | null>(null);
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [publicKey, setPublicKey] = useState<string>("");
-  const [contractAddress, setContractAddress] = useState<string>("");
-  const [chainId, setChainId] = useState<number>(0);
-  const [startTimestamp, setStartTimestamp] = useState<number>(0);
-  const [durationDays, setDurationDays] = useState<number>(30);
   const [searchTerm, setSearchTerm] = useState("");
   const [showValuationChart, setShowValuationChart] = useState(false);
-
-  // Style randomization (Art Deco UI with gold/black color scheme)
-  const colors = {
-    primary: "#D4AF37", // Gold
-    secondary: "#000000", // Black
-    accent: "#FFFFFF", // White
-    background: "#1A1A1A", // Dark gray
-    text: "#E5E5E5", // Light gray
-    highlight: "#FFD700" // Brighter gold
-  };
+  const [decryptedValuations, setDecryptedValuations] = useState<Record<string, number>>({});
+  const [recordErrors, setRecordErrors] = useState<ArtRecordError[]>([]);
+  const [orphanedArt, setOrphanedArt] = useState<OrphanedArt[]>([]);
+  const navigate = useNavigate();
+  const portfolioMatch = useMatch(PORTFOLIO_ROUTE);
+  const sharedMatch = useMatch(SHARED_PATH);
+  const adminMatch = useMatch(ADMIN_PATH);
+  const loansMatch = useMatch(LOANS_PATH);
+  const transfersMatch = useMatch(TRANSFERS_PATH);
+  const auctionsMatch = useMatch(AUCTIONS_PATH);
+  const appraisalsMatch = useMatch(APPRAISALS_PATH);
+  const disclosuresMatch = useMatch(DISCLOSURES_PATH);
+  const insuranceMatch = useMatch(INSURANCE_PATH);
+  const [authenticators, setAuthenticators] = useState<string[]>([]);
+  const [reviews, setReviews] = useState<Map<string, ArtReview>>(new Map());
+  const [portfolioOwner, setPortfolioOwner] = useState<string | null>(null);
+  const [showWealthProof, setShowWealthProof] = useState(false);
+  const [bundles, setBundles] = useState<CollateralBundle[]>([]);
+  const [bundleSelection, setBundleSelection] = useState<string[]>([]);
+  const [showBundleModal, setShowBundleModal] = useState(false);
+  const [transfers, setTransfers] = useState<ArtTransfer[]>([]);
+  const [auctions, setAuctions] = useState<ArtAuction[]>([]);
+  const [appraisals, setAppraisals] = useState<ArtAppraisal[]>([]);
+  const [appraisers, setAppraisers] = useState<string[]>([]);
+  const [disclosures, setDisclosures] = useState<DisclosureGrant[]>([]);
+  const [reportingCurrency, setReportingCurrency] = useState<ArtCurrency>(() => {
+    const stored = window.localStorage.getItem(REPORTING_CURRENCY_KEY) as ArtCurrency | null;
+    return stored && ART_CURRENCIES.includes(stored) ? stored : "USD";
+  });
+  const [showRpcDebug, setShowRpcDebug] = useState(() => window.localStorage.getItem(RPC_DEBUG_KEY) === "true");
+  const [fxQuote, setFxQuote] = useState<FxQuote | null>(null);
+  const [portfolioTotal, setPortfolioTotal] = useState<{ total: bigint; overflowed: boolean; currency: ArtCurrency } | null>(null);
+  const portfolioAddress = portfolioMatch?.params.address ?? "";
+  const view: PortfolioView | null =
+    portfolioMatch ? (ethers.isAddress(portfolioAddress) ? { kind: "portfolio", owner: portfolioAddress } : null) :
+    sharedMatch ? { kind: "shared" } : { kind: "public" };
 
   useEffect(() => {
     loadArtCollection().finally(() => setLoading(false));
-    const initSignatureParams = async () => {
-      const contract = await getContractReadOnly();
-      if (contract) setContractAddress(await contract.getAddress());
-      if (window.ethereum) {
-        const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
-        setChainId(parseInt(chainIdHex, 16));
-      }
-      setStartTimestamp(Math.floor(Date.now() / 1000));
-      setDurationDays(30);
-      setPublicKey(generatePublicKey());
-    };
-    initSignatureParams();
   }, []);
 
+  useEffect(() => {
+    window.localStorage.setItem(REPORTING_CURRENCY_KEY, reportingCurrency);
+    let cancelled = false;
+    getFxRateProvider().getQuote(reportingCurrency)
+      .then(quote => { if (!cancelled) setFxQuote(quote); })
+      .catch(e => console.error("Loading FX rates failed:", e));
+    return () => { cancelled = true; };
+  }, [reportingCurrency]);
+
+  // Amounts are encrypted for ArtPortfolioFhe, which takes them in and keeps the ACL entries that allow decrypting them.
+  const encryptionContext: EncryptionContext | null =
+    address && portfolioContractAddress ? { contractAddress: portfolioContractAddress, userAddress: address } : null;
+
+  // Decryption is checked against the same contract, since it holds the ACL entry of every handle a record points at.
+  const getDecryptionContext = async (): Promise<DecryptionContext> => {
+    if (!encryptionContext) throw new Error("Wallet not connected");
+    const contract = await getContractWithSigner();
+    return { ...encryptionContext, signer: contract.runner as ethers.Signer };
+  };
+
   const loadArtCollection = async () => {
     setIsRefreshing(true);
     try {
@@ -107,76 +151,145 @@ const App: React.FC = () => {
       if (!contract) return;
       const isAvailable = await contract.isAvailable();
       if (!isAvailable) return;
-      const keysBytes = await contract.getData("art_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try {
-          const keysStr = ethers.toUtf8String(keysBytes);
-          if (keysStr.trim() !== '') keys = JSON.parse(keysStr);
-        } catch (e) { console.error("Error parsing art keys:", e); }
+      const errors: ArtRecordError[] = [];
+      const roles = await loadRoles();
+      // A record counts when whoever owned the piece at the time wrote it, or when it only sets the verdict reviewed on chain.
+      const authority = (id: string): RecordAuthority => ({ handOvers: handOvers(id, roles?.transfers ?? []), review: roles?.reviews.get(id) });
+      let stored: Map<string, string>;
+      try {
+        const entries = await syncDataStored(contract, { fromBlock: adapter.deployBlock });
+        stored = new Map();
+        const trusted: IndexedEntry[] = [];
+        for (const entry of entries.values()) {
+          const id = artIdFromKey(entry.key);
+          if (!id) { trusted.push(entry); continue; }
+          // A write by anyone else is skipped in favour of the latest one the owner made, so it cannot replace or hide a piece.
+          const latest = isTrustedWriter(id, entry.sender, entry.blockNumber, authority(id).handOvers)
+            ? entry
+            : trustedVersions(id, await getKeyHistory(contract, entry.key), authority(id)).pop();
+          if (latest) {
+            stored.set(id, latest.value);
+            trusted.push(latest);
+          } else {
+            errors.push(new ArtRecordError(entry.key, `was written by ${entry.sender}, who does not own the piece`));
+          }
+        }
+        setOrphanedArt(findOrphanedArt(trusted));
+      } catch (e) {
+        console.warn("DataStored index unavailable, loading through art_keys instead:", e);
+        stored = await loadArtRecordsByKey(contract, errors);
+        setOrphanedArt([]);
       }
       const collection: ArtPiece[] = [];
-      for (const key of keys) {
+      for (const [id, artBytes] of stored) {
+        if (ethers.dataLength(artBytes) === 0) continue;
         try {
-          const artBytes = await contract.getData(`art_${key}`);
-          if (artBytes.length > 0) {
-            try {
-              const artData = JSON.parse(ethers.toUtf8String(artBytes));
-              collection.push({ 
-                id: key, 
-                encryptedValue: artData.value, 
-                title: artData.title, 
-                artist: artData.artist, 
-                year: artData.year, 
-                acquisitionDate: artData.acquisitionDate, 
-                owner: artData.owner, 
-                status: artData.status || "pending",
-                valuation: artData.valuation || FHECompute(artData.value, 'increase10%')
-              });
-            } catch (e) { console.error(`Error parsing art data for ${key}:`, e); }
-          }
-        } catch (e) { console.error(`Error loading art ${key}:`, e); }
+          collection.push({ id, ...decodeArtRecord(id, artBytes) });
+        } catch (e) {
+          errors.push(e instanceof ArtRecordError ? e : new ArtRecordError(artRecordKey(id), String(e), { cause: e }));
+        }
       }
       collection.sort((a, b) => b.acquisitionDate - a.acquisitionDate);
       setArtCollection(collection);
+      setRecordErrors(errors);
     } catch (e) { console.error("Error loading art collection:", e); } 
     finally { setIsRefreshing(false); setLoading(false); }
   };
 
+  const loadRoles = async (): Promise<{ transfers: ArtTransfer[]; reviews: Map<string, ArtReview> } | null> => {
+    const portfolio = await getPortfolioContractReadOnly();
+    if (!portfolio) return null;
+    try {
+      const [owner, registered, reviewed, pledged, handedOver, sales, appraised, providers, disclosed] = await Promise.all([
+        portfolio.owner(),
+        loadAuthenticators(portfolio),
+        loadReviews(portfolio),
+        loadBundles(portfolio),
+        loadTransfers(portfolio),
+        loadAuctions(portfolio),
+        loadAppraisals(portfolio),
+        loadAppraisers(portfolio),
+        loadDisclosureGrants(portfolio)
+      ]);
+      setPortfolioOwner(owner);
+      setAuthenticators(registered);
+      setReviews(reviewed);
+      setBundles(pledged);
+      setTransfers(handedOver);
+      setAuctions(sales);
+      setAppraisals(appraised);
+      setAppraisers(providers);
+      setDisclosures(disclosed);
+      return { transfers: handedOver, reviews: reviewed };
+    } catch (e) { console.error("Error loading authenticators:", e); return null; }
+  };
+
+  // Slow path for RPCs that refuse eth_getLogs: one getData call per artwork listed in the legacy
+  // index or the connected collector's own index.
+  const loadArtRecordsByKey = async (contract: ethers.Contract, errors: ArtRecordError[]) => {
+    const stored = new Map<string, string>();
+    const keys = new Set<string>();
+    for (const indexKey of address ? [ART_KEYS_KEY, ownerIndexKey(address)] : [ART_KEYS_KEY]) {
+      try {
+        decodeArtKeys(await contract.getData(indexKey), indexKey).forEach(key => keys.add(key));
+      } catch (e) {
+        errors.push(e instanceof ArtRecordError ? e : new ArtRecordError(indexKey, String(e), { cause: e }));
+      }
+    }
+    for (const key of keys) {
+      try {
+        stored.set(key, await contract.getData(artRecordKey(key)));
+      } catch (e) {
+        errors.push(new ArtRecordError(artRecordKey(key), `could not be loaded (${e instanceof Error ? e.message : e})`, { cause: e }));
+      }
+    }
+    return stored;
+  };
+
   const addArtPiece = async () => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
     setAdding(true);
     setTransactionStatus({ visible: true, status: "pending", message: "Encrypting acquisition price with Zama FHE..." });
     try {
-      const encryptedValue = FHEEncryptNumber(newArtPiece.acquisitionPrice);
+      if (!encryptionContext) throw new Error(portfolioContractAddress ? "Wallet not connected" : `ArtPortfolioFhe is not deployed on ${deployment.name}`);
+      const acquisitionDate = Math.floor(Date.now() / 1000);
+      const currency = ART_CURRENCIES.includes(newArtPiece.currency as ArtCurrency) ? newArtPiece.currency as ArtCurrency : "USD";
+      // New pieces start at what was paid; revaluations replace it with a recorded method.
+      const initialValuation = await runValuation(new AcquisitionCostModel(), {
+        piece: { artist: newArtPiece.artist, currency, acquisitionDate },
+        acquisitionPrice: newArtPiece.acquisitionPrice,
+        now: acquisitionDate
+      });
       const contract = await getContractWithSigner();
       if (!contract) throw new Error("Failed to get contract with signer");
-      const artId = `art-${Date.now()}-${Math.random().toString(36).substring(2, 6)}`;
-      const artData = { 
-        value: encryptedValue, 
+      const artId = newArtId(address!);
+      const registered = await registerArtValues(await getPortfolioContractWithSigner(), artId, newArtPiece.acquisitionPrice, initialValuation.amount);
+      const artData: ArtRecord = { 
+        schemaVersion: ART_SCHEMA_VERSION,
         title: newArtPiece.title, 
         artist: newArtPiece.artist, 
         year: newArtPiece.year, 
-        acquisitionDate: Math.floor(Date.now() / 1000), 
-        owner: address, 
+        acquisitionDate, 
+        owner: address!, 
         status: "pending",
-        valuation: FHEEncryptNumber(newArtPiece.acquisitionPrice * 1.2) // Initial valuation 20% higher
+        encryptedValue: registered.costBasis, 
+        valuation: registered.valuation,
+        valuationMethod: initialValuation.method,
+        currency,
+        location: newArtPiece.location.trim(),
+        condition: "unrecorded",
+        visibility: newArtPiece.visibility === "private" ? "private" : "public",
+        sharedWith: parseAddressList(newArtPiece.sharedWith).map(a => ethers.getAddress(a))
       };
-      await contract.setData(`art_${artId}`, ethers.toUtf8Bytes(JSON.stringify(artData)));
-      const keysBytes = await contract.getData("art_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try { keys = JSON.parse(ethers.toUtf8String(keysBytes)); } 
-        catch (e) { console.error("Error parsing keys:", e); }
-      }
-      keys.push(artId);
-      await contract.setData("art_keys", ethers.toUtf8Bytes(JSON.stringify(keys)));
+      await (await contract.setData(artRecordKey(artId), encodeArtRecord(artId, artData))).wait();
+      // If this second write fails the record stays discoverable from its DataStored log and can be re-indexed.
+      await appendToOwnIndex(contract, [artId]);
       setTransactionStatus({ visible: true, status: "success", message: "Art piece added with FHE encryption!" });
       await loadArtCollection();
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowAddModal(false);
-        setNewArtPiece({ title: "", artist: "", year: 0, acquisitionPrice: 0 });
+        setNewArtPiece(EMPTY_ART_PIECE);
       }, 2000);
     } catch (e: any) {
       const errorMessage = e.message.includes("user rejected transaction") ? "Transaction rejected by user" : "Submission failed: " + (e.message || "Unknown error");
@@ -185,95 +298,543 @@ const App: React.FC = () => {
     } finally { setAdding(false); }
   };
 
+  // Only the connected collector writes their index, so concurrent collectors never overwrite each other.
+  const appendToOwnIndex = async (contract: ethers.Contract, artIds: string[]) => {
+    const indexKey = ownerIndexKey(address!);
+    const keys = decodeArtKeys(await contract.getData(indexKey), indexKey);
+    const missing = artIds.filter(id => !keys.includes(id));
+    if (missing.length === 0) return;
+    await (await contract.setData(indexKey, encodeArtKeys([...keys, ...missing]))).wait();
+  };
+
+  const repairArtIndex = async () => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: "Re-indexing orphaned art pieces..." });
+    try {
+      const contract = await getContractWithSigner();
+      await appendToOwnIndex(contract, ownOrphans.map(o => o.id));
+      setTransactionStatus({ visible: true, status: "success", message: `Re-indexed ${ownOrphans.length} art piece${ownOrphans.length === 1 ? "" : "s"}` });
+      await loadArtCollection();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Re-indexing failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const loadProvenance = async (artId: string): Promise<TimedProvenanceEvent[]> => {
+    const contract = await getContractReadOnly();
+    if (!contract) throw new Error("Contract is not available");
+    await syncDataStored(contract, { fromBlock: adapter.deployBlock });
+    const authority: RecordAuthority = { handOvers: handOvers(artId, transfers), review: reviews.get(artId) };
+    const events = buildProvenance(artId, await getKeyHistory(contract, artRecordKey(artId)), authority).map(event => {
+      if (event.action !== "transferred") return event;
+      const handOver = acceptedTransfer({ id: artId, ...event.record }, transfers);
+      return {
+        ...event,
+        description: handOver
+          ? `${event.description} (offer #${handOver.offerId} accepted)`
+          : `${event.description} without an accepted transfer offer`
+      };
+    });
+    const provider = contract.runner!.provider!;
+    const timestamps = new Map<number, number | null>();
+    for (const blockNumber of new Set(events.map(e => e.blockNumber))) {
+      const block = await provider.getBlock(blockNumber).catch(() => null);
+      timestamps.set(blockNumber, block ? block.timestamp : null);
+    }
+    return events.map(e => ({ ...e, timestamp: timestamps.get(e.blockNumber) ?? null }));
+  };
+
   const decryptWithSignature = async (encryptedData: string): Promise<number | null> => {
     if (!isConnected) { alert("Please connect wallet first"); return null; }
     setIsDecrypting(true);
     try {
-      const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}\nstartTimestamp:${startTimestamp}\ndurationDays:${durationDays}`;
-      await signMessageAsync({ message });
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      return FHEDecryptNumber(encryptedData);
+      return await decryptAmount(encryptedData, await getDecryptionContext());
     } catch (e) { console.error("Decryption failed:", e); return null; } 
     finally { setIsDecrypting(false); }
   };
 
-  const authenticateArt = async (artId: string) => {
+  // Authenticators attest on ArtPortfolioFhe first, then write the new status into the record.
+  const reviewArt = async (artId: string, authentic: boolean) => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
-    setTransactionStatus({ visible: true, status: "pending", message: "Processing encrypted valuation with FHE..." });
+    const action = authentic ? "Authentication" : "Rejection";
+    setTransactionStatus({ visible: true, status: "pending", message: `Recording ${action.toLowerCase()} on-chain...` });
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) throw new Error("Failed to get contract");
-      const artBytes = await contract.getData(`art_${artId}`);
-      if (artBytes.length === 0) throw new Error("Art piece not found");
-      const artData = JSON.parse(ethers.toUtf8String(artBytes));
-      
-      const updatedValuation = FHECompute(artData.valuation, 'increase10%');
-      
-      const contractWithSigner = await getContractWithSigner();
-      if (!contractWithSigner) throw new Error("Failed to get contract with signer");
-      
-      const updatedArt = { ...artData, status: "authenticated", valuation: updatedValuation };
-      await contractWithSigner.setData(`art_${artId}`, ethers.toUtf8Bytes(JSON.stringify(updatedArt)));
+      const contract = await getContractWithSigner();
+      const artBytes = await contract.getData(artRecordKey(artId));
+      if (ethers.dataLength(artBytes) === 0) throw new Error("Art piece not found");
+      const artData = decodeArtRecord(artId, artBytes);
+      if (!canReview({ id: artId, ...artData }, address, isAuthenticator)) {
+        throw new Error(isOwner(artData.owner) ? "Owners cannot review their own pieces" : "Only registered authenticators can review pending pieces");
+      }
+
+      const portfolio = await getPortfolioContractWithSigner();
+      await (await portfolio.reviewArtwork(artId, authentic)).wait();
+
+      const updatedArt: ArtRecord = { ...artData, status: authentic ? "authenticated" : "rejected" };
+      await (await contract.setData(artRecordKey(artId), encodeArtRecord(artId, updatedArt))).wait();
       
-      setTransactionStatus({ visible: true, status: "success", message: "Art authenticated with updated FHE valuation!" });
+      setTransactionStatus({ visible: true, status: "success", message: authentic ? "Art piece authenticated!" : "Art piece rejected!" });
       await loadArtCollection();
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
     } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "Authentication failed: " + (e.message || "Unknown error") });
+      setTransactionStatus({ visible: true, status: "error", message: `${action} failed: ` + (e.message || "Unknown error") });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     }
   };
 
-  const rejectArt = async (artId: string) => {
-    if (!isConnected) { alert("Please connect wallet first"); return; }
-    setTransactionStatus({ visible: true, status: "pending", message: "Processing encrypted data with FHE..." });
+  // The model runs on the decrypted acquisition price; only its result is encrypted, next to the method it was made with.
+  const revalueArt = async (art: ArtPiece, model: ValuationModel) => {
+    setTransactionStatus({ visible: true, status: "pending", message: "Revaluing and encrypting the new valuation..." });
     try {
       const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      const artBytes = await contract.getData(`art_${artId}`);
-      if (artBytes.length === 0) throw new Error("Art piece not found");
-      const artData = JSON.parse(ethers.toUtf8String(artBytes));
-      const updatedArt = { ...artData, status: "rejected" };
-      await contract.setData(`art_${artId}`, ethers.toUtf8Bytes(JSON.stringify(updatedArt)));
-      setTransactionStatus({ visible: true, status: "success", message: "Art piece rejected!" });
+      const artData = decodeArtRecord(art.id, await contract.getData(artRecordKey(art.id)));
+      if (!isOwner(artData.owner)) throw new Error("Only the owner can revalue a piece");
+      const ctx = await getDecryptionContext();
+      const acquisitionPrice = await decryptAmount(artData.encryptedValue, ctx);
+      const valuation = await runValuation(model, { piece: artData, acquisitionPrice, now: Math.floor(Date.now() / 1000) });
+      const updatedArt = await revaluedRecord(await getPortfolioContractWithSigner(), { id: art.id, ...artData }, acquisitionPrice, valuation);
+      await (await contract.setData(artRecordKey(art.id), encodeArtRecord(art.id, updatedArt))).wait();
+      setDecryptedValuations(prev => ({ ...prev, [art.id]: valuation.amount }));
+      setTransactionStatus({ visible: true, status: "success", message: "Art piece revalued!" });
+      setSelectedArt(null);
+      await loadArtCollection();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Revaluation failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  // Records from before amounts were encrypted carry them in the clear; registering them replaces the cleartext with handles.
+  const reencryptArt = (art: ArtPiece) =>
+    runPortfolioAction("Encrypting the legacy amounts...", "Amounts encrypted!", "Encryption failed", async () => {
+      const contract = await getContractWithSigner();
+      const { legacyAmounts, ...artData } = decodeArtRecord(art.id, await contract.getData(artRecordKey(art.id)));
+      if (!isOwner(artData.owner)) throw new Error("Only the owner can encrypt a piece's amounts");
+      if (!legacyAmounts) throw new Error("The amounts of this piece are already encrypted");
+      const registered = await registerArtValues(await getPortfolioContractWithSigner(), art.id, legacyAmounts.acquisitionPrice, legacyAmounts.valuation);
+      const updatedArt: ArtRecord = { ...artData, encryptedValue: registered.costBasis, valuation: registered.valuation };
+      await (await contract.setData(artRecordKey(art.id), encodeArtRecord(art.id, updatedArt))).wait();
+      setSelectedArt(null);
+    });
+
+  const reportCondition = (art: ArtPiece, location: string, condition: ArtCondition) =>
+    runPortfolioAction("Updating location and condition...", "Record updated!", "Update failed", async () => {
+      const contract = await getContractWithSigner();
+      const artData = decodeArtRecord(art.id, await contract.getData(artRecordKey(art.id)));
+      if (!isOwner(artData.owner)) throw new Error("Only the owner can report on a piece");
+      await (await contract.setData(artRecordKey(art.id), encodeArtRecord(art.id, { ...artData, location, condition }))).wait();
+      setSelectedArt(null);
+    });
+
+  const updateAuthenticator = async (account: string, add: boolean) => {
+    setTransactionStatus({ visible: true, status: "pending", message: add ? "Registering authenticator..." : "Removing authenticator..." });
+    try {
+      const portfolio = await getPortfolioContractWithSigner();
+      const tx = add ? await portfolio.addAuthenticator(account) : await portfolio.removeAuthenticator(account);
+      await tx.wait();
+      setTransactionStatus({ visible: true, status: "success", message: add ? "Authenticator registered!" : "Authenticator removed!" });
       await loadArtCollection();
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
     } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "Rejection failed: " + (e.message || "Unknown error") });
+      setTransactionStatus({ visible: true, status: "error", message: "Update failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  // Valuations are decrypted locally, re-encrypted for ArtPortfolioFhe and summed there; only the threshold comparison is revealed.
+  const proveWealthThreshold = async (threshold: number, onStep: (step: WealthProofStep) => void): Promise<WealthProofReceipt> => {
+    if (!isConnected) throw new Error("Please connect wallet first");
+    onStep("preparing");
+    const values = await decryptValuations(provableArt);
+    const quote = await getFxRateProvider().getQuote(reportingCurrency);
+    const rates = provableArt.map(art => fixedRate(quote, art.currency));
+    return proveWealth(await getPortfolioContractWithSigner(), values, rates, reportingCurrency, threshold, onStep);
+  };
+
+  // Each valuation is multiplied by its plaintext FX rate under encryption; only the connected collector can read the sum.
+  const computePortfolioTotal = async () => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: "Decrypting valuations..." });
+    try {
+      const values = await decryptValuations(provableArt);
+      const quote = await getFxRateProvider().getQuote(reportingCurrency);
+      const rates = provableArt.map(art => fixedRate(quote, art.currency));
+      const { signer } = await getDecryptionContext();
+      const result = await decryptPortfolioTotal(await getPortfolioContractWithSigner(), values, rates, { signer, userAddress: address! }, step =>
+        setTransactionStatus({ visible: true, status: "pending", message: step === "decrypting" ? "Decrypting the encrypted total..." : "Converting and adding up under encryption..." }));
+      setPortfolioTotal({ ...result, currency: reportingCurrency });
+      setTransactionStatus({ visible: true, status: "success", message: "Portfolio total decrypted" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Computing the total failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const decryptValuations = async (pieces: ArtPiece[]): Promise<number[]> => {
+    const decrypted: Record<string, number> = {};
+    for (const art of pieces) {
+      decrypted[art.id] = decryptedValuations[art.id] ?? await decryptAmount(art.valuation, await getDecryptionContext());
+    }
+    setDecryptedValuations(prev => ({ ...prev, ...decrypted }));
+    return pieces.map(art => decrypted[art.id]);
+  };
+
+  // Rewrites the stored status of the connected collector's pieces, e.g. to lock or unlock them as collateral.
+  const writeStatus = async (artIds: string[], status: ArtRecord["status"]) => {
+    const contract = await getContractWithSigner();
+    for (const artId of artIds) {
+      const artData = decodeArtRecord(artId, await contract.getData(artRecordKey(artId)));
+      if (!isOwner(artData.owner)) throw new Error(`You do not own ${artData.title}`);
+      if (artData.status === status) continue;
+      await (await contract.setData(artRecordKey(artId), encodeArtRecord(artId, { ...artData, status }))).wait();
+    }
+  };
+
+  // The bundle locks the pieces on ArtPortfolioFhe first; the stored status only mirrors it for other views.
+  const pledgeSelection = async (lender: string, loanAmount: number, onStep: (step: BundleStep) => void) => {
+    if (!isConnected) throw new Error("Please connect wallet first");
+    const pieces = artCollection.filter(a => bundleSelection.includes(a.id));
+    const values = await decryptValuations(pieces);
+    const quote = await getFxRateProvider().getQuote(reportingCurrency);
+    const portfolio = await getPortfolioContractWithSigner();
+    await createCollateralBundle(portfolio, pieces.map(a => a.id), values, pieces.map(a => fixedRate(quote, a.currency)), lender, loanAmount, onStep);
+    await writeStatus(pieces.map(a => a.id), "collateralized");
+    setShowBundleModal(false);
+    setBundleSelection([]);
+    await loadArtCollection();
+    navigate(LOANS_PATH);
+  };
+
+  const releaseBundle = async (bundleId: string) => {
+    setTransactionStatus({ visible: true, status: "pending", message: "Releasing collateral..." });
+    try {
+      await releaseCollateralBundle(await getPortfolioContractWithSigner(), bundleId);
+      setTransactionStatus({ visible: true, status: "success", message: "Bundle released, the borrower can unlock their pieces" });
+      await loadArtCollection();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Release failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const unlockBundle = async (bundle: CollateralBundle) => {
+    setTransactionStatus({ visible: true, status: "pending", message: "Unlocking pieces..." });
+    try {
+      const portfolio = await getPortfolioContractWithSigner();
+      if ((await portfolio.bundles(bundle.bundleId)).active) throw new Error("The lender has not released this bundle yet");
+      const stillLocked = artCollection.filter(a => bundle.artIds.includes(a.id) && a.status === "collateralized");
+      await writeStatus(stillLocked.map(a => a.id), "authenticated");
+      setTransactionStatus({ visible: true, status: "success", message: "Pieces unlocked!" });
+      await loadArtCollection();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Unlock failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const decryptLoan = async (bundleId: string) => {
+    const portfolio = await getPortfolioContractWithSigner();
+    return decryptBundle(portfolio, bundleId, { userAddress: address!, signer: portfolio.runner as ethers.Signer });
+  };
+
+  // ArtPortfolioFhe hands the registered cost basis and valuation to the recipient once they accept.
+  const offerTransfer = async (art: ArtPiece, to: string) => {
+    setTransactionStatus({ visible: true, status: "pending", message: "Offering the piece to the recipient..." });
+    try {
+      await offerArtTransfer(await getPortfolioContractWithSigner(), art, to);
+      setTransactionStatus({ visible: true, status: "success", message: "Transfer offered!" });
+      setSelectedArt(null);
+      await loadArtCollection();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Offer failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  // Accepting happens on ArtPortfolioFhe; the new owner then rewrites the record, which adds the hand-off to its provenance.
+  const recordTransfer = async (transfer: ArtTransfer) => {
+    const contract = await getContractWithSigner();
+    const artData = decodeArtRecord(transfer.artId, await contract.getData(artRecordKey(transfer.artId)));
+    const updatedArt = await transferredRecord(await getPortfolioContractWithSigner(), transfer, artData);
+    await (await contract.setData(artRecordKey(transfer.artId), encodeArtRecord(transfer.artId, updatedArt))).wait();
+    await appendToOwnIndex(contract, [transfer.artId]);
+  };
+
+  const acceptTransfer = async (transfer: ArtTransfer) => {
+    setTransactionStatus({ visible: true, status: "pending", message: "Accepting transfer..." });
+    try {
+      await acceptArtTransfer(await getPortfolioContractWithSigner(), transfer.offerId);
+      setTransactionStatus({ visible: true, status: "pending", message: "Recording your ownership..." });
+      await recordTransfer({ ...transfer, status: "accepted" });
+      setTransactionStatus({ visible: true, status: "success", message: "The piece is now yours!" });
+      await loadArtCollection();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      await loadArtCollection();
+      setTransactionStatus({ visible: true, status: "error", message: "Transfer failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const finishTransfer = async (transfer: ArtTransfer) => {
+    setTransactionStatus({ visible: true, status: "pending", message: "Recording your ownership..." });
+    try {
+      await recordTransfer(transfer);
+      setTransactionStatus({ visible: true, status: "success", message: "The piece is now yours!" });
+      await loadArtCollection();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Recording failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const cancelTransfer = async (transfer: ArtTransfer) => {
+    const declining = isOwner(transfer.to);
+    setTransactionStatus({ visible: true, status: "pending", message: declining ? "Declining transfer..." : "Cancelling offer..." });
+    try {
+      await cancelArtTransfer(await getPortfolioContractWithSigner(), transfer.offerId);
+      setTransactionStatus({ visible: true, status: "success", message: declining ? "Transfer declined" : "Offer cancelled" });
+      await loadArtCollection();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Update failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const runPortfolioAction = async (pending: string, success: string, failure: string, action: () => Promise<unknown>) => {
+    setTransactionStatus({ visible: true, status: "pending", message: pending });
+    try {
+      await action();
+      setTransactionStatus({ visible: true, status: "success", message: success });
+      await loadArtCollection();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: `${failure}: ` + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const listForAuction = (piece: ArtPiece, durationSeconds: number) =>
+    runPortfolioAction("Listing for auction...", "Listed! Bids stay sealed until the auction closes", "Listing failed", async () =>
+      createArtAuction(await getPortfolioContractWithSigner(), piece, durationSeconds));
+
+  const bidOnAuction = (auction: ArtAuction, amount: number) =>
+    runPortfolioAction("Encrypting and placing your sealed bid...", "Sealed bid placed!", "Bid failed", async () =>
+      placeSealedBid(await getPortfolioContractWithSigner(), auction.auctionId, amount));
+
+  // Closing asks the oracle for the winner; the page shows it once AuctionSettled is emitted.
+  const closeAuction = (auction: ArtAuction) =>
+    runPortfolioAction("Closing auction...", "Auction closed, the winner is being revealed", "Closing failed", async () =>
+      closeArtAuction(await getPortfolioContractWithSigner(), auction.auctionId));
+
+  const handOverToWinner = (auction: ArtAuction) => {
+    const piece = artCollection.find(a => a.id === auction.artId);
+    if (!piece || !auction.winner) return;
+    if (pendingTransfer(piece, transfers)) { alert("This piece already has a pending transfer offer"); return; }
+    offerTransfer(piece, auction.winner);
+  };
+
+  const requestAppraisal = (art: ArtPiece, appraiser: string) =>
+    runPortfolioAction("Requesting appraisal...", "Appraisal requested!", "Request failed", async () =>
+      requestArtAppraisal(await getPortfolioContractWithSigner(), art, appraiser));
+
+  const acceptAppraisal = (appraisal: ArtAppraisal) =>
+    runPortfolioAction("Accepting appraisal request...", "Request accepted!", "Accepting failed", async () =>
+      acceptArtAppraisal(await getPortfolioContractWithSigner(), appraisal.appraisalId));
+
+  // The figure is encrypted so only the owner is granted it, and signed together with the report hash.
+  const deliverAppraisal = (appraisal: ArtAppraisal, amount: number, report: string) =>
+    runPortfolioAction("Encrypting and signing the appraisal...", "Appraisal delivered!", "Delivery failed", async () =>
+      deliverArtAppraisal(await getPortfolioContractWithSigner(), appraisal.appraisalId, amount, report));
+
+  const disputeAppraisal = (appraisal: ArtAppraisal, reason: string) =>
+    runPortfolioAction("Disputing appraisal...", "Appraisal disputed, the appraiser can deliver a revision", "Dispute failed", async () =>
+      disputeArtAppraisal(await getPortfolioContractWithSigner(), appraisal.appraisalId, reason));
+
+  const adoptAppraisal = (art: ArtPiece, appraisal: ArtAppraisal, amount: number) =>
+    revalueArt(art, new AppraisalModel({
+      appraiser: appraisal.appraiser,
+      appraisedAt: appraisal.deliveredAt ?? Math.floor(Date.now() / 1000),
+      amount
+    }));
+
+  // The owner decrypts each field and encrypts it again for ArtPortfolioFhe, which hands the grantee a fresh copy per access.
+  const grantDisclosures = (grantee: string, pieces: ArtPiece[], fields: DisclosureField[], days: number) =>
+    runPortfolioAction("Re-encrypting the disclosed figures...", "Access granted!", "Granting failed", async () => {
+      const entries = [];
+      for (const piece of pieces) {
+        const ctx = await getDecryptionContext();
+        for (const field of fields) {
+          const amount = field === "costBasis"
+            ? await decryptAmount(piece.encryptedValue, ctx)
+            : decryptedValuations[piece.id] ?? await decryptAmount(piece.valuation, ctx);
+          entries.push({ piece, field, amount });
+        }
+      }
+      const expiresAt = Math.floor(Date.now() / 1000) + days * 24 * 60 * 60;
+      return grantArtDisclosures(await getPortfolioContractWithSigner(), grantee, entries, expiresAt);
+    });
+
+  const revokeDisclosure = (grant: DisclosureGrant) =>
+    runPortfolioAction("Revoking access...", "Access revoked!", "Revoking failed", async () =>
+      revokeArtDisclosure(await getPortfolioContractWithSigner(), grant.grantId));
+
+  // Every access is logged on chain before the grantee is allowed the copy they decrypt.
+  const accessDisclosure = async (grant: DisclosureGrant): Promise<number | null> => {
+    setTransactionStatus({ visible: true, status: "pending", message: "Logging access..." });
+    try {
+      const handle = await accessArtDisclosure(await getPortfolioContractWithSigner(), grant.grantId);
+      setTransactionStatus({ visible: false, status: "pending", message: "" });
+      loadRoles();
+      return await decryptWithSignature(handle);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Access failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return null;
+    }
+  };
+
+  const issueSchedule = (insurer: string, insured: InsuredPiece[], days: number) =>
+    runPortfolioAction("Encrypting insured values for the insurer...", "Insurance schedule issued!", "Issuing failed", async () =>
+      issueInsuranceSchedule(await getPortfolioContractWithSigner(), insurer, insured, Math.floor(Date.now() / 1000) + days * 24 * 60 * 60));
+
+  const revokeSchedule = (schedule: InsuranceSchedule) =>
+    runPortfolioAction("Revoking the insurer's access...", "Schedule revoked!", "Revoking failed", async () => {
+      const portfolio = await getPortfolioContractWithSigner();
+      for (const line of readableLines(schedule, disclosures)) await revokeArtDisclosure(portfolio, line.grantId);
+    });
+
+  const loadValuations = async (pieces: ArtPiece[]): Promise<Record<string, number>> => {
+    const valuations: Record<string, number> = {};
+    try {
+      for (const piece of pieces) {
+        valuations[piece.id] = decryptedValuations[piece.id] ?? await decryptAmount(piece.valuation, await getDecryptionContext());
+      }
+      setDecryptedValuations(prev => ({ ...prev, ...valuations }));
+    } catch (e: any) {
+      alert("Decryption failed: " + (e.message || "Unknown error"));
+    }
+    return valuations;
+  };
+
+  // One transaction logs the access to every readable line, then one signature decrypts them all.
+  const decryptSchedule = async (schedule: InsuranceSchedule): Promise<InsuredValues | null> => {
+    setTransactionStatus({ visible: true, status: "pending", message: "Logging access to the schedule..." });
+    try {
+      const lines = readableLines(schedule, disclosures);
+      const handles = await accessInsuranceSchedule(await getPortfolioContractWithSigner(), lines);
+      setTransactionStatus({ visible: true, status: "pending", message: "Decrypting insured values..." });
+      const amounts = await decryptAmounts(handles, await getDecryptionContext());
+      setTransactionStatus({ visible: false, status: "pending", message: "" });
+      loadRoles();
+      return Object.fromEntries(lines.map((line, i) => [line.grantId, amounts[i]]));
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Access failed: " + (e.message || "Unknown error") });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return null;
     }
   };
 
+  const toggleRpcDebug = () => {
+    window.localStorage.setItem(RPC_DEBUG_KEY, String(!showRpcDebug));
+    setShowRpcDebug(!showRpcDebug);
+  };
+
+  const toggleBundleSelection = (artId: string) =>
+    setBundleSelection(prev => prev.includes(artId) ? prev.filter(id => id !== artId) : [...prev, artId]);
+
+  const verifyWealthProof = async (receipt: WealthProofReceipt) => {
+    const portfolio = await getPortfolioContractReadOnly();
+    if (!portfolio) throw new Error("ArtPortfolioFhe is not available");
+    // A receipt can name any contract, including a look-alike emitting whatever it likes.
+    return verifyWealthProofReceipt(receipt, portfolio.runner!, { contractAddress: await portfolio.getAddress() });
+  };
+
   const isOwner = (artOwner: string) => address?.toLowerCase() === artOwner.toLowerCase();
+  const isAuthenticator = !!address && authenticators.some(a => isOwner(a));
+  const isAdmin = !!portfolioOwner && isOwner(portfolioOwner);
+  // Pieces whose amounts are still legacy cleartext have no handles to decrypt or hand to ArtPortfolioFhe.
+  const encryptedArt = artCollection.filter(a => !needsReencryption(a));
+  const provableArt = encryptedArt.filter(a => a.status === "authenticated" && isOwner(a.owner));
+  const locked = lockedArtwork(bundles);
+  const isEngaged = (art: ArtPiece) => isLocked(art, locked) || !!pendingTransfer(art, transfers) || !!runningAuction(art, auctions);
+  const canPledge = (art: ArtPiece) => art.status === "authenticated" && isOwner(art.owner) && !isEngaged(art) && !needsReencryption(art);
+  const canOffer = (art: ArtPiece) =>
+    !!portfolioContractAddress && isOwner(art.owner) && art.status !== "collateralized" && !isLocked(art, locked) && !runningAuction(art, auctions) &&
+    !needsReencryption(art);
+  const awaitsRecord = (t: ArtTransfer) => artCollection.some(a => a.id === t.artId && a.owner.toLowerCase() === t.from.toLowerCase());
+  const isAppraiser = appraisers.some(isOwner);
+  const myAppraisals = appraisals.filter(a => isOwner(a.appraiser));
+  const openAppraisalCount = myAppraisals.filter(a => a.status !== "delivered").length;
+  const transferInboxCount = transfers.filter(t => isOwner(t.to) && (t.status === "pending" || (t.status === "accepted" && awaitsRecord(t)))).length;
+  const isUnverified = (art: ArtPiece) =>
+    reviewState(art, reviews.get(art.id), authenticators) === "unverified" || (art.status === "collateralized") !== isLocked(art, locked);
 
-  const filteredCollection = artCollection.filter(art => 
+  const portfolioCollection = view ? selectPortfolio(artCollection, view, address) : [];
+  const isMyPortfolio = view?.kind === "portfolio" && isOwner(view.owner);
+  const viewTitle =
+    !view ? "Unknown Portfolio" :
+    view.kind === "public" ? "All Public Artworks" :
+    view.kind === "shared" ? "Artworks Shared With You" :
+    isMyPortfolio ? "Your Encrypted Art Collection" : `Portfolio of ${view.owner.substring(0, 6)}...${view.owner.substring(38)}`;
+
+  const filteredCollection = portfolioCollection.filter(art => 
     art.title.toLowerCase().includes(searchTerm.toLowerCase()) || 
     art.artist.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
-  const authenticatedCount = artCollection.filter(a => a.status === "authenticated").length;
-  const pendingCount = artCollection.filter(a => a.status === "pending").length;
-  const rejectedCount = artCollection.filter(a => a.status === "rejected").length;
+  const ownOrphans = orphanedArt.filter(o => isOwner(o.owner));
+
+  const authenticatedCount = portfolioCollection.filter(a => a.status === "authenticated").length;
+  const pendingCount = portfolioCollection.filter(a => a.status === "pending").length;
+  const rejectedCount = portfolioCollection.filter(a => a.status === "rejected").length;
+
+  const toggleValuationChart = async () => {
+    if (showValuationChart) { setShowValuationChart(false); return; }
+    setShowValuationChart(true);
+    const ownedArt = portfolioCollection.filter(a => a.status === "authenticated" && isOwner(a.owner) && !needsReencryption(a) && decryptedValuations[a.id] === undefined);
+    const decrypted: Record<string, number> = {};
+    for (const art of ownedArt) {
+      const value = await decryptWithSignature(art.valuation);
+      if (value === null) break;
+      decrypted[art.id] = value;
+    }
+    setDecryptedValuations(prev => ({ ...prev, ...decrypted }));
+  };
 
   const renderValuationChart = () => {
-    const authenticatedArt = artCollection.filter(a => a.status === "authenticated");
+    const authenticatedArt = portfolioCollection.filter(a => a.status === "authenticated");
     if (authenticatedArt.length === 0) return <div className="no-data">No authenticated art pieces for valuation</div>;
     
     return (
       <div className="valuation-chart">
-        {authenticatedArt.map(art => (
-          <div key={art.id} className="art-bar">
-            <div className="art-title">{art.title}</div>
-            <div className="bar-container">
-              <div 
-                className="bar-value" 
-                style={{ width: `${Math.min(100, FHEDecryptNumber(art.valuation) / 10000)}%` }}
-              >
-                ${(FHEDecryptNumber(art.valuation)).toLocaleString()}
+        {authenticatedArt.map(art => {
+          const valuation = decryptedValuations[art.id];
+          const reported = valuation === undefined || !fxQuote ? undefined : convertAmount(valuation, art.currency, fxQuote);
+          return (
+            <div key={art.id} className="art-bar">
+              <div className="art-title">{art.title}</div>
+              <div className="bar-container">
+                <div 
+                  className="bar-value" 
+                  style={{ width: `${reported === undefined ? 100 : Math.min(100, reported / 10000)}%` }}
+                >
+                  {valuation === undefined ? "Encrypted" : formatAmount(valuation, art.currency)}
+                  {reported !== undefined && art.currency !== reportingCurrency && ` (${formatAmount(reported, reportingCurrency)})`}
+                </div>
               </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
     );
   };
@@ -293,13 +854,87 @@ const App: React.FC = () => {
           <h1 style={{ color: colors.primary }}>Art<span style={{ color: colors.accent }}>Portfolio</span>FHE</h1>
         </div>
         <div className="header-actions">
-          <button 
-            onClick={() => setShowAddModal(true)} 
-            className="add-art-btn" 
-            style={{ backgroundColor: colors.primary, color: colors.secondary }}
-          >
-            + Add Art Piece
-          </button>
+          {portfolioContractAddress && (
+            <button 
+              onClick={() => setShowAddModal(true)} 
+              className="add-art-btn" 
+              style={{ backgroundColor: colors.primary, color: colors.secondary }}
+            >
+              + Add Art Piece
+            </button>
+          )}
+          {isAdmin && (
+            <button 
+              onClick={() => navigate(adminMatch ? PUBLIC_PATH : ADMIN_PATH)} 
+              className="add-art-btn" 
+              style={{ backgroundColor: colors.secondary, color: colors.primary, border: `1px solid ${colors.primary}` }}
+            >
+              {adminMatch ? "Back to Collection" : "Admin"}
+            </button>
+          )}
+          {portfolioContractAddress && (
+            <button 
+              onClick={() => navigate(auctionsMatch ? PUBLIC_PATH : AUCTIONS_PATH)} 
+              className="add-art-btn" 
+              style={{ backgroundColor: colors.secondary, color: colors.primary, border: `1px solid ${colors.primary}` }}
+            >
+              {auctionsMatch ? "Back to Collection" : "Auctions"}
+            </button>
+          )}
+          {portfolioContractAddress && (
+            <button 
+              onClick={() => navigate(transfersMatch ? PUBLIC_PATH : TRANSFERS_PATH)} 
+              className="add-art-btn" 
+              style={{ backgroundColor: colors.secondary, color: colors.primary, border: `1px solid ${colors.primary}` }}
+            >
+              {transfersMatch ? "Back to Collection" : `Transfers${transferInboxCount > 0 ? ` (${transferInboxCount})` : ""}`}
+            </button>
+          )}
+          {portfolioContractAddress && isAppraiser && (
+            <button 
+              onClick={() => navigate(appraisalsMatch ? PUBLIC_PATH : APPRAISALS_PATH)} 
+              className="add-art-btn" 
+              style={{ backgroundColor: colors.secondary, color: colors.primary, border: `1px solid ${colors.primary}` }}
+            >
+              {appraisalsMatch ? "Back to Collection" : `Appraisals${openAppraisalCount > 0 ? ` (${openAppraisalCount})` : ""}`}
+            </button>
+          )}
+          {portfolioContractAddress && (
+            <button 
+              onClick={() => navigate(disclosuresMatch ? PUBLIC_PATH : DISCLOSURES_PATH)} 
+              className="add-art-btn" 
+              style={{ backgroundColor: colors.secondary, color: colors.primary, border: `1px solid ${colors.primary}` }}
+            >
+              {disclosuresMatch ? "Back to Collection" : "Disclosures"}
+            </button>
+          )}
+          {portfolioContractAddress && (
+            <button 
+              onClick={() => navigate(insuranceMatch ? PUBLIC_PATH : INSURANCE_PATH)} 
+              className="add-art-btn" 
+              style={{ backgroundColor: colors.secondary, color: colors.primary, border: `1px solid ${colors.primary}` }}
+            >
+              {insuranceMatch ? "Back to Collection" : "Insurance"}
+            </button>
+          )}
+          {portfolioContractAddress && (
+            <button 
+              onClick={() => navigate(loansMatch ? PUBLIC_PATH : LOANS_PATH)} 
+              className="add-art-btn" 
+              style={{ backgroundColor: colors.secondary, color: colors.primary, border: `1px solid ${colors.primary}` }}
+            >
+              {loansMatch ? "Back to Collection" : "Loans"}
+            </button>
+          )}
+          {portfolioContractAddress && (
+            <button 
+              onClick={() => setShowWealthProof(true)} 
+              className="add-art-btn" 
+              style={{ backgroundColor: colors.secondary, color: colors.primary, border: `1px solid ${colors.primary}` }}
+            >
+              Wealth Proof
+            </button>
+          )}
           <div className="wallet-connect-wrapper">
             <ConnectButton accountStatus="address" chainStatus="icon" showBalance={false} />
           </div>
@@ -316,7 +951,97 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        {adminMatch ? (
+          <AuthenticatorAdmin
+            authenticators={authenticators}
+            isAdmin={isAdmin}
+            onAdd={(account) => updateAuthenticator(account, true)}
+            onRemove={(account) => updateAuthenticator(account, false)}
+            colors={colors}
+          />
+        ) : loansMatch ? (
+          <LoanBundles
+            bundles={bundles}
+            collection={artCollection}
+            account={address}
+            onDecrypt={decryptLoan}
+            onRelease={releaseBundle}
+            onUnlock={unlockBundle}
+            colors={colors}
+          />
+        ) : transfersMatch ? (
+          <TransferInbox
+            transfers={transfers}
+            collection={artCollection}
+            account={address}
+            onAccept={acceptTransfer}
+            onCancel={cancelTransfer}
+            onFinish={finishTransfer}
+            colors={colors}
+          />
+        ) : appraisalsMatch ? (
+          <AppraisalDesk
+            appraisals={myAppraisals}
+            collection={artCollection}
+            isAppraiser={isAppraiser}
+            onAccept={acceptAppraisal}
+            onDeliver={deliverAppraisal}
+            colors={colors}
+          />
+        ) : disclosuresMatch ? (
+          <DisclosurePage
+            grants={disclosures}
+            collection={encryptedArt}
+            account={address}
+            onGrant={grantDisclosures}
+            onRevoke={revokeDisclosure}
+            onAccess={accessDisclosure}
+            colors={colors}
+          />
+        ) : insuranceMatch ? (
+          <InsuranceSchedulePage
+            grants={disclosures}
+            collection={encryptedArt}
+            account={address}
+            onIssue={issueSchedule}
+            onRevoke={revokeSchedule}
+            onLoadValuations={loadValuations}
+            onDecrypt={decryptSchedule}
+            colors={colors}
+          />
+        ) : auctionsMatch ? (
+          <AuctionPage
+            auctions={auctions}
+            collection={artCollection}
+            listable={encryptedArt.filter(a => isOwner(a.owner) && a.status !== "collateralized" && !isEngaged(a))}
+            account={address}
+            onList={listForAuction}
+            onBid={bidOnAuction}
+            onClose={closeAuction}
+            onHandOver={handOverToWinner}
+            colors={colors}
+          />
+        ) : (<>
         <div className="dashboard-section">
+          <div className="portfolio-switch">
+            {[
+              { label: "My Collection", path: address ? portfolioPath(address) : null, active: isMyPortfolio },
+              { label: "Shared With Me", path: SHARED_PATH, active: view?.kind === "shared" },
+              { label: "All Public", path: PUBLIC_PATH, active: view?.kind === "public" },
+            ].map(tab => (
+              <button
+                key={tab.label}
+                onClick={() => tab.path ? navigate(tab.path) : alert("Please connect wallet first")}
+                className={`portfolio-tab ${tab.active ? "active" : ""}`}
+                style={tab.active
+                  ? { backgroundColor: colors.primary, color: colors.secondary, border: `1px solid ${colors.primary}` }
+                  : { backgroundColor: colors.secondary, color: colors.primary, border: `1px solid ${colors.primary}` }}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+
           <div className="search-bar">
             <input
               type="text"
@@ -330,7 +1055,7 @@ const App: React.FC = () => {
           <div className="stats-grid">
             <div className="stat-card" style={{ backgroundColor: colors.secondary, border: `1px solid ${colors.primary}` }}>
               <h3>Total Collection</h3>
-              <div className="stat-value" style={{ color: colors.primary }}>{artCollection.length}</div>
+              <div className="stat-value" style={{ color: colors.primary }}>{portfolioCollection.length}</div>
             </div>
             <div className="stat-card" style={{ backgroundColor: colors.secondary, border: `1px solid ${colors.primary}` }}>
               <h3>Authenticated</h3>
@@ -344,10 +1069,37 @@ const App: React.FC = () => {
               <h3>Rejected</h3>
               <div className="stat-value" style={{ color: colors.primary }}>{rejectedCount}</div>
             </div>
+            {isMyPortfolio && portfolioContractAddress && (
+              <div className="stat-card" style={{ backgroundColor: colors.secondary, border: `1px solid ${colors.primary}` }}>
+                <h3>Portfolio Value</h3>
+                <select
+                  className="reporting-currency"
+                  value={reportingCurrency}
+                  onChange={(e) => { setReportingCurrency(e.target.value as ArtCurrency); setPortfolioTotal(null); }}
+                  style={{ backgroundColor: colors.background, color: colors.text, border: `1px solid ${colors.primary}` }}
+                >
+                  {ART_CURRENCIES.map(currency => <option key={currency} value={currency}>{currency}</option>)}
+                </select>
+                {portfolioTotal && portfolioTotal.currency === reportingCurrency ? (
+                  <div className="stat-value" style={{ color: colors.primary }}>
+                    {portfolioTotal.overflowed ? "Too large to total" : formatCents(portfolioTotal.total, portfolioTotal.currency)}
+                  </div>
+                ) : (
+                  <button
+                    onClick={computePortfolioTotal}
+                    className="refresh-btn"
+                    disabled={provableArt.length === 0}
+                    style={{ backgroundColor: colors.primary, color: colors.secondary }}
+                  >
+                    Compute Encrypted Total
+                  </button>
+                )}
+              </div>
+            )}
           </div>
 
           <button 
-            onClick={() => setShowValuationChart(!showValuationChart)} 
+            onClick={toggleValuationChart} 
             className="toggle-chart-btn"
             style={{ backgroundColor: colors.primary, color: colors.secondary }}
           >
@@ -364,7 +1116,7 @@ const App: React.FC = () => {
 
         <div className="art-collection-section">
           <div className="section-header">
-            <h2 style={{ color: colors.primary }}>Your Encrypted Art Collection</h2>
+            <h2 style={{ color: colors.primary }}>{viewTitle}</h2>
             <button 
               onClick={loadArtCollection} 
               className="refresh-btn"
@@ -375,17 +1127,70 @@ const App: React.FC = () => {
             </button>
           </div>
 
-          {filteredCollection.length === 0 ? (
-            <div className="no-art" style={{ backgroundColor: colors.secondary }}>
-              <p>No art pieces found</p>
-              <button 
-                className="add-first-btn"
+          {recordErrors.length > 0 && (
+            <div className="record-errors" style={{ backgroundColor: colors.secondary, border: "1px solid #FF0000" }}>
+              <h3 style={{ color: "#FF0000" }}>{recordErrors.length} stored record{recordErrors.length === 1 ? "" : "s"} could not be read</h3>
+              <ul>
+                {recordErrors.map(error => (
+                  <li key={error.key} style={{ color: colors.text }}>
+                    <code>{error.key}</code>: {error.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {ownOrphans.length > 0 && (
+            <div className="record-errors" style={{ backgroundColor: colors.secondary, border: `1px solid ${colors.primary}` }}>
+              <h3 style={{ color: colors.primary }}>{ownOrphans.length} of your art pieces are missing from your index</h3>
+              <p style={{ color: colors.text }}>They were stored but the index update did not go through. They are shown below and can be re-indexed.</p>
+              <button
+                onClick={repairArtIndex}
+                className="refresh-btn"
                 style={{ backgroundColor: colors.primary, color: colors.secondary }}
-                onClick={() => setShowAddModal(true)}
               >
-                Add Your First Art Piece
+                Re-index
               </button>
             </div>
+          )}
+
+          {isMyPortfolio && bundleSelection.length > 0 && (
+            <div className="bundle-selection-bar" style={{ backgroundColor: colors.secondary, border: `1px solid ${colors.primary}` }}>
+              <span style={{ color: colors.text }}>{bundleSelection.length} piece{bundleSelection.length === 1 ? "" : "s"} selected</span>
+              <button
+                onClick={() => setShowBundleModal(true)}
+                className="refresh-btn"
+                style={{ backgroundColor: colors.primary, color: colors.secondary }}
+              >
+                Pledge as Collateral
+              </button>
+              <button
+                onClick={() => setBundleSelection([])}
+                className="refresh-btn"
+                style={{ backgroundColor: colors.background, color: colors.text }}
+              >
+                Clear
+              </button>
+            </div>
+          )}
+
+          {!view ? (
+            <div className="no-art" style={{ backgroundColor: colors.secondary }}>
+              <p>"{portfolioAddress}" is not a valid wallet address</p>
+            </div>
+          ) : filteredCollection.length === 0 ? (
+            <div className="no-art" style={{ backgroundColor: colors.secondary }}>
+              <p>No art pieces found</p>
+              {isMyPortfolio && portfolioContractAddress && (
+                <button 
+                  className="add-first-btn"
+                  style={{ backgroundColor: colors.primary, color: colors.secondary }}
+                  onClick={() => setShowAddModal(true)}
+                >
+                  Add Your First Art Piece
+                </button>
+              )}
+            </div>
           ) : (
             <div className="art-grid">
               {filteredCollection.map(art => (
@@ -396,33 +1201,60 @@ const App: React.FC = () => {
                   onClick={() => setSelectedArt(art)}
                 >
                   <div className="art-header">
+                    {isMyPortfolio && canPledge(art) && (
+                      <input
+                        type="checkbox"
+                        className="bundle-select"
+                        title="Select for a collateral bundle"
+                        checked={bundleSelection.includes(art.id)}
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={() => toggleBundleSelection(art.id)}
+                      />
+                    )}
                     <h3>{art.title}</h3>
                     <span className={`status-badge ${art.status}`} style={{ 
                       backgroundColor: art.status === "authenticated" ? colors.primary : 
+                                      art.status === "collateralized" ? "#4A90E2" :
                                       art.status === "pending" ? "#FFA500" : "#FF0000",
                       color: colors.secondary
                     }}>
-                      {art.status}
+                      {art.status}{isUnverified(art) ? " (unverified)" : ""}
                     </span>
                   </div>
                   <div className="art-details">
                     <p><strong>Artist:</strong> {art.artist}</p>
                     <p><strong>Year:</strong> {art.year}</p>
                     <p><strong>Acquired:</strong> {new Date(art.acquisitionDate * 1000).toLocaleDateString()}</p>
+                    {view?.kind !== "portfolio" && (
+                      <p>
+                        <strong>Owner:</strong>{" "}
+                        <a
+                          href={portfolioPath(art.owner)}
+                          className="owner-link"
+                          style={{ color: colors.primary }}
+                          onClick={(e) => { e.preventDefault(); e.stopPropagation(); navigate(portfolioPath(art.owner)); }}
+                        >
+                          {isOwner(art.owner) ? "You" : `${art.owner.substring(0, 6)}...${art.owner.substring(38)}`}
+                        </a>
+                      </p>
+                    )}
+                    {art.visibility === "private" && <p><em>Private listing</em></p>}
+                    {pendingTransfer(art, transfers) && <p><em>Transfer offer pending</em></p>}
+                    {runningAuction(art, auctions) && <p><em>Up for sealed-bid auction</em></p>}
                   </div>
-                  {isOwner(art.owner) && art.status === "pending" && (
+                  {canReview(art, address, isAuthenticator) && (
                     <div className="art-actions">
                       <button 
                         className="authenticate-btn"
                         style={{ backgroundColor: colors.primary, color: colors.secondary }}
-                        onClick={(e) => { e.stopPropagation(); authenticateArt(art.id); }}
+                        onClick={(e) => { e.stopPropagation(); reviewArt(art.id, true); }}
                       >
                         Authenticate
                       </button>
                       <button 
                         className="reject-btn"
                         style={{ backgroundColor: "#FF0000", color: colors.accent }}
-                        onClick={(e) => { e.stopPropagation(); rejectArt(art.id); }}
+                        onClick={(e) => { e.stopPropagation(); reviewArt(art.id, false); }}
                       >
                         Reject
                       </button>
@@ -433,6 +1265,7 @@ const App: React.FC = () => {
             </div>
           )}
         </div>
+        </>)}
       </div>
 
       {showAddModal && (
@@ -442,6 +1275,7 @@ const App: React.FC = () => {
           adding={adding} 
           artData={newArtPiece} 
           setArtData={setNewArtPiece}
+          encryptionContext={encryptionContext}
           colors={colors}
         />
       )}
@@ -454,6 +1288,41 @@ const App: React.FC = () => {
           setDecryptedValue={setDecryptedValue} 
           isDecrypting={isDecrypting} 
           decryptWithSignature={decryptWithSignature}
+          loadProvenance={loadProvenance}
+          pendingOffer={pendingTransfer(selectedArt, transfers)}
+          onOfferTransfer={canOffer(selectedArt) ? (to) => offerTransfer(selectedArt, to) : undefined}
+          onRevalue={isOwner(selectedArt.owner) && !needsReencryption(selectedArt) ? (model) => revalueArt(selectedArt, model) : undefined}
+          onReportCondition={isOwner(selectedArt.owner) && !needsReencryption(selectedArt) ? (location, condition) => reportCondition(selectedArt, location, condition) : undefined}
+          onReencrypt={isOwner(selectedArt.owner) && needsReencryption(selectedArt) ? () => reencryptArt(selectedArt) : undefined}
+          appraisals={appraisals.filter(a => a.artId === selectedArt.id)}
+          appraisers={appraisers.filter(a => !isOwner(a))}
+          account={address}
+          onRequestAppraisal={portfolioContractAddress && isOwner(selectedArt.owner) ? (appraiser) => requestAppraisal(selectedArt, appraiser) : undefined}
+          onDecryptAppraisal={(appraisal) => decryptWithSignature(appraisal.valuation!)}
+          onDisputeAppraisal={disputeAppraisal}
+          onAdoptAppraisal={(appraisal, amount) => adoptAppraisal(selectedArt, appraisal, amount)}
+          colors={colors}
+        />
+      )}
+
+      {showBundleModal && (
+        <BundleModal
+          pieces={artCollection.filter(a => bundleSelection.includes(a.id))}
+          onPledge={pledgeSelection}
+          currency={reportingCurrency}
+          onClose={() => setShowBundleModal(false)}
+          colors={colors}
+        />
+      )}
+
+      {showWealthProof && (
+        <WealthProofModal
+          pieceCount={provableArt.length}
+          canProve={isConnected}
+          currency={reportingCurrency}
+          onProve={proveWealthThreshold}
+          onVerify={verifyWealthProof}
+          onClose={() => setShowWealthProof(false)}
           colors={colors}
         />
       )}
@@ -471,6 +1340,8 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {showRpcDebug && <RpcDebugPanel pool={getRpcPool()} onClose={toggleRpcDebug} colors={colors} />}
+
       <footer className="app-footer" style={{ backgroundColor: colors.secondary, borderTop: `2px solid ${colors.primary}` }}>
         <div className="footer-content">
           <div className="footer-brand">
@@ -481,6 +1352,7 @@ const App: React.FC = () => {
             <a href="#" className="footer-link" style={{ color: colors.text }}>Documentation</a>
             <a href="#" className="footer-link" style={{ color: colors.text }}>Privacy Policy</a>
             <a href="#" className="footer-link" style={{ color: colors.text }}>Terms</a>
+            <a href="#" className="footer-link" style={{ color: colors.text }} onClick={(e) => { e.preventDefault(); toggleRpcDebug(); }}>RPC Status</a>
           </div>
         </div>
         <div className="footer-bottom">
@@ -500,11 +1372,26 @@ interface ModalAddArtProps {
   adding: boolean;
   artData: any;
   setArtData: (data: any) => void;
+  encryptionContext: EncryptionContext | null;
   colors: any;
 }
 
-const ModalAddArt: React.FC<ModalAddArtProps> = ({ onSubmit, onClose, adding, artData, setArtData, colors }) => {
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+const ModalAddArt: React.FC<ModalAddArtProps> = ({ onSubmit, onClose, adding, artData, setArtData, encryptionContext, colors }) => {
+  const [encryptedPreview, setEncryptedPreview] = useState<string | null>(null);
+
+  useEffect(() => {
+    setEncryptedPreview(null);
+    if (!artData.acquisitionPrice || !encryptionContext) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      encryptAmount(artData.acquisitionPrice, encryptionContext)
+        .then(({ handle }) => { if (!cancelled) setEncryptedPreview(handle); })
+        .catch(e => console.error("Preview encryption failed:", e));
+    }, 400);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [artData.acquisitionPrice, encryptionContext?.contractAddress, encryptionContext?.userAddress]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setArtData({ ...artData, [name]: value });
   };
@@ -519,6 +1406,16 @@ const ModalAddArt: React.FC<ModalAddArtProps> = ({ onSubmit, onClose, adding, ar
       alert("Please fill all required fields");
       return;
     }
+    const sharedWith = parseAddressList(artData.sharedWith);
+    const invalid = sharedWith.find(a => !ethers.isAddress(a));
+    if (invalid) {
+      alert(`"${invalid}" is not a valid wallet address`);
+      return;
+    }
+    if (sharedWith.length > MAX_SHARED_WITH) {
+      alert(`A piece can be shared with at most ${MAX_SHARED_WITH} collectors`);
+      return;
+    }
     onSubmit();
   };
 
@@ -579,6 +1476,55 @@ const ModalAddArt: React.FC<ModalAddArtProps> = ({ onSubmit, onClose, adding, ar
                 style={{ backgroundColor: colors.background, color: colors.text, border: `1px solid ${colors.primary}` }}
               />
             </div>
+
+            <div className="form-group">
+              <label style={{ color: colors.text }}>Currency</label>
+              <select
+                name="currency"
+                value={artData.currency}
+                onChange={handleChange}
+                style={{ backgroundColor: colors.background, color: colors.text, border: `1px solid ${colors.primary}` }}
+              >
+                {ART_CURRENCIES.map(currency => <option key={currency} value={currency}>{currency}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label style={{ color: colors.text }}>Location</label>
+            <input
+              type="text"
+              name="location"
+              value={artData.location}
+              onChange={handleChange}
+              placeholder="Storage facility or city, shown publicly"
+              style={{ backgroundColor: colors.background, color: colors.text, border: `1px solid ${colors.primary}` }}
+            />
+          </div>
+
+          <div className="form-group">
+            <label style={{ color: colors.text }}>Listing</label>
+            <select
+              name="visibility"
+              value={artData.visibility}
+              onChange={handleChange}
+              style={{ backgroundColor: colors.background, color: colors.text, border: `1px solid ${colors.primary}` }}
+            >
+              <option value="public">Public - listed under All Public</option>
+              <option value="private">Private - only you and collectors you share with</option>
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label style={{ color: colors.text }}>Share With (wallet addresses)</label>
+            <textarea
+              name="sharedWith"
+              value={artData.sharedWith}
+              onChange={handleChange}
+              placeholder="0x..., 0x..."
+              rows={2}
+              style={{ backgroundColor: colors.background, color: colors.text, border: `1px solid ${colors.primary}` }}
+            />
           </div>
           
           <div className="encryption-preview">
@@ -586,12 +1532,14 @@ const ModalAddArt: React.FC<ModalAddArtProps> = ({ onSubmit, onClose, adding, ar
             <div className="preview-content" style={{ backgroundColor: colors.background }}>
               <div className="plain-value">
                 <span style={{ color: colors.text }}>Plain Value:</span>
-                <span style={{ color: colors.primary }}>${artData.acquisitionPrice.toLocaleString()}</span>
+                <span style={{ color: colors.primary }}>{formatAmount(artData.acquisitionPrice, artData.currency)}</span>
               </div>
               <div className="encrypted-value">
                 <span style={{ color: colors.text }}>Encrypted Value:</span>
                 <span style={{ color: colors.primary }}>
-                  {artData.acquisitionPrice ? FHEEncryptNumber(artData.acquisitionPrice).substring(0, 30) + '...' : 'N/A'}
+                  {!artData.acquisitionPrice ? 'N/A' :
+                    !encryptionContext ? 'Connect wallet to encrypt' :
+                    encryptedPreview ? encryptedPreview.substring(0, 30) + '...' : 'Encrypting...'}
                 </span>
               </div>
             </div>
@@ -626,10 +1574,52 @@ interface ArtDetailModalProps {
   setDecryptedValue: (value: number | null) => void;
   isDecrypting: boolean;
   decryptWithSignature: (encryptedData: string) => Promise<number | null>;
+  loadProvenance: (artId: string) => Promise<TimedProvenanceEvent[]>;
+  pendingOffer?: ArtTransfer;
+  /** Set when the connected wallet owns the piece and it is not locked as collateral. */
+  onOfferTransfer?: (to: string) => void;
+  /** Set when the connected wallet owns the piece. */
+  onRevalue?: (model: ValuationModel) => void;
+  /** Set when the connected wallet owns the piece. */
+  onReportCondition?: (location: string, condition: ArtCondition) => void;
+  /** Set when the connected wallet owns a piece whose amounts are still legacy cleartext. */
+  onReencrypt?: () => void;
+  /** Every appraisal of the piece, including those earlier owners asked for. */
+  appraisals: ArtAppraisal[];
+  appraisers: string[];
+  account: string | undefined;
+  /** Set when the connected wallet owns the piece; the other appraisal actions are only offered to the owner. */
+  onRequestAppraisal?: (appraiser: string) => void;
+  onDecryptAppraisal: (appraisal: ArtAppraisal) => Promise<number | null>;
+  onDisputeAppraisal: (appraisal: ArtAppraisal, reason: string) => void;
+  onAdoptAppraisal: (appraisal: ArtAppraisal, amount: number) => void;
   colors: any;
 }
 
-const ArtDetailModal: React.FC<ArtDetailModalProps> = ({ art, onClose, decryptedValue, setDecryptedValue, isDecrypting, decryptWithSignature, colors }) => {
+const ArtDetailModal: React.FC<ArtDetailModalProps> = ({ art, onClose, decryptedValue, setDecryptedValue, isDecrypting, decryptWithSignature, loadProvenance, pendingOffer, onOfferTransfer, onRevalue, onReportCondition, onReencrypt,
+  appraisals, appraisers, account, onRequestAppraisal, onDecryptAppraisal, onDisputeAppraisal, onAdoptAppraisal, colors }) => {
+  const [provenance, setProvenance] = useState<TimedProvenanceEvent[] | null>(null);
+  const [recipient, setRecipient] = useState("");
+
+  const handleOffer = () => {
+    if (!ethers.isAddress(recipient)) {
+      alert(`"${recipient}" is not a valid wallet address`);
+      return;
+    }
+    onOfferTransfer!(ethers.getAddress(recipient));
+  };
+  const [provenanceError, setProvenanceError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setProvenance(null);
+    setProvenanceError(null);
+    loadProvenance(art.id)
+      .then(events => { if (!cancelled) setProvenance(events); })
+      .catch(e => { if (!cancelled) setProvenanceError(e.message || "Unknown error"); });
+    return () => { cancelled = true; };
+  }, [art.id]);
+
   const handleDecrypt = async () => {
     if (decryptedValue !== null) { setDecryptedValue(null); return; }
     const decrypted = await decryptWithSignature(art.encryptedValue);
@@ -657,12 +1647,17 @@ const ArtDetailModal: React.FC<ArtDetailModalProps> = ({ art, onClose, decrypted
               <span style={{ color: colors.text }}>Acquired:</span>
               <strong style={{ color: colors.primary }}>{new Date(art.acquisitionDate * 1000).toLocaleDateString()}</strong>
             </div>
+            <div className="info-item">
+              <span style={{ color: colors.text }}>Currency:</span>
+              <strong style={{ color: colors.primary }}>{art.currency}</strong>
+            </div>
             <div className="info-item">
               <span style={{ color: colors.text }}>Status:</span>
               <strong 
                 className={`status-badge ${art.status}`} 
                 style={{ 
                   backgroundColor: art.status === "authenticated" ? colors.primary : 
+                                  art.status === "collateralized" ? "#4A90E2" :
                                   art.status === "pending" ? "#FFA500" : "#FF0000",
                   color: colors.secondary
                 }}
@@ -672,6 +1667,20 @@ const ArtDetailModal: React.FC<ArtDetailModalProps> = ({ art, onClose, decrypted
             </div>
           </div>
           
+          {art.legacyAmounts ? (
+          <div className="encrypted-section" style={{ backgroundColor: colors.background }}>
+            <h3 style={{ color: colors.primary }}>Unencrypted Financial Data</h3>
+            <div className="decrypted-notice" style={{ color: colors.text }}>
+              This piece was recorded before amounts were encrypted, so its acquisition price and valuation are stored in the clear.
+              {onReencrypt ? " Encrypt them to use the piece in transfers, loans, auctions and disclosures." : " Only its owner can encrypt them."}
+            </div>
+            {onReencrypt && (
+              <button onClick={onReencrypt} className="decrypt-btn" style={{ backgroundColor: colors.primary, color: colors.secondary }}>
+                Encrypt Amounts
+              </button>
+            )}
+          </div>
+          ) : (
           <div className="encrypted-section" style={{ backgroundColor: colors.background }}>
             <h3 style={{ color: colors.primary }}>Encrypted Financial Data</h3>
             <div className="encrypted-data" style={{ color: colors.text }}>
@@ -689,18 +1698,95 @@ const ArtDetailModal: React.FC<ArtDetailModalProps> = ({ art, onClose, decrypted
               {isDecrypting ? "Decrypting..." : decryptedValue !== null ? "Hide Value" : "Decrypt with Wallet"}
             </button>
           </div>
+          )}
           
           {decryptedValue !== null && (
             <div className="decrypted-section" style={{ backgroundColor: colors.background }}>
               <h3 style={{ color: colors.primary }}>Decrypted Acquisition Price</h3>
               <div className="decrypted-value" style={{ color: colors.primary }}>
-                ${decryptedValue.toLocaleString()}
+                {formatAmount(decryptedValue, art.currency)}
               </div>
               <div className="decrypted-notice" style={{ color: colors.text }}>
-                This value is only visible after wallet signature verification
+                This value is only visible after wallet signature verification. The signature authorises decryption for {DEFAULT_DURATION_DAYS} days.
+              </div>
+            </div>
+          )}
+
+          <RevaluationForm art={art} onRevalue={onRevalue} colors={colors} />
+          <ConditionReportForm art={art} onReport={onReportCondition} colors={colors} />
+
+          {(appraisals.length > 0 || onRequestAppraisal) && (
+            <AppraisalList
+              art={art}
+              appraisals={appraisals}
+              appraisers={appraisers}
+              account={account}
+              onRequest={onRequestAppraisal}
+              onDecrypt={onRequestAppraisal && onDecryptAppraisal}
+              onDispute={onRequestAppraisal && onDisputeAppraisal}
+              onAdopt={onRevalue && onAdoptAppraisal}
+              colors={colors}
+            />
+          )}
+
+          {pendingOffer ? (
+            <div className="encrypted-section" style={{ backgroundColor: colors.background }}>
+              <h3 style={{ color: colors.primary }}>Transfer</h3>
+              <div style={{ color: colors.text }}>
+                Offered to {pendingOffer.to.substring(0, 6)}...{pendingOffer.to.substring(38)}, waiting for them to accept
               </div>
             </div>
+          ) : onOfferTransfer && (
+            <div className="encrypted-section" style={{ backgroundColor: colors.background }}>
+              <h3 style={{ color: colors.primary }}>Transfer Ownership</h3>
+              <div className="form-group">
+                <input
+                  type="text"
+                  value={recipient}
+                  onChange={(e) => setRecipient(e.target.value.trim())}
+                  placeholder="0x... recipient"
+                  style={{ backgroundColor: colors.secondary, color: colors.text, border: `1px solid ${colors.primary}` }}
+                />
+              </div>
+              <button
+                onClick={handleOffer}
+                disabled={recipient === ""}
+                className="decrypt-btn"
+                style={{ backgroundColor: colors.primary, color: colors.secondary }}
+              >
+                Offer Transfer
+              </button>
+            </div>
           )}
+
+          <div className="provenance-section" style={{ backgroundColor: colors.background }}>
+            <h3 style={{ color: colors.primary }}>Provenance</h3>
+            {provenanceError ? (
+              <div style={{ color: "#FF0000" }}>Could not load history: {provenanceError}</div>
+            ) : provenance === null ? (
+              <div style={{ color: colors.text }}>Loading history...</div>
+            ) : provenance.length === 0 ? (
+              <div style={{ color: colors.text }}>No recorded history for this piece</div>
+            ) : (
+              <ol className="provenance-timeline">
+                {provenance.map((event, i) => (
+                  <li key={`${event.transactionHash}-${i}`} className={`provenance-event ${event.action}`} style={{ borderLeft: `2px solid ${colors.primary}` }}>
+                    <div className="provenance-action" style={{ color: colors.primary }}>{event.action}</div>
+                    <div style={{ color: colors.text }}>{event.description}</div>
+                    <div className="provenance-meta" style={{ color: colors.text }}>
+                      by {event.actor.substring(0, 6)}...{event.actor.substring(38)}
+                      {" · "}
+                      {event.timestamp !== null ? new Date(event.timestamp * 1000).toLocaleString() : `block ${event.blockNumber}`}
+                      {" · "}
+                      <a href={explorerTxUrl(getActiveDeployment(), event.transactionHash)} target="_blank" rel="noreferrer" style={{ color: colors.primary }}>
+                        {event.transactionHash.substring(0, 10)}...
+                      </a>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
         </div>
         <div className="modal-footer" style={{ borderTop: `1px solid ${colors.primary}` }}>
           <button 
@@ -716,4 +1802,16 @@ const ArtDetailModal: React.FC<ArtDetailModalProps> = ({ art, onClose, decrypted
   );
 };
 
-export default App;
\ No newline at end of file
+/**
+ * Binds the contracts to the connected wallet's network (the default one until a wallet connects) and
+ * remounts the app when it changes, so nothing loaded from one chain is shown on another.
+ */
+const NetworkGate: React.FC = () => {
+  const { chainId, isConnected } = useAccount();
+  const targetChainId = isConnected && chainId !== undefined ? chainId : defaultDeployment().chainId;
+  const deployment = setActiveChain(targetChainId);
+  if (!deployment) return <UnsupportedNetwork chainId={targetChainId} colors={colors} />;
+  return <App key={deployment.chainId} deployment={deployment} />;
+};
+
+export default NetworkGate;
\ No newline at end of file
@@ -0,0 +1,159 @@
+// appraisals.ts
+import { ethers } from "ethers";
+import type { ArtPiece } from "./art";
+import { encryptAmounts } from "./fhe";
+import { findDeploymentBlock, queryFilterInRanges } from "./indexer";
+import { findEvent } from "./wealth";
+
+/**
+ * - requested: the owner asked a registered provider for a valuation
+ * - accepted: the appraiser took the job
+ * - delivered: the encrypted figure and the appraiser's signature are on chain, granted to the owner only
+ * - disputed: the owner rejected the figure; the appraiser may deliver a revised one
+ */
+export type AppraisalStatus = "requested" | "accepted" | "delivered" | "disputed";
+
+/** An appraisal as replayed from the appraisal events of ArtPortfolioFhe. */
+export interface ArtAppraisal {
+  appraisalId: string;
+  artId: string;
+  owner: string;
+  appraiser: string;
+  status: AppraisalStatus;
+  /** Handle of the latest delivered figure, in cents; null before the first delivery. */
+  valuation: string | null;
+  /** keccak256 of the written report, which the appraiser hands over off-chain. */
+  reportHash: string | null;
+  signature: string | null;
+  /** Who signed the delivered figure, recovered from the signature; matches `appraiser` for a genuine delivery. */
+  signedBy: string | null;
+  /** Unix timestamp in seconds of the latest delivery. */
+  deliveredAt: number | null;
+  disputeReason: string | null;
+  blockNumber: number;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const startBlock = async (contract: ethers.Contract, fromBlock?: number) =>
+  fromBlock ?? findDeploymentBlock(contract.runner!.provider!, await contract.getAddress());
+
+/** Replays ProviderAdded/ProviderRemoved: registered providers are the appraisers collectors can ask. */
+export async function loadAppraisers(portfolio: ethers.Contract, fromBlock?: number): Promise<string[]> {
+  const provider = portfolio.runner?.provider;
+  if (!provider) throw new Error("Contract is not connected to a provider");
+  const head = await provider.getBlockNumber();
+  const from = await startBlock(portfolio, fromBlock);
+  const changes: ethers.EventLog[] = [];
+  await queryFilterInRanges(portfolio, portfolio.filters.ProviderAdded(), from, head, logs => { changes.push(...logs); });
+  await queryFilterInRanges(portfolio, portfolio.filters.ProviderRemoved(), from, head, logs => { changes.push(...logs); });
+  changes.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+  const appraisers = new Map<string, string>();
+  for (const log of changes) {
+    const account: string = log.args.provider;
+    if (log.eventName === "ProviderAdded") appraisers.set(account.toLowerCase(), account);
+    else appraisers.delete(account.toLowerCase());
+  }
+  return [...appraisers.values()];
+}
+
+export async function loadAppraisals(portfolio: ethers.Contract, fromBlock?: number): Promise<ArtAppraisal[]> {
+  const provider = portfolio.runner?.provider;
+  if (!provider) throw new Error("Contract is not connected to a provider");
+  const head = await provider.getBlockNumber();
+  const from = await startBlock(portfolio, fromBlock);
+  const appraisals = new Map<string, ArtAppraisal>();
+  const deliveryBlocks = new Map<string, number>();
+  await queryFilterInRanges(portfolio, portfolio.filters.AppraisalRequested(), from, head, logs => {
+    for (const log of logs) {
+      appraisals.set(log.args.appraisalId.toString(), {
+        appraisalId: log.args.appraisalId.toString(),
+        artId: log.args.artId,
+        owner: log.args.owner,
+        appraiser: log.args.appraiser,
+        status: "requested",
+        valuation: null,
+        reportHash: null,
+        signature: null,
+        signedBy: null,
+        deliveredAt: null,
+        disputeReason: null,
+        blockNumber: log.blockNumber,
+      });
+    }
+  });
+  await queryFilterInRanges(portfolio, portfolio.filters.AppraisalAccepted(), from, head, logs => {
+    for (const log of logs) {
+      const appraisal = appraisals.get(log.args.appraisalId.toString());
+      if (appraisal) appraisal.status = "accepted";
+    }
+  });
+  // Deliveries and disputes alternate, so they are applied in chain order.
+  const outcomes: ethers.EventLog[] = [];
+  await queryFilterInRanges(portfolio, portfolio.filters.AppraisalDelivered(), from, head, logs => { outcomes.push(...logs); });
+  await queryFilterInRanges(portfolio, portfolio.filters.AppraisalDisputed(), from, head, logs => { outcomes.push(...logs); });
+  outcomes.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+  for (const log of outcomes) {
+    const appraisal = appraisals.get(log.args.appraisalId.toString());
+    if (!appraisal) continue;
+    if (log.eventName === "AppraisalDisputed") {
+      appraisal.status = "disputed";
+      appraisal.disputeReason = log.args.reason;
+      continue;
+    }
+    appraisal.status = "delivered";
+    appraisal.valuation = log.args.valuation;
+    appraisal.reportHash = log.args.reportHash;
+    appraisal.signature = log.args.signature;
+    appraisal.disputeReason = null;
+    deliveryBlocks.set(appraisal.appraisalId, log.blockNumber);
+  }
+  for (const [appraisalId, blockNumber] of deliveryBlocks) {
+    const appraisal = appraisals.get(appraisalId)!;
+    const [digest, block] = await Promise.all([
+      portfolio.appraisalDigest(appraisalId, appraisal.valuation, appraisal.reportHash),
+      provider.getBlock(blockNumber).catch(() => null),
+    ]);
+    appraisal.signedBy = ethers.verifyMessage(ethers.getBytes(digest), appraisal.signature!);
+    appraisal.deliveredAt = block ? block.timestamp : null;
+  }
+  return [...appraisals.values()].sort((a, b) => b.blockNumber - a.blockNumber);
+}
+
+/** Whether the delivered figure carries the appraiser's own signature. */
+export function isSignedByAppraiser(appraisal: ArtAppraisal): boolean {
+  return !!appraisal.signedBy && sameAddress(appraisal.signedBy, appraisal.appraiser);
+}
+
+export async function requestArtAppraisal(portfolio: ethers.Contract, piece: ArtPiece, appraiser: string): Promise<string> {
+  const account = await (portfolio.runner as ethers.Signer).getAddress();
+  if (!sameAddress(piece.owner, account)) throw new Error("Only the owner can ask for an appraisal");
+  const requested = await (await portfolio.requestAppraisal(piece.id, appraiser)).wait();
+  return findEvent(portfolio, requested, "AppraisalRequested").appraisalId.toString();
+}
+
+export async function acceptArtAppraisal(portfolio: ethers.Contract, appraisalId: string): Promise<void> {
+  await (await portfolio.acceptAppraisal(appraisalId)).wait();
+}
+
+/**
+ * Encrypts `amount` (currency units) so only the owner is granted it, signs it together with the
+ * hash of `report` and delivers both.
+ */
+export async function deliverArtAppraisal(portfolio: ethers.Contract, appraisalId: string, amount: number, report: string): Promise<void> {
+  if (!(amount > 0)) throw new Error("Appraised value must be positive");
+  const signer = portfolio.runner as ethers.Signer;
+  const { handles, inputProof } = await encryptAmounts([amount], {
+    contractAddress: await portfolio.getAddress(),
+    userAddress: await signer.getAddress(),
+  });
+  const reportHash = ethers.id(report);
+  const digest = await portfolio.appraisalDigest(appraisalId, handles[0], reportHash);
+  const signature = await signer.signMessage(ethers.getBytes(digest));
+  await (await portfolio.deliverAppraisal(appraisalId, handles[0], inputProof, reportHash, signature)).wait();
+}
+
+export async function disputeArtAppraisal(portfolio: ethers.Contract, appraisalId: string, reason: string): Promise<void> {
+  await (await portfolio.disputeAppraisal(appraisalId, reason)).wait();
+}
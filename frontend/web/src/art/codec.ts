@@ -0,0 +1,114 @@
+// art/codec.ts
+import { ethers } from "ethers";
+import { ART_CONDITIONS, ART_CURRENCIES, ART_SCHEMA_VERSION, ART_STATUSES, ART_VISIBILITIES } from "./schema";
+import type { ArtRecord } from "./schema";
+
+export type ArtRecordCodecName = "json" | "abi";
+
+export interface ArtRecordCodec {
+  readonly name: ArtRecordCodecName;
+  encode(record: ArtRecord): Uint8Array;
+  /** Returns the stored fields as written, still to be migrated and validated. */
+  decode(bytes: Uint8Array): Record<string, unknown>;
+}
+
+export const jsonCodec: ArtRecordCodec = {
+  name: "json",
+  encode: record => ethers.toUtf8Bytes(JSON.stringify(record)),
+  decode: bytes => {
+    const parsed = JSON.parse(ethers.toUtf8String(bytes));
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new Error("JSON record is not an object");
+    return parsed;
+  },
+};
+
+// ABI records start with a marker byte JSON text never starts with, followed by the schema
+// version the payload layout belongs to.
+const ABI_MARKER = 0xa7;
+
+// Fields stored as uint8 indexes into their list of allowed values.
+const ENUM_FIELDS: Record<string, readonly string[]> = {
+  status: ART_STATUSES,
+  visibility: ART_VISIBILITIES,
+  currency: ART_CURRENCIES,
+  condition: ART_CONDITIONS,
+};
+
+// Structured fields stored as JSON text.
+const JSON_FIELDS = new Set(["valuationMethod"]);
+
+const V1_LAYOUT: [field: string, type: string][] = [
+  ["title", "string"],
+  ["artist", "string"],
+  ["year", "uint16"],
+  ["acquisitionDate", "uint64"],
+  ["owner", "address"],
+  ["status", "uint8"],
+  ["encryptedValue", "bytes32"],
+  ["valuation", "bytes32"],
+];
+
+const V2_LAYOUT: [field: string, type: string][] = [...V1_LAYOUT, ["visibility", "uint8"], ["sharedWith", "address[]"]];
+
+const V3_LAYOUT: [field: string, type: string][] = [...V2_LAYOUT, ["currency", "uint8"]];
+
+const V4_LAYOUT: [field: string, type: string][] = [...V3_LAYOUT, ["valuationMethod", "string"]];
+
+const ABI_LAYOUTS: Record<number, [field: string, type: string][]> = {
+  1: V1_LAYOUT,
+  2: V2_LAYOUT,
+  3: V3_LAYOUT,
+  4: V4_LAYOUT,
+  5: [...V4_LAYOUT, ["location", "string"], ["condition", "uint8"]],
+};
+
+const coder = ethers.AbiCoder.defaultAbiCoder();
+
+const toAbiValue = (field: string, value: unknown) => {
+  if (ENUM_FIELDS[field]) return ENUM_FIELDS[field].indexOf(value as string);
+  if (JSON_FIELDS.has(field)) return JSON.stringify(value);
+  return value;
+};
+
+const fromAbiValue = (field: string, value: unknown) => {
+  if (JSON_FIELDS.has(field)) return JSON.parse(value as string);
+  const options = ENUM_FIELDS[field];
+  if (options) {
+    const name = options[Number(value)];
+    if (!name) throw new Error(`unknown ${field} ${value}`);
+    return name;
+  }
+  if (typeof value === "bigint") return Number(value);
+  if (value instanceof ethers.Result) return value.toArray();
+  return value;
+};
+
+export const abiCodec: ArtRecordCodec = {
+  name: "abi",
+  encode: record => {
+    const layout = ABI_LAYOUTS[ART_SCHEMA_VERSION];
+    const fields = record as unknown as Record<string, unknown>;
+    const payload = coder.encode(
+      layout.map(([, type]) => type),
+      layout.map(([field]) => toAbiValue(field, fields[field]))
+    );
+    return ethers.getBytes(ethers.concat([new Uint8Array([ABI_MARKER, ART_SCHEMA_VERSION]), payload]));
+  },
+  decode: bytes => {
+    if (bytes[0] !== ABI_MARKER || bytes.length < 2) throw new Error("missing ABI record marker");
+    const version = bytes[1];
+    const layout = ABI_LAYOUTS[version];
+    if (!layout) throw new Error(`no ABI layout for schema version ${version}`);
+    const values = coder.decode(layout.map(([, type]) => type), bytes.slice(2));
+    const record: Record<string, unknown> = { schemaVersion: version };
+    layout.forEach(([field], i) => { record[field] = fromAbiValue(field, values[i]); });
+    return record;
+  },
+};
+
+export const ART_RECORD_CODECS: Record<ArtRecordCodecName, ArtRecordCodec> = { json: jsonCodec, abi: abiCodec };
+
+/** Picks the codec a stored record was written with; both formats are always readable. */
+export function detectCodec(bytes: Uint8Array): ArtRecordCodec {
+  return bytes[0] === ABI_MARKER ? abiCodec : jsonCodec;
+}
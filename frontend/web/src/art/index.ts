@@ -0,0 +1,91 @@
+// art/index.ts
+import { ethers } from "ethers";
+import { ART_RECORD_CODECS, detectCodec } from "./codec";
+import type { ArtRecordCodec } from "./codec";
+import { artRecordKey } from "./keys";
+import { migrateArtRecord } from "./migrations";
+import { ArtRecordError, assertArtRecord, needsReencryption } from "./schema";
+import type { ArtRecord } from "./schema";
+
+/** Codec used for new writes; VITE_ART_RECORD_CODEC=abi stores compact ABI-encoded records instead of JSON. */
+export function getDefaultCodec(): ArtRecordCodec {
+  return ART_RECORD_CODECS[import.meta.env.VITE_ART_RECORD_CODEC ?? "json"] ?? ART_RECORD_CODECS.json;
+}
+
+/**
+ * Decodes the bytes stored for artwork `id` in whichever format they were written, migrates them
+ * to the current schema version and validates the result. Every failure is an ArtRecordError.
+ */
+export function decodeArtRecord(id: string, data: ethers.BytesLike): ArtRecord {
+  const key = artRecordKey(id);
+  const bytes = ethers.getBytes(data);
+  if (bytes.length === 0) throw new ArtRecordError(key, "record is empty");
+  let raw: Record<string, unknown>;
+  try {
+    raw = migrateArtRecord(detectCodec(bytes).decode(bytes));
+  } catch (e) {
+    throw new ArtRecordError(key, e instanceof Error ? e.message : String(e), { cause: e });
+  }
+  return assertArtRecord(key, raw);
+}
+
+/** Refuses records flagged by needsReencryption: writing them would store their amounts in the clear again. */
+export function encodeArtRecord(id: string, record: ArtRecord, codec: ArtRecordCodec = getDefaultCodec()): Uint8Array {
+  const key = artRecordKey(id);
+  if (needsReencryption(record)) throw new ArtRecordError(key, "amounts are legacy cleartext; re-encrypt them first");
+  return codec.encode(assertArtRecord(key, record));
+}
+
+export { abiCodec, ART_RECORD_CODECS, detectCodec, jsonCodec } from "./codec";
+export type { ArtRecordCodec, ArtRecordCodecName } from "./codec";
+export {
+  ART_KEYS_KEY,
+  artIdFromKey,
+  artIdOwner,
+  artRecordKey,
+  findOrphanedArt,
+  isTrustedWriter,
+  newArtId,
+  ownerAt,
+  ownerIndexKey,
+} from "./keys";
+export type { HandOver, OrphanedArt, StoredKey } from "./keys";
+export { migrateArtRecord, recordVersion } from "./migrations";
+export { buildProvenance, trustedVersions } from "./provenance";
+export type { ProvenanceAction, ProvenanceEvent, RecordAuthority, StoredVersion } from "./provenance";
+export {
+  isSharedWith,
+  isVisibleTo,
+  PORTFOLIO_ROUTE,
+  portfolioPath,
+  PUBLIC_PATH,
+  selectPortfolio,
+  SHARED_PATH,
+} from "./portfolio";
+export type { PortfolioView } from "./portfolio";
+export {
+  ART_CONDITIONS,
+  ART_CURRENCIES,
+  ART_SCHEMA_VERSION,
+  ART_STATUSES,
+  ART_VISIBILITIES,
+  ArtRecordError,
+  assertArtRecord,
+  decodeArtKeys,
+  encodeArtKeys,
+  MAX_SHARED_WITH,
+  needsReencryption,
+  validateArtRecord,
+  VALUATION_MODELS,
+} from "./schema";
+export type {
+  ArtCondition,
+  ArtCurrency,
+  ArtPiece,
+  ArtRecord,
+  ArtStatus,
+  ArtVisibility,
+  LegacyAmounts,
+  ValuationMethod,
+  ValuationModelName,
+} from "./schema";
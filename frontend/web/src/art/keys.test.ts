@@ -0,0 +1,92 @@
+// art/keys.test.ts
+import { ethers } from "ethers";
+import { describe, expect, it } from "vitest";
+import { artIdFromKey, artIdOwner, artRecordKey, findOrphanedArt, isTrustedWriter, newArtId, ownerAt, ownerIndexKey } from "./keys";
+import { encodeArtKeys } from "./schema";
+
+const OWNER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const BUYER = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+const STRANGER = "0x90F79bf6EB2c4f870365E785982E1f101E93b906";
+
+describe("art ids", () => {
+  it("are created in the owner's namespace", () => {
+    const id = newArtId(OWNER);
+    expect(artIdOwner(id)).toBe(OWNER.toLowerCase());
+    expect(artIdFromKey(artRecordKey(id))).toBe(id);
+  });
+
+  it("name no owner when they predate namespacing", () => {
+    expect(artIdOwner("art-1700000000-ab12")).toBeNull();
+  });
+
+  it("are not read from index keys", () => {
+    expect(artIdFromKey("art_keys")).toBeNull();
+    expect(artIdFromKey(ownerIndexKey(OWNER))).toBeNull();
+    expect(artIdFromKey("settings")).toBeNull();
+  });
+});
+
+describe("isTrustedWriter", () => {
+  const id = newArtId(OWNER);
+  const soldToBuyer = [{ to: BUYER, acceptedBlock: 20 }];
+
+  it("trusts the owner named in the id, whatever the case of the address", () => {
+    expect(isTrustedWriter(id, OWNER, 10)).toBe(true);
+    expect(isTrustedWriter(id, OWNER.toUpperCase().replace("0X", "0x"), 10)).toBe(true);
+  });
+
+  it("refuses anyone else", () => {
+    expect(isTrustedWriter(id, STRANGER, 10)).toBe(false);
+  });
+
+  it("moves trust to the recipient of an accepted transfer from the block it was accepted in", () => {
+    expect(isTrustedWriter(id, BUYER, 19, soldToBuyer)).toBe(false);
+    expect(isTrustedWriter(id, BUYER, 20, soldToBuyer)).toBe(true);
+    expect(isTrustedWriter(id, STRANGER, 20, soldToBuyer)).toBe(false);
+  });
+
+  it("keeps the writes a previous owner made before the transfer and rejects the ones after", () => {
+    expect(isTrustedWriter(id, OWNER, 19, soldToBuyer)).toBe(true);
+    expect(isTrustedWriter(id, OWNER, 20, soldToBuyer)).toBe(false);
+    expect(isTrustedWriter(id, OWNER, 35, soldToBuyer)).toBe(false);
+  });
+
+  it("follows a piece through several owners", () => {
+    const resold = [{ to: STRANGER, acceptedBlock: 30 }, ...soldToBuyer];
+    expect(ownerAt(id, 25, resold)).toBe(BUYER.toLowerCase());
+    expect(ownerAt(id, 30, resold)).toBe(STRANGER.toLowerCase());
+    expect(isTrustedWriter(id, BUYER, 31, resold)).toBe(false);
+    expect(isTrustedWriter(id, OWNER, 31, resold)).toBe(false);
+  });
+
+  it("does not check ids from before namespacing until they are transferred", () => {
+    const legacy = "art-1700000000-ab12";
+    expect(isTrustedWriter(legacy, STRANGER, 10)).toBe(true);
+    expect(isTrustedWriter(legacy, STRANGER, 20, soldToBuyer)).toBe(false);
+    expect(isTrustedWriter(legacy, BUYER, 20, soldToBuyer)).toBe(true);
+  });
+});
+
+describe("findOrphanedArt", () => {
+  const record = ethers.hexlify(ethers.toUtf8Bytes("{}"));
+
+  it("lists records no index names", () => {
+    const listed = newArtId(OWNER);
+    const orphan = `${OWNER.toLowerCase()}-1-orphan`;
+    const stored = [
+      { key: ownerIndexKey(OWNER), value: ethers.hexlify(encodeArtKeys([listed])), sender: OWNER },
+      { key: artRecordKey(listed), value: record, sender: OWNER },
+      { key: artRecordKey(orphan), value: record, sender: OWNER },
+    ];
+    expect(findOrphanedArt(stored)).toEqual([{ id: orphan, owner: OWNER.toLowerCase() }]);
+  });
+
+  it("ignores owner indexes written by someone else", () => {
+    const id = newArtId(OWNER);
+    const stored = [
+      { key: ownerIndexKey(OWNER), value: ethers.hexlify(encodeArtKeys([id])), sender: STRANGER },
+      { key: artRecordKey(id), value: record, sender: OWNER },
+    ];
+    expect(findOrphanedArt(stored)).toEqual([{ id, owner: OWNER.toLowerCase() }]);
+  });
+});
@@ -0,0 +1,103 @@
+// art/keys.ts
+import { ethers } from "ethers";
+import { decodeArtKeys } from "./schema";
+
+/**
+ * Storage layout on the shared UniversalAdapter:
+ *   art_<id>            one artwork record, id = "<owner>-<timestamp>-<random>"
+ *   art_keys_<owner>    ids that owner has catalogued, only ever written by that owner
+ *   art_keys            legacy global index shared by everyone, read but no longer written
+ */
+export const ART_KEYS_KEY = "art_keys";
+
+const OWNER_INDEX_PREFIX = `${ART_KEYS_KEY}_`;
+
+export const artRecordKey = (id: string) => `art_${id}`;
+
+export const ownerIndexKey = (owner: string) => `${OWNER_INDEX_PREFIX}${owner.toLowerCase()}`;
+
+/** Inverse of artRecordKey; null for index keys and keys that do not hold artworks. */
+export function artIdFromKey(key: string): string | null {
+  if (!key.startsWith("art_") || key.startsWith(ART_KEYS_KEY)) return null;
+  return key.slice("art_".length) || null;
+}
+
+export function newArtId(owner: string): string {
+  return `${owner.toLowerCase()}-${Date.now()}-${Math.random().toString(36).substring(2, 6)}`;
+}
+
+/** Owner whose namespace `id` was created in, or null for ids from before namespacing. */
+export function artIdOwner(id: string): string | null {
+  const prefix = id.split("-")[0];
+  return ethers.isAddress(prefix) ? prefix.toLowerCase() : null;
+}
+
+/** An accepted ArtPortfolioFhe transfer of a piece: `to` owns it from block `acceptedBlock` on. */
+export interface HandOver {
+  to: string;
+  acceptedBlock: number;
+}
+
+/**
+ * Who owned artwork `id` at `blockNumber`: the recipient of the last transfer accepted by then, or
+ * else the owner whose namespace the id was created in. Null for ids from before namespacing that
+ * were never transferred.
+ */
+export function ownerAt(id: string, blockNumber: number, handOvers: Iterable<HandOver> = []): string | null {
+  let latest: HandOver | null = null;
+  for (const handOver of handOvers) {
+    if (handOver.acceptedBlock <= blockNumber && (!latest || handOver.acceptedBlock >= latest.acceptedBlock)) latest = handOver;
+  }
+  return latest ? latest.to.toLowerCase() : artIdOwner(id);
+}
+
+/**
+ * Whether `sender` may write the record of artwork `id` in block `blockNumber`. Anyone can call
+ * setData on the shared UniversalAdapter, so only whoever owned the piece at the time counts: a
+ * previous owner writing after the piece was handed over is not trusted. Ids from before
+ * namespacing name no owner and are not checked until their first transfer.
+ */
+export function isTrustedWriter(id: string, sender: string, blockNumber: number, handOvers: Iterable<HandOver> = []): boolean {
+  const owner = ownerAt(id, blockNumber, handOvers);
+  return !owner || owner === sender.toLowerCase();
+}
+
+/** A stored key as seen in DataStored logs, with the account that wrote it last. */
+export interface StoredKey {
+  key: string;
+  value: string;
+  sender: string;
+}
+
+export interface OrphanedArt {
+  id: string;
+  /** Account that wrote the record and is therefore the one able to re-index it. */
+  owner: string;
+}
+
+/**
+ * Finds artwork records that no index lists, e.g. because the index update after setData failed.
+ * Per-owner indexes only count when they were written by their owner, so nobody can hide or
+ * claim another collector's pieces by writing to their namespace.
+ */
+export function findOrphanedArt(stored: Iterable<StoredKey>): OrphanedArt[] {
+  const indexed = new Set<string>();
+  const records: StoredKey[] = [];
+  for (const entry of stored) {
+    if (ethers.dataLength(entry.value) === 0) continue;
+    const isLegacyIndex = entry.key === ART_KEYS_KEY;
+    const isOwnIndex = entry.key.startsWith(OWNER_INDEX_PREFIX) && entry.key === ownerIndexKey(entry.sender);
+    if (isLegacyIndex || isOwnIndex) {
+      try {
+        decodeArtKeys(entry.value, entry.key).forEach(id => indexed.add(id));
+      } catch {
+        // A corrupt index lists nothing; its pieces show up as orphans and can be re-indexed.
+      }
+    } else if (artIdFromKey(entry.key)) {
+      records.push(entry);
+    }
+  }
+  return records
+    .map(entry => ({ id: artIdFromKey(entry.key)!, owner: entry.sender.toLowerCase() }))
+    .filter(({ id }) => !indexed.has(id));
+}
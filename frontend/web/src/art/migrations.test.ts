@@ -0,0 +1,124 @@
+// art/migrations.test.ts
+import { ethers } from "ethers";
+import { describe, expect, it } from "vitest";
+import { decodeArtRecord, encodeArtRecord, jsonCodec } from "./index";
+import { migrateArtRecord, recordVersion } from "./migrations";
+import { ART_SCHEMA_VERSION, needsReencryption, validateArtRecord } from "./schema";
+
+const OWNER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+// What the app stored before the schema existed, with the `FHE-` encoding it used for amounts then.
+const legacyRecord = {
+  value: `FHE-${btoa("250000")}`,
+  title: "Water Lilies",
+  artist: "Claude Monet",
+  year: 1906,
+  acquisitionDate: 1_700_000_000,
+  owner: OWNER,
+  status: "pending",
+  valuation: `FHE-${btoa("300000.00000000006")}`,
+};
+
+const v0WithHandles = {
+  value: ethers.id("cost basis"),
+  title: "Water Lilies",
+  artist: "Claude Monet",
+  year: 1906,
+  acquisitionDate: 1_700_000_000,
+  owner: OWNER,
+};
+
+const storedJson = (record: object) => ethers.toUtf8Bytes(JSON.stringify(record));
+
+describe("migrateArtRecord", () => {
+  it("brings a v0 record with handles through every version to a valid current record", () => {
+    const migrated = migrateArtRecord(v0WithHandles);
+    expect(migrated).toEqual({
+      schemaVersion: ART_SCHEMA_VERSION,
+      title: "Water Lilies",
+      artist: "Claude Monet",
+      year: 1906,
+      acquisitionDate: 1_700_000_000,
+      owner: OWNER,
+      status: "pending",
+      encryptedValue: v0WithHandles.value,
+      valuation: v0WithHandles.value,
+      visibility: "public",
+      sharedWith: [],
+      currency: "USD",
+      valuationMethod: {
+        model: "legacy",
+        valuedAt: 1_700_000_000,
+        basis: "Fixed markup on the acquisition price, set before valuation methods were recorded",
+      },
+      location: "",
+      condition: "unrecorded",
+    });
+    expect(validateArtRecord(migrated)).toEqual([]);
+  });
+
+  it("decodes legacy FHE- amounts and flags the record for re-encryption", () => {
+    const migrated = migrateArtRecord(legacyRecord);
+    expect(migrated).toMatchObject({
+      encryptedValue: ethers.ZeroHash,
+      valuation: ethers.ZeroHash,
+      legacyAmounts: { acquisitionPrice: 250000, valuation: 300000.00000000006 },
+    });
+    expect(validateArtRecord(migrated)).toEqual([]);
+  });
+
+  it("takes the acquisition price as valuation when a legacy record has none", () => {
+    const { valuation, ...withoutValuation } = legacyRecord;
+    expect(migrateArtRecord(withoutValuation).legacyAmounts).toEqual({ acquisitionPrice: 250000, valuation: 250000 });
+  });
+
+  it("rejects legacy amounts that are not numbers", () => {
+    expect(() => migrateArtRecord({ ...legacyRecord, value: `FHE-${btoa("abc")}` })).toThrow("is not a non-negative number");
+    expect(() => migrateArtRecord({ ...legacyRecord, value: `FHE-${btoa("-5")}` })).toThrow("is not a non-negative number");
+  });
+
+  it("rejects a record mixing legacy amounts with handles", () => {
+    expect(() => migrateArtRecord({ ...legacyRecord, valuation: ethers.id("valuation") })).toThrow("mixes legacy cleartext");
+  });
+
+  it("only applies the migrations a record still needs", () => {
+    const v3 = { ...migrateArtRecord(v0WithHandles), schemaVersion: 3, valuationMethod: undefined, location: undefined, condition: undefined };
+    const migrated = migrateArtRecord(v3);
+    expect(migrated.visibility).toBe("public");
+    expect(migrated.valuationMethod).toMatchObject({ model: "legacy" });
+    expect(migrated.schemaVersion).toBe(ART_SCHEMA_VERSION);
+  });
+
+  it("refuses versions it does not know", () => {
+    expect(() => migrateArtRecord({ schemaVersion: ART_SCHEMA_VERSION + 1 })).toThrow("newer than this client supports");
+    expect(() => migrateArtRecord({ schemaVersion: -1 })).toThrow("unknown schema version -1");
+    expect(() => migrateArtRecord({ schemaVersion: "two" })).toThrow("unknown schema version two");
+  });
+
+  it("reads the version of unversioned records as 0", () => {
+    expect(recordVersion(v0WithHandles)).toBe(0);
+    expect(recordVersion({ schemaVersion: 4 })).toBe(4);
+  });
+});
+
+describe("legacy records", () => {
+  it("decode with their cleartext amounts flagged", () => {
+    const record = decodeArtRecord("0x1234-1", storedJson(legacyRecord));
+    expect(needsReencryption(record)).toBe(true);
+    expect(record.legacyAmounts?.acquisitionPrice).toBe(250000);
+  });
+
+  it("cannot be written back before their amounts are encrypted", () => {
+    const record = decodeArtRecord("0x1234-1", storedJson(legacyRecord));
+    expect(() => encodeArtRecord("0x1234-1", record, jsonCodec)).toThrow("re-encrypt them first");
+
+    const { legacyAmounts, ...encrypted } = record;
+    const reencrypted = { ...encrypted, encryptedValue: ethers.id("cost basis"), valuation: ethers.id("valuation") };
+    expect(decodeArtRecord("0x1234-1", encodeArtRecord("0x1234-1", reencrypted, jsonCodec))).toEqual(reencrypted);
+  });
+
+  it("fail validation when they also point at ciphertexts", () => {
+    const record = { ...migrateArtRecord(legacyRecord), encryptedValue: ethers.id("cost basis") };
+    expect(validateArtRecord(record)).toEqual(["a record with legacyAmounts must not point at ciphertexts"]);
+  });
+});
@@ -0,0 +1,80 @@
+// art/migrations.ts
+import { ethers } from "ethers";
+import { ART_SCHEMA_VERSION } from "./schema";
+
+type RawRecord = Record<string, unknown>;
+
+// Before amounts were encrypted, the app stored `FHE-` and the base64 of the number in their place.
+const LEGACY_AMOUNT_PREFIX = "FHE-";
+
+const isLegacyAmount = (value: unknown): value is string => typeof value === "string" && value.startsWith(LEGACY_AMOUNT_PREFIX);
+
+const decodeLegacyAmount = (value: string): number => {
+  const amount = parseFloat(ethers.toUtf8String(ethers.decodeBase64(value.slice(LEGACY_AMOUNT_PREFIX.length))));
+  if (!Number.isFinite(amount) || amount < 0) throw new Error(`legacy amount ${value} is not a non-negative number`);
+  return amount;
+};
+
+/**
+ * Moves the amounts of a v0 record out of the handle fields. `FHE-` values are decoded into
+ * legacyAmounts and the handles zeroed, so the record is read but flagged for re-encryption.
+ */
+const migrateV0Amounts = (value: unknown, valuation: unknown): RawRecord => {
+  if (!isLegacyAmount(value) && !isLegacyAmount(valuation)) return { encryptedValue: value, valuation };
+  if (!isLegacyAmount(value) || !isLegacyAmount(valuation)) {
+    throw new Error("record mixes legacy cleartext amounts with ciphertext handles");
+  }
+  return {
+    encryptedValue: ethers.ZeroHash,
+    valuation: ethers.ZeroHash,
+    legacyAmounts: { acquisitionPrice: decodeLegacyAmount(value), valuation: decodeLegacyAmount(valuation) },
+  };
+};
+
+/** Upgrades a record from version `n` (the key) to `n + 1`. */
+const MIGRATIONS: Record<number, (record: RawRecord) => RawRecord> = {
+  // v0 is the unversioned JSON written before the schema existed: the acquisition price handle was
+  // called `value`, status could be missing and valuation fell back to the acquisition price. The
+  // oldest v0 records hold `FHE-` cleartext instead of handles.
+  0: ({ value, valuation, status, ...rest }) => ({
+    ...rest,
+    schemaVersion: 1,
+    ...migrateV0Amounts(value, valuation || value),
+    status: status || "pending",
+  }),
+  // v2 added per-owner catalogue visibility; everything stored before was listed publicly.
+  1: record => ({ ...record, schemaVersion: 2, visibility: "public", sharedWith: [] }),
+  // v3 added the currency of the amounts; every price entered before was in dollars.
+  2: record => ({ ...record, schemaVersion: 3, currency: "USD" }),
+  // v4 records how each valuation was made. Earlier ones were a fixed markup set when the piece was added.
+  3: record => ({
+    ...record,
+    schemaVersion: 4,
+    valuationMethod: {
+      model: "legacy",
+      valuedAt: record.acquisitionDate,
+      basis: "Fixed markup on the acquisition price, set before valuation methods were recorded",
+    },
+  }),
+  // v5 added where the piece is kept and its condition, which insurance schedules list; neither was known before.
+  4: record => ({ ...record, schemaVersion: 5, location: "", condition: "unrecorded" }),
+};
+
+export function recordVersion(record: RawRecord): number {
+  return record.schemaVersion === undefined ? 0 : Number(record.schemaVersion);
+}
+
+/** Applies the migrations needed to bring `record` to the current schema version. */
+export function migrateArtRecord(record: RawRecord): RawRecord {
+  let version = recordVersion(record);
+  if (!Number.isInteger(version) || version < 0) throw new Error(`unknown schema version ${String(record.schemaVersion)}`);
+  if (version > ART_SCHEMA_VERSION) {
+    throw new Error(`schema version ${version} is newer than this client supports (${ART_SCHEMA_VERSION})`);
+  }
+  let migrated = record;
+  while (version < ART_SCHEMA_VERSION) {
+    migrated = MIGRATIONS[version](migrated);
+    version++;
+  }
+  return migrated;
+}
@@ -0,0 +1,35 @@
+// art/portfolio.ts
+import { ethers } from "ethers";
+import type { ArtPiece } from "./schema";
+
+export type PortfolioView =
+  | { kind: "public" }
+  | { kind: "shared" }
+  | { kind: "portfolio"; owner: string };
+
+export const PUBLIC_PATH = "/";
+export const SHARED_PATH = "/shared";
+export const PORTFOLIO_ROUTE = "/portfolio/:address";
+
+export const portfolioPath = (owner: string) => `/portfolio/${ethers.getAddress(owner)}`;
+
+const sameAddress = (a: string | undefined, b: string | undefined) => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+export const isSharedWith = (piece: ArtPiece, viewer: string | undefined) =>
+  piece.sharedWith.some(a => sameAddress(a, viewer));
+
+/** Owners see everything they hold; others see public pieces and the ones shared with them. */
+export function isVisibleTo(piece: ArtPiece, viewer: string | undefined): boolean {
+  return sameAddress(piece.owner, viewer) || piece.visibility === "public" || isSharedWith(piece, viewer);
+}
+
+export function selectPortfolio(collection: ArtPiece[], view: PortfolioView, viewer: string | undefined): ArtPiece[] {
+  switch (view.kind) {
+    case "public":
+      return collection.filter(piece => piece.visibility === "public");
+    case "shared":
+      return collection.filter(piece => !sameAddress(piece.owner, viewer) && isSharedWith(piece, viewer));
+    case "portfolio":
+      return collection.filter(piece => sameAddress(piece.owner, view.owner) && isVisibleTo(piece, viewer));
+  }
+}
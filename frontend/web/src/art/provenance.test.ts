@@ -0,0 +1,124 @@
+// art/provenance.test.ts
+import { ethers } from "ethers";
+import { describe, expect, it } from "vitest";
+import { jsonCodec } from "./codec";
+import { newArtId } from "./keys";
+import { buildProvenance, trustedVersions } from "./provenance";
+import type { RecordAuthority, StoredVersion } from "./provenance";
+import { ART_SCHEMA_VERSION } from "./schema";
+import type { ArtRecord } from "./schema";
+
+const OWNER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const AUTHENTICATOR = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+const STRANGER = "0x90F79bf6EB2c4f870365E785982E1f101E93b906";
+const BUYER = "0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65";
+
+const id = newArtId(OWNER);
+
+const record: ArtRecord = {
+  schemaVersion: ART_SCHEMA_VERSION,
+  title: "Water Lilies",
+  artist: "Claude Monet",
+  year: 1906,
+  acquisitionDate: 1_700_000_000,
+  owner: OWNER,
+  status: "pending",
+  encryptedValue: ethers.id("cost basis"),
+  valuation: ethers.id("valuation"),
+  valuationMethod: { model: "acquisition", valuedAt: 1_700_000_000, basis: "Acquisition cost" },
+  currency: "EUR",
+  location: "Geneva Freeport",
+  condition: "good",
+  visibility: "private",
+  sharedWith: [],
+};
+
+const version = (blockNumber: number, sender: string, changes: Partial<ArtRecord> = {}): StoredVersion => ({
+  value: ethers.hexlify(jsonCodec.encode({ ...record, ...changes })),
+  sender,
+  blockNumber,
+  logIndex: 0,
+  transactionHash: ethers.id(`tx ${blockNumber}`),
+});
+
+const reviewed = (authentic: boolean, blockNumber = 20): RecordAuthority => ({
+  handOvers: [],
+  review: { authenticator: AUTHENTICATOR, authentic, blockNumber },
+});
+
+const blocks = (versions: StoredVersion[]) => versions.map(v => v.blockNumber);
+
+describe("trustedVersions", () => {
+  it("takes the reviewing authenticator's write when it only sets the verdict", () => {
+    const versions = [version(10, OWNER), version(21, AUTHENTICATOR, { status: "authenticated" })];
+    expect(blocks(trustedVersions(id, versions, reviewed(true)))).toEqual([10, 21]);
+    const rejected = [version(10, OWNER), version(21, AUTHENTICATOR, { status: "rejected" })];
+    expect(blocks(trustedVersions(id, rejected, reviewed(false)))).toEqual([10, 21]);
+  });
+
+  it("refuses an authenticator's write that changes anything but the status", () => {
+    const versions = [
+      version(10, OWNER),
+      version(21, AUTHENTICATOR, { status: "authenticated", title: "Sunflowers" }),
+      version(22, AUTHENTICATOR, { status: "authenticated", owner: AUTHENTICATOR }),
+    ];
+    expect(blocks(trustedVersions(id, versions, reviewed(true)))).toEqual([10]);
+  });
+
+  it("refuses a verdict the authenticator did not record on chain", () => {
+    const versions = [version(10, OWNER), version(21, AUTHENTICATOR, { status: "rejected" })];
+    expect(blocks(trustedVersions(id, versions, reviewed(true)))).toEqual([10]);
+    // Written before the review, or without any review at all
+    const early = [version(10, OWNER), version(15, AUTHENTICATOR, { status: "authenticated" })];
+    expect(blocks(trustedVersions(id, early, reviewed(true)))).toEqual([10]);
+    const unreviewed = [version(10, OWNER), version(21, AUTHENTICATOR, { status: "authenticated" })];
+    expect(blocks(trustedVersions(id, unreviewed, { handOvers: [] }))).toEqual([10]);
+  });
+
+  it("applies the verdict to the owner's latest version only", () => {
+    const versions = [
+      version(10, OWNER),
+      version(12, OWNER, { location: "Basel" }),
+      version(21, AUTHENTICATOR, { status: "authenticated" }),
+    ];
+    expect(blocks(trustedVersions(id, versions, reviewed(true)))).toEqual([10, 12]);
+  });
+});
+
+describe("buildProvenance", () => {
+  it("leaves a stranger's writes out of the timeline and out of the diffs", () => {
+    const versions = [
+      version(10, OWNER),
+      version(11, STRANGER, { status: "authenticated" }),
+      version(12, STRANGER, {
+        valuation: ethers.id("inflated"),
+        valuationMethod: { model: "appreciation", valuedAt: 1_700_100_000, basis: "Made up" },
+      }),
+      version(13, OWNER, { location: "Basel" }),
+    ];
+    const events = buildProvenance(id, versions, { handOvers: [] });
+
+    expect(events.map(e => [e.action, e.blockNumber, e.actor])).toEqual([
+      ["created", 10, OWNER],
+      ["updated", 13, OWNER],
+    ]);
+    expect(events[1].description).toBe("Moved to Basel");
+    expect(events.every(e => e.record.status === "pending")).toBe(true);
+  });
+
+  it("keeps the reviewed verdict and drops the previous owner's writes after a transfer", () => {
+    const versions = [
+      version(10, OWNER),
+      version(21, AUTHENTICATOR, { status: "authenticated" }),
+      version(30, BUYER, { status: "authenticated", owner: BUYER }),
+      version(31, OWNER, { status: "authenticated", title: "Reclaimed" }),
+    ];
+    const authority = { ...reviewed(true), handOvers: [{ to: BUYER, acceptedBlock: 30 }] };
+
+    expect(buildProvenance(id, versions, authority).map(e => [e.action, e.blockNumber])).toEqual([
+      ["created", 10],
+      ["authenticated", 21],
+      ["transferred", 30],
+    ]);
+  });
+});
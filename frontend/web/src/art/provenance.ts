@@ -0,0 +1,150 @@
+// art/provenance.ts
+import { ethers } from "ethers";
+import { decodeArtRecord } from "./index";
+import { isTrustedWriter } from "./keys";
+import type { HandOver } from "./keys";
+import type { ArtRecord, ValuationMethod } from "./schema";
+
+export type ProvenanceAction = "created" | "authenticated" | "rejected" | "revalued" | "transferred" | "pledged" | "released" | "updated";
+
+/** One write of an artwork record as seen in its DataStored log. */
+export interface StoredVersion {
+  value: string;
+  sender: string;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+}
+
+/** What ArtPortfolioFhe records about who may write an artwork record. */
+export interface RecordAuthority {
+  /** Accepted transfers of the piece. */
+  handOvers: HandOver[];
+  /** The latest ArtworkReviewed attestation of the piece, if any. */
+  review?: { authenticator: string; authentic: boolean; blockNumber: number };
+}
+
+export interface ProvenanceEvent {
+  action: ProvenanceAction;
+  /** Account that sent the transaction. */
+  actor: string;
+  blockNumber: number;
+  transactionHash: string;
+  /** Human readable summary of what changed. */
+  description: string;
+  record: ArtRecord;
+}
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+const describeValuation = (method: ValuationMethod): string => {
+  if (method.model !== "appraisal") return `Revalued: ${method.basis}`;
+  const appraised = new Date(method.appraisedAt! * 1000).toLocaleDateString();
+  return `Revalued: ${method.basis} by ${shortAddress(method.appraiser!)} on ${appraised}`;
+};
+
+const describeChanges = (previous: ArtRecord, next: ArtRecord): [ProvenanceAction, string][] => {
+  const changes: [ProvenanceAction, string][] = [];
+  if (previous.owner.toLowerCase() !== next.owner.toLowerCase()) {
+    changes.push(["transferred", `Ownership moved from ${shortAddress(previous.owner)} to ${shortAddress(next.owner)}`]);
+  }
+  if (previous.status !== next.status) {
+    if (next.status === "collateralized") changes.push(["pledged", "Pledged as loan collateral"]);
+    else if (previous.status === "collateralized") changes.push(["released", "Released from loan collateral"]);
+    else if (next.status === "authenticated") changes.push(["authenticated", "Marked as authenticated"]);
+    else if (next.status === "rejected") changes.push(["rejected", "Marked as rejected"]);
+    else changes.push(["updated", `Status changed to ${next.status}`]);
+  }
+  if (previous.valuation !== next.valuation) {
+    // Transfers hand the registered valuation to the new owner; only a new method is a revaluation.
+    const revalued = JSON.stringify(previous.valuationMethod) !== JSON.stringify(next.valuationMethod);
+    changes.push(["revalued", revalued ? describeValuation(next.valuationMethod) : "Encrypted valuation replaced"]);
+  }
+  const catalogueChanged =
+    previous.title !== next.title ||
+    previous.artist !== next.artist ||
+    previous.year !== next.year ||
+    previous.visibility !== next.visibility ||
+    previous.sharedWith.join() !== next.sharedWith.join();
+  if (catalogueChanged && changes.length === 0) changes.push(["updated", "Catalogue details changed"]);
+  if (previous.location !== next.location && next.location !== "") changes.push(["updated", `Moved to ${next.location}`]);
+  if (previous.condition !== next.condition) changes.push(["updated", `Condition reported as ${next.condition}`]);
+  return changes;
+};
+
+const decodeOrNull = (id: string, value: string): ArtRecord | null => {
+  if (ethers.dataLength(value) === 0) return null;
+  try {
+    return decodeArtRecord(id, value);
+  } catch {
+    return null;
+  }
+};
+
+const sameExceptStatus = (a: ArtRecord, b: ArtRecord) =>
+  Object.keys({ ...a, ...b }).every(
+    field => field === "status" || JSON.stringify(a[field as keyof ArtRecord]) === JSON.stringify(b[field as keyof ArtRecord])
+  );
+
+/**
+ * The versions of artwork `id` written by an account entitled to, oldest first. Whoever owned the
+ * piece at the time may write anything (see isTrustedWriter). The authenticator of its on-chain
+ * review may only write that verdict: its version counts when it changes nothing but the status of
+ * the version before it, to "authenticated" or "rejected" as reviewed.
+ */
+export function trustedVersions<T extends StoredVersion>(id: string, versions: T[], authority: RecordAuthority): T[] {
+  const { handOvers, review } = authority;
+  const trusted: T[] = [];
+  let previous: ArtRecord | null = null;
+  for (const version of versions) {
+    const record = decodeOrNull(id, version.value);
+    if (isTrustedWriter(id, version.sender, version.blockNumber, handOvers)) {
+      trusted.push(version);
+      previous = record;
+      continue;
+    }
+    const isVerdict =
+      !!review &&
+      !!previous &&
+      !!record &&
+      version.sender.toLowerCase() === review.authenticator.toLowerCase() &&
+      version.blockNumber >= review.blockNumber &&
+      record.status === (review.authentic ? "authenticated" : "rejected") &&
+      sameExceptStatus(previous, record);
+    if (isVerdict) {
+      trusted.push(version);
+      previous = record;
+    }
+  }
+  return trusted;
+}
+
+/**
+ * Rebuilds what happened to artwork `id` from every version written under its key. Logs are
+ * immutable, so the trail survives the record being overwritten in place. Only trustedVersions
+ * count, so nobody else can add steps to the timeline; versions that do not decode are skipped
+ * rather than breaking the rest of the history.
+ */
+export function buildProvenance(id: string, versions: StoredVersion[], authority: RecordAuthority): ProvenanceEvent[] {
+  const events: ProvenanceEvent[] = [];
+  let previous: ArtRecord | null = null;
+  for (const version of trustedVersions(id, versions, authority)) {
+    if (ethers.dataLength(version.value) === 0) continue;
+    let record: ArtRecord;
+    try {
+      record = decodeArtRecord(id, version.value);
+    } catch {
+      continue;
+    }
+    const step = { actor: version.sender, blockNumber: version.blockNumber, transactionHash: version.transactionHash, record };
+    if (!previous) {
+      events.push({ ...step, action: "created", description: `Catalogued by ${shortAddress(record.owner)}` });
+    } else {
+      for (const [action, description] of describeChanges(previous, record)) {
+        events.push({ ...step, action, description });
+      }
+    }
+    previous = record;
+  }
+  return events;
+}
@@ -0,0 +1,194 @@
+// art/schema.ts
+import { ethers } from "ethers";
+
+export const ART_SCHEMA_VERSION = 5;
+
+/** Appended only: the ABI codec stores the index. "collateralized" pieces are locked in a loan bundle. */
+export const ART_STATUSES = ["pending", "authenticated", "rejected", "collateralized"] as const;
+export type ArtStatus = typeof ART_STATUSES[number];
+
+/** Whether a piece is listed in the public catalogue; ciphertexts stay protected either way. */
+export const ART_VISIBILITIES = ["public", "private"] as const;
+export type ArtVisibility = typeof ART_VISIBILITIES[number];
+
+/** Currency the acquisition price and valuation are denominated in. Appended only, like ART_STATUSES. */
+export const ART_CURRENCIES = ["USD", "EUR", "GBP", "CHF", "ETH"] as const;
+export type ArtCurrency = typeof ART_CURRENCIES[number];
+
+/** Condition of the piece at its latest report. Appended only; "unrecorded" marks pieces never reported on. */
+export const ART_CONDITIONS = ["unrecorded", "excellent", "good", "fair", "poor"] as const;
+export type ArtCondition = typeof ART_CONDITIONS[number];
+
+/**
+ * How a valuation was arrived at. Appended only. "legacy" marks valuations written before the
+ * method was recorded, which were seeded at a fixed markup on the acquisition price.
+ */
+export const VALUATION_MODELS = ["legacy", "acquisition", "comparables", "appraisal", "appreciation"] as const;
+export type ValuationModelName = typeof VALUATION_MODELS[number];
+
+/** Methodology recorded with every valuation. It is stored in the clear, so it never holds an amount. */
+export interface ValuationMethod {
+  model: ValuationModelName;
+  /** Unix timestamp in seconds the valuation was computed at. */
+  valuedAt: number;
+  /** What the amount was derived from, e.g. "Compound appreciation of 5% a year over 2.0 years". */
+  basis: string;
+  /** Appraisals only: the appraiser's address and the Unix timestamp of the appraisal. */
+  appraiser?: string;
+  appraisedAt?: number;
+}
+
+export const MAX_SHARED_WITH = 32;
+
+/** Cleartext amounts of a record written before amounts were encrypted, see ArtRecord.legacyAmounts. */
+export interface LegacyAmounts {
+  acquisitionPrice: number;
+  valuation: number;
+}
+
+/** An artwork as stored under `art_${id}` in the current schema version. */
+export interface ArtRecord {
+  schemaVersion: typeof ART_SCHEMA_VERSION;
+  title: string;
+  artist: string;
+  year: number;
+  acquisitionDate: number;
+  owner: string;
+  status: ArtStatus;
+  encryptedValue: string;
+  valuation: string;
+  valuationMethod: ValuationMethod;
+  currency: ArtCurrency;
+  /** Where the piece is kept, e.g. a storage facility; empty when unrecorded. Stored in the clear like the rest of the catalogue. */
+  location: string;
+  condition: ArtCondition;
+  visibility: ArtVisibility;
+  /** Collectors the owner listed the piece for, shown under "Shared with me". */
+  sharedWith: string[];
+  /**
+   * Only set by the v0 migration on records that stored their amounts as `FHE-<base64>` cleartext.
+   * encryptedValue and valuation are then the zero handle until the owner re-encrypts these amounts,
+   * and the record cannot be written back before.
+   */
+  legacyAmounts?: LegacyAmounts;
+}
+
+export interface ArtPiece extends ArtRecord {
+  id: string;
+}
+
+/** Thrown when a stored record cannot be decoded, migrated or validated. */
+export class ArtRecordError extends Error {
+  constructor(readonly key: string, readonly reason: string, options?: ErrorOptions) {
+    super(`${key}: ${reason}`, options);
+    this.name = "ArtRecordError";
+  }
+}
+
+const MAX_TEXT_LENGTH = 256;
+
+const checkText = (value: unknown, field: string): string | null => {
+  if (typeof value !== "string" || value.trim() === "") return `${field} must be a non-empty string`;
+  if (value.length > MAX_TEXT_LENGTH) return `${field} is longer than ${MAX_TEXT_LENGTH} characters`;
+  return null;
+};
+
+const checkOptionalText = (value: unknown, field: string): string | null => {
+  if (typeof value !== "string") return `${field} must be a string`;
+  return value.length > MAX_TEXT_LENGTH ? `${field} is longer than ${MAX_TEXT_LENGTH} characters` : null;
+};
+
+const checkInteger = (value: unknown, field: string, min: number, max: number): string | null =>
+  typeof value === "number" && Number.isInteger(value) && value >= min && value <= max
+    ? null
+    : `${field} must be an integer between ${min} and ${max}`;
+
+const checkHandle = (value: unknown, field: string): string | null =>
+  ethers.isHexString(value, 32) ? null : `${field} must be a 32-byte ciphertext handle`;
+
+const checkAddressList = (value: unknown, field: string, max: number): string | null => {
+  if (!Array.isArray(value) || value.some(a => typeof a !== "string" || !ethers.isAddress(a))) {
+    return `${field} must be a list of addresses`;
+  }
+  if (value.length > max) return `${field} lists more than ${max} addresses`;
+  return new Set(value.map(a => a.toLowerCase())).size === value.length ? null : `${field} lists an address twice`;
+};
+
+const checkValuationMethod = (value: unknown, field: string): string | null => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return `${field} must be an object`;
+  const method = value as Record<string, unknown>;
+  if (!VALUATION_MODELS.includes(method.model as ValuationModelName)) {
+    return `${field}.model must be one of ${VALUATION_MODELS.join(", ")}`;
+  }
+  const problem =
+    checkInteger(method.valuedAt, `${field}.valuedAt`, 0, Number.MAX_SAFE_INTEGER) ??
+    checkText(method.basis, `${field}.basis`);
+  if (problem) return problem;
+  if (method.model !== "appraisal") {
+    return method.appraiser === undefined && method.appraisedAt === undefined ? null : `${field} names an appraiser but is not an appraisal`;
+  }
+  if (typeof method.appraiser !== "string" || !ethers.isAddress(method.appraiser)) return `${field}.appraiser must be an address`;
+  return checkInteger(method.appraisedAt, `${field}.appraisedAt`, 0, Number.MAX_SAFE_INTEGER);
+};
+
+const checkLegacyAmounts = (record: Record<string, unknown>): string | null => {
+  if (record.legacyAmounts === undefined) return null;
+  const amounts = record.legacyAmounts as Partial<Record<keyof LegacyAmounts, unknown>> | null;
+  const isAmount = (value: unknown) => typeof value === "number" && Number.isFinite(value) && value >= 0;
+  if (!amounts || !isAmount(amounts.acquisitionPrice) || !isAmount(amounts.valuation)) {
+    return "legacyAmounts must hold a non-negative acquisitionPrice and valuation";
+  }
+  return record.encryptedValue === ethers.ZeroHash && record.valuation === ethers.ZeroHash
+    ? null
+    : "a record with legacyAmounts must not point at ciphertexts";
+};
+
+/** Whether the amounts of `record` are still the cleartext the v0 schema stored and must be encrypted. */
+export const needsReencryption = (record: ArtRecord): boolean => record.legacyAmounts !== undefined;
+
+/** Returns every problem with `value` as a current-version record; an empty list means it is valid. */
+export function validateArtRecord(value: unknown): string[] {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return ["record must be an object"];
+  const record = value as Record<string, unknown>;
+  const problems = [
+    record.schemaVersion === ART_SCHEMA_VERSION ? null : `schemaVersion must be ${ART_SCHEMA_VERSION}`,
+    checkText(record.title, "title"),
+    checkText(record.artist, "artist"),
+    checkInteger(record.year, "year", 0, 9999),
+    checkInteger(record.acquisitionDate, "acquisitionDate", 0, Number.MAX_SAFE_INTEGER),
+    typeof record.owner === "string" && ethers.isAddress(record.owner) ? null : "owner must be an address",
+    ART_STATUSES.includes(record.status as ArtStatus) ? null : `status must be one of ${ART_STATUSES.join(", ")}`,
+    checkHandle(record.encryptedValue, "encryptedValue"),
+    checkHandle(record.valuation, "valuation"),
+    checkValuationMethod(record.valuationMethod, "valuationMethod"),
+    ART_CURRENCIES.includes(record.currency as ArtCurrency) ? null : `currency must be one of ${ART_CURRENCIES.join(", ")}`,
+    checkOptionalText(record.location, "location"),
+    ART_CONDITIONS.includes(record.condition as ArtCondition) ? null : `condition must be one of ${ART_CONDITIONS.join(", ")}`,
+    ART_VISIBILITIES.includes(record.visibility as ArtVisibility) ? null : `visibility must be one of ${ART_VISIBILITIES.join(", ")}`,
+    checkAddressList(record.sharedWith, "sharedWith", MAX_SHARED_WITH),
+    checkLegacyAmounts(record),
+  ];
+  return problems.filter((p): p is string => p !== null);
+}
+
+export function assertArtRecord(key: string, value: unknown): ArtRecord {
+  const problems = validateArtRecord(value);
+  if (problems.length > 0) throw new ArtRecordError(key, problems.join("; "));
+  return value as ArtRecord;
+}
+
+/** Collection index stored under `art_keys` and the per-owner index keys: a JSON array of artwork ids. */
+export function decodeArtKeys(bytes: string, key = "art_keys"): string[] {
+  if (ethers.dataLength(bytes) === 0) return [];
+  const text = ethers.toUtf8String(bytes);
+  if (text.trim() === "") return [];
+  const keys = JSON.parse(text);
+  if (!Array.isArray(keys) || keys.some(k => typeof k !== "string")) {
+    throw new ArtRecordError(key, "index must be a JSON array of strings");
+  }
+  return keys;
+}
+
+export function encodeArtKeys(keys: string[]): Uint8Array {
+  return ethers.toUtf8Bytes(JSON.stringify(keys));
+}
@@ -0,0 +1,32 @@
+// artValues.ts
+import { ethers } from "ethers";
+import { encryptAmounts } from "./fhe";
+import { findEvent } from "./wealth";
+
+/** Handles of the amounts an artwork record points at, as ArtPortfolioFhe registered them. */
+export interface RegisteredArtValues {
+  costBasis: string;
+  valuation: string;
+}
+
+/**
+ * Encrypts the acquisition price and valuation of `artId` for ArtPortfolioFhe and registers them there.
+ * The contract takes them in with `fromExternal` and allows them to the owner, so the handles it returns
+ * are the ones the record must store: raw input handles written straight into a record have no ACL entry
+ * and cannot be decrypted by anyone.
+ */
+export async function registerArtValues(
+  portfolio: ethers.Contract,
+  artId: string,
+  costBasis: number,
+  valuation: number
+): Promise<RegisteredArtValues> {
+  const account = await (portfolio.runner as ethers.Signer).getAddress();
+  const { handles, inputProof } = await encryptAmounts([costBasis, valuation], {
+    contractAddress: await portfolio.getAddress(),
+    userAddress: account,
+  });
+  const registered = await (await portfolio.registerArtworkValues(artId, handles[0], handles[1], inputProof)).wait();
+  const event = findEvent(portfolio, registered, "ArtworkValuesRegistered");
+  return { costBasis: event.costBasis, valuation: event.valuation };
+}
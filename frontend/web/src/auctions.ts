@@ -0,0 +1,111 @@
+// auctions.ts
+import { ethers } from "ethers";
+import type { ArtPiece } from "./art";
+import { centsToAmount, encryptAmounts } from "./fhe";
+import { findDeploymentBlock, queryFilterInRanges } from "./indexer";
+import { findEvent } from "./wealth";
+
+/**
+ * - open: taking sealed bids
+ * - ended: past its end time, waiting for someone to close it
+ * - revealing: closed, waiting for the oracle to decrypt the highest bid and bidder
+ * - settled: winner and winning bid are public (no winner when nobody bid)
+ */
+export type AuctionPhase = "open" | "ended" | "revealing" | "settled";
+
+/** A sealed-bid sale as replayed from the auction events of ArtPortfolioFhe. Bids themselves are never revealed. */
+export interface ArtAuction {
+  auctionId: string;
+  artId: string;
+  seller: string;
+  /** Unix timestamp in seconds. */
+  endTime: number;
+  bidders: string[];
+  closed: boolean;
+  settled: boolean;
+  winner: string | null;
+  /** Winning bid in currency units, once settled. Bids are encrypted like every other amount, as cents. */
+  winningBid: number | null;
+  blockNumber: number;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const startBlock = async (contract: ethers.Contract, fromBlock?: number) =>
+  fromBlock ?? findDeploymentBlock(contract.runner!.provider!, await contract.getAddress());
+
+export async function loadAuctions(portfolio: ethers.Contract, fromBlock?: number): Promise<ArtAuction[]> {
+  const provider = portfolio.runner?.provider;
+  if (!provider) throw new Error("Contract is not connected to a provider");
+  const head = await provider.getBlockNumber();
+  const from = await startBlock(portfolio, fromBlock);
+  const auctions = new Map<string, ArtAuction>();
+  await queryFilterInRanges(portfolio, portfolio.filters.AuctionCreated(), from, head, logs => {
+    for (const log of logs) {
+      auctions.set(log.args.auctionId.toString(), {
+        auctionId: log.args.auctionId.toString(),
+        artId: log.args.artId,
+        seller: log.args.seller,
+        endTime: Number(log.args.endTime),
+        bidders: [],
+        closed: false,
+        settled: false,
+        winner: null,
+        winningBid: null,
+        blockNumber: log.blockNumber,
+      });
+    }
+  });
+  await queryFilterInRanges(portfolio, portfolio.filters.BidPlaced(), from, head, logs => {
+    for (const log of logs) auctions.get(log.args.auctionId.toString())?.bidders.push(log.args.bidder);
+  });
+  await queryFilterInRanges(portfolio, portfolio.filters.AuctionClosed(), from, head, logs => {
+    for (const log of logs) {
+      const auction = auctions.get(log.args.auctionId.toString());
+      if (auction) auction.closed = true;
+    }
+  });
+  await queryFilterInRanges(portfolio, portfolio.filters.AuctionSettled(), from, head, logs => {
+    for (const log of logs) {
+      const auction = auctions.get(log.args.auctionId.toString());
+      if (!auction) continue;
+      auction.closed = true;
+      auction.settled = true;
+      auction.winner = log.args.winner === ethers.ZeroAddress ? null : log.args.winner;
+      auction.winningBid = centsToAmount(log.args.winningBid);
+    }
+  });
+  return [...auctions.values()].sort((a, b) => b.blockNumber - a.blockNumber);
+}
+
+export function auctionPhase(auction: ArtAuction, now: number = Math.floor(Date.now() / 1000)): AuctionPhase {
+  if (auction.settled) return "settled";
+  if (auction.closed) return "revealing";
+  return now < auction.endTime ? "open" : "ended";
+}
+
+/** Unsettled auction of `piece` by its current owner, if any; the piece is locked while it runs. */
+export function runningAuction(piece: ArtPiece, auctions: ArtAuction[]): ArtAuction | undefined {
+  return auctions.find(a => !a.settled && a.artId === piece.id && sameAddress(a.seller, piece.owner));
+}
+
+export async function createArtAuction(portfolio: ethers.Contract, piece: ArtPiece, durationSeconds: number): Promise<string> {
+  const account = await (portfolio.runner as ethers.Signer).getAddress();
+  if (!sameAddress(piece.owner, account)) throw new Error("Only the owner can auction a piece");
+  if (!Number.isInteger(durationSeconds) || durationSeconds <= 0) throw new Error("Auction duration must be positive");
+  const endTime = Math.floor(Date.now() / 1000) + durationSeconds;
+  const created = await (await portfolio.createAuction(piece.id, endTime)).wait();
+  return findEvent(portfolio, created, "AuctionCreated").auctionId.toString();
+}
+
+/** Encrypts `amount` (currency units) for ArtPortfolioFhe and bids it. Only the bidder can decrypt it, never the seller. */
+export async function placeSealedBid(portfolio: ethers.Contract, auctionId: string, amount: number): Promise<void> {
+  if (!(amount > 0)) throw new Error("Bid must be positive");
+  const account = await (portfolio.runner as ethers.Signer).getAddress();
+  const { handles, inputProof } = await encryptAmounts([amount], { contractAddress: await portfolio.getAddress(), userAddress: account });
+  await (await portfolio.placeBid(auctionId, handles[0], inputProof)).wait();
+}
+
+export async function closeArtAuction(portfolio: ethers.Contract, auctionId: string): Promise<void> {
+  await (await portfolio.closeAuction(auctionId)).wait();
+}
@@ -0,0 +1,77 @@
+// authentication.ts
+import { ethers } from "ethers";
+import type { ArtPiece } from "./art";
+import { findDeploymentBlock, queryFilterInRanges } from "./indexer";
+
+/** Latest ArtworkReviewed attestation an authenticator recorded on ArtPortfolioFhe for a piece. */
+export interface ArtReview {
+  artId: string;
+  authenticator: string;
+  authentic: boolean;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+/**
+ * - verified: the stored status matches a review by a current authenticator who does not own the piece
+ * - unverified: the stored status has no matching review, e.g. an owner wrote it themselves
+ * - pending: nothing to verify yet
+ */
+export type ReviewState = "verified" | "unverified" | "pending";
+
+const startBlock = async (contract: ethers.Contract, fromBlock?: number) =>
+  fromBlock ?? findDeploymentBlock(contract.runner!.provider!, await contract.getAddress());
+
+/** Replays AuthenticatorAdded/AuthenticatorRemoved to list the current authenticators. */
+export async function loadAuthenticators(contract: ethers.Contract, fromBlock?: number): Promise<string[]> {
+  const provider = contract.runner?.provider;
+  if (!provider) throw new Error("Contract is not connected to a provider");
+  const head = await provider.getBlockNumber();
+  const changes: ethers.EventLog[] = [];
+  const from = await startBlock(contract, fromBlock);
+  await queryFilterInRanges(contract, contract.filters.AuthenticatorAdded(), from, head, logs => { changes.push(...logs); });
+  await queryFilterInRanges(contract, contract.filters.AuthenticatorRemoved(), from, head, logs => { changes.push(...logs); });
+  changes.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+  const authenticators = new Map<string, string>();
+  for (const log of changes) {
+    const account: string = log.args.authenticator;
+    if (log.eventName === "AuthenticatorAdded") authenticators.set(account.toLowerCase(), account);
+    else authenticators.delete(account.toLowerCase());
+  }
+  return [...authenticators.values()];
+}
+
+export async function loadReviews(contract: ethers.Contract, fromBlock?: number): Promise<Map<string, ArtReview>> {
+  const provider = contract.runner?.provider;
+  if (!provider) throw new Error("Contract is not connected to a provider");
+  const head = await provider.getBlockNumber();
+  const reviews = new Map<string, ArtReview>();
+  await queryFilterInRanges(contract, contract.filters.ArtworkReviewed(), await startBlock(contract, fromBlock), head, logs => {
+    for (const log of logs) {
+      reviews.set(log.args.artId, {
+        artId: log.args.artId,
+        authenticator: log.args.authenticator,
+        authentic: log.args.authentic,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      });
+    }
+  });
+  return reviews;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export function reviewState(piece: ArtPiece, review: ArtReview | undefined, authenticators: string[]): ReviewState {
+  if (piece.status === "pending") return "pending";
+  if (!review || sameAddress(review.authenticator, piece.owner)) return "unverified";
+  if (!authenticators.some(a => sameAddress(a, review.authenticator))) return "unverified";
+  const claimsAuthentic = piece.status === "authenticated" || piece.status === "collateralized";
+  return review.authentic === claimsAuthentic ? "verified" : "unverified";
+}
+
+/** Authenticators may review pending pieces of other collectors, never their own. */
+export function canReview(piece: ArtPiece, account: string | undefined, isAuthenticator: boolean): boolean {
+  return !!account && isAuthenticator && piece.status === "pending" && !sameAddress(piece.owner, account);
+}
@@ -0,0 +1,127 @@
+// bundles.ts
+import { ethers } from "ethers";
+import type { ArtPiece } from "./art";
+import { findDeploymentBlock, queryFilterInRanges } from "./indexer";
+import { centsToAmount, toCents, userDecrypt } from "./fhe";
+import type { DecryptionContext } from "./fhe";
+import { findEvent, submitSoleBatch } from "./wealth";
+import type { BatchStep } from "./wealth";
+
+/** A loan bundle as replayed from BundleCreated/BundleReleased. Value and LTV tier stay ciphertexts on chain. */
+export interface CollateralBundle {
+  bundleId: string;
+  owner: string;
+  lender: string;
+  batchId: string;
+  /** Currency amount; the contract stores it in cents. */
+  loanAmount: number;
+  artIds: string[];
+  active: boolean;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export type BundleStep = BatchStep | "pledging";
+
+/**
+ * Labels for the encrypted LTV tier, indexed by the number of ArtPortfolioFhe `ltvTiersBps`
+ * (25%, 50%, 75%, 100%) the loan stays within.
+ */
+export const LTV_TIER_LABELS = ["Above 100%", "75% - 100%", "50% - 75%", "25% - 50%", "25% or less"];
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const startBlock = async (contract: ethers.Contract, fromBlock?: number) =>
+  fromBlock ?? findDeploymentBlock(contract.runner!.provider!, await contract.getAddress());
+
+export async function loadBundles(portfolio: ethers.Contract, fromBlock?: number): Promise<CollateralBundle[]> {
+  const provider = portfolio.runner?.provider;
+  if (!provider) throw new Error("Contract is not connected to a provider");
+  const head = await provider.getBlockNumber();
+  const from = await startBlock(portfolio, fromBlock);
+  const bundles = new Map<string, CollateralBundle>();
+  await queryFilterInRanges(portfolio, portfolio.filters.BundleCreated(), from, head, logs => {
+    for (const log of logs) {
+      bundles.set(log.args.bundleId.toString(), {
+        bundleId: log.args.bundleId.toString(),
+        owner: log.args.owner,
+        lender: log.args.lender,
+        batchId: log.args.batchId.toString(),
+        loanAmount: centsToAmount(log.args.loanAmount),
+        artIds: [...log.args.artIds],
+        active: true,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      });
+    }
+  });
+  await queryFilterInRanges(portfolio, portfolio.filters.BundleReleased(), from, head, logs => {
+    for (const log of logs) {
+      const bundle = bundles.get(log.args.bundleId.toString());
+      if (bundle) bundle.active = false;
+    }
+  });
+  return [...bundles.values()].sort((a, b) => b.blockNumber - a.blockNumber);
+}
+
+/** Active bundles by the id of every piece they hold. */
+export function lockedArtwork(bundles: CollateralBundle[]): Map<string, CollateralBundle> {
+  const locked = new Map<string, CollateralBundle>();
+  for (const bundle of bundles) {
+    if (bundle.active) bundle.artIds.forEach(id => locked.set(id, bundle));
+  }
+  return locked;
+}
+
+/**
+ * A piece is locked while an active bundle of its owner holds it, whatever its stored status
+ * says. A "collateralized" status without such a bundle is only a claim and shown as unverified.
+ */
+export function isLocked(piece: ArtPiece, locked: Map<string, CollateralBundle>): boolean {
+  const bundle = locked.get(piece.id);
+  return !!bundle && sameAddress(bundle.owner, piece.owner);
+}
+
+/**
+ * Pledges pieces worth `values` (same order as `artIds`) to `lender`. The values go into a batch
+ * only the collector contributes to, converted with `rates` into the currency of `loanAmount`, so
+ * the bundle's encrypted value is exactly their sum; ArtPortfolioFhe compares it with the loan
+ * under encryption.
+ */
+export async function createCollateralBundle(
+  portfolio: ethers.Contract,
+  artIds: string[],
+  values: number[],
+  rates: bigint[],
+  lender: string,
+  loanAmount: number,
+  onStep: (step: BundleStep) => void = () => {}
+): Promise<string> {
+  if (!ethers.isAddress(lender)) throw new Error(`"${lender}" is not a valid lender address`);
+  const loanCents = toCents(loanAmount);
+  if (loanCents === 0n) throw new Error("Loan amount must be positive");
+  if (artIds.length !== values.length) throw new Error("Every pledged piece needs a valuation");
+  const batchId = await submitSoleBatch(portfolio, values, rates, onStep);
+
+  onStep("pledging");
+  const created = await (await portfolio.createBundle(batchId, lender, loanCents, artIds)).wait();
+  return findEvent(portfolio, created, "BundleCreated").bundleId.toString();
+}
+
+export async function releaseCollateralBundle(portfolio: ethers.Contract, bundleId: string): Promise<void> {
+  await (await portfolio.releaseBundle(bundleId)).wait();
+}
+
+/**
+ * Decrypts a bundle's value, in cents like the batch total it was taken from, and its LTV tier;
+ * ArtPortfolioFhe only grants them to its owner and lender.
+ */
+export async function decryptBundle(
+  portfolio: ethers.Contract,
+  bundleId: string,
+  ctx: Omit<DecryptionContext, "contractAddress">
+): Promise<{ value: bigint; ltvTier: number }> {
+  const { value, ltvTier } = await portfolio.bundles(bundleId);
+  const results = await userDecrypt([value, ltvTier], { ...ctx, contractAddress: await portfolio.getAddress() });
+  return { value: results[value], ltvTier: Number(results[ltvTier]) };
+}
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import type { ArtPiece } from '../art';
+import type { ArtAppraisal } from '../appraisals';
+
+interface AppraisalDeskProps {
+  /** Appraisals addressed to the connected appraiser. */
+  appraisals: ArtAppraisal[];
+  collection: ArtPiece[];
+  isAppraiser: boolean;
+  onAccept: (appraisal: ArtAppraisal) => void;
+  /** Encrypts `amount` for the owner and signs it together with the hash of `report`. */
+  onDeliver: (appraisal: ArtAppraisal, amount: number, report: string) => void;
+  colors: any;
+}
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+const STATUS_LABELS = {
+  requested: 'Requested',
+  accepted: 'Accepted, to deliver',
+  delivered: 'Delivered',
+  disputed: 'Disputed by the owner',
+};
+
+/** Requests for registered providers acting as appraisers. Figures are encrypted so only the owner can read them. */
+export default function AppraisalDesk({ appraisals, collection, isAppraiser, onAccept, onDeliver, colors }: AppraisalDeskProps) {
+  const [amounts, setAmounts] = useState<Record<string, number>>({});
+  const [reports, setReports] = useState<Record<string, string>>({});
+
+  const pieces = new Map(collection.map(piece => [piece.id, piece]));
+  const inputStyle = { backgroundColor: colors.background, color: colors.text, border: `1px solid ${colors.primary}` };
+
+  return (
+    <div className="art-collection-section">
+      <div className="section-header">
+        <h2 style={{ color: colors.primary }}>Appraisal Requests</h2>
+      </div>
+      {!isAppraiser ? (
+        <div className="no-art" style={{ backgroundColor: colors.secondary }}>
+          <p>Only registered appraisers receive appraisal requests</p>
+        </div>
+      ) : appraisals.length === 0 ? (
+        <div className="no-art" style={{ backgroundColor: colors.secondary }}>
+          <p>No appraisal requests yet</p>
+        </div>
+      ) : (
+        <ul className="bundle-list">
+          {appraisals.map(appraisal => {
+            const piece = pieces.get(appraisal.artId);
+            const canDeliver = appraisal.status === 'accepted' || appraisal.status === 'disputed';
+            return (
+              <li key={appraisal.appraisalId} style={{ backgroundColor: colors.secondary, border: `1px solid ${colors.primary}` }}>
+                <div className="bundle-header">
+                  <h3 style={{ color: colors.primary }}>{piece ? `${piece.title} by ${piece.artist}` : appraisal.artId}</h3>
+                  <span className="status-badge" style={{ backgroundColor: colors.primary, color: colors.secondary }}>
+                    {STATUS_LABELS[appraisal.status]}
+                  </span>
+                </div>
+                <div className="art-details">
+                  <p><strong>Owner:</strong> {shortAddress(appraisal.owner)}</p>
+                  {piece && <p><strong>Currency:</strong> {piece.currency}</p>}
+                  {appraisal.disputeReason && <p><strong>Dispute:</strong> {appraisal.disputeReason}</p>}
+                </div>
+                <div className="art-actions">
+                  {appraisal.status === 'requested' && (
+                    <button className="authenticate-btn" style={{ backgroundColor: colors.primary, color: colors.secondary }} onClick={() => onAccept(appraisal)}>
+                      Accept Request
+                    </button>
+                  )}
+                  {canDeliver && (
+                    <>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        placeholder={`Value (${piece?.currency ?? 'currency units'})`}
+                        value={amounts[appraisal.appraisalId] || ''}
+                        onChange={(e) => setAmounts(prev => ({ ...prev, [appraisal.appraisalId]: parseFloat(e.target.value) || 0 }))}
+                        style={inputStyle}
+                      />
+                      <input
+                        type="text"
+                        placeholder="Report reference"
+                        value={reports[appraisal.appraisalId] ?? ''}
+                        onChange={(e) => setReports(prev => ({ ...prev, [appraisal.appraisalId]: e.target.value }))}
+                        style={inputStyle}
+                      />
+                      <button
+                        className="authenticate-btn"
+                        disabled={!(amounts[appraisal.appraisalId] > 0) || !reports[appraisal.appraisalId]}
+                        style={{ backgroundColor: colors.primary, color: colors.secondary }}
+                        onClick={() => onDeliver(appraisal, amounts[appraisal.appraisalId], reports[appraisal.appraisalId])}
+                      >
+                        {appraisal.status === 'disputed' ? 'Sign & Deliver Revision' : 'Sign & Deliver'}
+                      </button>
+                    </>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import type { ArtPiece } from '../art';
+import type { ArtAppraisal } from '../appraisals';
+import { isSignedByAppraiser } from '../appraisals';
+import { formatAmount } from '../fx';
+
+interface AppraisalListProps {
+  art: ArtPiece;
+  /** Every appraisal of the piece, newest first. */
+  appraisals: ArtAppraisal[];
+  /** Registered appraisers the owner can ask, excluding the owner. */
+  appraisers: string[];
+  account: string | undefined;
+  /** Owner actions; unset for everyone else. Figures are only granted to whoever asked for them. */
+  onRequest?: (appraiser: string) => void;
+  onDecrypt?: (appraisal: ArtAppraisal) => Promise<number | null>;
+  onDispute?: (appraisal: ArtAppraisal, reason: string) => void;
+  /** Replaces the piece's valuation with the decrypted figure, recording the appraiser and date. */
+  onAdopt?: (appraisal: ArtAppraisal, amount: number) => void;
+  colors: any;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+export default function AppraisalList({ art, appraisals, appraisers, account, onRequest, onDecrypt, onDispute, onAdopt, colors }: AppraisalListProps) {
+  const [appraiser, setAppraiser] = useState('');
+  const [figures, setFigures] = useState<Record<string, number>>({});
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+
+  const inputStyle = { backgroundColor: colors.secondary, color: colors.text, border: `1px solid ${colors.primary}` };
+
+  const handleDecrypt = async (appraisal: ArtAppraisal) => {
+    const figure = await onDecrypt!(appraisal);
+    if (figure !== null) setFigures(prev => ({ ...prev, [appraisal.appraisalId]: figure }));
+  };
+
+  return (
+    <div className="encrypted-section" style={{ backgroundColor: colors.background }}>
+      <h3 style={{ color: colors.primary }}>Appraisals</h3>
+      {appraisals.length === 0 && <div style={{ color: colors.text }}>No appraisals requested yet</div>}
+      <ul className="appraisal-list">
+        {appraisals.map(appraisal => {
+          const figure = figures[appraisal.appraisalId];
+          const requestedByMe = !!account && sameAddress(appraisal.owner, account);
+          return (
+            <li key={appraisal.appraisalId} style={{ color: colors.text, borderLeft: `2px solid ${colors.primary}` }}>
+              <div>
+                <strong style={{ color: colors.primary }}>#{appraisal.appraisalId} {appraisal.status}</strong>
+                {' · '}appraiser {shortAddress(appraisal.appraiser)}
+                {appraisal.deliveredAt !== null && ` · delivered ${new Date(appraisal.deliveredAt * 1000).toLocaleDateString()}`}
+              </div>
+              {appraisal.signature && (
+                <div className="appraisal-signature" title={appraisal.signature}>
+                  {isSignedByAppraiser(appraisal) ? 'Signed by the appraiser' : 'Signature does not match the appraiser'}
+                  {': '}{appraisal.signature.substring(0, 18)}...
+                </div>
+              )}
+              {appraisal.disputeReason && <div>Disputed: {appraisal.disputeReason}</div>}
+              {figure !== undefined && <div style={{ color: colors.primary }}>{formatAmount(figure, art.currency)}</div>}
+              {appraisal.status === 'delivered' && requestedByMe && onDecrypt && (
+                <div className="art-actions">
+                  {figure === undefined ? (
+                    <button className="decrypt-btn" style={{ backgroundColor: colors.primary, color: colors.secondary }} onClick={() => handleDecrypt(appraisal)}>
+                      Decrypt Figure
+                    </button>
+                  ) : onAdopt && isSignedByAppraiser(appraisal) && (
+                    <button className="decrypt-btn" style={{ backgroundColor: colors.primary, color: colors.secondary }} onClick={() => onAdopt(appraisal, figure)}>
+                      Use as Valuation
+                    </button>
+                  )}
+                  {onDispute && (
+                    <>
+                      <input
+                        type="text"
+                        placeholder="Reason for dispute"
+                        value={reasons[appraisal.appraisalId] ?? ''}
+                        onChange={(e) => setReasons(prev => ({ ...prev, [appraisal.appraisalId]: e.target.value }))}
+                        style={inputStyle}
+                      />
+                      <button
+                        className="decrypt-btn"
+                        disabled={!reasons[appraisal.appraisalId]}
+                        style={{ backgroundColor: colors.secondary, color: colors.primary, border: `1px solid ${colors.primary}` }}
+                        onClick={() => onDispute(appraisal, reasons[appraisal.appraisalId])}
+                      >
+                        Dispute
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      {onRequest && (
+        <div className="auction-form">
+          <select value={appraiser} onChange={(e) => setAppraiser(e.target.value)} style={inputStyle}>
+            <option value="">Choose an appraiser...</option>
+            {appraisers.map(account => <option key={account} value={account}>{shortAddress(account)}</option>)}
+          </select>
+          <button
+            onClick={() => { onRequest(appraiser); setAppraiser(''); }}
+            disabled={appraiser === ''}
+            className="decrypt-btn"
+            style={{ backgroundColor: colors.primary, color: colors.secondary }}
+          >
+            Request Appraisal
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
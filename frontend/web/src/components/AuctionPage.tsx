@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import type { ArtPiece } from '../art';
+import type { ArtAuction } from '../auctions';
+import { auctionPhase } from '../auctions';
+import { formatAmount } from '../fx';
+
+interface AuctionPageProps {
+  auctions: ArtAuction[];
+  collection: ArtPiece[];
+  /** The connected collector's pieces that are free to be auctioned. */
+  listable: ArtPiece[];
+  account: string | undefined;
+  onList: (piece: ArtPiece, durationSeconds: number) => void;
+  onBid: (auction: ArtAuction, amount: number) => void;
+  onClose: (auction: ArtAuction) => void;
+  /** Offers the sold piece to the winner through the transfer flow. */
+  onHandOver: (auction: ArtAuction) => void;
+  colors: any;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+const PHASE_LABELS = {
+  open: 'Taking sealed bids',
+  ended: 'Ended, waiting to be closed',
+  revealing: 'Revealing the winner...',
+  settled: 'Settled',
+};
+
+/**
+ * Sealed-bid sales. Bids are encrypted in the browser and compared on ArtPortfolioFhe; when an
+ * auction closes only the highest bid and its bidder are decrypted.
+ */
+export default function AuctionPage({ auctions, collection, listable, account, onList, onBid, onClose, onHandOver, colors }: AuctionPageProps) {
+  const [listing, setListing] = useState('');
+  const [hours, setHours] = useState(24);
+  const [bids, setBids] = useState<Record<string, number>>({});
+
+  const pieces = new Map(collection.map(piece => [piece.id, piece]));
+  const title = (auction: ArtAuction) => pieces.get(auction.artId)?.title ?? auction.artId;
+  // Bids are in the currency the piece is valued in
+  const currency = (auction: ArtAuction) => pieces.get(auction.artId)?.currency ?? 'USD';
+
+  const handleList = () => {
+    const piece = listable.find(p => p.id === listing);
+    if (!piece) return;
+    onList(piece, Math.round(hours * 3600));
+    setListing('');
+  };
+
+  return (
+    <div className="art-collection-section">
+      <div className="section-header">
+        <h2 style={{ color: colors.primary }}>Sealed-Bid Auctions</h2>
+      </div>
+
+      {account && listable.length > 0 && (
+        <div className="search-bar auction-form">
+          <select
+            value={listing}
+            onChange={(e) => setListing(e.target.value)}
+            style={{ backgroundColor: colors.secondary, color: colors.text, border: `1px solid ${colors.primary}` }}
+          >
+            <option value="">Choose a piece to auction...</option>
+            {listable.map(piece => <option key={piece.id} value={piece.id}>{piece.title}</option>)}
+          </select>
+          <input
+            type="number"
+            min="1"
+            value={hours || ''}
+            onChange={(e) => setHours(parseFloat(e.target.value) || 0)}
+            title="Duration in hours"
+            style={{ backgroundColor: colors.secondary, color: colors.text, border: `1px solid ${colors.primary}` }}
+          />
+          <button
+            onClick={handleList}
+            disabled={listing === '' || hours <= 0}
+            className="refresh-btn"
+            style={{ backgroundColor: colors.primary, color: colors.secondary }}
+          >
+            List for Auction
+          </button>
+        </div>
+      )}
+
+      {auctions.length === 0 ? (
+        <div className="no-art" style={{ backgroundColor: colors.secondary }}>
+          <p>No auctions yet</p>
+        </div>
+      ) : (
+        <ul className="bundle-list">
+          {auctions.map(auction => {
+            const phase = auctionPhase(auction);
+            const isSeller = !!account && sameAddress(auction.seller, account);
+            const hasBid = !!account && auction.bidders.some(b => sameAddress(b, account));
+            const stillOwned = pieces.get(auction.artId)?.owner;
+            return (
+              <li key={auction.auctionId} style={{ backgroundColor: colors.secondary, border: `1px solid ${colors.primary}` }}>
+                <div className="bundle-header">
+                  <h3 style={{ color: colors.primary }}>{title(auction)}</h3>
+                  <span className="status-badge" style={{ backgroundColor: colors.primary, color: colors.secondary }}>
+                    {PHASE_LABELS[phase]}
+                  </span>
+                </div>
+                <div className="art-details">
+                  <p><strong>Seller:</strong> {isSeller ? 'You' : shortAddress(auction.seller)}</p>
+                  <p><strong>Ends:</strong> {new Date(auction.endTime * 1000).toLocaleString()}</p>
+                  <p><strong>Sealed bids:</strong> {auction.bidders.length}{hasBid ? ' (including yours)' : ''}</p>
+                  {phase === 'settled' && (
+                    <p>
+                      <strong>Result:</strong>{' '}
+                      {auction.winner
+                        ? `${account && sameAddress(auction.winner, account) ? 'You' : shortAddress(auction.winner)} won with ${formatAmount(auction.winningBid!, currency(auction))}`
+                        : 'No bids'}
+                    </p>
+                  )}
+                </div>
+                <div className="art-actions">
+                  {phase === 'open' && account && !isSeller && !hasBid && (
+                    <>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        placeholder={`Your bid (${currency(auction)})`}
+                        value={bids[auction.auctionId] || ''}
+                        onChange={(e) => setBids(prev => ({ ...prev, [auction.auctionId]: parseFloat(e.target.value) || 0 }))}
+                        style={{ backgroundColor: colors.background, color: colors.text, border: `1px solid ${colors.primary}` }}
+                      />
+                      <button
+                        className="authenticate-btn"
+                        disabled={!(bids[auction.auctionId] > 0)}
+                        style={{ backgroundColor: colors.primary, color: colors.secondary }}
+                        onClick={() => onBid(auction, bids[auction.auctionId])}
+                      >
+                        Place Sealed Bid
+                      </button>
+                    </>
+                  )}
+                  {phase === 'ended' && account && (
+                    <button
+                      className="authenticate-btn"
+                      style={{ backgroundColor: colors.primary, color: colors.secondary }}
+                      onClick={() => onClose(auction)}
+                    >
+                      Close &amp; Reveal Winner
+                    </button>
+                  )}
+                  {phase === 'settled' && isSeller && auction.winner && stillOwned && sameAddress(stillOwned, auction.seller) && (
+                    <button
+                      className="authenticate-btn"
+                      style={{ backgroundColor: colors.primary, color: colors.secondary }}
+                      onClick={() => onHandOver(auction)}
+                    >
+                      Offer Piece to Winner
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+
+interface AuthenticatorAdminProps {
+  authenticators: string[];
+  isAdmin: boolean;
+  onAdd: (account: string) => void;
+  onRemove: (account: string) => void;
+  colors: any;
+}
+
+/** Lets the ArtPortfolioFhe owner manage who may authenticate or reject other collectors' pieces. */
+export default function AuthenticatorAdmin({ authenticators, isAdmin, onAdd, onRemove, colors }: AuthenticatorAdminProps) {
+  const [candidate, setCandidate] = useState('');
+
+  const handleAdd = () => {
+    if (!ethers.isAddress(candidate)) {
+      alert(`"${candidate}" is not a valid wallet address`);
+      return;
+    }
+    onAdd(ethers.getAddress(candidate));
+    setCandidate('');
+  };
+
+  return (
+    <div className="art-collection-section">
+      <div className="section-header">
+        <h2 style={{ color: colors.primary }}>Authenticators</h2>
+      </div>
+
+      {!isAdmin && (
+        <div className="no-art" style={{ backgroundColor: colors.secondary }}>
+          <p>Only the ArtPortfolioFhe owner can change the authenticator list.</p>
+        </div>
+      )}
+
+      {isAdmin && (
+        <div className="search-bar authenticator-form">
+          <input
+            type="text"
+            placeholder="0x... authenticator address"
+            value={candidate}
+            onChange={(e) => setCandidate(e.target.value)}
+            style={{ backgroundColor: colors.secondary, color: colors.text, border: `1px solid ${colors.primary}` }}
+          />
+          <button
+            onClick={handleAdd}
+            className="refresh-btn"
+            style={{ backgroundColor: colors.primary, color: colors.secondary }}
+          >
+            Add Authenticator
+          </button>
+        </div>
+      )}
+
+      {authenticators.length === 0 ? (
+        <div className="no-art" style={{ backgroundColor: colors.secondary }}>
+          <p>No authenticators registered</p>
+        </div>
+      ) : (
+        <ul className="authenticator-list">
+          {authenticators.map(account => (
+            <li key={account} style={{ backgroundColor: colors.secondary, border: `1px solid ${colors.primary}` }}>
+              <code style={{ color: colors.text }}>{account}</code>
+              {isAdmin && (
+                <button
+                  className="reject-btn"
+                  style={{ backgroundColor: '#FF0000', color: colors.accent }}
+                  onClick={() => onRemove(account)}
+                >
+                  Remove
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
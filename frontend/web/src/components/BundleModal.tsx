@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import type { ArtCurrency, ArtPiece } from '../art';
+import type { BundleStep } from '../bundles';
+
+interface BundleModalProps {
+  pieces: ArtPiece[];
+  onPledge: (lender: string, loanAmount: number, onStep: (step: BundleStep) => void) => Promise<void>;
+  /** Reporting currency the loan is entered in and the pieces are converted into. */
+  currency: ArtCurrency;
+  onClose: () => void;
+  colors: any;
+}
+
+const STEP_LABELS: Record<BundleStep, string> = {
+  preparing: 'Preparing a batch only you contribute to...',
+  encrypting: 'Encrypting valuations for ArtPortfolioFhe...',
+  submitting: 'Submitting encrypted valuations...',
+  pledging: 'Creating the bundle and locking pieces...',
+};
+
+/** Pledges the selected pieces to a lender. Their total stays encrypted; the lender only learns the LTV tier. */
+export default function BundleModal({ pieces, onPledge, currency, onClose, colors }: BundleModalProps) {
+  const [lender, setLender] = useState('');
+  const [loanAmount, setLoanAmount] = useState(0);
+  const [step, setStep] = useState<BundleStep | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handlePledge = async () => {
+    if (!ethers.isAddress(lender)) {
+      setError(`"${lender}" is not a valid wallet address`);
+      return;
+    }
+    setError(null);
+    try {
+      await onPledge(ethers.getAddress(lender), loanAmount, setStep);
+    } catch (e: any) {
+      setError(e.message || 'Pledging failed');
+    } finally {
+      setStep(null);
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="add-art-modal" style={{ backgroundColor: colors.secondary, border: `2px solid ${colors.primary}` }}>
+        <div className="modal-header" style={{ borderBottom: `1px solid ${colors.primary}` }}>
+          <h2 style={{ color: colors.primary }}>Pledge as Collateral</h2>
+          <button onClick={onClose} className="close-modal" style={{ color: colors.primary }}>&times;</button>
+        </div>
+        <div className="modal-body">
+          <div className="fhe-notice" style={{ backgroundColor: colors.background }}>
+            <p style={{ color: colors.text }}>
+              {pieces.map(p => p.title).join(', ')} will be locked until the lender releases the bundle.
+              Their valuations are converted to {currency} and added up under encryption. ArtPortfolioFhe checks
+              that the pieces are registered to you, not that the total matches their registered values: the
+              lender takes your word for it.
+            </p>
+          </div>
+          <div className="form-group">
+            <label style={{ color: colors.text }}>Lender *</label>
+            <input
+              type="text"
+              value={lender}
+              onChange={(e) => setLender(e.target.value.trim())}
+              placeholder="0x..."
+              style={{ backgroundColor: colors.background, color: colors.text, border: `1px solid ${colors.primary}` }}
+            />
+          </div>
+          <div className="form-group">
+            <label style={{ color: colors.text }}>Loan Amount ({currency}) *</label>
+            <input
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={loanAmount || ''}
+              onChange={(e) => setLoanAmount(parseFloat(e.target.value) || 0)}
+              style={{ backgroundColor: colors.background, color: colors.text, border: `1px solid ${colors.primary}` }}
+            />
+          </div>
+          {error && <p className="wealth-proof-error">{error}</p>}
+        </div>
+        <div className="modal-footer" style={{ borderTop: `1px solid ${colors.primary}` }}>
+          <button
+            onClick={onClose}
+            className="cancel-btn"
+            style={{ backgroundColor: colors.background, color: colors.text }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handlePledge}
+            disabled={step !== null || pieces.length === 0 || loanAmount <= 0 || lender === ''}
+            className="submit-btn"
+            style={{ backgroundColor: colors.primary, color: colors.secondary }}
+          >
+            {step ? STEP_LABELS[step] : 'Pledge Pieces'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
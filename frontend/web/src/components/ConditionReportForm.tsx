@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import type { ArtCondition, ArtPiece } from '../art';
+import { ART_CONDITIONS } from '../art';
+
+interface ConditionReportFormProps {
+  art: ArtPiece;
+  /** Set when the connected wallet owns the piece; rewrites the record with the new location and condition. */
+  onReport?: (location: string, condition: ArtCondition) => void;
+  colors: any;
+}
+
+/** Where the piece is kept and its condition, as listed on insurance schedules. Both are public, like the catalogue. */
+export default function ConditionReportForm({ art, onReport, colors }: ConditionReportFormProps) {
+  const [location, setLocation] = useState(art.location);
+  const [condition, setCondition] = useState<ArtCondition>(art.condition);
+
+  const inputStyle = { backgroundColor: colors.secondary, color: colors.text, border: `1px solid ${colors.primary}` };
+  const changed = location.trim() !== art.location || condition !== art.condition;
+
+  return (
+    <div className="encrypted-section" style={{ backgroundColor: colors.background }}>
+      <h3 style={{ color: colors.primary }}>Location &amp; Condition</h3>
+      <div style={{ color: colors.text }}>
+        {art.location || 'Location not recorded'} · {art.condition === 'unrecorded' ? 'condition not recorded' : `${art.condition} condition`}
+      </div>
+      {onReport && (
+        <>
+          <div className="form-group">
+            <input type="text" value={location} onChange={(e) => setLocation(e.target.value)} placeholder="Storage facility or city" style={inputStyle} />
+          </div>
+          <div className="form-group">
+            <select value={condition} onChange={(e) => setCondition(e.target.value as ArtCondition)} style={inputStyle}>
+              {ART_CONDITIONS.map(option => <option key={option} value={option}>{option}</option>)}
+            </select>
+          </div>
+          <button
+            onClick={() => onReport(location.trim(), condition)}
+            disabled={!changed}
+            className="decrypt-btn"
+            style={{ backgroundColor: colors.primary, color: colors.secondary }}
+          >
+            Update Record
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import type { ArtPiece } from '../art';
+import type { DisclosureField, DisclosureGrant } from '../disclosures';
+import { DISCLOSURE_FIELD_LABELS, disclosureState, RECORD_FIELDS } from '../disclosures';
+import { formatAmount } from '../fx';
+
+interface DisclosurePageProps {
+  /** Every grant the connected wallet gave or received, newest first. */
+  grants: DisclosureGrant[];
+  collection: ArtPiece[];
+  account: string | undefined;
+  /** Discloses the chosen fields of every chosen piece to `grantee` for `days` days. */
+  onGrant: (grantee: string, pieces: ArtPiece[], fields: DisclosureField[], days: number) => void;
+  onRevoke: (grant: DisclosureGrant) => void;
+  /** Logs the access on chain and decrypts the copy it grants; null when the grantee declined to sign. */
+  onAccess: (grant: DisclosureGrant) => Promise<number | null>;
+  colors: any;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+const formatTime = (seconds: number) => new Date(seconds * 1000).toLocaleString();
+
+/** Time-limited, revocable read access to a piece's cost basis or valuation, for a lender, insurer or auditor. */
+export default function DisclosurePage({ grants, collection, account, onGrant, onRevoke, onAccess, colors }: DisclosurePageProps) {
+  const [grantee, setGrantee] = useState('');
+  const [pieceIds, setPieceIds] = useState<string[]>([]);
+  const [fields, setFields] = useState<DisclosureField[]>(['valuation']);
+  const [days, setDays] = useState(30);
+  const [figures, setFigures] = useState<Record<string, number>>({});
+
+  const pieces = new Map(collection.map(piece => [piece.id, piece]));
+  const owned = account ? collection.filter(piece => sameAddress(piece.owner, account)) : [];
+  const given = account ? grants.filter(grant => sameAddress(grant.owner, account)) : [];
+  const received = account ? grants.filter(grant => sameAddress(grant.grantee, account)) : [];
+  const inputStyle = { backgroundColor: colors.background, color: colors.text, border: `1px solid ${colors.primary}` };
+
+  const toggle = <T,>(list: T[], item: T) => list.includes(item) ? list.filter(entry => entry !== item) : [...list, item];
+
+  const handleGrant = () => {
+    if (!ethers.isAddress(grantee)) { alert(`"${grantee}" is not a valid address`); return; }
+    onGrant(grantee, owned.filter(piece => pieceIds.includes(piece.id)), fields, days);
+    setPieceIds([]);
+  };
+
+  const handleAccess = async (grant: DisclosureGrant) => {
+    const figure = await onAccess(grant);
+    if (figure !== null) setFigures(prev => ({ ...prev, [grant.grantId]: figure }));
+  };
+
+  const describe = (grant: DisclosureGrant) => {
+    const piece = pieces.get(grant.artId);
+    return `${DISCLOSURE_FIELD_LABELS[grant.field]} of ${piece ? `${piece.title} by ${piece.artist}` : grant.artId}`;
+  };
+
+  const statusLine = (grant: DisclosureGrant) => {
+    const state = disclosureState(grant);
+    if (state === 'revoked') return 'Revoked';
+    return `${state === 'active' ? 'Active until' : 'Expired'} ${formatTime(grant.expiresAt)}`;
+  };
+
+  const accessLog = (grant: DisclosureGrant) => (
+    <ul className="authenticator-list">
+      {grant.accesses.length === 0 && <li>Never accessed</li>}
+      {grant.accesses.map(access => (
+        <li key={access.transactionHash} title={access.transactionHash}>
+          Accessed {access.timestamp !== null ? formatTime(access.timestamp) : `in block ${access.blockNumber}`}
+        </li>
+      ))}
+    </ul>
+  );
+
+  if (!account) {
+    return (
+      <div className="art-collection-section">
+        <div className="no-art" style={{ backgroundColor: colors.secondary }}>
+          <p>Connect a wallet to share or read disclosed figures</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="art-collection-section">
+      <div className="section-header">
+        <h2 style={{ color: colors.primary }}>Disclosures</h2>
+      </div>
+
+      {owned.length > 0 && (
+        <div className="encrypted-section" style={{ backgroundColor: colors.secondary }}>
+          <h3 style={{ color: colors.primary }}>Grant Access</h3>
+          <div className="form-group">
+            <input type="text" value={grantee} onChange={(e) => setGrantee(e.target.value.trim())} placeholder="0x... lender, insurer or auditor" style={inputStyle} />
+          </div>
+          <div className="form-group">
+            {owned.map(piece => (
+              <label key={piece.id} style={{ color: colors.text, display: 'block' }}>
+                <input type="checkbox" checked={pieceIds.includes(piece.id)} onChange={() => setPieceIds(prev => toggle(prev, piece.id))} />
+                {' '}{piece.title} by {piece.artist}
+              </label>
+            ))}
+          </div>
+          <div className="form-group">
+            {RECORD_FIELDS.map(field => (
+              <label key={field} style={{ color: colors.text, marginRight: '1em' }}>
+                <input type="checkbox" checked={fields.includes(field)} onChange={() => setFields(prev => toggle(prev, field))} />
+                {' '}{DISCLOSURE_FIELD_LABELS[field]}
+              </label>
+            ))}
+          </div>
+          <div className="form-group">
+            <label style={{ color: colors.text }}>Expires after (days)</label>
+            <input type="number" min="1" value={days} onChange={(e) => setDays(parseInt(e.target.value) || 0)} style={inputStyle} />
+          </div>
+          <button
+            onClick={handleGrant}
+            disabled={grantee === '' || pieceIds.length === 0 || fields.length === 0 || !(days > 0)}
+            className="authenticate-btn"
+            style={{ backgroundColor: colors.primary, color: colors.secondary }}
+          >
+            Encrypt &amp; Grant
+          </button>
+        </div>
+      )}
+
+      <h3 style={{ color: colors.primary }}>Granted by You</h3>
+      {given.length === 0 ? (
+        <div className="no-art" style={{ backgroundColor: colors.secondary }}>
+          <p>You have not disclosed anything yet</p>
+        </div>
+      ) : (
+        <ul className="bundle-list">
+          {given.map(grant => (
+            <li key={grant.grantId} style={{ backgroundColor: colors.secondary, border: `1px solid ${colors.primary}` }}>
+              <div className="bundle-header">
+                <h3 style={{ color: colors.primary }}>{describe(grant)}</h3>
+                <span className="status-badge" style={{ backgroundColor: colors.primary, color: colors.secondary }}>{statusLine(grant)}</span>
+              </div>
+              <div className="art-details">
+                <p><strong>Grantee:</strong> {shortAddress(grant.grantee)}</p>
+                {accessLog(grant)}
+              </div>
+              {disclosureState(grant) === 'active' && (
+                <div className="art-actions">
+                  <button className="authenticate-btn" style={{ backgroundColor: colors.primary, color: colors.secondary }} onClick={() => onRevoke(grant)}>
+                    Revoke
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <h3 style={{ color: colors.primary }}>Shared with You</h3>
+      <p style={{ color: colors.text }}>
+        Figures are as the owner entered them. ArtPortfolioFhe only checks that the piece is registered to them.
+      </p>
+      {received.length === 0 ? (
+        <div className="no-art" style={{ backgroundColor: colors.secondary }}>
+          <p>Nothing has been disclosed to you</p>
+        </div>
+      ) : (
+        <ul className="bundle-list">
+          {received.map(grant => {
+            const figure = figures[grant.grantId];
+            const piece = pieces.get(grant.artId);
+            return (
+              <li key={grant.grantId} style={{ backgroundColor: colors.secondary, border: `1px solid ${colors.primary}` }}>
+                <div className="bundle-header">
+                  <h3 style={{ color: colors.primary }}>{describe(grant)}</h3>
+                  <span className="status-badge" style={{ backgroundColor: colors.primary, color: colors.secondary }}>{statusLine(grant)}</span>
+                </div>
+                <div className="art-details">
+                  <p><strong>Owner:</strong> {shortAddress(grant.owner)}</p>
+                  {figure !== undefined && (
+                    <p style={{ color: colors.primary }}>{piece ? formatAmount(figure, piece.currency) : figure.toFixed(2)}</p>
+                  )}
+                </div>
+                {disclosureState(grant) === 'active' && figure === undefined && (
+                  <div className="art-actions">
+                    <button className="decrypt-btn" style={{ backgroundColor: colors.primary, color: colors.secondary }} onClick={() => handleAccess(grant)}>
+                      Access &amp; Decrypt
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
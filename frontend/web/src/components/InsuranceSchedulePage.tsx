@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import type { ArtPiece } from '../art';
+import type { DisclosureGrant } from '../disclosures';
+import type { InsuranceSchedule, InsuredPiece, InsuredValues } from '../insurance';
+import { downloadFile, insuranceSchedules, readableLines, scheduleToCsv, scheduleToPdf } from '../insurance';
+import { formatAmount } from '../fx';
+
+interface InsuranceSchedulePageProps {
+  grants: DisclosureGrant[];
+  collection: ArtPiece[];
+  account: string | undefined;
+  onIssue: (insurer: string, insured: InsuredPiece[], days: number) => void;
+  /** Revokes every line the insurer can still read. */
+  onRevoke: (schedule: InsuranceSchedule) => void;
+  /** Owner side: decrypts the current valuations of `pieces` to start the insured values from. */
+  onLoadValuations: (pieces: ArtPiece[]) => Promise<Record<string, number>>;
+  /** Insurer side: logs the access and decrypts every readable line; null when it failed or was declined. */
+  onDecrypt: (schedule: InsuranceSchedule) => Promise<InsuredValues | null>;
+  colors: any;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+const formatTime = (seconds: number) => new Date(seconds * 1000).toLocaleString();
+
+/** Insurance schedules whose insured values only the chosen insurer can decrypt, exported by the insurer as CSV or PDF. */
+export default function InsuranceSchedulePage({ grants, collection, account, onIssue, onRevoke, onLoadValuations, onDecrypt, colors }: InsuranceSchedulePageProps) {
+  const [insurer, setInsurer] = useState('');
+  const [insuredValues, setInsuredValues] = useState<Record<string, number>>({});
+  const [days, setDays] = useState(365);
+  const [decrypted, setDecrypted] = useState<Record<string, InsuredValues>>({});
+
+  const schedules = insuranceSchedules(grants, collection);
+  const owned = account ? collection.filter(piece => sameAddress(piece.owner, account)) : [];
+  const issued = account ? schedules.filter(schedule => sameAddress(schedule.owner, account)) : [];
+  const received = account ? schedules.filter(schedule => sameAddress(schedule.insurer, account)) : [];
+  const chosen = owned.filter(piece => insuredValues[piece.id] !== undefined);
+  const inputStyle = { backgroundColor: colors.background, color: colors.text, border: `1px solid ${colors.primary}` };
+
+  const togglePiece = (piece: ArtPiece) => setInsuredValues(prev => {
+    const { [piece.id]: current, ...rest } = prev;
+    return current === undefined ? { ...prev, [piece.id]: 0 } : rest;
+  });
+
+  const fillFromValuations = async () => {
+    const valuations = await onLoadValuations(chosen);
+    setInsuredValues(prev => ({ ...prev, ...valuations }));
+  };
+
+  const handleIssue = () => {
+    if (!ethers.isAddress(insurer)) { alert(`"${insurer}" is not a valid insurer address`); return; }
+    onIssue(insurer, chosen.map(piece => ({ piece, insuredValue: insuredValues[piece.id] })), days);
+    setInsuredValues({});
+  };
+
+  const handleDecrypt = async (schedule: InsuranceSchedule) => {
+    const values = await onDecrypt(schedule);
+    if (values) setDecrypted(prev => ({ ...prev, [schedule.scheduleId]: values }));
+  };
+
+  const fileName = (schedule: InsuranceSchedule, extension: string) =>
+    `insurance-schedule-${shortAddress(schedule.owner).replace('...', '-')}-${schedule.scheduleId.substring(2, 10)}.${extension}`;
+
+  const liveSummary = (schedule: InsuranceSchedule) => {
+    const live = readableLines(schedule, grants).length;
+    if (live === 0) return 'No longer readable';
+    return `${live} of ${schedule.lines.length} lines readable until ${formatTime(schedule.expiresAt)}`;
+  };
+
+  if (!account) {
+    return (
+      <div className="art-collection-section">
+        <div className="no-art" style={{ backgroundColor: colors.secondary }}>
+          <p>Connect a wallet to issue or read insurance schedules</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="art-collection-section">
+      <div className="section-header">
+        <h2 style={{ color: colors.primary }}>Insurance Schedules</h2>
+      </div>
+
+      {owned.length > 0 && (
+        <div className="encrypted-section" style={{ backgroundColor: colors.secondary }}>
+          <h3 style={{ color: colors.primary }}>Issue a Schedule</h3>
+          <div className="form-group">
+            <input type="text" value={insurer} onChange={(e) => setInsurer(e.target.value.trim())} placeholder="0x... insurer" style={inputStyle} />
+          </div>
+          <ul className="authenticator-list">
+            {owned.map(piece => (
+              <li key={piece.id}>
+                <label style={{ color: colors.text }}>
+                  <input type="checkbox" checked={insuredValues[piece.id] !== undefined} onChange={() => togglePiece(piece)} />
+                  {' '}{piece.title} by {piece.artist} · {piece.location || 'location not recorded'} · {piece.condition}
+                </label>
+                {insuredValues[piece.id] !== undefined && (
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={insuredValues[piece.id] || ''}
+                    onChange={(e) => setInsuredValues(prev => ({ ...prev, [piece.id]: parseFloat(e.target.value) || 0 }))}
+                    placeholder={`Insured value (${piece.currency})`}
+                    style={inputStyle}
+                  />
+                )}
+              </li>
+            ))}
+          </ul>
+          <div className="form-group">
+            <label style={{ color: colors.text }}>Readable for (days)</label>
+            <input type="number" min="1" value={days} onChange={(e) => setDays(parseInt(e.target.value) || 0)} style={inputStyle} />
+          </div>
+          <div className="art-actions">
+            <button
+              onClick={fillFromValuations}
+              disabled={chosen.length === 0}
+              className="decrypt-btn"
+              style={{ backgroundColor: colors.secondary, color: colors.primary, border: `1px solid ${colors.primary}` }}
+            >
+              Decrypt Valuations
+            </button>
+            <button
+              onClick={handleIssue}
+              disabled={insurer === '' || chosen.length === 0 || chosen.some(piece => !(insuredValues[piece.id] > 0)) || !(days > 0)}
+              className="authenticate-btn"
+              style={{ backgroundColor: colors.primary, color: colors.secondary }}
+            >
+              Encrypt for Insurer
+            </button>
+          </div>
+        </div>
+      )}
+
+      <h3 style={{ color: colors.primary }}>Issued by You</h3>
+      {issued.length === 0 ? (
+        <div className="no-art" style={{ backgroundColor: colors.secondary }}>
+          <p>You have not issued an insurance schedule yet</p>
+        </div>
+      ) : (
+        <ul className="bundle-list">
+          {issued.map(schedule => (
+            <li key={schedule.scheduleId} style={{ backgroundColor: colors.secondary, border: `1px solid ${colors.primary}` }}>
+              <div className="bundle-header">
+                <h3 style={{ color: colors.primary }}>Insurer {shortAddress(schedule.insurer)}</h3>
+                <span className="status-badge" style={{ backgroundColor: colors.primary, color: colors.secondary }}>{liveSummary(schedule)}</span>
+              </div>
+              <div className="art-details">
+                {schedule.lines.map(line => <p key={line.grantId}>{line.title} · {line.location || 'location not recorded'} · {line.condition}</p>)}
+              </div>
+              {readableLines(schedule, grants).length > 0 && (
+                <div className="art-actions">
+                  <button className="authenticate-btn" style={{ backgroundColor: colors.primary, color: colors.secondary }} onClick={() => onRevoke(schedule)}>
+                    Revoke Schedule
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <h3 style={{ color: colors.primary }}>Schedules for You</h3>
+      <p style={{ color: colors.text }}>
+        Insured values are as the policyholder entered them. ArtPortfolioFhe only checks that each piece is registered to them.
+      </p>
+      {received.length === 0 ? (
+        <div className="no-art" style={{ backgroundColor: colors.secondary }}>
+          <p>No collector has issued you a schedule</p>
+        </div>
+      ) : (
+        <ul className="bundle-list">
+          {received.map(schedule => {
+            const values = decrypted[schedule.scheduleId];
+            return (
+              <li key={schedule.scheduleId} style={{ backgroundColor: colors.secondary, border: `1px solid ${colors.primary}` }}>
+                <div className="bundle-header">
+                  <h3 style={{ color: colors.primary }}>Policyholder {shortAddress(schedule.owner)}</h3>
+                  <span className="status-badge" style={{ backgroundColor: colors.primary, color: colors.secondary }}>{liveSummary(schedule)}</span>
+                </div>
+                <div className="art-details">
+                  {schedule.lines.map(line => (
+                    <p key={line.grantId}>
+                      <strong>{line.title}</strong>{line.artist && ` by ${line.artist}`} · {line.location || 'location not recorded'} · {line.condition}
+                      {' · '}{values?.[line.grantId] !== undefined ? formatAmount(values[line.grantId], line.currency) : `encrypted ${line.currency}`}
+                    </p>
+                  ))}
+                </div>
+                <div className="art-actions">
+                  {!values && readableLines(schedule, grants).length > 0 && (
+                    <button className="decrypt-btn" style={{ backgroundColor: colors.primary, color: colors.secondary }} onClick={() => handleDecrypt(schedule)}>
+                      Access &amp; Decrypt
+                    </button>
+                  )}
+                  {values && (
+                    <>
+                      <button
+                        className="decrypt-btn"
+                        style={{ backgroundColor: colors.primary, color: colors.secondary }}
+                        onClick={() => downloadFile(fileName(schedule, 'csv'), new Blob([scheduleToCsv(schedule, values)], { type: 'text/csv' }))}
+                      >
+                        Download CSV
+                      </button>
+                      <button
+                        className="decrypt-btn"
+                        style={{ backgroundColor: colors.primary, color: colors.secondary }}
+                        onClick={() => downloadFile(fileName(schedule, 'pdf'), scheduleToPdf(schedule, values))}
+                      >
+                        Download PDF
+                      </button>
+                    </>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import type { ArtPiece } from '../art';
+import type { CollateralBundle } from '../bundles';
+import { LTV_TIER_LABELS } from '../bundles';
+import { toCents } from '../fhe';
+import { formatCents } from '../fx';
+
+interface LoanBundlesProps {
+  bundles: CollateralBundle[];
+  collection: ArtPiece[];
+  account: string | undefined;
+  onDecrypt: (bundleId: string) => Promise<{ value: bigint; ltvTier: number }>;
+  onRelease: (bundleId: string) => void;
+  /** Writes the released pieces' status back to authenticated. */
+  onUnlock: (bundle: CollateralBundle) => void;
+  colors: any;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+// In tenths of a percent on the exact cents, so a bundle value beyond 2^53 cents does not lose precision.
+const loanToValue = (loanAmount: number, valueCents: bigint) =>
+  valueCents > 0n ? (Number((toCents(loanAmount) * 1000n) / valueCents) / 10).toFixed(1) : '∞';
+
+/**
+ * Loans the connected wallet borrowed or lent against bundled pieces. The bundle value and the
+ * loan-to-value tier are computed by ArtPortfolioFhe on ciphertexts and only the two parties can
+ * decrypt them; the lender releases the bundle once the loan is repaid.
+ */
+export default function LoanBundles({ bundles, collection, account, onDecrypt, onRelease, onUnlock, colors }: LoanBundlesProps) {
+  const [decrypted, setDecrypted] = useState<Record<string, { value: bigint; ltvTier: number }>>({});
+  const [decrypting, setDecrypting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const mine = account ? bundles.filter(b => sameAddress(b.owner, account) || sameAddress(b.lender, account)) : [];
+  const pieces = new Map(collection.map(piece => [piece.id, piece]));
+
+  const handleDecrypt = async (bundleId: string) => {
+    setError(null);
+    setDecrypting(bundleId);
+    try {
+      const result = await onDecrypt(bundleId);
+      setDecrypted(prev => ({ ...prev, [bundleId]: result }));
+    } catch (e: any) {
+      setError(e.message || 'Decryption failed');
+    } finally {
+      setDecrypting(null);
+    }
+  };
+
+  return (
+    <div className="art-collection-section">
+      <div className="section-header">
+        <h2 style={{ color: colors.primary }}>Collateral Loans</h2>
+      </div>
+
+      {error && <p className="wealth-proof-error">{error}</p>}
+
+      {!account ? (
+        <div className="no-art" style={{ backgroundColor: colors.secondary }}>
+          <p>Connect your wallet to see your loans</p>
+        </div>
+      ) : mine.length === 0 ? (
+        <div className="no-art" style={{ backgroundColor: colors.secondary }}>
+          <p>No loans yet. Select authenticated pieces in My Collection to pledge them.</p>
+        </div>
+      ) : (
+        <ul className="bundle-list">
+          {mine.map(bundle => {
+            const isLender = sameAddress(bundle.lender, account);
+            const revealed = decrypted[bundle.bundleId];
+            const stillLocked = bundle.artIds.filter(id => pieces.get(id)?.status === 'collateralized');
+            return (
+              <li key={bundle.bundleId} style={{ backgroundColor: colors.secondary, border: `1px solid ${colors.primary}` }}>
+                <div className="bundle-header">
+                  <h3 style={{ color: colors.primary }}>Bundle #{bundle.bundleId}</h3>
+                  <span
+                    className="status-badge"
+                    style={{ backgroundColor: bundle.active ? colors.primary : colors.background, color: bundle.active ? colors.secondary : colors.text }}
+                  >
+                    {bundle.active ? 'active' : 'released'}
+                  </span>
+                </div>
+                <div className="art-details">
+                  <p><strong>{isLender ? 'Borrower' : 'Lender'}:</strong> {shortAddress(isLender ? bundle.owner : bundle.lender)}</p>
+                  <p><strong>Loan:</strong> ${bundle.loanAmount.toLocaleString()}</p>
+                  <p><strong>Pieces:</strong> {bundle.artIds.map(id => pieces.get(id)?.title ?? id).join(', ')}</p>
+                  <p>
+                    <strong>Loan-to-value:</strong>{' '}
+                    {revealed
+                      ? `${LTV_TIER_LABELS[revealed.ltvTier] ?? 'Unknown'} (${loanToValue(bundle.loanAmount, revealed.value)}% of ${formatCents(revealed.value, 'USD')})`
+                      : 'Encrypted'}
+                  </p>
+                </div>
+                <div className="art-actions">
+                  {!revealed && (
+                    <button
+                      className="refresh-btn"
+                      disabled={decrypting !== null}
+                      style={{ backgroundColor: colors.primary, color: colors.secondary }}
+                      onClick={() => handleDecrypt(bundle.bundleId)}
+                    >
+                      {decrypting === bundle.bundleId ? 'Decrypting...' : 'Decrypt LTV'}
+                    </button>
+                  )}
+                  {bundle.active && isLender && (
+                    <button
+                      className="authenticate-btn"
+                      style={{ backgroundColor: colors.primary, color: colors.secondary }}
+                      onClick={() => onRelease(bundle.bundleId)}
+                    >
+                      Mark Repaid &amp; Release
+                    </button>
+                  )}
+                  {!bundle.active && !isLender && stillLocked.length > 0 && (
+                    <button
+                      className="authenticate-btn"
+                      style={{ backgroundColor: colors.primary, color: colors.secondary }}
+                      onClick={() => onUnlock(bundle)}
+                    >
+                      Unlock {stillLocked.length} Piece{stillLocked.length === 1 ? '' : 's'}
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
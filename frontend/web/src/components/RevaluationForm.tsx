@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import type { ArtPiece } from '../art';
+import type { AppreciationCurve, ValuationModel } from '../valuation';
+import { AppraisalModel, AppreciationModel, ComparableSalesModel, describeValuationMethod } from '../valuation';
+
+interface RevaluationFormProps {
+  art: ArtPiece;
+  /** Set when the connected wallet owns the piece; the model runs on its decrypted acquisition price. */
+  onRevalue?: (model: ValuationModel) => void;
+  colors: any;
+}
+
+type ModelChoice = 'comparables' | 'appraisal' | 'appreciation';
+
+const MODEL_LABELS: Record<ModelChoice, string> = {
+  comparables: 'Comparable sales of the artist',
+  appraisal: 'Appraisal',
+  appreciation: 'Time-based appreciation',
+};
+
+/** Shows how the current valuation was made and lets the owner revalue with another model. */
+export default function RevaluationForm({ art, onRevalue, colors }: RevaluationFormProps) {
+  const [choice, setChoice] = useState<ModelChoice>('comparables');
+  const [appraiser, setAppraiser] = useState('');
+  const [appraisedOn, setAppraisedOn] = useState('');
+  const [appraisedAmount, setAppraisedAmount] = useState(0);
+  const [ratePercent, setRatePercent] = useState(5);
+  const [curve, setCurve] = useState<AppreciationCurve>('compound');
+
+  const inputStyle = { backgroundColor: colors.secondary, color: colors.text, border: `1px solid ${colors.primary}` };
+
+  const buildModel = (): ValuationModel | null => {
+    if (choice === 'comparables') return new ComparableSalesModel();
+    if (choice === 'appreciation') return new AppreciationModel(ratePercent / 100, curve);
+    if (!ethers.isAddress(appraiser)) { alert(`"${appraiser}" is not a valid appraiser address`); return null; }
+    const appraisedAt = Math.floor(Date.parse(appraisedOn) / 1000);
+    if (!Number.isFinite(appraisedAt)) { alert('Enter the date of the appraisal'); return null; }
+    return new AppraisalModel({ appraiser, appraisedAt, amount: appraisedAmount });
+  };
+
+  const handleRevalue = () => {
+    let model: ValuationModel | null;
+    try {
+      model = buildModel();
+    } catch (e: any) {
+      alert(e.message);
+      return;
+    }
+    if (model) onRevalue!(model);
+  };
+
+  return (
+    <div className="encrypted-section" style={{ backgroundColor: colors.background }}>
+      <h3 style={{ color: colors.primary }}>Valuation</h3>
+      <div style={{ color: colors.text }}>{describeValuationMethod(art.valuationMethod)}</div>
+      {onRevalue && (
+        <>
+          <div className="form-group">
+            <label style={{ color: colors.text }}>Revalue with</label>
+            <select value={choice} onChange={(e) => setChoice(e.target.value as ModelChoice)} style={inputStyle}>
+              {(Object.keys(MODEL_LABELS) as ModelChoice[]).map(key => <option key={key} value={key}>{MODEL_LABELS[key]}</option>)}
+            </select>
+          </div>
+          {choice === 'appraisal' && (
+            <>
+              <div className="form-group">
+                <input type="text" value={appraiser} onChange={(e) => setAppraiser(e.target.value.trim())} placeholder="0x... appraiser" style={inputStyle} />
+              </div>
+              <div className="form-group">
+                <input type="date" value={appraisedOn} onChange={(e) => setAppraisedOn(e.target.value)} style={inputStyle} />
+              </div>
+              <div className="form-group">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={appraisedAmount || ''}
+                  onChange={(e) => setAppraisedAmount(parseFloat(e.target.value) || 0)}
+                  placeholder={`Appraised value (${art.currency})`}
+                  style={inputStyle}
+                />
+              </div>
+            </>
+          )}
+          {choice === 'appreciation' && (
+            <div className="form-group">
+              <input
+                type="number"
+                step="0.1"
+                value={ratePercent}
+                onChange={(e) => setRatePercent(parseFloat(e.target.value) || 0)}
+                title="Annual rate in percent"
+                style={inputStyle}
+              />
+              <select value={curve} onChange={(e) => setCurve(e.target.value as AppreciationCurve)} style={inputStyle}>
+                <option value="compound">Compound</option>
+                <option value="linear">Straight-line</option>
+              </select>
+            </div>
+          )}
+          <button
+            onClick={handleRevalue}
+            disabled={choice === 'appraisal' && (appraiser === '' || appraisedOn === '' || !(appraisedAmount > 0))}
+            className="decrypt-btn"
+            style={{ backgroundColor: colors.primary, color: colors.secondary }}
+          >
+            Revalue &amp; Encrypt
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
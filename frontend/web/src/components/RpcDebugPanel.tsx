@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import type { RpcProviderPool } from '../rpc';
+
+interface RpcDebugPanelProps {
+  pool: RpcProviderPool;
+  onClose: () => void;
+  colors: any;
+}
+
+const formatLatency = (ms: number | null) => ms === null ? 'n/a' : `${Math.round(ms)} ms`;
+
+/** Live ranking of the read-only RPC endpoints and which one served each recent request. */
+export default function RpcDebugPanel({ pool, onClose, colors }: RpcDebugPanelProps) {
+  const [snapshot, setSnapshot] = useState(() => pool.snapshot());
+
+  useEffect(() => {
+    setSnapshot(pool.snapshot());
+    return pool.subscribe(() => setSnapshot(pool.snapshot()));
+  }, [pool]);
+
+  const now = Date.now();
+
+  return (
+    <div className="rpc-debug-panel" style={{ backgroundColor: colors.secondary, border: `1px solid ${colors.primary}`, color: colors.text }}>
+      <div className="bundle-header">
+        <h3 style={{ color: colors.primary }}>RPC Endpoints</h3>
+        <button onClick={onClose} className="close-modal" style={{ color: colors.primary }}>&times;</button>
+      </div>
+      <table>
+        <thead>
+          <tr><th>#</th><th>Endpoint</th><th>Latency</th><th>Errors</th><th>Status</th></tr>
+        </thead>
+        <tbody>
+          {snapshot.endpoints.map((endpoint, i) => (
+            <tr key={endpoint.url} title={endpoint.lastError ?? undefined}>
+              <td>{i + 1}</td>
+              <td>{endpoint.label}</td>
+              <td>{formatLatency(endpoint.latencyMs)}</td>
+              <td>{endpoint.failures}/{endpoint.requests} ({Math.round(endpoint.errorRate * 100)}%)</td>
+              <td>{endpoint.coolingUntil > now ? `cooling ${Math.ceil((endpoint.coolingUntil - now) / 1000)}s` : endpoint.requests === 0 ? 'unused' : 'healthy'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <h4 style={{ color: colors.primary }}>Recent Requests</h4>
+      <ul className="authenticator-list">
+        {snapshot.requests.length === 0 && <li>No requests yet</li>}
+        {snapshot.requests.map((request, i) => (
+          <li key={`${request.at}-${i}`} title={request.error ?? undefined}>
+            {new Date(request.at).toLocaleTimeString()} {request.methods.join(', ')}
+            {' → '}{request.ok ? `${request.endpoint} in ${request.latencyMs} ms` : 'failed on every endpoint'}
+            {request.failedOver.length > 0 && request.ok && ` after ${request.failedOver.join(', ')} failed`}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
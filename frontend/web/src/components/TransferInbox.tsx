@@ -0,0 +1,119 @@
+import React from 'react';
+import type { ArtPiece } from '../art';
+import type { ArtTransfer } from '../transfers';
+
+interface TransferInboxProps {
+  transfers: ArtTransfer[];
+  collection: ArtPiece[];
+  account: string | undefined;
+  onAccept: (transfer: ArtTransfer) => void;
+  onCancel: (transfer: ArtTransfer) => void;
+  /** Writes the record of an accepted piece that still names the previous owner. */
+  onFinish: (transfer: ArtTransfer) => void;
+  colors: any;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+/** Pending ownership transfers of the connected wallet, incoming and outgoing. */
+export default function TransferInbox({ transfers, collection, account, onAccept, onCancel, onFinish, colors }: TransferInboxProps) {
+  const pieces = new Map(collection.map(piece => [piece.id, piece]));
+  const title = (transfer: ArtTransfer) => pieces.get(transfer.artId)?.title ?? transfer.artId;
+
+  const incoming = account ? transfers.filter(t => t.status === 'pending' && sameAddress(t.to, account)) : [];
+  const outgoing = account ? transfers.filter(t => t.status === 'pending' && sameAddress(t.from, account)) : [];
+  const unfinished = account
+    ? transfers.filter(t => {
+        const piece = pieces.get(t.artId);
+        return t.status === 'accepted' && sameAddress(t.to, account) && !!piece && sameAddress(piece.owner, t.from);
+      })
+    : [];
+
+  const renderList = (items: ArtTransfer[], actions: (transfer: ArtTransfer) => React.ReactNode) => (
+    <ul className="authenticator-list">
+      {items.map(transfer => (
+        <li key={transfer.offerId} style={{ backgroundColor: colors.secondary, border: `1px solid ${colors.primary}` }}>
+          <span style={{ color: colors.text }}>
+            <strong style={{ color: colors.primary }}>{title(transfer)}</strong>
+            {' '}from {sameAddress(transfer.from, account!) ? 'you' : shortAddress(transfer.from)}
+            {' '}to {sameAddress(transfer.to, account!) ? 'you' : shortAddress(transfer.to)}
+          </span>
+          <div className="art-actions">{actions(transfer)}</div>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="art-collection-section">
+      <div className="section-header">
+        <h2 style={{ color: colors.primary }}>Pending Transfers</h2>
+      </div>
+
+      {!account ? (
+        <div className="no-art" style={{ backgroundColor: colors.secondary }}>
+          <p>Connect your wallet to see your transfers</p>
+        </div>
+      ) : incoming.length + outgoing.length + unfinished.length === 0 ? (
+        <div className="no-art" style={{ backgroundColor: colors.secondary }}>
+          <p>No pending transfers</p>
+        </div>
+      ) : (
+        <>
+          {unfinished.length > 0 && (
+            <>
+              <h3 style={{ color: colors.primary }}>Accepted, not yet recorded</h3>
+              {renderList(unfinished, transfer => (
+                <button
+                  className="authenticate-btn"
+                  style={{ backgroundColor: colors.primary, color: colors.secondary }}
+                  onClick={() => onFinish(transfer)}
+                >
+                  Record Ownership
+                </button>
+              ))}
+            </>
+          )}
+          {incoming.length > 0 && (
+            <>
+              <h3 style={{ color: colors.primary }}>Offered to you</h3>
+              {renderList(incoming, transfer => (
+                <>
+                  <button
+                    className="authenticate-btn"
+                    style={{ backgroundColor: colors.primary, color: colors.secondary }}
+                    onClick={() => onAccept(transfer)}
+                  >
+                    Accept
+                  </button>
+                  <button
+                    className="reject-btn"
+                    style={{ backgroundColor: '#FF0000', color: colors.accent }}
+                    onClick={() => onCancel(transfer)}
+                  >
+                    Decline
+                  </button>
+                </>
+              ))}
+            </>
+          )}
+          {outgoing.length > 0 && (
+            <>
+              <h3 style={{ color: colors.primary }}>Offered by you</h3>
+              {renderList(outgoing, transfer => (
+                <button
+                  className="reject-btn"
+                  style={{ backgroundColor: '#FF0000', color: colors.accent }}
+                  onClick={() => onCancel(transfer)}
+                >
+                  Cancel Offer
+                </button>
+              ))}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import React from 'react';
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import { useSwitchChain } from 'wagmi';
+import { findNetwork, supportedNetworks } from '../deployments';
+
+interface UnsupportedNetworkProps {
+  chainId: number;
+  colors: any;
+}
+
+/** Shown instead of the app while the wallet is on a chain without a deployment in deployments.json. */
+export default function UnsupportedNetwork({ chainId, colors }: UnsupportedNetworkProps) {
+  const { switchChain, isPending } = useSwitchChain();
+  const known = findNetwork(chainId);
+
+  return (
+    <div className="app-container" style={{ backgroundColor: colors.background, color: colors.text }}>
+      <header className="app-header" style={{ backgroundColor: colors.secondary, borderBottom: `2px solid ${colors.primary}` }}>
+        <div className="logo">
+          <div className="logo-icon" style={{ backgroundColor: colors.primary }}></div>
+          <h1 style={{ color: colors.primary }}>Art<span style={{ color: colors.accent }}>Portfolio</span>FHE</h1>
+        </div>
+        <div className="header-actions">
+          <div className="wallet-connect-wrapper">
+            <ConnectButton accountStatus="address" chainStatus="icon" showBalance={false} />
+          </div>
+        </div>
+      </header>
+      <div className="main-content">
+        <div className="no-art" style={{ backgroundColor: colors.secondary, border: `1px solid ${colors.primary}` }}>
+          <h2 style={{ color: colors.primary }}>Unsupported Network</h2>
+          <p>
+            {known ? `ArtPortfolioFHE is not deployed on ${known.name} yet.` : `ArtPortfolioFHE is not deployed on chain ${chainId}.`}
+            {' '}Switch your wallet to one of these networks:
+          </p>
+          <div className="art-actions">
+            {supportedNetworks().map(network => (
+              <button
+                key={network.chainId}
+                onClick={() => switchChain({ chainId: network.chainId })}
+                disabled={isPending}
+                className="add-first-btn"
+                style={{ backgroundColor: colors.primary, color: colors.secondary }}
+              >
+                {network.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
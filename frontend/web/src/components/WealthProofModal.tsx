@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import type { WealthProofReceipt, WealthProofStep, WealthProofVerification } from '../wealth';
+import { decodeWealthProofReceipt, encodeWealthProofReceipt } from '../wealth';
+import { ART_CURRENCIES } from '../art';
+import type { ArtCurrency } from '../art';
+import { formatCents } from '../fx';
+
+interface WealthProofModalProps {
+  /** Number of the connected collector's authenticated pieces that go into the proof. */
+  pieceCount: number;
+  canProve: boolean;
+  /** Reporting currency the pieces are converted into and the threshold is entered in. */
+  currency: ArtCurrency;
+  onProve: (threshold: number, onStep: (step: WealthProofStep) => void) => Promise<WealthProofReceipt>;
+  onVerify: (receipt: WealthProofReceipt) => Promise<WealthProofVerification>;
+  onClose: () => void;
+  colors: any;
+}
+
+const STEP_LABELS: Record<WealthProofStep, string> = {
+  preparing: 'Preparing a batch only you contribute to...',
+  encrypting: 'Encrypting valuations for ArtPortfolioFhe...',
+  submitting: 'Submitting encrypted valuations...',
+  requesting: 'Requesting the threshold comparison...',
+  waiting: 'Waiting for the decryption oracle...',
+};
+
+// Receipts from before currencies were recorded, or from the SDK, are dollar amounts.
+const thresholdLabel = (receipt: WealthProofReceipt) =>
+  formatCents(
+    BigInt(receipt.threshold),
+    ART_CURRENCIES.includes(receipt.currency as ArtCurrency) ? receipt.currency as ArtCurrency : 'USD'
+  );
+
+/**
+ * Proves "my authenticated pieces are worth at least X" without revealing their total, and checks
+ * receipts other collectors share. Only the comparison result is ever decrypted.
+ */
+export default function WealthProofModal({ pieceCount, canProve, currency, onProve, onVerify, onClose, colors }: WealthProofModalProps) {
+  const [threshold, setThreshold] = useState(0);
+  const [step, setStep] = useState<WealthProofStep | null>(null);
+  const [receipt, setReceipt] = useState<WealthProofReceipt | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [candidate, setCandidate] = useState('');
+  const [verification, setVerification] = useState<(WealthProofVerification & { receipt?: WealthProofReceipt }) | null>(null);
+  const [verifying, setVerifying] = useState(false);
+
+  const handleProve = async () => {
+    setError(null);
+    setReceipt(null);
+    try {
+      setReceipt(await onProve(threshold, setStep));
+    } catch (e: any) {
+      setError(e.message || 'Wealth proof failed');
+    } finally {
+      setStep(null);
+    }
+  };
+
+  const handleVerify = async () => {
+    setVerification(null);
+    setVerifying(true);
+    try {
+      const decoded = decodeWealthProofReceipt(candidate);
+      setVerification({ ...(await onVerify(decoded)), receipt: decoded });
+    } catch (e: any) {
+      setVerification({ valid: false, reason: e.message || 'Verification failed' });
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const encoded = receipt ? encodeWealthProofReceipt(receipt) : '';
+
+  return (
+    <div className="modal-overlay">
+      <div className="add-art-modal" style={{ backgroundColor: colors.secondary, border: `2px solid ${colors.primary}` }}>
+        <div className="modal-header" style={{ borderBottom: `1px solid ${colors.primary}` }}>
+          <h2 style={{ color: colors.primary }}>Wealth Proof</h2>
+          <button onClick={onClose} className="close-modal" style={{ color: colors.primary }}>&times;</button>
+        </div>
+        <div className="modal-body">
+          {canProve ? (
+            <>
+              <div className="fhe-notice" style={{ backgroundColor: colors.background }}>
+                <p style={{ color: colors.text }}>
+                  Your {pieceCount} authenticated piece{pieceCount === 1 ? '' : 's'} are added up under encryption.
+                  Only whether the total reaches the threshold is revealed.
+                </p>
+              </div>
+              <div className="form-group">
+                <label style={{ color: colors.text }}>Threshold ({currency})</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={threshold || ''}
+                  onChange={(e) => setThreshold(parseFloat(e.target.value) || 0)}
+                  style={{ backgroundColor: colors.background, color: colors.text, border: `1px solid ${colors.primary}` }}
+                />
+              </div>
+              <button
+                onClick={handleProve}
+                disabled={step !== null || pieceCount === 0 || threshold <= 0}
+                className="submit-btn"
+                style={{ backgroundColor: colors.primary, color: colors.secondary }}
+              >
+                {step ? STEP_LABELS[step] : 'Generate Proof'}
+              </button>
+              {error && <p className="wealth-proof-error">{error}</p>}
+              {receipt && (
+                <div className="wealth-proof-receipt" style={{ border: `1px solid ${colors.primary}` }}>
+                  <p style={{ color: colors.text }}>
+                    Portfolio {receipt.meetsThreshold ? 'meets' : 'does not meet'} {thresholdLabel(receipt)}.
+                    Share this receipt with your lender:
+                  </p>
+                  <textarea readOnly value={encoded} rows={4} style={{ backgroundColor: colors.background, color: colors.text }} />
+                  <button
+                    onClick={() => navigator.clipboard.writeText(encoded)}
+                    className="refresh-btn"
+                    style={{ backgroundColor: colors.primary, color: colors.secondary }}
+                  >
+                    Copy Receipt
+                  </button>
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="fhe-notice" style={{ backgroundColor: colors.background }}>
+              <p style={{ color: colors.text }}>Connect your wallet to generate a proof.</p>
+            </div>
+          )}
+
+          <div className="form-group">
+            <label style={{ color: colors.text }}>Verify a receipt</label>
+            <textarea
+              value={candidate}
+              onChange={(e) => setCandidate(e.target.value)}
+              rows={3}
+              placeholder="Paste a wealth proof receipt"
+              style={{ backgroundColor: colors.background, color: colors.text, border: `1px solid ${colors.primary}` }}
+            />
+          </div>
+          <button
+            onClick={handleVerify}
+            disabled={verifying || candidate.trim() === ''}
+            className="refresh-btn"
+            style={{ backgroundColor: colors.primary, color: colors.secondary }}
+          >
+            {verifying ? 'Verifying...' : 'Verify'}
+          </button>
+          {verification && (
+            verification.valid && verification.receipt ? (
+              <p style={{ color: colors.primary }}>
+                Valid: {verification.receipt.prover.substring(0, 6)}...{verification.receipt.prover.substring(38)}'s portfolio{' '}
+                {verification.receipt.meetsThreshold ? 'meets' : 'does not meet'} {thresholdLabel(verification.receipt)}
+                {verification.provedAt ? ` as of ${new Date(verification.provedAt * 1000).toLocaleString()}` : ''}.
+                The proof covers the amounts they submitted, which ArtPortfolioFhe does not compare with the pieces'
+                registered values: you take their word for those.
+              </p>
+            ) : (
+              <p className="wealth-proof-error">Invalid: {verification.reason}</p>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
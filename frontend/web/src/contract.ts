@@ -1,10 +1,12 @@
 // contract.ts
 import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
+import portfolioAbiJson from "./abi/ArtPortfolioFhe.json";
+import { defaultDeployment, getDeployment, SupportedDeployment } from "./deployments";
+import { RpcProviderPool } from "./rpc";
 
 export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+export const PORTFOLIO_ABI = (portfolioAbiJson as any).abi || portfolioAbiJson;
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
@@ -18,43 +20,43 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
-    }
+let deployment: SupportedDeployment = defaultDeployment();
+const rpcPools = new Map<number, RpcProviderPool>();
+
+/** The network every contract below is bound to. */
+export function getActiveDeployment(): SupportedDeployment {
+  return deployment;
+}
+
+/** Binds the contracts to `chainId`'s deployment; returns null and keeps the current one when there is none. */
+export function setActiveChain(chainId: number): SupportedDeployment | null {
+  const next = getDeployment(chainId);
+  if (next) deployment = next;
+  return next;
+}
+
+/** One pool per network, shared by every read-only contract so the endpoint ranking carries over from one call to the next. */
+export function getRpcPool(): RpcProviderPool {
+  let pool = rpcPools.get(deployment.chainId);
+  if (!pool) {
+    pool = new RpcProviderPool(deployment.rpcUrls, deployment.chainId);
+    rpcPools.set(deployment.chainId, pool);
   }
-  
-  throw new Error("All RPC providers failed");
-};
+  return pool;
+}
+
+export function setRpcPool(next: RpcProviderPool) {
+  rpcPools.set(deployment.chainId, next);
+}
+
+const adapterAddress = () => deployment.contracts.UniversalAdapter.address;
 
 export async function getContractReadOnly() {
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const provider = getRpcPool();
+    const contract = new ethers.Contract(adapterAddress(), ABI, provider);
     
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const code = await retry(() => provider.getCode(adapterAddress()));
     if (code === "0x") {
       return null;
     }
@@ -73,7 +75,7 @@ export async function getContractWithSigner() {
   try {
     const provider = new ethers.BrowserProvider((window as any).ethereum);
     const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const contract = new ethers.Contract(adapterAddress(), ABI, signer);
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
@@ -81,6 +83,28 @@ export async function getContractWithSigner() {
   }
 }
 
+/** ArtPortfolioFhe holds the provider and authenticator roles; null until it is deployed and configured. */
+export async function getPortfolioContractReadOnly() {
+  const portfolio = deployment.contracts.ArtPortfolioFhe;
+  if (!portfolio) return null;
+  try {
+    const provider = getRpcPool();
+    const code = await retry(() => provider.getCode(portfolio.address));
+    if (code === "0x") return null;
+    return new ethers.Contract(portfolio.address, PORTFOLIO_ABI, provider);
+  } catch (error) {
+    console.error("Failed to create read-only portfolio contract:", error);
+    return null;
+  }
+}
+
+export async function getPortfolioContractWithSigner() {
+  const portfolio = deployment.contracts.ArtPortfolioFhe;
+  if (!portfolio) throw new Error(`ArtPortfolioFhe is not deployed on ${deployment.name}`);
+  const contract = await getContractWithSigner();
+  return new ethers.Contract(portfolio.address, PORTFOLIO_ABI, contract.runner);
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
@@ -0,0 +1,89 @@
+// deployments.ts
+import { ethers } from "ethers";
+import registryJson from "./deployments.json";
+
+export const DEPLOYED_CONTRACTS = ["UniversalAdapter", "ArtPortfolioFhe"] as const;
+export type DeployedContract = typeof DEPLOYED_CONTRACTS[number];
+
+export interface ContractDeployment {
+  address: string;
+  /** Block of the deployment transaction; event replays start here instead of at genesis. */
+  deployBlock?: number;
+}
+
+/** One network the frontend knows about and what is deployed on it. */
+export interface NetworkDeployment {
+  chainId: number;
+  name: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  /** Read-only endpoints, ranked and failed over by the RPC pool. */
+  rpcUrls: string[];
+  explorerUrl?: string;
+  deployer?: string;
+  contracts: Partial<Record<DeployedContract, ContractDeployment>>;
+}
+
+/** A network the app runs on: the UniversalAdapter holding the catalogue is deployed there. */
+export type SupportedDeployment = NetworkDeployment & { contracts: { UniversalAdapter: ContractDeployment } };
+
+interface RegistryFile {
+  defaultChainId: number;
+  networks: Record<string, Omit<NetworkDeployment, "chainId">>;
+}
+
+function parseRegistry(raw: RegistryFile): Map<number, NetworkDeployment> {
+  const networks = new Map<number, NetworkDeployment>();
+  for (const [key, entry] of Object.entries(raw.networks)) {
+    const chainId = Number(key);
+    if (!Number.isSafeInteger(chainId) || chainId <= 0) throw new Error(`deployments.json: "${key}" is not a chain id`);
+    if (!Array.isArray(entry.rpcUrls) || entry.rpcUrls.length === 0) throw new Error(`deployments.json: ${entry.name} (${chainId}) lists no RPC endpoints`);
+    for (const [contract, deployment] of Object.entries(entry.contracts ?? {})) {
+      if (!DEPLOYED_CONTRACTS.includes(contract as DeployedContract)) throw new Error(`deployments.json: unknown contract ${contract} on ${entry.name}`);
+      if (!ethers.isAddress(deployment?.address)) throw new Error(`deployments.json: ${contract} on ${entry.name} has no valid address`);
+    }
+    networks.set(chainId, { ...entry, chainId, contracts: entry.contracts ?? {} });
+  }
+  return networks;
+}
+
+const NETWORKS = parseRegistry(registryJson as RegistryFile);
+
+/** The registry entry for `chainId`, deployed or not. */
+export function findNetwork(chainId: number): NetworkDeployment | null {
+  return NETWORKS.get(chainId) ?? null;
+}
+
+export function isSupported(network: NetworkDeployment | null): network is SupportedDeployment {
+  return !!network?.contracts.UniversalAdapter;
+}
+
+/** Networks the wallet can be switched to, by chain id. */
+export function supportedNetworks(): SupportedDeployment[] {
+  return [...NETWORKS.values()].filter(isSupported);
+}
+
+/** The deployment for `chainId`, or null when the app is not deployed on that chain. */
+export function getDeployment(chainId: number): SupportedDeployment | null {
+  const network = findNetwork(chainId);
+  return isSupported(network) ? network : null;
+}
+
+/**
+ * Used before a wallet is connected: `VITE_DEFAULT_CHAIN_ID` when it names a supported network,
+ * then the registry's `defaultChainId`, then the first supported network.
+ */
+export function defaultDeployment(): SupportedDeployment {
+  const preferred = [Number(import.meta.env.VITE_DEFAULT_CHAIN_ID), registryJson.defaultChainId];
+  for (const chainId of preferred) {
+    const deployment = getDeployment(chainId);
+    if (deployment) return deployment;
+  }
+  const [first] = supportedNetworks();
+  if (!first) throw new Error("deployments.json: no network has a UniversalAdapter deployment");
+  return first;
+}
+
+/** Undefined on networks without a block explorer, such as a local node. */
+export function explorerTxUrl(network: NetworkDeployment, txHash: string): string | undefined {
+  return network.explorerUrl ? `${network.explorerUrl.replace(/\/$/, "")}/tx/${txHash}` : undefined;
+}
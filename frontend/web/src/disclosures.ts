@@ -0,0 +1,154 @@
+// disclosures.ts
+import { ethers } from "ethers";
+import type { ArtPiece } from "./art";
+import { encryptAmounts } from "./fhe";
+import { findDeploymentBlock, queryFilterInRanges } from "./indexer";
+import { findEvent } from "./wealth";
+
+/** Mirrors ArtPortfolioFhe.DisclosureField; the contract stores the index. */
+export const DISCLOSURE_FIELDS = ["costBasis", "valuation", "insuredValue"] as const;
+export type DisclosureField = typeof DISCLOSURE_FIELDS[number];
+
+export const DISCLOSURE_FIELD_LABELS: Record<DisclosureField, string> = {
+  costBasis: "Cost basis",
+  valuation: "Valuation",
+  insuredValue: "Insured value",
+};
+
+/** Fields read from the artwork record. Insured values are set by the owner for an insurance schedule instead. */
+export const RECORD_FIELDS: DisclosureField[] = ["costBasis", "valuation"];
+
+/**
+ * - active: the grantee can still fetch a fresh copy of the value
+ * - expired / revoked: no new copies; copies fetched before stay readable to the grantee
+ */
+export type DisclosureState = "active" | "expired" | "revoked";
+
+/** One DisclosureAccessed log: the grantee was allowed a fresh copy of the value. */
+export interface DisclosureAccess {
+  handle: string;
+  blockNumber: number;
+  transactionHash: string;
+  /** Unix timestamp in seconds, null when the block could not be loaded. */
+  timestamp: number | null;
+}
+
+/** A grant as replayed from the disclosure events of ArtPortfolioFhe, with its access log. */
+export interface DisclosureGrant {
+  grantId: string;
+  artId: string;
+  owner: string;
+  grantee: string;
+  field: DisclosureField;
+  /** Unix timestamp in seconds. */
+  expiresAt: number;
+  revoked: boolean;
+  accesses: DisclosureAccess[];
+  blockNumber: number;
+  /** Grants made together share the granting transaction, e.g. the lines of an insurance schedule. */
+  transactionHash: string;
+}
+
+/** What the owner discloses: a field of a piece and its decrypted amount, encrypted again for ArtPortfolioFhe. */
+export interface DisclosureEntry {
+  piece: ArtPiece;
+  field: DisclosureField;
+  amount: number;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const startBlock = async (contract: ethers.Contract, fromBlock?: number) =>
+  fromBlock ?? findDeploymentBlock(contract.runner!.provider!, await contract.getAddress());
+
+export async function loadDisclosureGrants(portfolio: ethers.Contract, fromBlock?: number): Promise<DisclosureGrant[]> {
+  const provider = portfolio.runner?.provider;
+  if (!provider) throw new Error("Contract is not connected to a provider");
+  const head = await provider.getBlockNumber();
+  const from = await startBlock(portfolio, fromBlock);
+  const grants = new Map<string, DisclosureGrant>();
+  await queryFilterInRanges(portfolio, portfolio.filters.DisclosureGranted(), from, head, logs => {
+    for (const log of logs) {
+      grants.set(log.args.grantId.toString(), {
+        grantId: log.args.grantId.toString(),
+        artId: log.args.artId,
+        owner: log.args.owner,
+        grantee: log.args.grantee,
+        field: DISCLOSURE_FIELDS[Number(log.args.field)],
+        expiresAt: Number(log.args.expiresAt),
+        revoked: false,
+        accesses: [],
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      });
+    }
+  });
+  await queryFilterInRanges(portfolio, portfolio.filters.DisclosureRevoked(), from, head, logs => {
+    for (const log of logs) {
+      const grant = grants.get(log.args.grantId.toString());
+      if (grant) grant.revoked = true;
+    }
+  });
+  const timestamps = new Map<number, number | null>();
+  await queryFilterInRanges(portfolio, portfolio.filters.DisclosureAccessed(), from, head, logs => {
+    for (const log of logs) {
+      grants.get(log.args.grantId.toString())?.accesses.push({
+        handle: log.args.handle,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        timestamp: null,
+      });
+      timestamps.set(log.blockNumber, null);
+    }
+  });
+  for (const blockNumber of timestamps.keys()) {
+    const block = await provider.getBlock(blockNumber).catch(() => null);
+    timestamps.set(blockNumber, block ? block.timestamp : null);
+  }
+  for (const grant of grants.values()) {
+    for (const access of grant.accesses) access.timestamp = timestamps.get(access.blockNumber) ?? null;
+  }
+  return [...grants.values()].sort((a, b) => b.blockNumber - a.blockNumber);
+}
+
+export function disclosureState(grant: DisclosureGrant, now: number = Math.floor(Date.now() / 1000)): DisclosureState {
+  if (grant.revoked) return "revoked";
+  return now < grant.expiresAt ? "active" : "expired";
+}
+
+/** Grants `grantee` every entry until `expiresAt` (seconds) in one transaction. Returns the grant ids. */
+export async function grantArtDisclosures(
+  portfolio: ethers.Contract,
+  grantee: string,
+  entries: DisclosureEntry[],
+  expiresAt: number
+): Promise<string[]> {
+  const account = await (portfolio.runner as ethers.Signer).getAddress();
+  if (entries.length === 0) throw new Error("Choose at least one field to disclose");
+  if (entries.some(e => !sameAddress(e.piece.owner, account))) throw new Error("Only the owner can disclose a piece");
+  if (!ethers.isAddress(grantee) || sameAddress(grantee, account)) throw new Error(`"${grantee}" is not a valid grantee`);
+  const { handles, inputProof } = await encryptAmounts(entries.map(e => e.amount), {
+    contractAddress: await portfolio.getAddress(),
+    userAddress: account,
+  });
+  const granted = await (await portfolio.grantDisclosures(
+    grantee,
+    entries.map(e => e.piece.id),
+    entries.map(e => DISCLOSURE_FIELDS.indexOf(e.field)),
+    handles,
+    inputProof,
+    expiresAt
+  )).wait();
+  const firstGrantId: bigint = findEvent(portfolio, granted, "DisclosureGranted").grantId;
+  return entries.map((_, i) => (firstGrantId + BigInt(i)).toString());
+}
+
+export async function revokeArtDisclosure(portfolio: ethers.Contract, grantId: string): Promise<void> {
+  await (await portfolio.revokeDisclosure(grantId)).wait();
+}
+
+/** Grantee only: logs the access on chain and returns the handle of the copy they may now decrypt. */
+export async function accessArtDisclosure(portfolio: ethers.Contract, grantId: string): Promise<string> {
+  const accessed = await (await portfolio.accessDisclosure(grantId)).wait();
+  return findEvent(portfolio, accessed, "DisclosureAccessed").handle;
+}
@@ -0,0 +1,35 @@
+// fhe/amounts.test.ts
+import { describe, expect, it } from "vitest";
+import * as sdkAmounts from "../../../../src/amounts";
+import { AMOUNT_SCALE, centsToAmount, fromCents, toCents } from "./index";
+
+describe("toCents", () => {
+  it("is the SDK's, so the app and the SDK encrypt the same cents", () => {
+    expect(toCents).toBe(sdkAmounts.toCents);
+    expect(fromCents).toBe(sdkAmounts.fromCents);
+  });
+
+  it("carries two-decimal amounts as exact cents", () => {
+    expect(toCents(0)).toBe(0n);
+    expect(toCents(1234.56)).toBe(123456n);
+    expect(toCents("1234.5")).toBe(123450n);
+  });
+
+  it("rejects amounts that cannot be encrypted exactly rather than rounding them", () => {
+    expect(() => toCents(1.006)).toThrow("more than 2 decimals");
+    expect(() => toCents(0.1 + 0.2)).toThrow("more than 2 decimals");
+    expect(() => toCents(-1)).toThrow("-1 is not a valid amount");
+    expect(() => toCents(Number.NaN)).toThrow("NaN is not a valid amount");
+    expect(() => toCents(Number.POSITIVE_INFINITY)).toThrow("Infinity is not a valid amount");
+    expect(() => toCents(Number.MAX_SAFE_INTEGER)).toThrow("too large to convert exactly");
+  });
+});
+
+describe("centsToAmount", () => {
+  it("gives back the amount toCents was given", () => {
+    const largest = Number((BigInt(Number.MAX_SAFE_INTEGER) - 1n) / AMOUNT_SCALE);
+    for (const amount of [0, 0.01, 0.1, 19.99, 1234.56, 2500000, largest]) {
+      expect(centsToAmount(toCents(amount))).toBe(amount);
+    }
+  });
+});
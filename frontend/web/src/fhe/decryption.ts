@@ -0,0 +1,88 @@
+// fhe/decryption.ts
+import { ethers } from "ethers";
+import { getFheBackend } from "./index";
+import type { DecryptionContext, DecryptionSession } from "./index";
+
+export const DEFAULT_DURATION_DAYS = 30;
+
+const SESSION_PREFIX = "fhe-decryption-session";
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+const sessionKey = (backend: string, chainId: number, userAddress: string) =>
+  `${SESSION_PREFIX}:${backend}:${chainId}:${userAddress.toLowerCase()}`;
+
+const isLive = (session: DecryptionSession, now: number) =>
+  now >= session.startTimestamp && now < session.startTimestamp + session.durationDays * SECONDS_PER_DAY;
+
+const isUsable = (session: DecryptionSession, contractAddress: string, now: number) =>
+  isLive(session, now) && session.contractAddresses.some(a => a.toLowerCase() === contractAddress.toLowerCase());
+
+const readSession = (key: string): DecryptionSession | null => {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Returns a signed decryption session for `ctx`, prompting the wallet only when no cached
+ * session covers the contract or the cached one has expired. The keypair is kept alongside the
+ * signature because the relayer re-encrypts results for that public key.
+ */
+export async function getDecryptionSession(
+  ctx: DecryptionContext,
+  durationDays: number = DEFAULT_DURATION_DAYS
+): Promise<DecryptionSession> {
+  const backend = getFheBackend();
+  if (!ctx.signer.provider) throw new Error("Signer is not connected to a provider");
+  const chainId = Number((await ctx.signer.provider.getNetwork()).chainId);
+  const key = sessionKey(backend.name, chainId, ctx.userAddress);
+  const now = Math.floor(Date.now() / 1000);
+
+  const cached = readSession(key);
+  if (cached && isUsable(cached, ctx.contractAddress, now)) return cached;
+
+  // Re-sign for every contract the live session covered too, so switching between contracts does not prompt each time.
+  const covered = cached && isLive(cached, now) ? cached.contractAddresses : [];
+  const contractAddresses = [...new Set([...covered, ethers.getAddress(ctx.contractAddress)])];
+  const keypair = await backend.generateKeypair();
+  const typedData = await backend.createDecryptionTypedData(keypair.publicKey, contractAddresses, chainId, now, durationDays);
+  const signature = await ctx.signer.signTypedData(typedData.domain, typedData.types, typedData.message);
+
+  const session: DecryptionSession = {
+    backend: backend.name,
+    userAddress: ethers.getAddress(ctx.userAddress),
+    chainId,
+    contractAddresses,
+    startTimestamp: now,
+    durationDays,
+    keypair,
+    signature,
+  };
+  window.localStorage.setItem(key, JSON.stringify(session));
+  return session;
+}
+
+export async function userDecrypt(handles: string[], ctx: DecryptionContext): Promise<Record<string, bigint>> {
+  const session = await getDecryptionSession(ctx);
+  const results = await getFheBackend().userDecrypt({
+    handles: handles.map(handle => ({ handle, contractAddress: ctx.contractAddress })),
+    session,
+  });
+  for (const handle of handles) {
+    if (results[handle] === undefined) throw new Error(`No cleartext returned for handle ${handle}`);
+  }
+  return results;
+}
+
+/** Drops cached sessions, e.g. when the user disconnects or wants to re-sign. */
+export function clearDecryptionSessions() {
+  const keys: string[] = [];
+  for (let i = 0; i < window.localStorage.length; i++) {
+    const key = window.localStorage.key(i);
+    if (key?.startsWith(SESSION_PREFIX)) keys.push(key);
+  }
+  keys.forEach(key => window.localStorage.removeItem(key));
+}
@@ -0,0 +1,49 @@
+// fhe/hardhat.ts
+import { ethers } from "ethers";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import { RelayerFheBackend } from "./relayer";
+
+// Gateway contracts the hardhat plugin's mock KMS and coprocessor sign for; they are fixed on every local node.
+const DECRYPTION_ADDRESS = "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64";
+const INPUT_VERIFICATION_ADDRESS = "0x812b06e1CDCE800494b79fFE4f925A504a9A9810";
+
+interface RelayerMetadata {
+  chainId: number;
+  gatewayChainId: number;
+  ACLAddress: string;
+  KMSVerifierAddress: string;
+  InputVerifierAddress: string;
+}
+
+/**
+ * The fhevm mock of a local `npx hardhat node`: inputs carry proofs its InputVerifier accepts, so
+ * ArtPortfolioFhe runs unchanged, and user decryption is answered by the node after the same ACL
+ * and signature checks as the relayer.
+ */
+export class HardhatFheBackend extends RelayerFheBackend {
+  readonly name = "hardhat";
+
+  constructor(private readonly rpcUrl: string) {
+    super();
+  }
+
+  protected async createInstance(): Promise<FhevmInstance> {
+    const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+    const provider = new ethers.JsonRpcProvider(this.rpcUrl);
+    let metadata: RelayerMetadata;
+    try {
+      metadata = await provider.send("fhevm_relayer_metadata", []);
+    } catch (e) {
+      throw new Error(`${this.rpcUrl} is not a hardhat node running the fhevm mock`, { cause: e });
+    }
+    return MockFhevmInstance.create(provider, provider, {
+      aclContractAddress: metadata.ACLAddress,
+      chainId: metadata.chainId,
+      gatewayChainId: metadata.gatewayChainId,
+      inputVerifierContractAddress: metadata.InputVerifierAddress,
+      kmsContractAddress: metadata.KMSVerifierAddress,
+      verifyingContractAddressDecryption: DECRYPTION_ADDRESS,
+      verifyingContractAddressInputVerification: INPUT_VERIFICATION_ADDRESS,
+    });
+  }
+}
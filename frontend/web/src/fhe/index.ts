@@ -0,0 +1,132 @@
+// fhe/index.ts
+import { ethers } from "ethers";
+import { AMOUNT_SCALE, MAX_AMOUNT_CENTS, fromCents, toCents } from "../../../../src/amounts";
+import { findNetwork } from "../deployments";
+import { userDecrypt } from "./decryption";
+import { HardhatFheBackend } from "./hardhat";
+import { MockFheBackend } from "./mock";
+import { RelayerFheBackend } from "./relayer";
+
+export interface EncryptionContext {
+  contractAddress: string;
+  userAddress: string;
+}
+
+export interface DecryptionContext extends EncryptionContext {
+  signer: ethers.Signer;
+}
+
+export interface EncryptedInput {
+  handle: string;
+  inputProof: string;
+}
+
+/** Several values encrypted together; one proof covers every handle. */
+export interface EncryptedInputs {
+  handles: string[];
+  inputProof: string;
+}
+
+export interface DecryptionKeypair {
+  publicKey: string;
+  privateKey: string;
+}
+
+export interface DecryptionTypedData {
+  domain: ethers.TypedDataDomain;
+  types: Record<string, ethers.TypedDataField[]>;
+  message: Record<string, unknown>;
+}
+
+/** Everything the user signed once to be allowed to decrypt handles of `contractAddresses`. */
+export interface DecryptionSession {
+  backend: string;
+  userAddress: string;
+  chainId: number;
+  contractAddresses: string[];
+  startTimestamp: number;
+  durationDays: number;
+  keypair: DecryptionKeypair;
+  signature: string;
+}
+
+/** What is sent to the relayer: the handles to reveal plus the session proving the user asked for them. */
+export interface UserDecryptionRequest {
+  handles: { handle: string; contractAddress: string }[];
+  session: DecryptionSession;
+}
+
+export interface FheBackend {
+  readonly name: string;
+  encrypt64(values: bigint[], ctx: EncryptionContext): Promise<EncryptedInputs>;
+  generateKeypair(): Promise<DecryptionKeypair>;
+  createDecryptionTypedData(
+    publicKey: string,
+    contractAddresses: string[],
+    chainId: number,
+    startTimestamp: number,
+    durationDays: number
+  ): Promise<DecryptionTypedData>;
+  userDecrypt(request: UserDecryptionRequest): Promise<Record<string, bigint>>;
+}
+
+// Amounts are carried as integer cents so the 0.01 step of the price inputs survives encryption.
+// ArtPortfolioFhe holds them as euint64, see its AMOUNT_DECIMALS. The conversion is the SDK's, so an
+// amount the app encrypts is the very amount the SDK would.
+export { AMOUNT_SCALE, MAX_AMOUNT_CENTS, fromCents, toCents };
+
+/**
+ * fromCents as a number, for single amounts, which toCents keeps below 2^53 cents. Totals can exceed
+ * that and are kept as bigint cents until they are shown, see formatCents in fx.ts.
+ */
+export function centsToAmount(cents: bigint): number {
+  return Number(fromCents(cents));
+}
+
+let backend: FheBackend | null = null;
+
+// MockFheBackend is not offered here: ArtPortfolioFhe takes every amount in through FHE.fromExternal,
+// which rejects its handles, so the app could not even add art with it. Tests plug it in with setFheBackend.
+const createDefaultBackend = (): FheBackend => {
+  if (import.meta.env.VITE_FHE_BACKEND === "hardhat") {
+    return new HardhatFheBackend(findNetwork(31337)?.rpcUrls[0] ?? "http://127.0.0.1:8545");
+  }
+  return new RelayerFheBackend();
+};
+
+export function getFheBackend(): FheBackend {
+  if (!backend) backend = createDefaultBackend();
+  return backend;
+}
+
+export function setFheBackend(next: FheBackend) {
+  backend = next;
+}
+
+export async function encryptAmount(value: number, ctx: EncryptionContext): Promise<EncryptedInput> {
+  const { handles, inputProof } = await encryptAmounts([value], ctx);
+  return { handle: handles[0], inputProof };
+}
+
+/** Encrypts several amounts under one input proof, e.g. for a contract call taking more than one. */
+export async function encryptAmounts(values: number[], ctx: EncryptionContext): Promise<EncryptedInputs> {
+  return getFheBackend().encrypt64(values.map(value => toCents(value)), ctx);
+}
+
+export async function decryptAmount(handle: string, ctx: DecryptionContext): Promise<number> {
+  const results = await userDecrypt([handle], ctx);
+  return centsToAmount(results[handle]);
+}
+
+/** Decrypts several amounts under one signature, in the order of `handles`. */
+export async function decryptAmounts(handles: string[], ctx: DecryptionContext): Promise<number[]> {
+  const results = await userDecrypt(handles, ctx);
+  return handles.map(handle => centsToAmount(results[handle]));
+}
+
+export function isHandle(value: unknown): value is string {
+  return typeof value === "string" && ethers.isHexString(value, 32);
+}
+
+export { clearDecryptionSessions, DEFAULT_DURATION_DAYS, getDecryptionSession, userDecrypt } from "./decryption";
+export { HardhatFheBackend, MockFheBackend, RelayerFheBackend };
@@ -0,0 +1,183 @@
+// fhe/mock.test.ts
+import { ethers } from "ethers";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  clearDecryptionSessions,
+  decryptAmount,
+  decryptAmounts,
+  encryptAmount,
+  encryptAmounts,
+  getFheBackend,
+  MockFheBackend,
+  setFheBackend,
+} from "./index";
+import type { DecryptionSession } from "./index";
+
+const CHAIN_ID = 31337;
+const PORTFOLIO = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+const OTHER_CONTRACT = "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512";
+
+class MemoryStorage implements Storage {
+  private readonly items = new Map<string, string>();
+  get length() {
+    return this.items.size;
+  }
+  clear() {
+    this.items.clear();
+  }
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  key(index: number) {
+    return [...this.items.keys()][index] ?? null;
+  }
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+}
+
+// A wallet that signs offline; decryption sessions only need the chain id from its provider.
+const connectedSigner = (wallet: ethers.HDNodeWallet) =>
+  wallet.connect({ getNetwork: async () => ({ chainId: BigInt(CHAIN_ID) }) } as unknown as ethers.Provider);
+
+const signSession = async (
+  backend: MockFheBackend,
+  wallet: ethers.HDNodeWallet,
+  contractAddresses: string[],
+  startTimestamp = Math.floor(Date.now() / 1000),
+  durationDays = 1
+): Promise<DecryptionSession> => {
+  const keypair = await backend.generateKeypair();
+  const { domain, types, message } = await backend.createDecryptionTypedData(
+    keypair.publicKey,
+    contractAddresses,
+    CHAIN_ID,
+    startTimestamp,
+    durationDays
+  );
+  return {
+    backend: backend.name,
+    userAddress: wallet.address,
+    chainId: CHAIN_ID,
+    contractAddresses,
+    startTimestamp,
+    durationDays,
+    keypair,
+    signature: await wallet.signTypedData(domain, types, message),
+  };
+};
+
+describe("MockFheBackend", () => {
+  const owner = ethers.Wallet.createRandom();
+  const stranger = ethers.Wallet.createRandom();
+  let backend: MockFheBackend;
+
+  beforeEach(() => {
+    backend = new MockFheBackend();
+  });
+
+  it("decrypts what it encrypted for the requesting user and contract", async () => {
+    const { handles, inputProof } = await backend.encrypt64([123456n, 0n], { contractAddress: PORTFOLIO, userAddress: owner.address });
+    expect(handles).toHaveLength(2);
+    handles.forEach(handle => expect(ethers.isHexString(handle, 32)).toBe(true));
+    expect(ethers.isHexString(inputProof, 32)).toBe(true);
+
+    const session = await signSession(backend, owner, [PORTFOLIO]);
+    const results = await backend.userDecrypt({ handles: handles.map(handle => ({ handle, contractAddress: PORTFOLIO })), session });
+    expect(results).toEqual({ [handles[0]]: 123456n, [handles[1]]: 0n });
+  });
+
+  it("rejects values that do not fit in 64 bits", async () => {
+    await expect(backend.encrypt64([2n ** 64n], { contractAddress: PORTFOLIO, userAddress: owner.address })).rejects.toThrow(
+      "does not fit in 64 bits"
+    );
+  });
+
+  it("refuses a user the value was not encrypted for", async () => {
+    const { handles } = await backend.encrypt64([1n], { contractAddress: PORTFOLIO, userAddress: owner.address });
+    const session = await signSession(backend, stranger, [PORTFOLIO]);
+    await expect(backend.userDecrypt({ handles: [{ handle: handles[0], contractAddress: PORTFOLIO }], session })).rejects.toThrow(
+      "is not allowed to decrypt"
+    );
+  });
+
+  it("refuses a contract the value was not encrypted for", async () => {
+    const { handles } = await backend.encrypt64([1n], { contractAddress: PORTFOLIO, userAddress: owner.address });
+    const session = await signSession(backend, owner, [PORTFOLIO, OTHER_CONTRACT]);
+    await expect(
+      backend.userDecrypt({ handles: [{ handle: handles[0], contractAddress: OTHER_CONTRACT }], session })
+    ).rejects.toThrow("is not allowed to decrypt");
+  });
+
+  it("refuses a session signed by someone else", async () => {
+    const { handles } = await backend.encrypt64([1n], { contractAddress: PORTFOLIO, userAddress: owner.address });
+    const session = { ...(await signSession(backend, stranger, [PORTFOLIO])), userAddress: owner.address };
+    await expect(backend.userDecrypt({ handles: [{ handle: handles[0], contractAddress: PORTFOLIO }], session })).rejects.toThrow(
+      "signature does not match the user"
+    );
+  });
+
+  it("refuses an expired session", async () => {
+    const { handles } = await backend.encrypt64([1n], { contractAddress: PORTFOLIO, userAddress: owner.address });
+    const twoDaysAgo = Math.floor(Date.now() / 1000) - 2 * 24 * 60 * 60;
+    const session = await signSession(backend, owner, [PORTFOLIO], twoDaysAgo, 1);
+    await expect(backend.userDecrypt({ handles: [{ handle: handles[0], contractAddress: PORTFOLIO }], session })).rejects.toThrow(
+      "Decryption session has expired"
+    );
+  });
+
+  it("keeps its ciphertexts across instances sharing a storage", async () => {
+    const storage = new MemoryStorage();
+    const { handles } = await new MockFheBackend(storage).encrypt64([42n], { contractAddress: PORTFOLIO, userAddress: owner.address });
+    const reloaded = new MockFheBackend(storage);
+    const session = await signSession(reloaded, owner, [PORTFOLIO]);
+    const results = await reloaded.userDecrypt({ handles: [{ handle: handles[0], contractAddress: PORTFOLIO }], session });
+    expect(results[handles[0]]).toBe(42n);
+  });
+});
+
+describe("amounts through a plugged-in MockFheBackend", () => {
+  const owner = ethers.Wallet.createRandom();
+  const ctx = { contractAddress: PORTFOLIO, userAddress: owner.address, signer: connectedSigner(owner) };
+  let backend: MockFheBackend;
+
+  beforeEach(() => {
+    vi.stubGlobal("window", { localStorage: new MemoryStorage() });
+    backend = new MockFheBackend();
+    setFheBackend(backend);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("is the backend encryption and decryption go through", () => {
+    expect(getFheBackend()).toBe(backend);
+  });
+
+  it("round-trips a single amount", async () => {
+    const { handle } = await encryptAmount(1234.56, ctx);
+    expect(await decryptAmount(handle, ctx)).toBe(1234.56);
+  });
+
+  it("round-trips several amounts under one proof and one signature", async () => {
+    const signTypedData = vi.spyOn(ctx.signer, "signTypedData");
+    const { handles } = await encryptAmounts([0.01, 2500000, 19.99], ctx);
+    expect(await decryptAmounts(handles, ctx)).toEqual([0.01, 2500000, 19.99]);
+    expect(await decryptAmount(handles[0], ctx)).toBe(0.01);
+    expect(signTypedData).toHaveBeenCalledTimes(1);
+  });
+
+  it("signs a new session once the cached ones are cleared", async () => {
+    const signTypedData = vi.spyOn(ctx.signer, "signTypedData");
+    const { handle } = await encryptAmount(5, ctx);
+    await decryptAmount(handle, ctx);
+    clearDecryptionSessions();
+    await decryptAmount(handle, ctx);
+    expect(signTypedData).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,137 @@
+// fhe/mock.ts
+import { ethers } from "ethers";
+import type {
+  DecryptionKeypair,
+  DecryptionTypedData,
+  EncryptedInputs,
+  EncryptionContext,
+  FheBackend,
+  UserDecryptionRequest,
+} from "./index";
+
+type CiphertextStorage = Pick<Storage, "getItem" | "setItem">;
+
+interface MockCiphertext {
+  value: string;
+  contractAddress: string;
+  userAddress: string;
+}
+
+const STORAGE_KEY = "fhe-mock-ciphertexts";
+const MOCK_DECRYPTION_ADDRESS = "0x00000000000000000000000000000000000dEc01";
+
+const USER_DECRYPT_TYPES = [
+  { name: "publicKey", type: "bytes" },
+  { name: "contractAddresses", type: "address[]" },
+  { name: "contractsChainId", type: "uint256" },
+  { name: "startTimestamp", type: "uint256" },
+  { name: "durationDays", type: "uint256" },
+  { name: "extraData", type: "bytes" },
+];
+
+/**
+ * Local stand-in for the relayer: handles are random-looking 32-byte ids and the cleartexts
+ * stay in a table on this machine, so tests never touch the network. ArtPortfolioFhe rejects its
+ * input proofs, so it cannot back the app itself.
+ * Decryption requests are checked like the real relayer does: the EIP-712 signature must come
+ * from the requesting user, the session must not be expired, and only the address the value was
+ * encrypted for may read it.
+ */
+export class MockFheBackend implements FheBackend {
+  readonly name = "mock";
+  private readonly ciphertexts: Map<string, MockCiphertext>;
+
+  constructor(private readonly storage?: CiphertextStorage) {
+    this.ciphertexts = new Map(Object.entries(this.load()));
+  }
+
+  private load(): Record<string, MockCiphertext> {
+    if (!this.storage) return {};
+    try {
+      return JSON.parse(this.storage.getItem(STORAGE_KEY) || "{}");
+    } catch {
+      return {};
+    }
+  }
+
+  private persist() {
+    this.storage?.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(this.ciphertexts)));
+  }
+
+  private store(value: bigint, ctx: EncryptionContext): string {
+    const handle = ethers.keccak256(
+      ethers.concat([ethers.randomBytes(32), ethers.getAddress(ctx.contractAddress), ethers.getAddress(ctx.userAddress)])
+    );
+    this.ciphertexts.set(handle, {
+      value: value.toString(),
+      contractAddress: ctx.contractAddress.toLowerCase(),
+      userAddress: ctx.userAddress.toLowerCase(),
+    });
+    return handle;
+  }
+
+  private encrypt(values: bigint[], bits: number, ctx: EncryptionContext): EncryptedInputs {
+    const tooLarge = values.find(value => value < 0n || value >= 2n ** BigInt(bits));
+    if (tooLarge !== undefined) {
+      throw new Error(`Value ${tooLarge} does not fit in ${bits} bits`);
+    }
+    const handles = values.map(value => this.store(value, ctx));
+    this.persist();
+    const inputProof = ethers.keccak256(ethers.concat([...handles, ethers.getAddress(ctx.userAddress)]));
+    return { handles, inputProof };
+  }
+
+  async encrypt64(values: bigint[], ctx: EncryptionContext): Promise<EncryptedInputs> {
+    return this.encrypt(values, 64, ctx);
+  }
+
+  async generateKeypair(): Promise<DecryptionKeypair> {
+    const wallet = ethers.Wallet.createRandom();
+    return { publicKey: wallet.signingKey.publicKey, privateKey: wallet.privateKey };
+  }
+
+  async createDecryptionTypedData(
+    publicKey: string,
+    contractAddresses: string[],
+    chainId: number,
+    startTimestamp: number,
+    durationDays: number
+  ): Promise<DecryptionTypedData> {
+    return {
+      domain: { name: "Decryption", version: "1", chainId, verifyingContract: MOCK_DECRYPTION_ADDRESS },
+      types: { UserDecryptRequestVerification: USER_DECRYPT_TYPES },
+      message: { publicKey, contractAddresses, contractsChainId: chainId, startTimestamp, durationDays, extraData: "0x00" },
+    };
+  }
+
+  async userDecrypt({ handles, session }: UserDecryptionRequest): Promise<Record<string, bigint>> {
+    const now = Math.floor(Date.now() / 1000);
+    if (now >= session.startTimestamp + session.durationDays * 24 * 60 * 60) {
+      throw new Error("Decryption session has expired");
+    }
+    const { domain, types, message } = await this.createDecryptionTypedData(
+      session.keypair.publicKey,
+      session.contractAddresses,
+      session.chainId,
+      session.startTimestamp,
+      session.durationDays
+    );
+    const signer = ethers.verifyTypedData(domain, types, message, session.signature);
+    if (signer.toLowerCase() !== session.userAddress.toLowerCase()) {
+      throw new Error("Decryption request signature does not match the user");
+    }
+
+    const allowedContracts = session.contractAddresses.map(a => a.toLowerCase());
+    const results: Record<string, bigint> = {};
+    for (const { handle, contractAddress } of handles) {
+      const entry = this.ciphertexts.get(handle);
+      if (!entry) throw new Error(`Unknown ciphertext handle ${handle}`);
+      const contract = contractAddress.toLowerCase();
+      if (!allowedContracts.includes(contract) || entry.contractAddress !== contract || entry.userAddress !== session.userAddress.toLowerCase()) {
+        throw new Error(`${session.userAddress} is not allowed to decrypt ${handle}`);
+      }
+      results[handle] = BigInt(entry.value);
+    }
+    return results;
+  }
+}
@@ -0,0 +1,89 @@
+// fhe/relayer.ts
+import { ethers } from "ethers";
+import type { FhevmInstance, FhevmInstanceConfig } from "@zama-fhe/relayer-sdk/bundle";
+import type {
+  DecryptionKeypair,
+  DecryptionTypedData,
+  EncryptedInputs,
+  EncryptionContext,
+  FheBackend,
+  UserDecryptionRequest,
+} from "./index";
+
+export class RelayerFheBackend implements FheBackend {
+  readonly name: string = "relayer";
+  private instance: Promise<FhevmInstance> | null = null;
+
+  constructor(private readonly config?: FhevmInstanceConfig) {}
+
+  protected async createInstance(): Promise<FhevmInstance> {
+    // The SDK is loaded lazily: it reads the UMD build from window.relayerSDK, which offline
+    // setups running the mock backend never load.
+    const { createInstance, initSDK, SepoliaConfig } = await import("@zama-fhe/relayer-sdk/bundle");
+    await initSDK();
+    const config = this.config ?? SepoliaConfig;
+    return createInstance({ ...config, network: window.ethereum ?? config.network });
+  }
+
+  private getInstance(): Promise<FhevmInstance> {
+    if (!this.instance) {
+      this.instance = this.createInstance().catch((e) => {
+        // Allow the next call to retry instead of caching a rejected promise forever.
+        this.instance = null;
+        throw e;
+      });
+    }
+    return this.instance;
+  }
+
+  async encrypt64(values: bigint[], ctx: EncryptionContext): Promise<EncryptedInputs> {
+    const instance = await this.getInstance();
+    const input = instance.createEncryptedInput(ctx.contractAddress, ctx.userAddress);
+    values.forEach(value => input.add64(value));
+    const { handles, inputProof } = await input.encrypt();
+    return { handles: handles.map(handle => ethers.hexlify(handle)), inputProof: ethers.hexlify(inputProof) };
+  }
+
+  async generateKeypair(): Promise<DecryptionKeypair> {
+    return (await this.getInstance()).generateKeypair();
+  }
+
+  async createDecryptionTypedData(
+    publicKey: string,
+    contractAddresses: string[],
+    chainId: number,
+    startTimestamp: number,
+    durationDays: number
+  ): Promise<DecryptionTypedData> {
+    const instance = await this.getInstance();
+    const eip712 = instance.createEIP712(publicKey, contractAddresses, startTimestamp, durationDays);
+    if (eip712.domain.chainId !== chainId) {
+      throw new Error(`Relayer is configured for chain ${eip712.domain.chainId}, wallet is on ${chainId}`);
+    }
+    // ethers derives EIP712Domain itself and rejects it in the types map.
+    return {
+      domain: eip712.domain,
+      types: { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+      message: eip712.message,
+    };
+  }
+
+  async userDecrypt({ handles, session }: UserDecryptionRequest): Promise<Record<string, bigint>> {
+    const instance = await this.getInstance();
+    const results = await instance.userDecrypt(
+      handles,
+      session.keypair.privateKey,
+      session.keypair.publicKey,
+      session.signature.replace("0x", ""),
+      session.contractAddresses,
+      session.userAddress,
+      session.startTimestamp,
+      session.durationDays
+    );
+    const cleartexts: Record<string, bigint> = {};
+    for (const [handle, value] of Object.entries(results)) {
+      if (typeof value === "bigint") cleartexts[handle] = value;
+    }
+    return cleartexts;
+  }
+}
@@ -0,0 +1,106 @@
+// fx.test.ts
+import { describe, expect, it } from "vitest";
+import { ART_CURRENCIES } from "./art";
+import {
+  convertAmount,
+  FIXTURE_USD_RATES,
+  fixedRate,
+  formatAmount,
+  formatCents,
+  FX_RATE_DECIMALS,
+  getFxRateProvider,
+  setFxRateProvider,
+  StaticFxRateProvider,
+} from "./fx";
+import type { FxQuote } from "./fx";
+
+const quote = (rates: Partial<FxQuote["rates"]>): FxQuote => ({
+  reporting: "USD",
+  rates: { ...FIXTURE_USD_RATES, ...rates },
+  asOf: 0,
+  source: "test",
+});
+
+const digits = (text: string) => text.replace(/\D/g, "");
+
+describe("fixedRate", () => {
+  it("scales rates to FX_RATE_DECIMALS fixed point", () => {
+    expect(FX_RATE_DECIMALS).toBe(6);
+    expect(fixedRate(quote({ EUR: 1.08 }), "EUR")).toBe(1_080_000n);
+    expect(fixedRate(quote({ USD: 1 }), "USD")).toBe(1_000_000n);
+    expect(fixedRate(quote({ ETH: 3200 }), "ETH")).toBe(3_200_000_000n);
+  });
+
+  it("rounds to the nearest millionth", () => {
+    expect(fixedRate(quote({ GBP: 0.0000014 }), "GBP")).toBe(1n);
+    expect(fixedRate(quote({ GBP: 1 / 1.08 }), "GBP")).toBe(925_926n);
+  });
+
+  it("rejects rates the contract cannot multiply by", () => {
+    expect(() => fixedRate(quote({ CHF: 0 }), "CHF")).toThrow("Cannot use 0 as CHF rate");
+    expect(() => fixedRate(quote({ CHF: 0.0000004 }), "CHF")).toThrow("as CHF rate");
+    expect(() => fixedRate(quote({ CHF: -1 }), "CHF")).toThrow("as CHF rate");
+    expect(() => fixedRate(quote({ CHF: Number.NaN }), "CHF")).toThrow("as CHF rate");
+    expect(() => fixedRate(quote({ CHF: 1e10 }), "CHF")).toThrow("as CHF rate");
+  });
+});
+
+describe("convertAmount", () => {
+  it("converts into the reporting currency and truncates cents like the contract", () => {
+    expect(convertAmount(1000, "EUR", quote({ EUR: 1.08 }))).toBe(1080);
+    expect(convertAmount(1.5, "ETH", quote({ ETH: 3200 }))).toBe(4800);
+    // 0.01 * 1.08 is 1.08 cents on chain, truncated to 1
+    expect(convertAmount(0.01, "EUR", quote({ EUR: 1.08 }))).toBe(0.01);
+    expect(convertAmount(0.99, "GBP", quote({ GBP: 0.5 }))).toBe(0.49);
+  });
+});
+
+describe("StaticFxRateProvider", () => {
+  it("quotes the fixture rates against USD", async () => {
+    const fx = await new StaticFxRateProvider(FIXTURE_USD_RATES, 1_700_000_000).getQuote("USD");
+    expect(fx).toEqual({ reporting: "USD", rates: FIXTURE_USD_RATES, asOf: 1_700_000_000, source: "static" });
+  });
+
+  it("crosses rates through USD for other reporting currencies", async () => {
+    const fx = await new StaticFxRateProvider().getQuote("EUR");
+    expect(fx.rates.EUR).toBe(1);
+    expect(fx.rates.USD).toBeCloseTo(1 / 1.08, 12);
+    expect(fx.rates.ETH).toBeCloseTo(3200 / 1.08, 9);
+    expect(fixedRate(fx, "USD")).toBe(925_926n);
+    expect(Object.keys(fx.rates).sort()).toEqual([...ART_CURRENCIES].sort());
+  });
+
+  it("refuses tables with a missing or non-positive rate", () => {
+    expect(() => new StaticFxRateProvider({ ...FIXTURE_USD_RATES, GBP: 0 })).toThrow("No valid rate for GBP");
+    const { CHF: _, ...withoutChf } = FIXTURE_USD_RATES;
+    expect(() => new StaticFxRateProvider(withoutChf as typeof FIXTURE_USD_RATES)).toThrow("No valid rate for CHF");
+  });
+
+  it("is the default provider until another one is set", async () => {
+    expect(getFxRateProvider()).toBeInstanceOf(StaticFxRateProvider);
+    const fixed = new StaticFxRateProvider({ ...FIXTURE_USD_RATES, EUR: 2 });
+    setFxRateProvider(fixed);
+    expect(getFxRateProvider()).toBe(fixed);
+    expect((await getFxRateProvider().getQuote("USD")).rates.EUR).toBe(2);
+  });
+});
+
+describe("formatCents", () => {
+  it("formats cents the way formatAmount formats the same amount", () => {
+    expect(formatCents(123456n, "USD")).toBe(formatAmount(1234.56, "USD"));
+    expect(formatCents(5n, "EUR")).toBe(formatAmount(0.05, "EUR"));
+    expect(formatCents(0n, "CHF")).toBe(formatAmount(0, "CHF"));
+  });
+
+  it("keeps every digit of totals beyond 2^53 cents", () => {
+    const total = 2n ** 64n - 1n;
+    expect(digits(formatCents(total, "USD"))).toBe(total.toString());
+    expect(digits(formatAmount(Number(total) / 100, "USD"))).not.toBe(total.toString());
+  });
+
+  it("shows ETH totals with the Ξ sign and both decimals", () => {
+    const formatted = formatCents(150n, "ETH");
+    expect(formatted.startsWith("Ξ")).toBe(true);
+    expect(digits(formatted)).toBe("150");
+  });
+});
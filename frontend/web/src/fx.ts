@@ -0,0 +1,101 @@
+// fx.ts
+import { ART_CURRENCIES } from "./art";
+import type { ArtCurrency } from "./art";
+import { AMOUNT_SCALE, centsToAmount, toCents } from "./fhe";
+
+/** Matches ArtPortfolioFhe.FX_RATE_DECIMALS: rates go on chain as fixed point, 1.08 as 1_080_000. */
+export const FX_RATE_DECIMALS = 6;
+const FX_RATE_SCALE = 10 ** FX_RATE_DECIMALS;
+
+/** How many units of `reporting` one unit of each currency is worth. */
+export interface FxQuote {
+  reporting: ArtCurrency;
+  rates: Record<ArtCurrency, number>;
+  /** Unix timestamp in seconds the rates are valid for. */
+  asOf: number;
+  source: string;
+}
+
+export interface FxRateProvider {
+  readonly name: string;
+  getQuote(reporting: ArtCurrency): Promise<FxQuote>;
+}
+
+/** USD value of one unit of each currency, used when no live provider is configured. */
+export const FIXTURE_USD_RATES: Record<ArtCurrency, number> = {
+  USD: 1,
+  EUR: 1.08,
+  GBP: 1.27,
+  CHF: 1.12,
+  ETH: 3200,
+};
+
+/**
+ * Serves fixed rates, e.g. FIXTURE_USD_RATES, so portfolios can be totalled offline and in tests.
+ * Cross rates go through the currency the table is expressed in.
+ */
+export class StaticFxRateProvider implements FxRateProvider {
+  readonly name = "static";
+
+  constructor(
+    private readonly usdRates: Record<ArtCurrency, number> = FIXTURE_USD_RATES,
+    private readonly asOf: number = Math.floor(Date.now() / 1000)
+  ) {
+    const invalid = ART_CURRENCIES.find(currency => !(usdRates[currency] > 0));
+    if (invalid) throw new Error(`No valid rate for ${invalid}`);
+  }
+
+  async getQuote(reporting: ArtCurrency): Promise<FxQuote> {
+    const rates = {} as Record<ArtCurrency, number>;
+    for (const currency of ART_CURRENCIES) {
+      rates[currency] = currency === reporting ? 1 : this.usdRates[currency] / this.usdRates[reporting];
+    }
+    return { reporting, rates, asOf: this.asOf, source: this.name };
+  }
+}
+
+let provider: FxRateProvider | null = null;
+
+export function getFxRateProvider(): FxRateProvider {
+  if (!provider) provider = new StaticFxRateProvider();
+  return provider;
+}
+
+export function setFxRateProvider(next: FxRateProvider) {
+  provider = next;
+}
+
+/** The plaintext rate ArtPortfolioFhe multiplies an encrypted `currency` amount by. */
+export function fixedRate(quote: FxQuote, currency: ArtCurrency): bigint {
+  const rate = Math.round(quote.rates[currency] * FX_RATE_SCALE);
+  if (!(rate > 0) || !Number.isSafeInteger(rate)) throw new Error(`Cannot use ${quote.rates[currency]} as ${currency} rate`);
+  return BigInt(rate);
+}
+
+/**
+ * What the contract computes for `amount` in `currency`, in the reporting currency. Cents are
+ * truncated the same way, so this matches an on-chain total piece by piece.
+ */
+export function convertAmount(amount: number, currency: ArtCurrency, quote: FxQuote): number {
+  return centsToAmount((toCents(amount) * fixedRate(quote, currency)) / BigInt(FX_RATE_SCALE));
+}
+
+/** Formats an amount with its currency symbol; ETH, which Intl has no symbol for, is shown as "Ξ". */
+export function formatAmount(amount: number, currency: ArtCurrency): string {
+  if (currency === "ETH") return `Ξ${amount.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+  return amount.toLocaleString(undefined, { style: "currency", currency });
+}
+
+/**
+ * Formats a decrypted total, in cents, like formatAmount. It never becomes a number: the whole units
+ * are formatted as a bigint and the cents put in as they are, so totals beyond 2^53 cents keep every digit.
+ */
+export function formatCents(cents: bigint, currency: ArtCurrency): string {
+  const fraction = (cents % AMOUNT_SCALE).toString().padStart(2, "0");
+  const options: Intl.NumberFormatOptions = currency === "ETH" ? { minimumFractionDigits: 2 } : { style: "currency", currency };
+  const formatted = new Intl.NumberFormat(undefined, options)
+    .formatToParts(cents / AMOUNT_SCALE)
+    .map(part => (part.type === "fraction" ? fraction : part.value))
+    .join("");
+  return currency === "ETH" ? `Ξ${formatted}` : formatted;
+}
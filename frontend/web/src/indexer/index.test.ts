@@ -0,0 +1,100 @@
+// indexer/index.test.ts
+import { ethers } from "ethers";
+import { beforeEach, describe, expect, it } from "vitest";
+import UniversalAdapter from "../abi/UniversalAdapter.json";
+import { getKeyHistory, MemoryIndexStore, setIndexStore, syncDataStored } from "./index";
+
+const ADAPTER = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+const SENDER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const adapterInterface = new ethers.Interface(UniversalAdapter.abi);
+const dataStored = adapterInterface.getEvent("DataStored")!;
+
+interface Write {
+  blockNumber: number;
+  key: string;
+  value: string;
+}
+
+/** A UniversalAdapter whose DataStored logs are `chain.writes`, up to `chain.head`. */
+const fakeAdapter = (chain: { head: number; writes: Write[] }) => {
+  const provider = {
+    getNetwork: async () => ({ chainId: 31337n }),
+    getBlockNumber: async () => chain.head,
+  };
+  const toLog = ({ blockNumber, key, value }: Write, index: number) => {
+    const { data, topics } = adapterInterface.encodeEventLog(dataStored, [SENDER, key, value]);
+    const log = new ethers.Log(
+      {
+        transactionHash: ethers.id(`${blockNumber}:${index}`),
+        blockHash: ethers.id(`${blockNumber}`),
+        blockNumber,
+        removed: false,
+        address: ADAPTER,
+        data,
+        topics,
+        index,
+        transactionIndex: 0,
+      },
+      provider as unknown as ethers.Provider
+    );
+    return new ethers.EventLog(log, adapterInterface, dataStored);
+  };
+  return {
+    runner: { provider },
+    getAddress: async () => ADAPTER,
+    filters: { DataStored: () => "DataStored" },
+    queryFilter: async (_filter: unknown, from: number, to: number) =>
+      chain.writes.map(toLog).filter(log => log.blockNumber >= from && log.blockNumber <= to),
+  } as unknown as ethers.Contract;
+};
+
+const values = (entries: Map<string, { value: string }>) =>
+  Object.fromEntries([...entries].map(([key, entry]) => [key, entry.value]));
+
+describe("syncDataStored", () => {
+  beforeEach(() => {
+    setIndexStore(new MemoryIndexStore());
+  });
+
+  it("indexes the latest value of every key and the history of each", async () => {
+    const chain = { head: 100, writes: [{ blockNumber: 10, key: "a", value: "0x01" }, { blockNumber: 20, key: "a", value: "0x02" }] };
+    const adapter = fakeAdapter(chain);
+    expect(values(await syncDataStored(adapter, { fromBlock: 1 }))).toEqual({ a: "0x02" });
+
+    chain.writes.push({ blockNumber: 101, key: "b", value: "0x03" });
+    chain.head = 101;
+    expect(values(await syncDataStored(adapter, { fromBlock: 1 }))).toEqual({ a: "0x02", b: "0x03" });
+    expect((await getKeyHistory(adapter, "a")).map(entry => entry.value)).toEqual(["0x01", "0x02"]);
+  });
+
+  it("replaces what a reorg removed from the blocks it scans again", async () => {
+    const chain = {
+      head: 100,
+      writes: [
+        { blockNumber: 50, key: "a", value: "0x01" },
+        { blockNumber: 95, key: "a", value: "0x02" },
+        { blockNumber: 96, key: "b", value: "0x03" },
+      ],
+    };
+    const adapter = fakeAdapter(chain);
+    expect(values(await syncDataStored(adapter, { fromBlock: 1, reorgDepth: 12 }))).toEqual({ a: "0x02", b: "0x03" });
+
+    // Blocks 95 and 96 are replaced by a branch that wrote `a` once, in block 97, and never wrote `b`.
+    chain.writes = [{ blockNumber: 50, key: "a", value: "0x01" }, { blockNumber: 97, key: "a", value: "0x04" }];
+    chain.head = 101;
+    expect(values(await syncDataStored(adapter, { fromBlock: 1, reorgDepth: 12 }))).toEqual({ a: "0x04" });
+    expect((await getKeyHistory(adapter, "a")).map(entry => entry.value)).toEqual(["0x01", "0x04"]);
+    expect(await getKeyHistory(adapter, "b")).toEqual([]);
+  });
+
+  it("falls back to the earlier value of a key whose latest write was reorganised away", async () => {
+    const chain = { head: 100, writes: [{ blockNumber: 50, key: "a", value: "0x01" }, { blockNumber: 95, key: "a", value: "0x02" }] };
+    const adapter = fakeAdapter(chain);
+    await syncDataStored(adapter, { fromBlock: 1, reorgDepth: 12 });
+
+    chain.writes = [{ blockNumber: 50, key: "a", value: "0x01" }];
+    const entries = await syncDataStored(adapter, { fromBlock: 1, reorgDepth: 12 });
+    expect(entries.get("a")).toMatchObject({ value: "0x01", blockNumber: 50 });
+    expect((await getKeyHistory(adapter, "a")).map(entry => entry.value)).toEqual(["0x01"]);
+  });
+});
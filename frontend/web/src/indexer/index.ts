@@ -0,0 +1,145 @@
+// indexer/index.ts
+import { ethers } from "ethers";
+import { IndexedDbStore, MemoryIndexStore } from "./store";
+import type { IndexedEntry, IndexStore } from "./store";
+
+export interface SyncOptions {
+  /** First block to scan when nothing is indexed yet; found by bisecting getCode when omitted. */
+  fromBlock?: number;
+  /** Initial eth_getLogs range. Halved automatically when the RPC rejects a range as too large. */
+  blockRange?: number;
+  /** Blocks below the head that are re-scanned on every sync in case they were reorganised. */
+  reorgDepth?: number;
+  onProgress?: (indexedBlock: number, headBlock: number) => void;
+}
+
+const DEFAULT_BLOCK_RANGE = 5_000;
+const MIN_BLOCK_RANGE = 16;
+const DEFAULT_REORG_DEPTH = 12;
+
+let store: IndexStore | null = null;
+
+export function getIndexStore(): IndexStore {
+  if (!store) store = typeof window !== "undefined" && window.indexedDB ? new IndexedDbStore() : new MemoryIndexStore();
+  return store;
+}
+
+export function setIndexStore(next: IndexStore) {
+  store = next;
+}
+
+const indexScope = (chainId: bigint, address: string) => `${chainId}:${address.toLowerCase()}`;
+
+/** Returns the first block at which `address` has code, i.e. the block it was deployed in. */
+export async function findDeploymentBlock(provider: ethers.Provider, address: string, headBlock?: number): Promise<number> {
+  let high = headBlock ?? (await provider.getBlockNumber());
+  if ((await provider.getCode(address, high)) === "0x") throw new Error(`No contract deployed at ${address}`);
+  let low = 0;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if ((await provider.getCode(address, mid)) === "0x") low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+const toEntry = (scope: string, log: ethers.EventLog): IndexedEntry => ({
+  scope,
+  key: log.args.key,
+  value: ethers.hexlify(log.args.value),
+  sender: log.args.sender,
+  blockNumber: log.blockNumber,
+  logIndex: log.index,
+  transactionHash: log.transactionHash,
+});
+
+const isRangeError = (e: unknown) =>
+  /range|limit|too many|exceed|10000|timeout/i.test(String((e as { message?: string })?.message ?? e));
+
+/**
+ * Runs queryFilter over [fromBlock, toBlock] in chunks, shrinking the chunk whenever the RPC
+ * rejects a range, and calls `onRange` with the logs of each chunk in order.
+ */
+export async function queryFilterInRanges(
+  contract: ethers.Contract,
+  filter: ethers.ContractEventName,
+  fromBlock: number,
+  toBlock: number,
+  onRange: (logs: ethers.EventLog[], rangeEnd: number) => Promise<void> | void,
+  blockRange: number = DEFAULT_BLOCK_RANGE
+): Promise<void> {
+  let from = fromBlock;
+  let range = blockRange;
+  while (from <= toBlock) {
+    const to = Math.min(from + range - 1, toBlock);
+    let logs: (ethers.EventLog | ethers.Log)[];
+    try {
+      logs = await contract.queryFilter(filter, from, to);
+    } catch (e) {
+      if (range > MIN_BLOCK_RANGE && isRangeError(e)) {
+        range = Math.max(MIN_BLOCK_RANGE, Math.floor(range / 2));
+        continue;
+      }
+      throw e;
+    }
+    await onRange(logs.filter((log): log is ethers.EventLog => log instanceof ethers.EventLog), to);
+    from = to + 1;
+  }
+}
+
+/**
+ * Brings the local index of `contract`'s DataStored logs up to the chain head and returns the
+ * latest value of every key. Only blocks after the stored checkpoint are fetched, in ranges, and
+ * each range is committed together with its checkpoint. What was stored above the checkpoint is
+ * discarded first, so a reorganised block leaves no stale value or history behind.
+ */
+export async function syncDataStored(contract: ethers.Contract, options: SyncOptions = {}): Promise<Map<string, IndexedEntry>> {
+  const provider = contract.runner?.provider;
+  if (!provider) throw new Error("Contract is not connected to a provider");
+  const address = await contract.getAddress();
+  const { chainId } = await provider.getNetwork();
+  const scope = indexScope(chainId, address);
+  const indexStore = getIndexStore();
+  const reorgDepth = options.reorgDepth ?? DEFAULT_REORG_DEPTH;
+
+  const head = await provider.getBlockNumber();
+  const checkpoint = await indexStore.getCheckpoint(scope);
+  const from = checkpoint
+    ? checkpoint.lastBlock + 1
+    : options.fromBlock ?? (await findDeploymentBlock(provider, address, head));
+  let lastBlock = checkpoint?.lastBlock ?? from - 1;
+  // Logs stored from the unfinalised blocks the last sync saw are dropped, then fetched again from the current chain.
+  if (checkpoint) await indexStore.rewind(scope, from);
+
+  await queryFilterInRanges(contract, contract.filters.DataStored(), from, head, async (logs, to) => {
+    // Blocks close to the head are stored but not checkpointed, so the next sync fetches them again.
+    lastBlock = Math.max(lastBlock, Math.min(to, head - reorgDepth));
+    await indexStore.commit(logs.map(log => toEntry(scope, log)), { scope, lastBlock });
+    options.onProgress?.(to, head);
+  }, options.blockRange);
+
+  const entries = await indexStore.getEntries(scope);
+  return new Map(entries.map(entry => [entry.key, entry]));
+}
+
+/**
+ * Every value written under `key`, oldest first, from the local index. Call syncDataStored first
+ * to include recent writes.
+ */
+export async function getKeyHistory(contract: ethers.Contract, key: string): Promise<IndexedEntry[]> {
+  const provider = contract.runner?.provider;
+  if (!provider) throw new Error("Contract is not connected to a provider");
+  const { chainId } = await provider.getNetwork();
+  return getIndexStore().getHistory(indexScope(chainId, await contract.getAddress()), key);
+}
+
+/** Drops everything indexed for `contract`, forcing the next sync to start from scratch. */
+export async function resetIndex(contract: ethers.Contract): Promise<void> {
+  const provider = contract.runner?.provider;
+  if (!provider) throw new Error("Contract is not connected to a provider");
+  const { chainId } = await provider.getNetwork();
+  await getIndexStore().clear(indexScope(chainId, await contract.getAddress()));
+}
+
+export { IndexedDbStore, MemoryIndexStore };
+export type { IndexCheckpoint, IndexedEntry, IndexStore } from "./store";
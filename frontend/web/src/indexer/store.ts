@@ -0,0 +1,201 @@
+// indexer/store.ts
+
+/** A value written under a UniversalAdapter key, as reported by its DataStored log. */
+export interface IndexedEntry {
+  scope: string;
+  key: string;
+  value: string;
+  sender: string;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+}
+
+export interface IndexCheckpoint {
+  scope: string;
+  /** Highest block whose logs are final in the store; scanning resumes after it. */
+  lastBlock: number;
+}
+
+export interface IndexStore {
+  getCheckpoint(scope: string): Promise<IndexCheckpoint | null>;
+  getEntries(scope: string): Promise<IndexedEntry[]>;
+  /** Every value ever written under `key`, oldest first. */
+  getHistory(scope: string, key: string): Promise<IndexedEntry[]>;
+  /** Applies `entries` and moves the checkpoint in one step so an interrupted sync never skips logs. */
+  commit(entries: IndexedEntry[], checkpoint: IndexCheckpoint): Promise<void>;
+  /**
+   * Drops every log at or above `fromBlock` before those blocks are scanned again, so logs a reorg
+   * removed do not survive. Keys written there fall back to their latest earlier value.
+   */
+  rewind(scope: string, fromBlock: number): Promise<void>;
+  clear(scope: string): Promise<void>;
+}
+
+// A log replaces the stored entry unless the stored one was emitted later in the chain.
+const isNewer = (entry: IndexedEntry, existing: IndexedEntry | undefined) =>
+  !existing ||
+  entry.blockNumber > existing.blockNumber ||
+  (entry.blockNumber === existing.blockNumber && entry.logIndex >= existing.logIndex);
+
+const chainOrder = (a: IndexedEntry, b: IndexedEntry) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+
+const DB_NAME = "art-portfolio-index";
+const DB_VERSION = 2;
+const ENTRIES = "entries";
+const CHECKPOINTS = "checkpoints";
+const HISTORY = "history";
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const completion = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted"));
+  });
+
+export class IndexedDbStore implements IndexStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly factory: IDBFactory = window.indexedDB) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const req = this.factory.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = event => {
+        const db = req.result;
+        if (event.oldVersion < 1) {
+          const entries = db.createObjectStore(ENTRIES, { keyPath: ["scope", "key"] });
+          entries.createIndex("scope", "scope");
+          db.createObjectStore(CHECKPOINTS, { keyPath: "scope" });
+        }
+        if (event.oldVersion < 2) {
+          const history = db.createObjectStore(HISTORY, { keyPath: ["scope", "blockNumber", "logIndex"] });
+          history.createIndex("key", ["scope", "key"]);
+          // Logs indexed before v2 were not kept, so every scope is scanned again from its start.
+          req.transaction!.objectStore(CHECKPOINTS).clear();
+        }
+      };
+      this.db = request(req).catch(e => {
+        this.db = null;
+        throw e;
+      });
+    }
+    return this.db;
+  }
+
+  async getCheckpoint(scope: string): Promise<IndexCheckpoint | null> {
+    const db = await this.open();
+    const result = await request(db.transaction(CHECKPOINTS).objectStore(CHECKPOINTS).get(scope));
+    return result ?? null;
+  }
+
+  async getEntries(scope: string): Promise<IndexedEntry[]> {
+    const db = await this.open();
+    return request(db.transaction(ENTRIES).objectStore(ENTRIES).index("scope").getAll(scope));
+  }
+
+  async getHistory(scope: string, key: string): Promise<IndexedEntry[]> {
+    const db = await this.open();
+    const history = await request<IndexedEntry[]>(db.transaction(HISTORY).objectStore(HISTORY).index("key").getAll([scope, key]));
+    return history.sort(chainOrder);
+  }
+
+  async commit(entries: IndexedEntry[], checkpoint: IndexCheckpoint): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([ENTRIES, CHECKPOINTS, HISTORY], "readwrite");
+    const done = completion(tx);
+    const store = tx.objectStore(ENTRIES);
+    const history = tx.objectStore(HISTORY);
+    for (const entry of entries) {
+      history.put(entry);
+      const existing = await request<IndexedEntry | undefined>(store.get([entry.scope, entry.key]));
+      if (isNewer(entry, existing)) store.put(entry);
+    }
+    tx.objectStore(CHECKPOINTS).put(checkpoint);
+    await done;
+  }
+
+  async rewind(scope: string, fromBlock: number): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([ENTRIES, HISTORY], "readwrite");
+    const done = completion(tx);
+    const store = tx.objectStore(ENTRIES);
+    const history = tx.objectStore(HISTORY);
+    history.delete(IDBKeyRange.bound([scope, fromBlock], [scope, []]));
+    const entries = await request<IndexedEntry[]>(store.index("scope").getAll(scope));
+    for (const entry of entries.filter(e => e.blockNumber >= fromBlock)) {
+      const earlier = await request<IndexedEntry[]>(history.index("key").getAll([scope, entry.key]));
+      const previous = earlier.sort(chainOrder).pop();
+      if (previous) store.put(previous);
+      else store.delete([scope, entry.key]);
+    }
+    await done;
+  }
+
+  async clear(scope: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([ENTRIES, CHECKPOINTS, HISTORY], "readwrite");
+    const done = completion(tx);
+    tx.objectStore(ENTRIES).delete(IDBKeyRange.bound([scope], [scope, []]));
+    tx.objectStore(HISTORY).delete(IDBKeyRange.bound([scope], [scope, []]));
+    tx.objectStore(CHECKPOINTS).delete(scope);
+    await done;
+  }
+}
+
+/** Non-persistent store for environments without IndexedDB (private browsing, tests). */
+export class MemoryIndexStore implements IndexStore {
+  private readonly entries = new Map<string, Map<string, IndexedEntry>>();
+  private readonly checkpoints = new Map<string, IndexCheckpoint>();
+  private readonly history = new Map<string, Map<string, IndexedEntry>>();
+
+  async getCheckpoint(scope: string) {
+    return this.checkpoints.get(scope) ?? null;
+  }
+
+  async getEntries(scope: string) {
+    return [...(this.entries.get(scope)?.values() ?? [])];
+  }
+
+  async getHistory(scope: string, key: string) {
+    return [...(this.history.get(scope)?.values() ?? [])].filter(entry => entry.key === key).sort(chainOrder);
+  }
+
+  async commit(entries: IndexedEntry[], checkpoint: IndexCheckpoint) {
+    for (const entry of entries) {
+      const scoped = this.entries.get(entry.scope) ?? new Map<string, IndexedEntry>();
+      if (isNewer(entry, scoped.get(entry.key))) scoped.set(entry.key, entry);
+      this.entries.set(entry.scope, scoped);
+      const history = this.history.get(entry.scope) ?? new Map<string, IndexedEntry>();
+      history.set(`${entry.blockNumber}:${entry.logIndex}`, entry);
+      this.history.set(entry.scope, history);
+    }
+    this.checkpoints.set(checkpoint.scope, checkpoint);
+  }
+
+  async rewind(scope: string, fromBlock: number) {
+    const history = this.history.get(scope) ?? new Map<string, IndexedEntry>();
+    for (const [id, entry] of history) {
+      if (entry.blockNumber >= fromBlock) history.delete(id);
+    }
+    const scoped = this.entries.get(scope) ?? new Map<string, IndexedEntry>();
+    for (const [key, entry] of scoped) {
+      if (entry.blockNumber < fromBlock) continue;
+      const previous = [...history.values()].filter(e => e.key === key).sort(chainOrder).pop();
+      if (previous) scoped.set(key, previous);
+      else scoped.delete(key);
+    }
+  }
+
+  async clear(scope: string) {
+    this.entries.delete(scope);
+    this.checkpoints.delete(scope);
+    this.history.delete(scope);
+  }
+}
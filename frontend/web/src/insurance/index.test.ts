@@ -0,0 +1,155 @@
+// insurance/index.test.ts
+import { ethers } from "ethers";
+import { describe, expect, it } from "vitest";
+import { ART_SCHEMA_VERSION } from "../art";
+import type { ArtPiece } from "../art";
+import type { DisclosureGrant } from "../disclosures";
+import { insuranceSchedules, readableLines, scheduleToCsv, scheduleToPdf } from "./index";
+import type { InsuranceSchedule } from "./index";
+
+const OWNER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const INSURER = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+const LATER = Math.floor(Date.now() / 1000) + 86_400;
+
+const piece = (id: string, overrides: Partial<ArtPiece> = {}): ArtPiece => ({
+  id,
+  schemaVersion: ART_SCHEMA_VERSION,
+  title: `Piece ${id}`,
+  artist: "Paul Varenne",
+  year: 1921,
+  acquisitionDate: 1_700_000_000,
+  owner: OWNER,
+  status: "authenticated",
+  encryptedValue: ethers.id(`${id} cost basis`),
+  valuation: ethers.id(`${id} valuation`),
+  valuationMethod: { model: "acquisition", valuedAt: 1_700_000_000, basis: "Acquisition cost" },
+  currency: "EUR",
+  location: "Geneva Freeport",
+  condition: "good",
+  visibility: "private",
+  sharedWith: [],
+  ...overrides,
+});
+
+const grant = (grantId: string, artId: string, transactionHash: string, overrides: Partial<DisclosureGrant> = {}): DisclosureGrant => ({
+  grantId,
+  artId,
+  owner: OWNER,
+  grantee: INSURER,
+  field: "insuredValue",
+  expiresAt: LATER,
+  revoked: false,
+  accesses: [],
+  blockNumber: 10,
+  transactionHash,
+  ...overrides,
+});
+
+const schedule = (lines: InsuranceSchedule["lines"]): InsuranceSchedule => ({
+  scheduleId: "0xabc",
+  owner: OWNER,
+  insurer: INSURER,
+  expiresAt: LATER,
+  blockNumber: 10,
+  lines,
+});
+
+const line = (grantId: string, overrides: Partial<InsuranceSchedule["lines"][number]> = {}) => ({
+  grantId,
+  artId: `art-${grantId}`,
+  title: `Piece ${grantId}`,
+  artist: "Paul Varenne",
+  year: 1921 as number | null,
+  location: "Geneva Freeport",
+  condition: "good" as const,
+  currency: "EUR" as const,
+  ...overrides,
+});
+
+describe("insuranceSchedules", () => {
+  it("groups insured-value grants by granting transaction, newest schedule first", () => {
+    const grants = [
+      grant("10", "a", "0x01", { blockNumber: 5 }),
+      grant("2", "b", "0x01", { blockNumber: 5 }),
+      grant("3", "a", "0x02", { blockNumber: 8 }),
+      grant("4", "a", "0x02", { blockNumber: 8, field: "valuation" }),
+    ];
+    const schedules = insuranceSchedules(grants, [piece("a"), piece("b", { currency: "CHF" })]);
+
+    expect(schedules.map(s => s.scheduleId)).toEqual(["0x02", "0x01"]);
+    expect(schedules[0].lines.map(l => l.grantId)).toEqual(["3"]);
+    expect(schedules[1].lines.map(l => l.grantId)).toEqual(["2", "10"]);
+    expect(schedules[1].lines[0]).toEqual({
+      grantId: "2",
+      artId: "b",
+      title: "Piece b",
+      artist: "Paul Varenne",
+      year: 1921,
+      location: "Geneva Freeport",
+      condition: "good",
+      currency: "CHF",
+    });
+  });
+
+  it("keeps the id as title of pieces missing from the catalogue", () => {
+    const [only] = insuranceSchedules([grant("1", "gone", "0x01")], []);
+    expect(only.lines[0]).toMatchObject({ title: "gone", artist: "", year: null, location: "", condition: "unrecorded", currency: "USD" });
+  });
+});
+
+describe("readableLines", () => {
+  it("drops lines whose grant was revoked or has expired", () => {
+    const grants = [grant("1", "a", "0x01"), grant("2", "b", "0x01", { revoked: true }), grant("3", "c", "0x01", { expiresAt: 1 })];
+    const [only] = insuranceSchedules(grants, []);
+    expect(readableLines(only, grants).map(l => l.grantId)).toEqual(["1"]);
+  });
+});
+
+describe("scheduleToCsv", () => {
+  it("writes a header and one CRLF-terminated row per decrypted line", () => {
+    const csv = scheduleToCsv(schedule([line("1"), line("2", { year: null, location: "" })]), { "1": 1_500_000, "2": 75_000.5 });
+    expect(csv).toBe(
+      "Artwork,Artist,Year,Location,Condition,Currency,Insured value\r\n" +
+        "Piece 1,Paul Varenne,1921,Geneva Freeport,good,EUR,1500000.00\r\n" +
+        "Piece 2,Paul Varenne,,Not recorded,good,EUR,75000.50\r\n"
+    );
+  });
+
+  it("quotes cells with commas, quotes or line breaks and doubles the quotes", () => {
+    const csv = scheduleToCsv(
+      schedule([line("1", { title: 'The "Blue" Room', artist: "Varenne, Paul", location: "Vault 3\nShelf B" })]),
+      { "1": 10 }
+    );
+    expect(csv.split("\r\n")[1]).toBe('"The ""Blue"" Room","Varenne, Paul",1921,"Vault 3\nShelf B",good,EUR,10.00');
+  });
+
+  it("leaves out lines the insurer has not decrypted", () => {
+    const csv = scheduleToCsv(schedule([line("1"), line("2")]), { "2": 5 });
+    expect(csv.split("\r\n").filter(Boolean)).toHaveLength(2);
+    expect(csv).toContain("Piece 2");
+    expect(csv).not.toContain("Piece 1");
+  });
+});
+
+describe("scheduleToPdf", () => {
+  const text = async (pdf: Blob) => new TextDecoder("latin1").decode(await pdf.arrayBuffer());
+
+  it("renders the decrypted lines with totals per currency", async () => {
+    const lines = [line("1"), line("2"), line("3", { currency: "USD", title: "Study (after Manet)" })];
+    const pdf = scheduleToPdf(schedule(lines), { "1": 100, "2": 50.25, "3": 7 }, new Date(0));
+    expect(pdf.type).toBe("application/pdf");
+
+    const content = await text(pdf);
+    expect(content.startsWith("%PDF-1.4\n")).toBe(true);
+    expect(content.trimEnd().endsWith("%%EOF")).toBe(true);
+    expect(content).toContain("(Total insured: EUR 150.25, USD 7.00)");
+    expect(content).toContain("(Study \\(after Manet\\))");
+    expect(content).toContain(`(Policyholder: ${OWNER})`);
+  });
+
+  it("says so when nothing was decrypted", async () => {
+    const content = await text(scheduleToPdf(schedule([line("1")]), {}));
+    expect(content).toContain("(Total insured: none)");
+    expect(content).not.toContain("(Piece 1)");
+  });
+});
@@ -0,0 +1,176 @@
+// insurance/index.ts
+import { ethers } from "ethers";
+import type { ArtCondition, ArtCurrency, ArtPiece } from "../art";
+import type { DisclosureGrant } from "../disclosures";
+import { disclosureState, grantArtDisclosures } from "../disclosures";
+import { renderPdfTable } from "./pdf";
+
+/** One insured piece. Descriptions come from the catalogue record; the insured value is encrypted for the insurer. */
+export interface InsuranceScheduleLine {
+  grantId: string;
+  artId: string;
+  title: string;
+  artist: string;
+  year: number | null;
+  location: string;
+  condition: ArtCondition;
+  currency: ArtCurrency;
+}
+
+/**
+ * The insured-value grants an owner gave an insurer in one transaction. Only the insurer can
+ * decrypt the values, and only while the grants are live; the owner may revoke them line by line.
+ */
+export interface InsuranceSchedule {
+  /** Hash of the granting transaction, which identifies the schedule. */
+  scheduleId: string;
+  owner: string;
+  insurer: string;
+  /** Unix timestamp in seconds. */
+  expiresAt: number;
+  blockNumber: number;
+  lines: InsuranceScheduleLine[];
+}
+
+/** What the owner insures a piece for, in the piece's currency. */
+export interface InsuredPiece {
+  piece: ArtPiece;
+  insuredValue: number;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/** Groups the insured-value grants into schedules, newest first. Pieces missing from the catalogue keep their id as title. */
+export function insuranceSchedules(grants: DisclosureGrant[], collection: ArtPiece[]): InsuranceSchedule[] {
+  const pieces = new Map(collection.map(piece => [piece.id, piece]));
+  const schedules = new Map<string, InsuranceSchedule>();
+  for (const grant of grants) {
+    if (grant.field !== "insuredValue") continue;
+    let schedule = schedules.get(grant.transactionHash);
+    if (!schedule) {
+      schedule = {
+        scheduleId: grant.transactionHash,
+        owner: grant.owner,
+        insurer: grant.grantee,
+        expiresAt: grant.expiresAt,
+        blockNumber: grant.blockNumber,
+        lines: [],
+      };
+      schedules.set(grant.transactionHash, schedule);
+    }
+    const piece = pieces.get(grant.artId);
+    schedule.lines.push({
+      grantId: grant.grantId,
+      artId: grant.artId,
+      title: piece?.title ?? grant.artId,
+      artist: piece?.artist ?? "",
+      year: piece?.year ?? null,
+      location: piece?.location ?? "",
+      condition: piece?.condition ?? "unrecorded",
+      currency: piece?.currency ?? "USD",
+    });
+  }
+  for (const schedule of schedules.values()) schedule.lines.sort((a, b) => Number(a.grantId) - Number(b.grantId));
+  return [...schedules.values()].sort((a, b) => b.blockNumber - a.blockNumber);
+}
+
+/** Lines the insurer can still read: revoked or expired grants hand out no new copies. */
+export function readableLines(schedule: InsuranceSchedule, grants: DisclosureGrant[]): InsuranceScheduleLine[] {
+  const live = new Set(grants.filter(grant => disclosureState(grant) === "active").map(grant => grant.grantId));
+  return schedule.lines.filter(line => live.has(line.grantId));
+}
+
+/** Encrypts each insured value for ArtPortfolioFhe and grants `insurer` read access until `expiresAt` (seconds). */
+export async function issueInsuranceSchedule(
+  portfolio: ethers.Contract,
+  insurer: string,
+  insured: InsuredPiece[],
+  expiresAt: number
+): Promise<string[]> {
+  if (insured.some(entry => !(entry.insuredValue > 0))) throw new Error("Insured values must be positive");
+  return grantArtDisclosures(
+    portfolio,
+    insurer,
+    insured.map(({ piece, insuredValue }) => ({ piece, field: "insuredValue", amount: insuredValue })),
+    expiresAt
+  );
+}
+
+/** Insurer only: logs one access per line in a single transaction and returns the handles to decrypt, in line order. */
+export async function accessInsuranceSchedule(portfolio: ethers.Contract, lines: InsuranceScheduleLine[]): Promise<string[]> {
+  const account = await (portfolio.runner as ethers.Signer).getAddress();
+  const grantIds = lines.map(line => line.grantId);
+  const receipt = await (await portfolio.accessDisclosures(grantIds)).wait();
+  const handles = new Map<string, string>();
+  for (const log of receipt.logs) {
+    const parsed = portfolio.interface.parseLog(log);
+    if (parsed?.name === "DisclosureAccessed" && sameAddress(parsed.args.grantee, account)) {
+      handles.set(parsed.args.grantId.toString(), parsed.args.handle);
+    }
+  }
+  return grantIds.map(grantId => {
+    const handle = handles.get(grantId);
+    if (!handle) throw new Error(`No access logged for grant ${grantId}`);
+    return handle;
+  });
+}
+
+/** Insured values the insurer decrypted, by grant id, in each line's currency. */
+export type InsuredValues = Record<string, number>;
+
+const HEADERS = ["Artwork", "Artist", "Year", "Location", "Condition", "Currency", "Insured value"];
+
+const scheduleRows = (schedule: InsuranceSchedule, values: InsuredValues) =>
+  schedule.lines
+    .filter(line => values[line.grantId] !== undefined)
+    .map(line => [
+      line.title,
+      line.artist,
+      line.year === null ? "" : String(line.year),
+      line.location || "Not recorded",
+      line.condition,
+      line.currency,
+      values[line.grantId].toFixed(2),
+    ]);
+
+const totalsByCurrency = (schedule: InsuranceSchedule, values: InsuredValues) => {
+  const totals = new Map<ArtCurrency, number>();
+  for (const line of schedule.lines) {
+    const value = values[line.grantId];
+    if (value !== undefined) totals.set(line.currency, (totals.get(line.currency) ?? 0) + value);
+  }
+  return [...totals].map(([currency, total]) => `${currency} ${total.toFixed(2)}`);
+};
+
+const csvCell = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/** The decrypted schedule as RFC 4180 CSV. Amounts are plain decimals; their currency has its own column. */
+export function scheduleToCsv(schedule: InsuranceSchedule, values: InsuredValues): string {
+  return [HEADERS, ...scheduleRows(schedule, values)].map(row => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+export function scheduleToPdf(schedule: InsuranceSchedule, values: InsuredValues, generatedAt = new Date()): Blob {
+  const widths = [190, 130, 40, 160, 70, 50, 122];
+  return renderPdfTable({
+    title: "Insurance Schedule",
+    subtitle: [
+      `Policyholder: ${schedule.owner}`,
+      `Insurer: ${schedule.insurer}`,
+      `Schedule: ${schedule.scheduleId}`,
+      `Generated ${generatedAt.toLocaleString()}, disclosure valid until ${new Date(schedule.expiresAt * 1000).toLocaleString()}`,
+      `Total insured: ${totalsByCurrency(schedule, values).join(", ") || "none"}`,
+    ],
+    columns: HEADERS.map((header, i) => ({ header, width: widths[i], align: i === HEADERS.length - 1 ? "right" : "left" })),
+    rows: scheduleRows(schedule, values),
+  });
+}
+
+/** Hands `data` to the browser as a file download. */
+export function downloadFile(fileName: string, data: Blob) {
+  const url = URL.createObjectURL(data);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,103 @@
+// insurance/pdf.ts
+
+/** A table laid out on landscape A4 pages with the standard Helvetica font, which every PDF reader ships. */
+export interface PdfTable {
+  title: string;
+  /** Lines printed under the title on the first page. */
+  subtitle: string[];
+  columns: { header: string; width: number; align?: "left" | "right" }[];
+  rows: string[][];
+}
+
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 40;
+const FONT_SIZE = 9;
+const LINE_HEIGHT = 14;
+// Helvetica averages about half an em per character, enough to truncate cells and right-align amounts.
+const CHAR_WIDTH = FONT_SIZE * 0.5;
+
+// Helvetica is set in WinAnsiEncoding: Latin-1 maps onto itself, plus the euro sign.
+const toWinAnsi = (text: string) =>
+  Array.from(text, ch => {
+    if (ch === "\u20ac") return "\x80";
+    if (ch === "\u00a0" || ch === "\u202f") return " ";
+    return ch.charCodeAt(0) < 256 ? ch : "?";
+  }).join("");
+
+const escape = (text: string) => toWinAnsi(text).replace(/[\\()]/g, ch => `\\${ch}`);
+
+const fit = (text: string, width: number) => {
+  const max = Math.floor(width / CHAR_WIDTH) - 1;
+  return text.length <= max ? text : `${text.substring(0, Math.max(0, max - 3))}...`;
+};
+
+const textAt = (x: number, y: number, text: string, font = "F1") =>
+  `BT /${font} ${FONT_SIZE} Tf ${x.toFixed(1)} ${y.toFixed(1)} Td (${escape(text)}) Tj ET`;
+
+function pageContent(table: PdfTable, rows: string[][], first: boolean, page: number, pages: number): string {
+  const ops: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+  if (first) {
+    ops.push(`BT /F2 14 Tf ${MARGIN} ${y} Td (${escape(table.title)}) Tj ET`);
+    y -= LINE_HEIGHT * 1.5;
+    for (const line of table.subtitle) {
+      ops.push(textAt(MARGIN, y, line));
+      y -= LINE_HEIGHT;
+    }
+    y -= LINE_HEIGHT / 2;
+  }
+  const cells = (row: string[], font: string) => {
+    let x = MARGIN;
+    table.columns.forEach((column, i) => {
+      const text = fit(row[i] ?? "", column.width);
+      const offset = column.align === "right" ? column.width - CHAR_WIDTH - text.length * CHAR_WIDTH : 0;
+      ops.push(textAt(x + offset, y, text, font));
+      x += column.width;
+    });
+    y -= LINE_HEIGHT;
+  };
+  cells(table.columns.map(column => column.header), "F2");
+  ops.push(`${MARGIN} ${y + LINE_HEIGHT - 4} m ${PAGE_WIDTH - MARGIN} ${y + LINE_HEIGHT - 4} l S`);
+  rows.forEach(row => cells(row, "F1"));
+  ops.push(textAt(PAGE_WIDTH - MARGIN - 60, MARGIN / 2, `Page ${page} of ${pages}`));
+  return ops.join("\n");
+}
+
+/** Renders `table` as a self-contained PDF file. */
+export function renderPdfTable(table: PdfTable): Blob {
+  const usable = PAGE_HEIGHT - 2 * MARGIN - LINE_HEIGHT;
+  const firstPageRows = Math.floor((usable - LINE_HEIGHT * (2 + table.subtitle.length)) / LINE_HEIGHT) - 1;
+  const pageRows = Math.floor(usable / LINE_HEIGHT) - 1;
+  const chunks: string[][][] = [table.rows.slice(0, firstPageRows)];
+  for (let i = firstPageRows; i < table.rows.length; i += pageRows) chunks.push(table.rows.slice(i, i + pageRows));
+
+  // Objects 1-4 are the catalog, page tree and fonts; each page is followed by its content stream.
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${chunks.map((_, i) => `${5 + 2 * i} 0 R`).join(" ")}] /Count ${chunks.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+  ];
+  chunks.forEach((rows, i) => {
+    const content = pageContent(table, rows, i === 0, i + 1, chunks.length);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + 2 * i} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  // Every character is a single byte, so string offsets are byte offsets.
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((body, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return new Blob([Uint8Array.from(pdf, ch => ch.charCodeAt(0))], { type: "application/pdf" });
+}
@@ -5,15 +5,37 @@ import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/ra
 import { WagmiConfig } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
-import { sepolia } from 'wagmi/chains';
+import { hardhat, mainnet, sepolia } from 'wagmi/chains';
+import { defineChain, type Chain } from 'viem';
 import { BrowserRouter } from 'react-router-dom';
+import { defaultDeployment, SupportedDeployment, supportedNetworks } from './deployments';
 
 const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
 
+const KNOWN_CHAINS: Chain[] = [mainnet, sepolia, hardhat];
+
+// Wallets are offered every network with a deployment, using the registry's RPC endpoints.
+const toChain = (deployment: SupportedDeployment): Chain => {
+  const known = KNOWN_CHAINS.find(chain => chain.id === deployment.chainId);
+  return defineChain({
+    ...known,
+    id: deployment.chainId,
+    name: deployment.name,
+    nativeCurrency: deployment.nativeCurrency,
+    rpcUrls: { default: { http: deployment.rpcUrls } },
+    blockExplorers: deployment.explorerUrl ? { default: { name: 'Explorer', url: deployment.explorerUrl } } : undefined,
+  });
+};
+
+const defaultChainId = defaultDeployment().chainId;
+const [firstChain, ...otherChains] = supportedNetworks()
+  .sort((a, b) => Number(b.chainId === defaultChainId) - Number(a.chainId === defaultChainId))
+  .map(toChain);
+
 const config = getDefaultConfig({
   appName: '',
   projectId: projectId,
-  chains: [sepolia],
+  chains: [firstChain, ...otherChains],
 });
 
 const queryClient = new QueryClient();
@@ -1,3 +0,0 @@
-export const config = { runtime: 'edge' };
-
-export default function handler() { return <div>Component</div>; }
@@ -1,3 +0,0 @@
-import axios from 'axios';
-
-interface analytics-customer-validatorProps { data: string }
@@ -0,0 +1,184 @@
+// rpc.test.ts
+import { ethers } from "ethers";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RpcProviderPool } from "./rpc";
+
+/** How a stubbed endpoint answers: after `latencyMs`, with an HTTP status and a JSON-RPC reply. */
+interface StubEndpoint {
+  latencyMs: number;
+  status?: number;
+  reply?: (payload: ethers.JsonRpcPayload) => object;
+}
+
+const defaultGetUrl = ethers.FetchRequest.createGetUrlFunc();
+const NETWORK = ethers.Network.from(31337);
+
+let endpoints: Record<string, StubEndpoint>;
+let served: { host: string; at: number }[];
+let pool: RpcProviderPool;
+
+const createPool = () => {
+  pool = new RpcProviderPool(Object.keys(endpoints), NETWORK, { cooldownMs: 1_000 });
+  return pool;
+};
+
+const health = (label: string) => pool.snapshot().endpoints.find(endpoint => endpoint.label === label)!;
+const ranking = () => pool.rankedEndpoints().map(endpoint => endpoint.label);
+const hosts = () => served.map(request => request.host);
+
+/** Runs the fake clock until `work` settles, so stubbed latencies pass instantly. */
+const settle = async <T>(work: Promise<T>): Promise<T> => {
+  const outcome = work.then(
+    value => ({ value }),
+    (error: unknown) => ({ error })
+  );
+  await vi.runAllTimersAsync();
+  const settled = await outcome;
+  if ("error" in settled) throw settled.error;
+  return settled.value;
+};
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date", "setTimeout", "clearTimeout"] });
+  vi.setSystemTime(1_000_000);
+  served = [];
+  ethers.FetchRequest.registerGetUrl(async req => {
+    const stub = endpoints[req.url];
+    if (!stub) throw new Error(`unexpected request to ${req.url}`);
+    await new Promise(resolve => setTimeout(resolve, stub.latencyMs));
+    served.push({ host: new URL(req.url).host, at: Date.now() });
+    const body = JSON.parse(ethers.toUtf8String(req.body!));
+    const payloads: ethers.JsonRpcPayload[] = Array.isArray(body) ? body : [body];
+    const replies = payloads.map(payload => ({
+      jsonrpc: "2.0",
+      id: payload.id,
+      ...(stub.reply ? stub.reply(payload) : { result: "0x1" }),
+    }));
+    return {
+      statusCode: stub.status ?? 200,
+      statusMessage: "",
+      headers: { "content-type": "application/json" },
+      body: ethers.toUtf8Bytes(JSON.stringify(Array.isArray(body) ? replies : replies[0])),
+    };
+  });
+});
+
+afterEach(() => {
+  pool?.destroy();
+  ethers.FetchRequest.registerGetUrl(defaultGetUrl);
+  vi.useRealTimers();
+});
+
+describe("RpcProviderPool", () => {
+  it("probes every endpoint and sends requests to the fastest one", async () => {
+    endpoints = {
+      "https://slow.test/key": { latencyMs: 300 },
+      "https://fast.test/key": { latencyMs: 20 },
+      "https://medium.test/key": { latencyMs: 100 },
+    };
+    createPool();
+
+    expect(await settle(pool.send("eth_blockNumber", []))).toBe("0x1");
+    expect(ranking()).toEqual(["fast.test", "medium.test", "slow.test"]);
+    expect(health("fast.test")).toMatchObject({ requests: 2, failures: 0, latencyMs: 20 });
+    expect(health("slow.test")).toMatchObject({ requests: 1, latencyMs: 300 });
+    expect(pool.snapshot().requests).toEqual([
+      expect.objectContaining({ methods: ["eth_blockNumber"], endpoint: "fast.test", ok: true, failedOver: [], latencyMs: 20 }),
+    ]);
+  });
+
+  it("ranks an endpoint with recent errors behind one as fast without", async () => {
+    endpoints = {
+      "https://flaky.test": { latencyMs: 50 },
+      "https://steady.test": { latencyMs: 60 },
+    };
+    createPool();
+    await settle(pool.probe());
+    expect(ranking()).toEqual(["flaky.test", "steady.test"]);
+
+    endpoints["https://flaky.test"].status = 502;
+    await settle(pool.send("eth_blockNumber", []));
+    vi.advanceTimersByTime(60_000);
+
+    expect(health("flaky.test").coolingUntil).toBeLessThan(Date.now());
+    expect(health("flaky.test").errorRate).toBeCloseTo(0.2, 10);
+    expect(ranking()).toEqual(["steady.test", "flaky.test"]);
+  });
+
+  it("fails over to the next endpoint and records which ones failed", async () => {
+    endpoints = {
+      "https://down.test": { latencyMs: 10 },
+      "https://garbled.test": { latencyMs: 20 },
+      "https://up.test": { latencyMs: 30 },
+    };
+    createPool();
+    await settle(pool.probe());
+
+    endpoints["https://down.test"].status = 503;
+    endpoints["https://garbled.test"].reply = () => ({ id: undefined, result: "0x1" });
+    served = [];
+    expect(await settle(pool.send("eth_getBalance", [ethers.ZeroAddress, "latest"]))).toBe("0x1");
+
+    expect(hosts()).toEqual(["down.test", "garbled.test", "up.test"]);
+    expect(pool.snapshot().requests[0]).toMatchObject({
+      methods: ["eth_getBalance"],
+      endpoint: "up.test",
+      ok: true,
+      failedOver: ["down.test", "garbled.test"],
+    });
+    expect(health("down.test")).toMatchObject({ failures: 1, consecutiveFailures: 1 });
+    expect(health("garbled.test").lastError).toBe("invalid JSON-RPC response");
+    expect(ranking()).toEqual(["up.test", "down.test", "garbled.test"]);
+  });
+
+  it("cools failed endpoints down, doubling the cooldown with each consecutive failure", async () => {
+    endpoints = {
+      "https://a.test": { latencyMs: 10 },
+      "https://b.test": { latencyMs: 40 },
+    };
+    createPool();
+    await settle(pool.probe());
+
+    endpoints["https://a.test"].status = 500;
+    served = [];
+    await settle(pool.send("eth_blockNumber", []));
+    expect(health("a.test")).toMatchObject({ consecutiveFailures: 1, coolingUntil: served[0].at + 1_000 });
+    expect(ranking()).toEqual(["b.test", "a.test"]);
+
+    // While cooling, a.test is only tried after every other endpoint failed
+    endpoints["https://b.test"].status = 500;
+    served = [];
+    await expect(settle(pool.send("eth_blockNumber", []))).rejects.toThrow("All 2 RPC endpoints failed");
+    expect(hosts()).toEqual(["b.test", "a.test"]);
+    expect(health("a.test")).toMatchObject({ consecutiveFailures: 2, coolingUntil: served[1].at + 2_000 });
+    expect(pool.snapshot().requests[0]).toMatchObject({ ok: false, failedOver: ["b.test", "a.test"] });
+
+    // Once the cooldown is over and it answers again, a.test is back in front
+    vi.advanceTimersByTime(2_000);
+    endpoints["https://a.test"].status = 200;
+    served = [];
+    await settle(pool.send("eth_blockNumber", []));
+    expect(hosts()).toEqual(["a.test"]);
+    expect(health("a.test")).toMatchObject({ consecutiveFailures: 0, coolingUntil: 0 });
+  });
+
+  it("returns JSON-RPC errors as answers without failing over", async () => {
+    endpoints = {
+      "https://a.test": { latencyMs: 10, reply: () => ({ error: { code: -32000, message: "execution reverted" } }) },
+      "https://b.test": { latencyMs: 40 },
+    };
+    createPool();
+    await settle(pool.probe());
+
+    served = [];
+    await expect(settle(pool.send("eth_call", [{ to: ethers.ZeroAddress, data: "0x" }, "latest"]))).rejects.toThrow();
+    expect(hosts()).toEqual(["a.test"]);
+    expect(health("a.test")).toMatchObject({ failures: 0, errorRate: 0 });
+    expect(pool.snapshot().requests[0]).toMatchObject({ endpoint: "a.test", ok: true, failedOver: [] });
+  });
+
+  it("deduplicates endpoints and refuses an empty list", () => {
+    expect(new RpcProviderPool(["https://a.test", "https://a.test"], NETWORK).snapshot().endpoints).toHaveLength(1);
+    expect(() => new RpcProviderPool([], NETWORK)).toThrow("RpcProviderPool needs at least one endpoint");
+  });
+});
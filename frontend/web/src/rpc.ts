@@ -0,0 +1,206 @@
+// rpc.ts
+import { ethers } from "ethers";
+
+export interface RpcPoolOptions {
+  /** Per-request timeout before failing over to the next endpoint (default 8s). */
+  timeoutMs?: number;
+  /** Cooldown after a failure; doubles with each consecutive failure up to MAX_COOLDOWN_MS (default 15s). */
+  cooldownMs?: number;
+  /** How many served requests the debug history keeps (default 50). */
+  historySize?: number;
+}
+
+/** Health of one endpoint as observed by the pool. */
+export interface EndpointHealth {
+  url: string;
+  /** Host only, so API keys in the path never reach the UI. */
+  label: string;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  /** Moving average of successful round trips; null until one succeeded. */
+  latencyMs: number | null;
+  /** Moving average of failures over recent requests, 0 to 1. */
+  errorRate: number;
+  /** Epoch ms before which the endpoint is only tried when every other one failed. */
+  coolingUntil: number;
+  lastError: string | null;
+}
+
+/** One JSON-RPC call (or batch) and the endpoint that served it. */
+export interface RpcRequestRecord {
+  methods: string[];
+  endpoint: string;
+  ok: boolean;
+  latencyMs: number;
+  /** Endpoints that failed before this one served the request. */
+  failedOver: string[];
+  error: string | null;
+  at: number;
+}
+
+export interface RpcPoolSnapshot {
+  /** Best first: the order the next request will try them in. */
+  endpoints: EndpointHealth[];
+  /** Newest first. */
+  requests: RpcRequestRecord[];
+}
+
+const LATENCY_WEIGHT = 0.3;
+const ERROR_WEIGHT = 0.2;
+const MAX_COOLDOWN_MS = 5 * 60 * 1000;
+
+const endpointLabel = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+const errorMessage = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+/**
+ * A JSON-RPC provider backed by several endpoints of the same chain. Every request goes to the
+ * best-ranked endpoint (lowest latency, fewest recent errors) and fails over to the next one on
+ * a timeout, an HTTP error or an unreadable response. JSON-RPC errors such as reverts are
+ * answers, not endpoint failures, and are returned as they are.
+ */
+export class RpcProviderPool extends ethers.JsonRpcApiProvider {
+  private readonly endpoints: EndpointHealth[];
+  private readonly history: RpcRequestRecord[] = [];
+  private readonly observers = new Set<() => void>();
+  private readonly timeoutMs: number;
+  private readonly cooldownMs: number;
+  private readonly historySize: number;
+  private probing: Promise<void> | null = null;
+
+  constructor(urls: string[], network: ethers.Networkish, options: RpcPoolOptions = {}) {
+    const staticNetwork = ethers.Network.from(network);
+    super(staticNetwork, { staticNetwork });
+    if (urls.length === 0) throw new Error("RpcProviderPool needs at least one endpoint");
+    this.timeoutMs = options.timeoutMs ?? 8000;
+    this.cooldownMs = options.cooldownMs ?? 15000;
+    this.historySize = options.historySize ?? 50;
+    this.endpoints = [...new Set(urls)].map(url => ({
+      url,
+      label: endpointLabel(url),
+      requests: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      latencyMs: null,
+      errorRate: 0,
+      coolingUntil: 0,
+      lastError: null,
+    }));
+  }
+
+  /** Endpoints best first. Cooling endpoints go last; unmeasured ones rank as if they took the full timeout. */
+  rankedEndpoints(now = Date.now()): EndpointHealth[] {
+    const score = (endpoint: EndpointHealth) => (endpoint.latencyMs ?? this.timeoutMs) * (1 + 4 * endpoint.errorRate);
+    return [...this.endpoints].sort((a, b) => {
+      const cooling = Number(a.coolingUntil > now) - Number(b.coolingUntil > now);
+      return cooling !== 0 ? cooling : score(a) - score(b);
+    });
+  }
+
+  snapshot(): RpcPoolSnapshot {
+    return {
+      endpoints: this.rankedEndpoints().map(endpoint => ({ ...endpoint })),
+      requests: [...this.history],
+    };
+  }
+
+  /** Calls `listener` after every request; returns the unsubscribe function. */
+  subscribe(listener: () => void): () => void {
+    this.observers.add(listener);
+    return () => this.observers.delete(listener);
+  }
+
+  /**
+   * Measures every endpoint with eth_blockNumber in parallel and resolves as soon as one answers,
+   * so the first real request already goes to a live endpoint. Runs once, before the first request.
+   */
+  probe(): Promise<void> {
+    if (!this.probing) {
+      const payload: ethers.JsonRpcPayload = { method: "eth_blockNumber", params: [], id: 0, jsonrpc: "2.0" };
+      const probes = this.endpoints.map(endpoint => this.request(endpoint, payload).then(() => undefined));
+      this.probing = Promise.any(probes).catch(() => undefined);
+    }
+    return this.probing;
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<(ethers.JsonRpcResult | ethers.JsonRpcError)[]> {
+    await this.probe();
+    const methods = (Array.isArray(payload) ? payload : [payload]).map(p => p.method);
+    const failedOver: string[] = [];
+    let lastError: unknown = null;
+    for (const endpoint of this.rankedEndpoints()) {
+      const started = Date.now();
+      try {
+        const result = await this.request(endpoint, payload);
+        this.record({ methods, endpoint: endpoint.label, ok: true, latencyMs: Date.now() - started, failedOver, error: null, at: started });
+        return result;
+      } catch (e) {
+        lastError = e;
+        failedOver.push(endpoint.label);
+      }
+    }
+    this.record({
+      methods,
+      endpoint: failedOver[failedOver.length - 1],
+      ok: false,
+      latencyMs: 0,
+      failedOver,
+      error: errorMessage(lastError),
+      at: Date.now(),
+    });
+    throw new Error(`All ${this.endpoints.length} RPC endpoints failed: ${errorMessage(lastError)}`, { cause: lastError });
+  }
+
+  private async request(endpoint: EndpointHealth, payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]) {
+    const request = new ethers.FetchRequest(endpoint.url);
+    request.body = JSON.stringify(payload);
+    request.setHeader("content-type", "application/json");
+    request.timeout = this.timeoutMs;
+    // The pool does its own failover; FetchRequest would otherwise keep retrying a throttled endpoint.
+    request.setThrottleParams({ maxAttempts: 1 });
+    const started = Date.now();
+    endpoint.requests++;
+    try {
+      const response = await request.send();
+      response.assertOk();
+      const body = response.bodyJson;
+      const results: (ethers.JsonRpcResult | ethers.JsonRpcError)[] = Array.isArray(body) ? body : [body];
+      if (results.some(result => !result || typeof result !== "object" || !("id" in result))) {
+        throw new Error("invalid JSON-RPC response");
+      }
+      this.succeeded(endpoint, Date.now() - started);
+      return results;
+    } catch (e) {
+      this.failed(endpoint, e);
+      throw e;
+    }
+  }
+
+  private succeeded(endpoint: EndpointHealth, latencyMs: number) {
+    endpoint.latencyMs = endpoint.latencyMs === null ? latencyMs : endpoint.latencyMs + LATENCY_WEIGHT * (latencyMs - endpoint.latencyMs);
+    endpoint.errorRate *= 1 - ERROR_WEIGHT;
+    endpoint.consecutiveFailures = 0;
+    endpoint.coolingUntil = 0;
+  }
+
+  private failed(endpoint: EndpointHealth, e: unknown) {
+    endpoint.failures++;
+    endpoint.consecutiveFailures++;
+    endpoint.errorRate += ERROR_WEIGHT * (1 - endpoint.errorRate);
+    endpoint.coolingUntil = Date.now() + Math.min(this.cooldownMs * 2 ** (endpoint.consecutiveFailures - 1), MAX_COOLDOWN_MS);
+    endpoint.lastError = errorMessage(e);
+  }
+
+  private record(entry: RpcRequestRecord) {
+    this.history.unshift(entry);
+    this.history.length = Math.min(this.history.length, this.historySize);
+    this.observers.forEach(listener => listener());
+  }
+}
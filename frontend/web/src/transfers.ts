@@ -0,0 +1,110 @@
+// transfers.ts
+import { ethers } from "ethers";
+import type { ArtPiece, ArtRecord, HandOver } from "./art";
+import { findDeploymentBlock, queryFilterInRanges } from "./indexer";
+import { findEvent } from "./wealth";
+
+export type TransferStatus = "pending" | "accepted" | "cancelled";
+
+/** An ownership hand-off as replayed from the TransferOffered/Accepted/Cancelled events of ArtPortfolioFhe. */
+export interface ArtTransfer {
+  offerId: string;
+  artId: string;
+  from: string;
+  to: string;
+  status: TransferStatus;
+  blockNumber: number;
+  transactionHash: string;
+  /** Block the offer was accepted in, for accepted offers. */
+  acceptedBlock?: number;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const startBlock = async (contract: ethers.Contract, fromBlock?: number) =>
+  fromBlock ?? findDeploymentBlock(contract.runner!.provider!, await contract.getAddress());
+
+export async function loadTransfers(portfolio: ethers.Contract, fromBlock?: number): Promise<ArtTransfer[]> {
+  const provider = portfolio.runner?.provider;
+  if (!provider) throw new Error("Contract is not connected to a provider");
+  const head = await provider.getBlockNumber();
+  const from = await startBlock(portfolio, fromBlock);
+  const transfers = new Map<string, ArtTransfer>();
+  await queryFilterInRanges(portfolio, portfolio.filters.TransferOffered(), from, head, logs => {
+    for (const log of logs) {
+      transfers.set(log.args.offerId.toString(), {
+        offerId: log.args.offerId.toString(),
+        artId: log.args.artId,
+        from: log.args.from,
+        to: log.args.to,
+        status: "pending",
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      });
+    }
+  });
+  for (const [filter, status] of [
+    [portfolio.filters.TransferAccepted(), "accepted"],
+    [portfolio.filters.TransferCancelled(), "cancelled"],
+  ] as const) {
+    await queryFilterInRanges(portfolio, filter, from, head, logs => {
+      for (const log of logs) {
+        const transfer = transfers.get(log.args.offerId.toString());
+        if (!transfer) continue;
+        transfer.status = status;
+        if (status === "accepted") transfer.acceptedBlock = log.blockNumber;
+      }
+    });
+  }
+  return [...transfers.values()].sort((a, b) => b.blockNumber - a.blockNumber);
+}
+
+/** The latest accepted offer that handed `piece` to its current owner, if any. */
+export function acceptedTransfer(piece: ArtPiece, transfers: ArtTransfer[]): ArtTransfer | undefined {
+  return transfers.find(t => t.status === "accepted" && t.artId === piece.id && sameAddress(t.to, piece.owner));
+}
+
+/** Every accepted hand-off of artwork `artId`, for checking who owned it when its record was written. */
+export function handOvers(artId: string, transfers: ArtTransfer[]): HandOver[] {
+  return transfers
+    .filter(t => t.status === "accepted" && t.artId === artId)
+    .map(t => ({ to: t.to, acceptedBlock: t.acceptedBlock ?? t.blockNumber }));
+}
+
+/** Pending offer made by the current owner of `piece`, if any. */
+export function pendingTransfer(piece: ArtPiece, transfers: ArtTransfer[]): ArtTransfer | undefined {
+  return transfers.find(t => t.status === "pending" && t.artId === piece.id && sameAddress(t.from, piece.owner));
+}
+
+/**
+ * Offers `piece` to `to`. ArtPortfolioFhe hands over the cost basis and valuation registered for it
+ * (see artValues.ts), only to the recipient and only once they accept, so the piece must be registered
+ * to the connected account.
+ */
+export async function offerArtTransfer(portfolio: ethers.Contract, piece: ArtPiece, to: string): Promise<string> {
+  const signer = portfolio.runner as ethers.Signer;
+  const account = await signer.getAddress();
+  if (!sameAddress(piece.owner, account)) throw new Error("Only the owner can offer a piece");
+  if (!ethers.isAddress(to) || sameAddress(to, account)) throw new Error(`"${to}" is not a valid recipient`);
+  const offered = await (await portfolio.offerTransfer(piece.id, to)).wait();
+  return findEvent(portfolio, offered, "TransferOffered").offerId.toString();
+}
+
+export async function acceptArtTransfer(portfolio: ethers.Contract, offerId: string): Promise<void> {
+  await (await portfolio.acceptTransfer(offerId)).wait();
+}
+
+export async function cancelArtTransfer(portfolio: ethers.Contract, offerId: string): Promise<void> {
+  await (await portfolio.cancelTransfer(offerId)).wait();
+}
+
+/**
+ * The record the recipient writes after accepting: owned by them and pointing at the
+ * ciphertexts ArtPortfolioFhe granted them. The previous owner's share list does not carry over.
+ */
+export async function transferredRecord(portfolio: ethers.Contract, transfer: ArtTransfer, record: ArtRecord): Promise<ArtRecord> {
+  if (transfer.status !== "accepted") throw new Error(`Transfer offer ${transfer.offerId} was not accepted`);
+  if (!sameAddress(record.owner, transfer.from)) throw new Error("The piece changed hands since the offer was made");
+  const { costBasis, valuation } = await portfolio.transferOffers(transfer.offerId);
+  return { ...record, owner: ethers.getAddress(transfer.to), encryptedValue: costBasis, valuation, sharedWith: [] };
+}
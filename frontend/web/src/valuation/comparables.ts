@@ -0,0 +1,111 @@
+// valuation/comparables.ts
+import type { ArtCurrency } from "../art";
+import { convertAmount, getFxRateProvider } from "../fx";
+import type { FxQuote, FxRateProvider } from "../fx";
+import type { Valuation, ValuationInput, ValuationModel } from "./index";
+
+const SECONDS_PER_YEAR = 365.25 * 24 * 60 * 60;
+
+/** A public sale of a work by the same artist. */
+export interface ComparableSale {
+  artist: string;
+  title: string;
+  price: number;
+  currency: ArtCurrency;
+  /** Unix timestamp in seconds. */
+  soldAt: number;
+  venue: string;
+}
+
+export interface ComparableSalesSource {
+  readonly name: string;
+  getSales(artist: string): Promise<ComparableSale[]>;
+}
+
+const day = (iso: string) => Math.floor(Date.parse(iso) / 1000);
+
+/** Illustrative sales of fictitious artists, used when no live source is configured, so the model can be tried offline. */
+export const FIXTURE_COMPARABLE_SALES: ComparableSale[] = [
+  { artist: "Hélène Marchand", title: "Portrait study", price: 410000, currency: "USD", soldAt: day("2019-05-14"), venue: "fixture" },
+  { artist: "Hélène Marchand", title: "Still life with lilies", price: 365000, currency: "USD", soldAt: day("2020-11-03"), venue: "fixture" },
+  { artist: "Hélène Marchand", title: "Woman in green, sketch", price: 520000, currency: "USD", soldAt: day("2023-05-16"), venue: "fixture" },
+  { artist: "Hélène Marchand", title: "Nude on a terrace, study", price: 610000, currency: "USD", soldAt: day("2024-11-19"), venue: "fixture" },
+  { artist: "Paul Varenne", title: "Les perruches, drawing", price: 42000, currency: "EUR", soldAt: day("2020-06-10"), venue: "fixture" },
+  { artist: "Paul Varenne", title: "Allegory of spring", price: 38500, currency: "EUR", soldAt: day("2021-03-22"), venue: "fixture" },
+  { artist: "Paul Varenne", title: "Two women with a fan", price: 51000, currency: "EUR", soldAt: day("2024-02-07"), venue: "fixture" },
+  { artist: "Paul Varenne", title: "Study for a liner panel", price: 47500, currency: "EUR", soldAt: day("2025-06-18"), venue: "fixture" },
+];
+
+const sameArtist = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export class StaticComparableSalesSource implements ComparableSalesSource {
+  readonly name = "static";
+
+  constructor(private readonly sales: ComparableSale[] = FIXTURE_COMPARABLE_SALES) {}
+
+  async getSales(artist: string): Promise<ComparableSale[]> {
+    return this.sales.filter(sale => sameArtist(sale.artist, artist));
+  }
+}
+
+let source: ComparableSalesSource | null = null;
+
+export function getComparableSalesSource(): ComparableSalesSource {
+  if (!source) source = new StaticComparableSalesSource();
+  return source;
+}
+
+export function setComparableSalesSource(next: ComparableSalesSource) {
+  source = next;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * The artist's price level at `at`: the median of the sales in the `windowYears` before it, in the
+ * quote's reporting currency. Null when fewer than `minSales` sales fall in the window.
+ */
+export function artistIndex(sales: ComparableSale[], at: number, quote: FxQuote, windowYears: number, minSales: number): { level: number; count: number } | null {
+  const from = at - windowYears * SECONDS_PER_YEAR;
+  const prices = sales.filter(s => s.soldAt > from && s.soldAt <= at).map(s => convertAmount(s.price, s.currency, quote));
+  return prices.length >= minSales ? { level: median(prices), count: prices.length } : null;
+}
+
+/**
+ * Moves the acquisition price with the artist's comparable-sales index between acquisition and
+ * now. The index alone is never used as the value: the sales are public, so that value could be
+ * read back from the recorded methodology.
+ */
+export class ComparableSalesModel implements ValuationModel {
+  readonly name = "comparables";
+
+  constructor(
+    private readonly sales: ComparableSalesSource = getComparableSalesSource(),
+    private readonly fx: FxRateProvider = getFxRateProvider(),
+    private readonly windowYears = 3,
+    private readonly minSales = 2
+  ) {}
+
+  async value({ piece, acquisitionPrice, now }: ValuationInput): Promise<Valuation> {
+    const [sales, quote] = await Promise.all([this.sales.getSales(piece.artist), this.fx.getQuote(piece.currency)]);
+    const atAcquisition = artistIndex(sales, piece.acquisitionDate, quote, this.windowYears, this.minSales);
+    const current = artistIndex(sales, now, quote, this.windowYears, this.minSales);
+    if (!atAcquisition || !current) {
+      const when = atAcquisition ? "recently" : "before the acquisition";
+      throw new Error(`Fewer than ${this.minSales} comparable sales of ${piece.artist} ${when} (${this.sales.name})`);
+    }
+    const change = current.level / atAcquisition.level;
+    return {
+      amount: acquisitionPrice * change,
+      method: {
+        model: this.name,
+        valuedAt: now,
+        basis: `${piece.artist} comparable-sales index, ${atAcquisition.count} sales at acquisition against ${current.count} recent (${this.sales.name})`,
+      },
+    };
+  }
+}
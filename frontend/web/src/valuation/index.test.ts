@@ -0,0 +1,144 @@
+// valuation/index.test.ts
+import { describe, expect, it } from "vitest";
+import { FIXTURE_USD_RATES, StaticFxRateProvider } from "../fx";
+import type { FxQuote } from "../fx";
+import {
+  AcquisitionCostModel,
+  AppraisalModel,
+  AppreciationModel,
+  artistIndex,
+  ComparableSalesModel,
+  runValuation,
+  StaticComparableSalesSource,
+} from "./index";
+import type { ComparableSale, ValuationInput, ValuationModel } from "./index";
+
+const YEAR = 365.25 * 24 * 60 * 60;
+const ACQUIRED = Math.floor(Date.parse("2021-01-01") / 1000);
+const APPRAISER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+const input = (years: number, acquisitionPrice = 100_000): ValuationInput => ({
+  piece: { artist: "Paul Varenne", currency: "EUR", acquisitionDate: ACQUIRED },
+  acquisitionPrice,
+  now: ACQUIRED + Math.round(years * YEAR),
+});
+
+const usd: FxQuote = { reporting: "USD", rates: FIXTURE_USD_RATES, asOf: 0, source: "test" };
+
+const sale = (price: number, years: number, currency: ComparableSale["currency"] = "USD"): ComparableSale => ({
+  artist: "Paul Varenne",
+  title: `Sale ${years}`,
+  price,
+  currency,
+  soldAt: ACQUIRED + Math.round(years * YEAR),
+  venue: "test",
+});
+
+describe("AcquisitionCostModel", () => {
+  it("values a piece at what was paid for it", async () => {
+    const valuation = await new AcquisitionCostModel().value(input(3));
+    expect(valuation).toEqual({ amount: 100_000, method: { model: "acquisition", valuedAt: input(3).now, basis: "Acquisition cost" } });
+  });
+});
+
+describe("AppraisalModel", () => {
+  it("takes the appraised figure and records who gave it", async () => {
+    const appraisedAt = ACQUIRED + 100;
+    const model = new AppraisalModel({ appraiser: APPRAISER.toLowerCase(), appraisedAt, amount: 180_000 });
+    const valuation = await model.value(input(1));
+    expect(valuation.amount).toBe(180_000);
+    expect(valuation.method).toMatchObject({ model: "appraisal", appraiser: APPRAISER, appraisedAt });
+  });
+
+  it("rejects appraisals without a valid appraiser or date", async () => {
+    expect(() => new AppraisalModel({ appraiser: "someone", appraisedAt: 0, amount: 1 })).toThrow("not a valid appraiser address");
+    expect(() => new AppraisalModel({ appraiser: APPRAISER, appraisedAt: 1.5, amount: 1 })).toThrow("Appraisal date is invalid");
+    const future = new AppraisalModel({ appraiser: APPRAISER, appraisedAt: input(2).now, amount: 1 });
+    await expect(future.value(input(1))).rejects.toThrow("Appraisal date is in the future");
+  });
+});
+
+describe("AppreciationModel", () => {
+  it("compounds the annual rate over the years held", async () => {
+    const valuation = await new AppreciationModel(0.1).value(input(2));
+    expect(valuation.amount).toBeCloseTo(121_000, 6);
+    expect(valuation.method.basis).toBe("Compound appreciation of 10% a year over 2.0 years since acquisition");
+  });
+
+  it("grows linearly and never writes a piece down below zero", async () => {
+    expect((await new AppreciationModel(0.1, "linear").value(input(2))).amount).toBeCloseTo(120_000, 6);
+    expect((await new AppreciationModel(-0.3, "linear").value(input(5))).amount).toBe(0);
+    expect((await new AppreciationModel(-0.5).value(input(1))).amount).toBeCloseTo(50_000, 6);
+  });
+
+  it("does not grow before the acquisition date", async () => {
+    expect((await new AppreciationModel(0.1).value(input(-1))).amount).toBe(100_000);
+  });
+
+  it("rejects rates that would wipe out the piece or are not numbers", () => {
+    expect(() => new AppreciationModel(-1)).toThrow("Annual rate -1 is not usable");
+    expect(() => new AppreciationModel(Number.NaN)).toThrow("is not usable");
+  });
+});
+
+describe("runValuation", () => {
+  const fixed = (amount: number): ValuationModel => ({
+    name: "acquisition",
+    value: async ({ now }) => ({ amount, method: { model: "acquisition", valuedAt: now, basis: "fixed" } }),
+  });
+
+  it("rounds the amount to the cent that will be encrypted", async () => {
+    expect((await runValuation(fixed(1234.5678), input(0))).amount).toBe(1234.57);
+    expect((await runValuation(new AppreciationModel(0.07), input(3))).amount).toBe(122_504.3);
+  });
+
+  it("refuses amounts that cannot be encrypted", async () => {
+    await expect(runValuation(fixed(-1), input(0))).rejects.toThrow("acquisition valuation produced -1");
+    await expect(runValuation(fixed(Number.POSITIVE_INFINITY), input(0))).rejects.toThrow("produced Infinity");
+  });
+});
+
+describe("artistIndex", () => {
+  const sales = [sale(100, -2), sale(300, -1), sale(200, -0.5), sale(1_000, 1)];
+
+  it("takes the median of the sales in the window before a date", () => {
+    expect(artistIndex(sales, ACQUIRED, usd, 3, 2)).toEqual({ level: 200, count: 3 });
+    expect(artistIndex(sales, ACQUIRED, usd, 1.5, 2)).toEqual({ level: 250, count: 2 });
+  });
+
+  it("converts every sale into the quote's currency", () => {
+    const level = artistIndex([sale(100, -1, "EUR"), sale(100, -1, "GBP")], ACQUIRED, usd, 3, 2);
+    expect(level).toEqual({ level: 117.5, count: 2 });
+  });
+
+  it("is null with fewer sales than required", () => {
+    expect(artistIndex(sales, ACQUIRED, usd, 3, 4)).toBeNull();
+  });
+});
+
+describe("ComparableSalesModel", () => {
+  const fx = new StaticFxRateProvider();
+
+  it("moves the acquisition price with the artist's index", async () => {
+    const sales = new StaticComparableSalesSource([sale(100, -1, "EUR"), sale(120, -0.5, "EUR"), sale(150, 2, "EUR"), sale(170, 2.5, "EUR")]);
+    const valuation = await new ComparableSalesModel(sales, fx).value(input(3));
+    // Sales in the piece's currency: median 110 at acquisition against 160 now
+    expect(valuation.amount).toBeCloseTo((100_000 * 160) / 110, 6);
+    expect(valuation.method.basis).toBe("Paul Varenne comparable-sales index, 2 sales at acquisition against 2 recent (static)");
+  });
+
+  it("matches sales by artist regardless of case and spacing", async () => {
+    const sales = new StaticComparableSalesSource([{ ...sale(1, 0), artist: "  paul VARENNE " }]);
+    expect(await sales.getSales("Paul Varenne")).toHaveLength(1);
+    expect(await sales.getSales("Hélène Marchand")).toHaveLength(0);
+  });
+
+  it("refuses to value a piece without enough sales on either side", async () => {
+    const before = new StaticComparableSalesSource([sale(100, -1), sale(120, -0.5)]);
+    await expect(new ComparableSalesModel(before, fx).value(input(5))).rejects.toThrow(
+      "Fewer than 2 comparable sales of Paul Varenne recently (static)"
+    );
+    const after = new StaticComparableSalesSource([sale(150, 2), sale(170, 2.5)]);
+    await expect(new ComparableSalesModel(after, fx).value(input(3))).rejects.toThrow("before the acquisition");
+  });
+});
@@ -0,0 +1,135 @@
+// valuation/index.ts
+import { ethers } from "ethers";
+import type { ArtPiece, ArtRecord, ValuationMethod, ValuationModelName } from "../art";
+import { registerArtValues } from "../artValues";
+import { centsToAmount, toCents } from "../fhe";
+
+const SECONDS_PER_YEAR = 365.25 * 24 * 60 * 60;
+
+/** What a model may look at. Amounts are plain here: the owner decrypted them and only the result is encrypted again. */
+export interface ValuationInput {
+  piece: Pick<ArtRecord, "artist" | "currency" | "acquisitionDate">;
+  /** Acquisition price in the piece's currency. */
+  acquisitionPrice: number;
+  /** Unix timestamp in seconds to value the piece at. */
+  now: number;
+}
+
+export interface Valuation {
+  /** In the piece's currency. */
+  amount: number;
+  method: ValuationMethod;
+}
+
+export interface ValuationModel {
+  readonly name: ValuationModelName;
+  value(input: ValuationInput): Promise<Valuation>;
+}
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+const yearsHeld = (input: ValuationInput) => Math.max(0, input.now - input.piece.acquisitionDate) / SECONDS_PER_YEAR;
+
+/** Values a piece at what was paid for it; the starting point for every newly catalogued piece. */
+export class AcquisitionCostModel implements ValuationModel {
+  readonly name = "acquisition";
+
+  async value({ acquisitionPrice, now }: ValuationInput): Promise<Valuation> {
+    return { amount: acquisitionPrice, method: { model: this.name, valuedAt: now, basis: "Acquisition cost" } };
+  }
+}
+
+/** A figure from an appraiser, kept with who gave it and when. */
+export interface Appraisal {
+  appraiser: string;
+  /** Unix timestamp in seconds. */
+  appraisedAt: number;
+  /** In the piece's currency. */
+  amount: number;
+}
+
+export class AppraisalModel implements ValuationModel {
+  readonly name = "appraisal";
+
+  constructor(private readonly appraisal: Appraisal) {
+    if (!ethers.isAddress(appraisal.appraiser)) throw new Error(`"${appraisal.appraiser}" is not a valid appraiser address`);
+    if (!Number.isInteger(appraisal.appraisedAt) || appraisal.appraisedAt < 0) throw new Error("Appraisal date is invalid");
+  }
+
+  async value({ now }: ValuationInput): Promise<Valuation> {
+    const { appraiser, appraisedAt, amount } = this.appraisal;
+    if (appraisedAt > now) throw new Error("Appraisal date is in the future");
+    return {
+      amount,
+      method: { model: this.name, valuedAt: now, basis: "Independent appraisal", appraiser: ethers.getAddress(appraiser), appraisedAt },
+    };
+  }
+}
+
+export type AppreciationCurve = "compound" | "linear";
+
+/** Grows (or, with a negative rate, writes down) the acquisition price at a fixed annual rate since acquisition. */
+export class AppreciationModel implements ValuationModel {
+  readonly name = "appreciation";
+
+  constructor(private readonly annualRate: number, private readonly curve: AppreciationCurve = "compound") {
+    if (!Number.isFinite(annualRate) || annualRate <= -1) throw new Error(`Annual rate ${annualRate} is not usable`);
+  }
+
+  async value(input: ValuationInput): Promise<Valuation> {
+    const years = yearsHeld(input);
+    const growth = this.curve === "compound" ? (1 + this.annualRate) ** years : Math.max(0, 1 + this.annualRate * years);
+    const percent = +(this.annualRate * 100).toFixed(2);
+    const label = this.curve === "compound" ? "Compound" : "Straight-line";
+    return {
+      amount: input.acquisitionPrice * growth,
+      method: {
+        model: this.name,
+        valuedAt: input.now,
+        basis: `${label} appreciation of ${percent}% a year over ${years.toFixed(1)} years since acquisition`,
+      },
+    };
+  }
+}
+
+/** Runs `model` and rounds its amount to the cent that will be encrypted. */
+export async function runValuation(model: ValuationModel, input: ValuationInput): Promise<Valuation> {
+  const valuation = await model.value(input);
+  if (!Number.isFinite(valuation.amount) || valuation.amount < 0) {
+    throw new Error(`${model.name} valuation produced ${valuation.amount}`);
+  }
+  return { ...valuation, amount: centsToAmount(toCents(valuation.amount.toFixed(2))) };
+}
+
+/**
+ * `piece` with `valuation` registered on ArtPortfolioFhe in place of its current valuation and its
+ * methodology recorded alongside. The contract takes both amounts at once, so the acquisition price is registered again too.
+ */
+export async function revaluedRecord(
+  portfolio: ethers.Contract,
+  piece: ArtPiece,
+  acquisitionPrice: number,
+  valuation: Valuation
+): Promise<ArtRecord> {
+  const { id, ...record } = piece;
+  const registered = await registerArtValues(portfolio, id, acquisitionPrice, valuation.amount);
+  return { ...record, encryptedValue: registered.costBasis, valuation: registered.valuation, valuationMethod: valuation.method };
+}
+
+/** One-line summary of a recorded methodology, for display next to the piece. */
+export function describeValuationMethod(method: ValuationMethod): string {
+  const valued = new Date(method.valuedAt * 1000).toLocaleDateString();
+  if (method.model !== "appraisal") return `${method.basis} (${valued})`;
+  const appraised = new Date(method.appraisedAt! * 1000).toLocaleDateString();
+  return `${method.basis} by ${shortAddress(method.appraiser!)} on ${appraised} (${valued})`;
+}
+
+export {
+  artistIndex,
+  ComparableSalesModel,
+  FIXTURE_COMPARABLE_SALES,
+  getComparableSalesSource,
+  setComparableSalesSource,
+  StaticComparableSalesSource,
+} from "./comparables";
+export type { ComparableSale, ComparableSalesSource } from "./comparables";
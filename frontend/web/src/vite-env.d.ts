@@ -0,0 +1,8 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_FHE_BACKEND?: "relayer" | "hardhat";
+  readonly VITE_ART_RECORD_CODEC?: "json" | "abi";
+  /** Chain shown before a wallet is connected; must have a deployment in deployments.json. */
+  readonly VITE_DEFAULT_CHAIN_ID?: string;
+}
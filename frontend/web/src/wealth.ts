@@ -0,0 +1,159 @@
+// wealth.ts
+import { ethers } from "ethers";
+import { encryptAmounts, toCents, userDecrypt } from "./fhe";
+import type { DecryptionContext } from "./fhe";
+// Receipts are shared with the ArtPortfolioClient SDK, so a receipt from either verifies in both.
+import { createWealthProofReceipt } from "../../../src/wealthProof";
+import type { WealthProofReceipt } from "../../../src/wealthProof";
+
+const PROOF_POLL_INTERVAL_MS = 5_000;
+const PROOF_TIMEOUT_MS = 10 * 60_000;
+
+export type BatchStep = "preparing" | "encrypting" | "submitting";
+export type WealthProofStep = BatchStep | "requesting" | "waiting";
+export type PortfolioTotalStep = BatchStep | "decrypting";
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export const findEvent = (contract: ethers.Contract, receipt: ethers.TransactionReceipt, name: string) => {
+  for (const log of receipt.logs) {
+    if (!sameAddress(log.address, contract.target as string)) continue;
+    const parsed = contract.interface.parseLog({ topics: [...log.topics], data: log.data });
+    if (parsed?.name === name) return parsed.args;
+  }
+  throw new Error(`Transaction did not emit ${name}`);
+};
+
+/**
+ * Makes sure the connected account can fill a batch on its own: the ArtPortfolioFhe owner opens a
+ * fresh batch, anyone else needs the owner to have opened one nobody has submitted to yet. Either
+ * way the batch is then reserved on chain, so another provider cannot slip a submission into it
+ * between this check and ours.
+ */
+async function ensureSoleBatch(portfolio: ethers.Contract, account: string): Promise<void> {
+  const [owner, isProvider, batchOpen, batchId] = await Promise.all([
+    portfolio.owner(),
+    portfolio.isProvider(account),
+    portfolio.batchOpen(),
+    portfolio.currentBatchId(),
+  ]);
+  if (!isProvider) throw new Error("Your account is not a registered provider on ArtPortfolioFhe");
+  if (sameAddress(owner, account)) {
+    await (await portfolio.openBatch()).wait();
+  } else {
+    const [first, reservedFor]: string[] = await Promise.all([
+      portfolio.batchFirstContributor(batchId),
+      portfolio.batchReservedFor(batchId),
+    ]);
+    if (!batchOpen || first !== ethers.ZeroAddress || reservedFor !== ethers.ZeroAddress) {
+      throw new Error("Ask the ArtPortfolioFhe owner to open a fresh batch for your proof");
+    }
+  }
+  try {
+    await (await portfolio.reserveBatch()).wait();
+  } catch (e) {
+    throw new Error("Another provider took the open batch first; ask the ArtPortfolioFhe owner to open a fresh one", {
+      cause: e,
+    });
+  }
+}
+
+/**
+ * Submits `values` (amounts, one per authenticated piece) as a batch only the connected account
+ * contributes to and returns its id. They are encrypted as cents and ArtPortfolioFhe multiplies each
+ * by its plaintext FX rate (see fx.ts), so the total is in the reporting currency the rates lead to.
+ * A total beyond 64 bits saturates on chain rather than wrapping around.
+ */
+export async function submitSoleBatch(
+  portfolio: ethers.Contract,
+  values: number[],
+  rates: bigint[],
+  onStep: (step: BatchStep) => void = () => {}
+): Promise<bigint> {
+  const signer = portfolio.runner as ethers.Signer;
+  if (values.length === 0) throw new Error("No authenticated pieces selected");
+  if (rates.length !== values.length) throw new Error("Every value needs an FX rate");
+  const account = await signer.getAddress();
+
+  onStep("preparing");
+  await ensureSoleBatch(portfolio, account);
+
+  onStep("encrypting");
+  const contractAddress = await portfolio.getAddress();
+  const { handles, inputProof } = await encryptAmounts(values, { contractAddress, userAddress: account });
+
+  onStep("submitting");
+  const submitted = await (await portfolio.submitConvertedPortfolioValues(handles, rates, inputProof)).wait();
+  return findEvent(portfolio, submitted, "PortfolioSubmitted").batchId;
+}
+
+/**
+ * Totals `values` under encryption in the reporting currency and decrypts the result for the
+ * connected account alone. Nothing but the FX rates becomes public. The total is returned in cents:
+ * it can exceed what a number holds exactly, so show it with formatCents.
+ */
+export async function decryptPortfolioTotal(
+  portfolio: ethers.Contract,
+  values: number[],
+  rates: bigint[],
+  ctx: Omit<DecryptionContext, "contractAddress">,
+  onStep: (step: PortfolioTotalStep) => void = () => {}
+): Promise<{ total: bigint; overflowed: boolean }> {
+  const batchId = await submitSoleBatch(portfolio, values, rates, onStep);
+  onStep("decrypting");
+  await (await portfolio.allowBatchTotal(batchId)).wait();
+  const [total, overflowed]: string[] = await Promise.all([portfolio.portfolioValues(batchId), portfolio.batchOverflowed(batchId)]);
+  const results = await userDecrypt([total, overflowed], { ...ctx, contractAddress: await portfolio.getAddress() });
+  return { total: results[total], overflowed: results[overflowed] !== 0n };
+}
+
+/**
+ * Proves that the sum of `values`, converted with `rates`, is at least `threshold` (an amount in
+ * the reporting `currency`) and waits for the oracle's answer.
+ */
+export async function proveWealth(
+  portfolio: ethers.Contract,
+  values: number[],
+  rates: bigint[],
+  currency: string,
+  threshold: number,
+  onStep: (step: WealthProofStep) => void = () => {}
+): Promise<WealthProofReceipt> {
+  const signer = portfolio.runner as ethers.Signer;
+  const provider = signer.provider;
+  if (!provider) throw new Error("Signer is not connected to a provider");
+  const thresholdCents = toCents(threshold);
+  const batchId = await submitSoleBatch(portfolio, values, rates, onStep);
+
+  onStep("requesting");
+  const requested = await (await portfolio.requestWealthProof(batchId, thresholdCents)).wait();
+  const requestId: bigint = findEvent(portfolio, requested, "WealthProofRequested").requestId;
+
+  onStep("waiting");
+  const deadline = Date.now() + PROOF_TIMEOUT_MS;
+  for (;;) {
+    const [event] = await portfolio.queryFilter(portfolio.filters.WealthProofCompleted(requestId), requested.blockNumber);
+    if (event instanceof ethers.EventLog) {
+      const fields = {
+        requestId,
+        batchId,
+        prover: await signer.getAddress(),
+        threshold: thresholdCents,
+        meetsThreshold: event.args.meetsThreshold,
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+      };
+      return createWealthProofReceipt(fields, (await provider.getNetwork()).chainId, await portfolio.getAddress(), currency);
+    }
+    if (Date.now() > deadline) throw new Error(`Wealth proof ${requestId} was not answered in time`);
+    await new Promise(resolve => setTimeout(resolve, PROOF_POLL_INTERVAL_MS));
+  }
+}
+
+export {
+  decodeWealthProofReceipt,
+  encodeWealthProofReceipt,
+  verifyWealthProofReceipt,
+  WEALTH_PROOF_RECEIPT_VERSION,
+} from "../../../src/wealthProof";
+export type { WealthProofReceipt, WealthProofVerification } from "../../../src/wealthProof";
@@ -3,6 +3,10 @@ import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    // ../../src/wealthProof.ts is shared with the SDK; its imports must resolve to the frontend's ethers.
+    dedupe: ["ethers"]
+  },
   define: {
     'process.env': process.env
   },
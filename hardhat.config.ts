@@ -1,18 +1,46 @@
+import "dotenv/config";
+import fs from "fs";
+import { Wallet } from "ethers";
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import "hardhat-deploy";
+
+/**
+ * The deployer on live networks: DEPLOYER_PRIVATE_KEY, or an encrypted JSON keystore (DEPLOYER_KEYSTORE)
+ * unlocked with DEPLOYER_KEYSTORE_PASSWORD. Without either, live networks have no signer.
+ */
+function liveAccounts(): string[] {
+  if (process.env.DEPLOYER_PRIVATE_KEY) return [process.env.DEPLOYER_PRIVATE_KEY];
+  const keystore = process.env.DEPLOYER_KEYSTORE;
+  if (!keystore) return [];
+  const password = process.env.DEPLOYER_KEYSTORE_PASSWORD;
+  if (password === undefined) throw new Error("DEPLOYER_KEYSTORE is set but DEPLOYER_KEYSTORE_PASSWORD is not");
+  return [Wallet.fromEncryptedJsonSync(fs.readFileSync(keystore, "utf-8"), password).privateKey];
+}
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
+  namedAccounts: {
+    deployer: { default: 0 },
+  },
   networks: {
     hardhat: {
       chainId: 31337,
+      tags: ["local"],
+    },
+    // `npx hardhat node`, used by the frontend's local development mode (npm run dev:local)
+    localhost: {
+      chainId: 31337,
+      url: "http://127.0.0.1:8545",
+      tags: ["local"],
     },
     sepolia: {
       chainId: 11155111,
-      url: "https://sepolia.drpc.org",
-      accounts: [],
+      url: process.env.SEPOLIA_RPC_URL ?? "https://sepolia.drpc.org",
+      accounts: liveAccounts(),
+      tags: ["live"],
     },
   },
   solidity: {
@@ -21,7 +49,8 @@ const config: HardhatUserConfig = {
       viaIR: true,
       optimizer: {
         enabled: true,
-        runs: 200,
+        // Optimise for size: ArtPortfolioFhe is close to the 24 KiB deployment limit
+        runs: 1,
       },
       metadata: {
         bytecodeHash: "none",
@@ -30,6 +59,8 @@ const config: HardhatUserConfig = {
     },
   },
   paths: {
+    deploy: "./deploy",
+    deployments: "./deployments",
     sources: "./contracts",
     tests: "./test",
     cache: "./cache",
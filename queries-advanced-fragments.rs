@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\queries-advanced-fragments.rs
-// Generated at: 2025-10-21T15:11:50.628Z
\ No newline at end of file
@@ -0,0 +1,65 @@
+// scripts/clean-diffcache.ts
+import fs from "fs";
+import path from "path";
+
+const PROJECT_ROOT = path.join(__dirname, "..");
+const CACHE_FILE = path.join(PROJECT_ROOT, ".diffcache");
+
+/**
+ * The old deploy script recorded absolute paths, usually from another checkout (`D:\...\demo\...`).
+ * It always wrote into the project root itself, so the shallowest entry's directory is that checkout's root.
+ */
+function toProjectPaths(entries: string[]): string[] {
+  const normalized = entries.map((entry) => entry.replace(/\\/g, "/"));
+  const recordedRoot = normalized.map((entry) => path.posix.dirname(entry)).reduce((a, b) => (b.length < a.length ? b : a));
+  return normalized.map((entry) => path.join(PROJECT_ROOT, path.posix.relative(recordedRoot, entry)));
+}
+
+function isInsideProject(target: string): boolean {
+  const relative = path.relative(PROJECT_ROOT, target);
+  return relative !== "" && !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+/**
+ * Removes the files listed in .diffcache, then their directories once empty, then .diffcache itself.
+ * Pass --dry-run to only list what would be removed.
+ */
+function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  if (!fs.existsSync(CACHE_FILE)) {
+    console.log("No .diffcache, nothing to clean.");
+    return;
+  }
+  const entries = JSON.parse(fs.readFileSync(CACHE_FILE, "utf-8")) as string[];
+  const targets = entries.length > 0 ? toProjectPaths(entries) : [];
+
+  const files: string[] = [];
+  const directories: string[] = [];
+  for (const target of targets) {
+    if (!isInsideProject(target)) {
+      console.warn(`Skipping ${target}: outside the project`);
+    } else if (fs.existsSync(target)) {
+      (fs.statSync(target).isDirectory() ? directories : files).push(target);
+    }
+  }
+
+  const verb = dryRun ? "Would remove" : "Removed";
+  for (const file of files) {
+    if (!dryRun) fs.unlinkSync(file);
+    console.log(`${verb} ${path.relative(PROJECT_ROOT, file)}`);
+  }
+  // Deepest first, so a parent is empty by the time it is reached
+  for (const directory of directories.sort((a, b) => b.length - a.length)) {
+    const remaining = fs.readdirSync(directory).filter((item) => !dryRun || !targets.includes(path.join(directory, item)));
+    if (remaining.length > 0) {
+      console.warn(`Keeping ${path.relative(PROJECT_ROOT, directory)}: it holds files .diffcache does not list`);
+      continue;
+    }
+    if (!dryRun) fs.rmdirSync(directory);
+    console.log(`${verb} ${path.relative(PROJECT_ROOT, directory)}/`);
+  }
+  if (!dryRun) fs.unlinkSync(CACHE_FILE);
+  console.log(`${verb} .diffcache`);
+}
+
+main();
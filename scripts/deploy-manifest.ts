@@ -0,0 +1,27 @@
+// scripts/deploy-manifest.ts
+import path from "path";
+import { frontendFiles } from "./frontend-registry";
+
+/** `DEPLOY_DRY_RUN=1` makes every deploy step report what it would send or write instead of doing it. */
+export const DRY_RUN = ["1", "true"].includes(process.env.DEPLOY_DRY_RUN ?? "");
+
+/**
+ * Every file a deploy to `network` may write, relative to the project root. Nothing outside this list is touched;
+ * the in-process hardhat network keeps its deployments in memory and writes nothing.
+ */
+export function deployManifest(network: string, contracts: string[]): string[] {
+  if (network === "hardhat") return [];
+  const saved = path.join("deployments", network);
+  return [
+    path.join(saved, ".chainId"),
+    ...contracts.map((name) => path.join(saved, `${name}.json`)),
+    path.join(saved, "solcInputs", "<hash>.json"),
+    ...frontendFiles(),
+  ];
+}
+
+export function printManifest(network: string, contracts: string[]) {
+  const files = deployManifest(network, contracts);
+  console.log(`${DRY_RUN ? "A deploy would write" : "This deploy writes"} ${files.length} file(s) on ${network}:`);
+  for (const file of files) console.log(`  ${file}`);
+}
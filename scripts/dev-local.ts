@@ -0,0 +1,88 @@
+// scripts/dev-local.ts
+// One command for offline frontend development: starts `npx hardhat node` (unless one is already
+// listening), runs the deploy pipeline against it, which also writes the frontend's 31337 entry, and
+// runs vite against the local chain with the fhevm mock. Run: npm run dev:local
+import { ChildProcess, spawn } from "child_process";
+import path from "path";
+
+const ROOT = path.join(__dirname, "..");
+const RPC_URL = "http://127.0.0.1:8545";
+const NODE_START_TIMEOUT_MS = 60_000;
+
+const children: ChildProcess[] = [];
+
+function run(command: string, args: string[], cwd: string, env: NodeJS.ProcessEnv = process.env): ChildProcess {
+  const child = spawn(command, args, { cwd, env, stdio: "inherit", shell: process.platform === "win32" });
+  children.push(child);
+  return child;
+}
+
+function exited(child: ChildProcess): Promise<number> {
+  return new Promise((resolve, reject) => {
+    child.on("error", reject);
+    child.on("exit", (code) => resolve(code ?? 1));
+  });
+}
+
+async function localChainId(): Promise<number | null> {
+  try {
+    const response = await fetch(RPC_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "eth_chainId", params: [] }),
+    });
+    const { result } = (await response.json()) as { result: string };
+    return Number(result);
+  } catch {
+    return null;
+  }
+}
+
+async function ensureNode() {
+  const running = await localChainId();
+  if (running !== null) {
+    if (running !== 31337) throw new Error(`${RPC_URL} is chain ${running}, not the hardhat node (31337)`);
+    console.log(`Using the node already running at ${RPC_URL}`);
+    return;
+  }
+  console.log("Starting npx hardhat node; its funded test accounts and keys are listed below");
+  const node = run("npx", ["hardhat", "node", "--no-deploy"], ROOT);
+  node.on("exit", (code) => {
+    console.error(`hardhat node exited with code ${code}`);
+    shutdown(1);
+  });
+  const deadline = Date.now() + NODE_START_TIMEOUT_MS;
+  while ((await localChainId()) === null) {
+    if (Date.now() > deadline) throw new Error(`hardhat node did not answer on ${RPC_URL} within ${NODE_START_TIMEOUT_MS / 1000}s`);
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+}
+
+function shutdown(code: number) {
+  for (const child of children) {
+    if (child.exitCode === null) child.kill();
+  }
+  process.exit(code);
+}
+
+async function main() {
+  process.on("SIGINT", () => shutdown(0));
+  process.on("SIGTERM", () => shutdown(0));
+
+  await ensureNode();
+
+  const deployed = await exited(run("npx", ["hardhat", "deploy", "--network", "localhost"], ROOT));
+  if (deployed !== 0) throw new Error(`Deploying to the local node failed with code ${deployed}`);
+
+  const vite = run("npm", ["run", "dev"], path.join(ROOT, "frontend", "web"), {
+    ...process.env,
+    VITE_DEFAULT_CHAIN_ID: "31337",
+    VITE_FHE_BACKEND: "hardhat",
+  });
+  shutdown(await exited(vite));
+}
+
+main().catch((e) => {
+  console.error(e);
+  shutdown(1);
+});
@@ -0,0 +1,80 @@
+// scripts/frontend-registry.ts
+import fs from "fs";
+import path from "path";
+
+const FRONTEND_SRC = path.join(__dirname, "..", "frontend", "web", "src");
+const REGISTRY_PATH = path.join(FRONTEND_SRC, "deployments.json");
+
+const ABIS = [
+  { name: "UniversalAdapter", artifact: path.join("UniversalAdapter.sol", "UniversalAdapter.json") },
+  { name: "ArtPortfolioFhe", artifact: path.join("Art_Portfolio_Fhe.sol", "ArtPortfolioFhe.json") },
+];
+
+export interface FrontendContract {
+  address: string;
+  deployBlock?: number;
+}
+
+export interface FrontendDeployment {
+  chainId: number;
+  /** Used when the registry has no entry for the chain yet; an existing name is kept. */
+  name: string;
+  /** Used when the registry lists no endpoints for the chain yet; a maintained list is kept. */
+  rpcUrl: string;
+  deployer: string;
+  contracts: { UniversalAdapter: FrontendContract; ArtPortfolioFhe: FrontendContract };
+}
+
+/** Replaces the chain's entry in frontend/web/src/deployments.json; entries of other chains are left alone. */
+export function registerFrontendDeployment(deployment: FrontendDeployment): boolean {
+  if (!fs.existsSync(FRONTEND_SRC)) {
+    console.warn("Frontend src directory not found, skipping deployments.json write:", FRONTEND_SRC);
+    return false;
+  }
+  const registry = fs.existsSync(REGISTRY_PATH)
+    ? JSON.parse(fs.readFileSync(REGISTRY_PATH, "utf-8"))
+    : { defaultChainId: deployment.chainId, networks: {} };
+  const previous = registry.networks[deployment.chainId] ?? {};
+  registry.networks[deployment.chainId] = {
+    name: previous.name ?? deployment.name,
+    nativeCurrency: previous.nativeCurrency ?? { name: "Ether", symbol: "ETH", decimals: 18 },
+    // The frontend's RPC pool fails over between these; keep the list maintained in deployments.json
+    rpcUrls: Array.isArray(previous.rpcUrls) && previous.rpcUrls.length > 0 ? previous.rpcUrls : [deployment.rpcUrl],
+    ...(previous.explorerUrl ? { explorerUrl: previous.explorerUrl } : {}),
+    deployer: deployment.deployer,
+    // deployBlock lets the frontend indexer start scanning logs at the deployment block
+    contracts: deployment.contracts,
+  };
+  fs.writeFileSync(REGISTRY_PATH, JSON.stringify(registry, null, 2) + "\n");
+  console.log(`Wrote chain ${deployment.chainId} to frontend/web/src/deployments.json`);
+  return true;
+}
+
+/** The files registerFrontendDeployment and copyFrontendAbis write, relative to the project root. */
+export function frontendFiles(): string[] {
+  const root = path.join(__dirname, "..");
+  return [
+    path.relative(root, REGISTRY_PATH),
+    ...ABIS.filter(({ artifact }) => fs.existsSync(artifactPath(artifact))).map(({ name }) =>
+      path.relative(root, path.join(FRONTEND_SRC, "abi", `${name}.json`))
+    ),
+  ];
+}
+
+function artifactPath(artifact: string): string {
+  return path.join(__dirname, "..", "artifacts", "contracts", artifact);
+}
+
+/** Copies the compiled ABIs next to the registry. A contract without an artifact keeps the ABI the frontend already has. */
+export function copyFrontendAbis() {
+  const targetAbiPath = path.join(FRONTEND_SRC, "abi");
+  if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
+  for (const { name, artifact } of ABIS) {
+    if (!fs.existsSync(artifactPath(artifact))) {
+      console.warn(`No artifact for ${name}, keeping frontend/web/src/abi/${name}.json`);
+      continue;
+    }
+    fs.copyFileSync(artifactPath(artifact), path.join(targetAbiPath, `${name}.json`));
+    console.log(`Copied ABI to frontend/web/src/abi/${name}.json`);
+  }
+}
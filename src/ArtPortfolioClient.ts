@@ -0,0 +1,705 @@
+import { getBytes, id } from "ethers";
+import type {
+  BytesLike,
+  ContractRunner,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  Signer,
+} from "ethers";
+import { ArtPortfolioFhe__factory } from "../types";
+import type { ArtPortfolioFhe } from "../types";
+import type { TypedContractEvent, TypedDeferredTopicFilter, TypedEventLog } from "../types/common";
+import { DecryptionTimeoutError, decodeArtPortfolioError } from "./errors";
+
+export interface EncryptedValue {
+  handle: BytesLike;
+  inputProof: BytesLike;
+}
+
+/** Several encrypted inputs sharing one input proof. */
+export interface EncryptedValues {
+  handles: BytesLike[];
+  inputProof: BytesLike;
+}
+
+/**
+ * Produces an encrypted input bound to `contractAddress` and `userAddress` (relayer SDK, fhevm mock, ...).
+ * ArtPortfolioFhe takes 64-bit amounts in cents, so encryptors must use `add64`; see ./amounts.
+ */
+export type ValueEncryptor = (value: bigint, contractAddress: string, userAddress: string) => Promise<EncryptedValue>;
+
+/** Like ValueEncryptor, but encrypts every value under a single input proof. */
+export type ValuesEncryptor = (values: bigint[], contractAddress: string, userAddress: string) => Promise<EncryptedValues>;
+
+export interface ArtPortfolioClientOptions {
+  encryptor?: ValueEncryptor;
+  valuesEncryptor?: ValuesEncryptor;
+  /** Encrypts the amounts of transfer offers and bids. Defaults to valuesEncryptor. */
+  amountsEncryptor?: ValuesEncryptor;
+  pollIntervalMs?: number;
+}
+
+export interface SubmittedValue {
+  batchId: bigint;
+  encryptedValue: bigint;
+}
+
+export interface DecryptionResult {
+  requestId: bigint;
+  batchId: bigint;
+  /** In cents. MAX_AMOUNT_CENTS when `overflowed`. */
+  totalValue: bigint;
+  /** The batch total exceeded 64 bits of cents and saturated instead of wrapping around. */
+  overflowed: boolean;
+}
+
+export interface WealthProofResult {
+  requestId: bigint;
+  batchId: bigint;
+  prover: string;
+  threshold: bigint;
+  meetsThreshold: boolean;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface CollateralBundle {
+  bundleId: bigint;
+  owner: string;
+  lender: string;
+  batchId: bigint;
+  loanAmount: bigint;
+  /** Handle of the encrypted collateral value; the owner and the lender may decrypt it. */
+  value: string;
+  /** Handle of the encrypted LTV tier, see ArtPortfolioFhe.createBundle. */
+  ltvTier: string;
+  active: boolean;
+  artIds: string[];
+}
+
+/** The encrypted amounts registered for an artwork, see registerArtworkValues. */
+export interface ArtworkValues {
+  artId: string;
+  /** Zero address while the artwork is not registered. */
+  owner: string;
+  /** Handle of the acquisition price in cents; the owner may decrypt it. */
+  costBasis: string;
+  valuation: string;
+}
+
+export interface TransferOffer {
+  offerId: bigint;
+  artId: string;
+  from: string;
+  to: string;
+  /** Handle of the registered cost basis at the time of the offer; `to` may decrypt it once the offer is accepted. */
+  costBasis: string;
+  valuation: string;
+  pending: boolean;
+}
+
+export interface Auction {
+  auctionId: bigint;
+  artId: string;
+  seller: string;
+  /** Unix timestamp in seconds after which no bids are accepted. */
+  endTime: bigint;
+  bidCount: bigint;
+  closed: boolean;
+  settled: boolean;
+  /** Zero address until settled, and after settling an auction nobody bid in. */
+  winner: string;
+  winningBid: bigint;
+}
+
+export interface AuctionResult {
+  auctionId: bigint;
+  seller: string;
+  winner: string;
+  winningBid: bigint;
+}
+
+/** Mirrors ArtPortfolioFhe.AppraisalStatus; "none" means the appraisal does not exist. */
+export const APPRAISAL_STATUSES = ["none", "requested", "accepted", "delivered", "disputed"] as const;
+export type AppraisalStatus = (typeof APPRAISAL_STATUSES)[number];
+
+export interface Appraisal {
+  appraisalId: bigint;
+  artId: string;
+  owner: string;
+  appraiser: string;
+  status: AppraisalStatus;
+  /** Handle of the encrypted figure in cents, granted to the owner only. Zero until delivered. */
+  valuation: string;
+  /** Hash of the written report, which is kept off-chain. */
+  reportHash: string;
+  /** Unix timestamp in seconds of the latest delivery, 0 before. */
+  deliveredAt: bigint;
+  /** The appraiser's signature over appraisalDigest, checked by the contract on delivery. */
+  signature: string;
+}
+
+/** Mirrors ArtPortfolioFhe.DisclosureField. */
+export const DISCLOSURE_FIELDS = ["costBasis", "valuation", "insuredValue"] as const;
+export type DisclosureField = (typeof DISCLOSURE_FIELDS)[number];
+
+/** One field of one artwork the owner lets a grantee read, see grantDisclosures. */
+export interface DisclosureRequest {
+  artId: string;
+  field: DisclosureField;
+  /** In cents. */
+  amount: bigint;
+}
+
+export interface DisclosureGrant {
+  grantId: bigint;
+  artId: string;
+  owner: string;
+  grantee: string;
+  field: DisclosureField;
+  /** Unix timestamp in seconds from which the grantee can no longer access the value. */
+  expiresAt: bigint;
+  revoked: boolean;
+  accessCount: bigint;
+  /** Handle of the latest copy handed to the grantee, zero before the first access. */
+  disclosed: string;
+}
+
+export interface WaitForDecryptionOptions {
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+  /**
+   * Block the request transaction was mined in; the callback is only searched from there. Defaults to
+   * the block this client saw when it sent the request, else the block of the event the request emitted.
+   */
+  fromBlock?: number;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 2_000;
+const DEFAULT_DECRYPTION_TIMEOUT_MS = 5 * 60_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Typed wrapper around a deployed ArtPortfolioFhe contract. Write methods wait for the
+ * transaction to be mined, return what the emitted events report, and throw the typed errors
+ * from ./errors instead of raw call exceptions.
+ */
+export class ArtPortfolioClient {
+  readonly contract: ArtPortfolioFhe;
+  private readonly encryptor?: ValueEncryptor;
+  private readonly valuesEncryptor?: ValuesEncryptor;
+  private readonly amountsEncryptor?: ValuesEncryptor;
+  private readonly pollIntervalMs: number;
+  // Oracle request id -> block of the transaction that made the request, for requests sent by this client.
+  private readonly requestBlocks = new Map<bigint, number>();
+
+  constructor(address: string, runner: ContractRunner, options: ArtPortfolioClientOptions = {}) {
+    this.contract = ArtPortfolioFhe__factory.connect(address, runner);
+    this.encryptor = options.encryptor;
+    this.valuesEncryptor = options.valuesEncryptor;
+    this.amountsEncryptor = options.amountsEncryptor ?? options.valuesEncryptor;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  }
+
+  get address(): string {
+    return this.contract.target as string;
+  }
+
+  async currentBatchId(): Promise<bigint> {
+    return this.call(() => this.contract.currentBatchId());
+  }
+
+  async isBatchOpen(): Promise<boolean> {
+    return this.call(() => this.contract.batchOpen());
+  }
+
+  async isProvider(account: string): Promise<boolean> {
+    return this.call(() => this.contract.isProvider(account));
+  }
+
+  async isAuthenticator(account: string): Promise<boolean> {
+    return this.call(() => this.contract.isAuthenticator(account));
+  }
+
+  /** True when `account` made every submission to `batchId`, which requestWealthProof requires. */
+  async isSoleContributor(batchId: bigint, account: string): Promise<boolean> {
+    const [first, mixed] = await this.call(() =>
+      Promise.all([this.contract.batchFirstContributor(batchId), this.contract.batchHasMultipleContributors(batchId)]),
+    );
+    return !mixed && first.toLowerCase() === account.toLowerCase();
+  }
+
+  async cooldownSeconds(): Promise<bigint> {
+    return this.call(() => this.contract.cooldownSeconds());
+  }
+
+  /** Opens a batch, or starts the next one when a batch is already open. Returns the open batch id. */
+  async openBatch(): Promise<bigint> {
+    const receipt = await this.send(() => this.contract.openBatch());
+    const [batchId] = this.findEvent(receipt, "BatchOpened");
+    return batchId as bigint;
+  }
+
+  /**
+   * Reserves the open, still empty batch for the connected provider so nobody else can submit to it,
+   * which keeps it usable for requestWealthProof. Returns the reserved batch id.
+   */
+  async reserveBatch(): Promise<bigint> {
+    const receipt = await this.send(() => this.contract.reserveBatch());
+    const [batchId] = this.findEvent(receipt, "BatchReserved");
+    return batchId as bigint;
+  }
+
+  async closeBatch(): Promise<bigint> {
+    const receipt = await this.send(() => this.contract.closeBatch());
+    const [batchId] = this.findEvent(receipt, "BatchSealed");
+    return batchId as bigint;
+  }
+
+  /**
+   * Adds a value, in cents, to the open batch. Plain values are encrypted with the configured encryptor for
+   * the connected signer; already encrypted inputs are submitted as-is.
+   */
+  async submitPortfolioValue(value: bigint | EncryptedValue): Promise<SubmittedValue> {
+    const input = typeof value === "bigint" ? await this.encrypt(value) : value;
+    const receipt = await this.send(() => this.contract.submitPortfolioValue(input.handle, input.inputProof));
+    const [, batchId, encryptedValue] = this.findEvent(receipt, "PortfolioSubmitted");
+    return { batchId: batchId as bigint, encryptedValue: encryptedValue as bigint };
+  }
+
+  /**
+   * Adds several values to the open batch in one transaction, e.g. every piece of a portfolio.
+   * It counts as a single submission for the cooldown.
+   */
+  async submitPortfolioValues(values: bigint[] | EncryptedValues): Promise<SubmittedValue[]> {
+    const input = Array.isArray(values) ? await this.encryptMany(values) : values;
+    const receipt = await this.send(() => this.contract.submitPortfolioValues(input.handles, input.inputProof));
+    return this.findEvents(receipt, "PortfolioSubmitted").map(([, batchId, encryptedValue]) => ({
+      batchId: batchId as bigint,
+      encryptedValue: encryptedValue as bigint,
+    }));
+  }
+
+  /**
+   * Adds values held in other currencies to the open batch, converted on chain by multiplying each
+   * ciphertext with its plaintext rate (see toFxRate). Counts as a single submission for the cooldown.
+   */
+  async submitConvertedPortfolioValues(values: bigint[] | EncryptedValues, rates: bigint[]): Promise<SubmittedValue[]> {
+    const input = Array.isArray(values) ? await this.encryptMany(values) : values;
+    const receipt = await this.send(() =>
+      this.contract.submitConvertedPortfolioValues(input.handles, rates, input.inputProof),
+    );
+    return this.findEvents(receipt, "PortfolioSubmitted").map(([, batchId, encryptedValue]) => ({
+      batchId: batchId as bigint,
+      encryptedValue: encryptedValue as bigint,
+    }));
+  }
+
+  /**
+   * Sole contributor only: grants the connected signer access to the batch total and its overflow
+   * flag, and returns both handles for a user decryption.
+   */
+  async allowBatchTotal(batchId: bigint): Promise<{ total: string; overflowed: string }> {
+    await this.send(() => this.contract.allowBatchTotal(batchId));
+    const [total, overflowed] = await this.call(() =>
+      Promise.all([this.contract.portfolioValues(batchId), this.contract.batchOverflowed(batchId)]),
+    );
+    return { total, overflowed };
+  }
+
+  /**
+   * Provider only: asks the decryption oracle for the public total of a batch several providers
+   * submitted to and returns the request id to wait on. A single contributor reads their own batch
+   * total through allowBatchTotal instead.
+   */
+  async requestBatchValueDecryption(batchId: bigint): Promise<bigint> {
+    const receipt = await this.send(() => this.contract.requestBatchValueDecryption(batchId));
+    const [requestId] = this.findEvent(receipt, "DecryptionRequested");
+    this.requestBlocks.set(requestId, receipt.blockNumber);
+    return requestId as bigint;
+  }
+
+  /** Resolves once the oracle callback emitted DecryptionCompleted for `requestId`. */
+  async waitForDecryption(requestId: bigint, options: WaitForDecryptionOptions = {}): Promise<DecryptionResult> {
+    const event = await this.pollCallback(
+      requestId,
+      options,
+      this.contract.filters.DecryptionRequested(requestId),
+      this.contract.filters.DecryptionCompleted(requestId),
+    );
+    return {
+      requestId,
+      batchId: event.args.batchId,
+      totalValue: event.args.totalValue,
+      overflowed: event.args.overflowed,
+    };
+  }
+
+  /**
+   * Asks the oracle whether the total of `batchId` is at least `threshold` (cents) without decrypting
+   * the total itself. Only the account that made every submission to the batch may ask.
+   */
+  async requestWealthProof(batchId: bigint, threshold: bigint): Promise<bigint> {
+    const receipt = await this.send(() => this.contract.requestWealthProof(batchId, threshold));
+    const [requestId] = this.findEvent(receipt, "WealthProofRequested");
+    this.requestBlocks.set(requestId, receipt.blockNumber);
+    return requestId as bigint;
+  }
+
+  /** Resolves once the oracle callback emitted WealthProofCompleted for `requestId`. */
+  async waitForWealthProof(requestId: bigint, options: WaitForDecryptionOptions = {}): Promise<WealthProofResult> {
+    const event = await this.pollCallback(
+      requestId,
+      options,
+      this.contract.filters.WealthProofRequested(requestId),
+      this.contract.filters.WealthProofCompleted(requestId),
+    );
+    return {
+      requestId,
+      batchId: event.args.batchId,
+      prover: event.args.prover,
+      threshold: event.args.threshold,
+      meetsThreshold: event.args.meetsThreshold,
+      blockNumber: event.blockNumber,
+      transactionHash: event.transactionHash,
+    };
+  }
+
+  /**
+   * Pledges `artIds` to `lender` with the total of `batchId` as encrypted collateral value against a
+   * loan of `loanAmount` cents. The connected signer must be the registered owner of every artwork and
+   * have made every submission to the batch, whose total the lender takes on the owner's word.
+   */
+  async createBundle(batchId: bigint, lender: string, loanAmount: bigint, artIds: string[]): Promise<bigint> {
+    const receipt = await this.send(() => this.contract.createBundle(batchId, lender, loanAmount, artIds));
+    const [bundleId] = this.findEvent(receipt, "BundleCreated");
+    return bundleId as bigint;
+  }
+
+  /** Lender only: marks the loan repaid and unlocks the bundle's artworks. */
+  async releaseBundle(bundleId: bigint): Promise<void> {
+    await this.send(() => this.contract.releaseBundle(bundleId));
+  }
+
+  async getBundle(bundleId: bigint): Promise<CollateralBundle> {
+    const [bundle, artIds] = await this.call(() =>
+      Promise.all([this.contract.bundles(bundleId), this.contract.getBundleArtIds(bundleId)]),
+    );
+    return {
+      bundleId,
+      owner: bundle.owner,
+      lender: bundle.lender,
+      batchId: bundle.batchId,
+      loanAmount: bundle.loanAmount,
+      value: bundle.value,
+      ltvTier: bundle.ltvTier,
+      active: bundle.active,
+      artIds: [...artIds],
+    };
+  }
+
+  /**
+   * Encrypts the cost basis and valuation (cents) of `artId` with the amountsEncryptor and registers them,
+   * which allows them to the connected signer. The first account to register an artwork owns it until
+   * someone it offered the artwork to accepts; only the owner can offer, pledge, auction or disclose it.
+   */
+  async registerArtworkValues(artId: string, costBasis: bigint, valuation: bigint): Promise<ArtworkValues> {
+    if (!this.amountsEncryptor) throw new Error("ArtPortfolioClient was created without an amountsEncryptor");
+    const input = await this.amountsEncryptor([costBasis, valuation], this.address, await this.signerAddress());
+    const receipt = await this.send(() =>
+      this.contract.registerArtworkValues(artId, input.handles[0], input.handles[1], input.inputProof),
+    );
+    const [owner, , registeredCostBasis, registeredValuation] = this.findEvent(receipt, "ArtworkValuesRegistered");
+    return { artId, owner, costBasis: registeredCostBasis, valuation: registeredValuation };
+  }
+
+  async getArtworkValues(artId: string): Promise<ArtworkValues> {
+    const values = await this.call(() => this.contract.artworkValues(id(artId)));
+    return { artId, owner: values.owner, costBasis: values.costBasis, valuation: values.valuation };
+  }
+
+  /**
+   * Offers artwork `artId`, registered to the connected signer, to `to` with its registered cost basis
+   * and valuation. The recipient is only granted access to them, and becomes the registered owner, when
+   * they accept.
+   */
+  async offerTransfer(artId: string, to: string): Promise<bigint> {
+    const receipt = await this.send(() => this.contract.offerTransfer(artId, to));
+    const [offerId] = this.findEvent(receipt, "TransferOffered");
+    return offerId as bigint;
+  }
+
+  /** Recipient only. */
+  async acceptTransfer(offerId: bigint): Promise<void> {
+    await this.send(() => this.contract.acceptTransfer(offerId));
+  }
+
+  /** Withdraws the offer when called by the current owner, declines it when called by the recipient. */
+  async cancelTransfer(offerId: bigint): Promise<void> {
+    await this.send(() => this.contract.cancelTransfer(offerId));
+  }
+
+  async getTransferOffer(offerId: bigint): Promise<TransferOffer> {
+    const offer = await this.call(() => this.contract.transferOffers(offerId));
+    return {
+      offerId,
+      artId: offer.artId,
+      from: offer.from,
+      to: offer.to,
+      costBasis: offer.costBasis,
+      valuation: offer.valuation,
+      pending: offer.pending,
+    };
+  }
+
+  /**
+   * Lists `artId`, registered to the connected signer, for a sealed-bid sale ending at `endTime` (seconds).
+   * Returns the auction id.
+   */
+  async createAuction(artId: string, endTime: bigint): Promise<bigint> {
+    const receipt = await this.send(() => this.contract.createAuction(artId, endTime));
+    const [auctionId] = this.findEvent(receipt, "AuctionCreated");
+    return auctionId as bigint;
+  }
+
+  /** Places a sealed bid, in cents, encrypted with the amountsEncryptor. */
+  async placeBid(auctionId: bigint, amount: bigint): Promise<void> {
+    if (!this.amountsEncryptor) throw new Error("ArtPortfolioClient was created without an amountsEncryptor");
+    const input = await this.amountsEncryptor([amount], this.address, await this.signerAddress());
+    await this.send(() => this.contract.placeBid(auctionId, input.handles[0], input.inputProof));
+  }
+
+  /**
+   * Closes an ended auction and returns the decryption request revealing its winner, or null when
+   * nobody bid and the auction was settled straight away.
+   */
+  async closeAuction(auctionId: bigint): Promise<bigint | null> {
+    const receipt = await this.send(() => this.contract.closeAuction(auctionId));
+    const [closed] = this.findEvents(receipt, "AuctionClosed");
+    if (!closed) return null;
+    this.requestBlocks.set(closed[1], receipt.blockNumber);
+    return closed[1] as bigint;
+  }
+
+  /** Resolves once the oracle answered the request closeAuction returned. */
+  async waitForAuctionSettlement(requestId: bigint, options: WaitForDecryptionOptions = {}): Promise<AuctionResult> {
+    const { auctionId } = await this.call(() => this.contract.auctionDecryptionContexts(requestId));
+    const event = await this.pollCallback(
+      requestId,
+      options,
+      this.contract.filters.AuctionClosed(auctionId, requestId),
+      this.contract.filters.AuctionSettled(auctionId),
+    );
+    return { auctionId, seller: event.args.seller, winner: event.args.winner, winningBid: event.args.winningBid };
+  }
+
+  async getAuction(auctionId: bigint): Promise<Auction> {
+    const auction = await this.call(() => this.contract.auctions(auctionId));
+    return {
+      auctionId,
+      artId: auction.artId,
+      seller: auction.seller,
+      endTime: auction.endTime,
+      bidCount: auction.bidCount,
+      closed: auction.closed,
+      settled: auction.settled,
+      winner: auction.winner,
+      winningBid: auction.winningBid,
+    };
+  }
+
+  /** Asks registered provider `appraiser` to value `artId`. Returns the appraisal id. */
+  async requestAppraisal(artId: string, appraiser: string): Promise<bigint> {
+    const receipt = await this.send(() => this.contract.requestAppraisal(artId, appraiser));
+    const [appraisalId] = this.findEvent(receipt, "AppraisalRequested");
+    return appraisalId as bigint;
+  }
+
+  /** Appraiser only. */
+  async acceptAppraisal(appraisalId: bigint): Promise<void> {
+    await this.send(() => this.contract.acceptAppraisal(appraisalId));
+  }
+
+  /**
+   * Appraiser only: encrypts `amount` (cents) with the amountsEncryptor, signs it together with
+   * `reportHash` and delivers both. Only the owner is granted the figure.
+   */
+  async deliverAppraisal(appraisalId: bigint, amount: bigint, reportHash: BytesLike): Promise<void> {
+    if (!this.amountsEncryptor) throw new Error("ArtPortfolioClient was created without an amountsEncryptor");
+    const signer = this.contract.runner as Signer;
+    const input = await this.amountsEncryptor([amount], this.address, await this.signerAddress());
+    const digest = await this.call(() => this.contract.appraisalDigest(appraisalId, input.handles[0], reportHash));
+    const signature = await signer.signMessage(getBytes(digest));
+    await this.send(() =>
+      this.contract.deliverAppraisal(appraisalId, input.handles[0], input.inputProof, reportHash, signature),
+    );
+  }
+
+  /** Owner only: rejects a delivered figure so the appraiser can deliver a revised one. */
+  async disputeAppraisal(appraisalId: bigint, reason: string): Promise<void> {
+    await this.send(() => this.contract.disputeAppraisal(appraisalId, reason));
+  }
+
+  async getAppraisal(appraisalId: bigint): Promise<Appraisal> {
+    const appraisal = await this.call(() => this.contract.appraisals(appraisalId));
+    return {
+      appraisalId,
+      artId: appraisal.artId,
+      owner: appraisal.owner,
+      appraiser: appraisal.appraiser,
+      status: APPRAISAL_STATUSES[Number(appraisal.status)],
+      valuation: appraisal.valuation,
+      reportHash: appraisal.reportHash,
+      deliveredAt: appraisal.deliveredAt,
+      signature: appraisal.signature,
+    };
+  }
+
+  /**
+   * Lets `grantee` read the listed fields of artworks registered to the connected signer until `expiresAt`
+   * (seconds). The amounts are encrypted with the amountsEncryptor and are not checked against the
+   * registered values, so the grantee has the owner's word for them; returns the grant ids in the order
+   * of `disclosures`.
+   */
+  async grantDisclosures(grantee: string, disclosures: DisclosureRequest[], expiresAt: bigint): Promise<bigint[]> {
+    if (!this.amountsEncryptor) throw new Error("ArtPortfolioClient was created without an amountsEncryptor");
+    const input = await this.amountsEncryptor(
+      disclosures.map((d) => d.amount),
+      this.address,
+      await this.signerAddress(),
+    );
+    const receipt = await this.send(() =>
+      this.contract.grantDisclosures(
+        grantee,
+        disclosures.map((d) => d.artId),
+        disclosures.map((d) => DISCLOSURE_FIELDS.indexOf(d.field)),
+        input.handles,
+        input.inputProof,
+        expiresAt,
+      ),
+    );
+    return this.findEvents(receipt, "DisclosureGranted").map(([grantId]) => grantId as bigint);
+  }
+
+  /** Owner only. */
+  async revokeDisclosure(grantId: bigint): Promise<void> {
+    await this.send(() => this.contract.revokeDisclosure(grantId));
+  }
+
+  /** Grantee only: returns the handle of a fresh copy of the value, which the grantee may user-decrypt. */
+  async accessDisclosure(grantId: bigint): Promise<string> {
+    const receipt = await this.send(() => this.contract.accessDisclosure(grantId));
+    const [, , handle] = this.findEvent(receipt, "DisclosureAccessed");
+    return handle as string;
+  }
+
+  /** Grantee only: accessDisclosure for several grants in one transaction, handles in the order of `grantIds`. */
+  async accessDisclosures(grantIds: bigint[]): Promise<string[]> {
+    const receipt = await this.send(() => this.contract.accessDisclosures(grantIds));
+    return this.findEvents(receipt, "DisclosureAccessed").map(([, , handle]) => handle as string);
+  }
+
+  async getDisclosureGrant(grantId: bigint): Promise<DisclosureGrant> {
+    const grant = await this.call(() => this.contract.disclosureGrants(grantId));
+    return {
+      grantId,
+      artId: grant.artId,
+      owner: grant.owner,
+      grantee: grant.grantee,
+      field: DISCLOSURE_FIELDS[Number(grant.field)],
+      expiresAt: grant.expiresAt,
+      revoked: grant.revoked,
+      accessCount: grant.accessCount,
+      disclosed: grant.disclosed,
+    };
+  }
+
+  private async poll<T>(requestId: bigint, options: WaitForDecryptionOptions, find: () => Promise<T | undefined>): Promise<T> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_DECRYPTION_TIMEOUT_MS;
+    const pollIntervalMs = options.pollIntervalMs ?? this.pollIntervalMs;
+    const deadline = Date.now() + timeoutMs;
+
+    for (;;) {
+      const found = await find();
+      if (found) return found;
+      if (Date.now() + pollIntervalMs > deadline) throw new DecryptionTimeoutError(requestId, timeoutMs);
+      await sleep(pollIntervalMs);
+    }
+  }
+
+  /**
+   * Polls for the `callback` event answering `requestId`, searching from the block of the request
+   * transaction so every poll scans only the blocks since. `request` is the event that transaction
+   * emitted; it is looked up once when neither the options nor this client know the block.
+   */
+  private async pollCallback<TRequest extends TypedContractEvent, TCallback extends TypedContractEvent>(
+    requestId: bigint,
+    options: WaitForDecryptionOptions,
+    request: TypedDeferredTopicFilter<TRequest>,
+    callback: TypedDeferredTopicFilter<TCallback>,
+  ): Promise<TypedEventLog<TCallback>> {
+    let fromBlock = options.fromBlock ?? this.requestBlocks.get(requestId);
+    return this.poll(requestId, options, async () => {
+      if (fromBlock === undefined) {
+        const [requested] = await this.call(() => this.contract.queryFilter(request));
+        if (!requested) return undefined;
+        fromBlock = requested.blockNumber;
+        this.requestBlocks.set(requestId, fromBlock);
+      }
+      const [answered] = await this.call(() => this.contract.queryFilter(callback, fromBlock));
+      return answered;
+    });
+  }
+
+  private async encrypt(value: bigint): Promise<EncryptedValue> {
+    if (!this.encryptor) throw new Error("ArtPortfolioClient was created without an encryptor");
+    return this.encryptor(value, this.address, await this.signerAddress());
+  }
+
+  private async encryptMany(values: bigint[]): Promise<EncryptedValues> {
+    if (!this.valuesEncryptor) throw new Error("ArtPortfolioClient was created without a valuesEncryptor");
+    return this.valuesEncryptor(values, this.address, await this.signerAddress());
+  }
+
+  private async signerAddress(): Promise<string> {
+    const signer = this.contract.runner as Signer | null;
+    if (!signer || typeof signer.getAddress !== "function") {
+      throw new Error("Submitting a plain value requires a signer");
+    }
+    return signer.getAddress();
+  }
+
+  private async call<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (e) {
+      throw decodeArtPortfolioError(e, this.contract.interface);
+    }
+  }
+
+  private async send(fn: () => Promise<ContractTransactionResponse>) {
+    return this.call(async () => {
+      const tx = await fn();
+      const receipt = await tx.wait();
+      if (!receipt) throw new Error(`Transaction ${tx.hash} was dropped`);
+      return receipt;
+    });
+  }
+
+  private findEvent(receipt: ContractTransactionReceipt, name: string) {
+    const [args] = this.findEvents(receipt, name);
+    if (!args) throw new Error(`Transaction did not emit ${name}`);
+    return args;
+  }
+
+  private findEvents(receipt: ContractTransactionReceipt, name: string) {
+    const found = [];
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== this.address.toLowerCase()) continue;
+      const parsed = this.contract.interface.parseLog({ topics: [...log.topics], data: log.data });
+      if (parsed?.name === name) found.push(parsed.args);
+    }
+    return found;
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * ArtPortfolioFhe carries every amount (batch totals, thresholds, loans, bids, cost bases) as an
+ * euint64 of cents, and FX rates as plaintext fixed point. These helpers convert decimal amounts to
+ * and from those scales without going through floating point, so "1234567.89" comes back exactly.
+ */
+
+/** Matches ArtPortfolioFhe.AMOUNT_DECIMALS. */
+export const AMOUNT_DECIMALS = 2;
+export const AMOUNT_SCALE = 10n ** BigInt(AMOUNT_DECIMALS);
+/** Largest amount an euint64 holds, in cents. A batch total that reaches it has saturated. */
+export const MAX_AMOUNT_CENTS = 2n ** 64n - 1n;
+/** Matches ArtPortfolioFhe.FX_RATE_DECIMALS: submitConvertedPortfolioValues takes 1.08 as 1_080_000. */
+export const FX_RATE_DECIMALS = 6;
+
+const AMOUNT_PATTERN = /^(\d+)(?:\.(\d*))?$/;
+
+/**
+ * Converts a non-negative decimal amount such as `"1234.5"` or `1234.5` to cents. Numbers are read
+ * through their shortest string form, so `0.1 + 0.2` is rejected rather than rounded.
+ */
+export function toCents(amount: string | number): bigint {
+  return toFixedPoint(amount, AMOUNT_DECIMALS);
+}
+
+/** Converts an FX rate (units of the reporting currency per unit of the artwork's currency) to fixed point. */
+export function toFxRate(rate: string | number): bigint {
+  const fixed = toFixedPoint(rate, FX_RATE_DECIMALS);
+  if (fixed === 0n) throw new RangeError(`FX rate ${String(rate)} rounds to zero`);
+  return fixed;
+}
+
+/** Formats cents as a decimal string with exactly AMOUNT_DECIMALS decimals, e.g. `123456n` => `"1234.56"`. */
+export function fromCents(cents: bigint): string {
+  if (cents < 0n) throw new RangeError(`Amount ${cents} is negative`);
+  const fraction = (cents % AMOUNT_SCALE).toString().padStart(AMOUNT_DECIMALS, "0");
+  return `${cents / AMOUNT_SCALE}.${fraction}`;
+}
+
+function toFixedPoint(amount: string | number, decimals: number): bigint {
+  const text = typeof amount === "number" ? numberToPlainString(amount, decimals) : amount.trim();
+  const match = AMOUNT_PATTERN.exec(text);
+  if (!match) throw new RangeError(`"${String(amount)}" is not a valid amount`);
+  const [, whole, fraction = ""] = match;
+  if (fraction.length > decimals) {
+    throw new RangeError(`"${String(amount)}" has more than ${decimals} decimals`);
+  }
+  const fixed = BigInt(whole) * 10n ** BigInt(decimals) + BigInt(fraction.padEnd(decimals, "0"));
+  if (fixed > MAX_AMOUNT_CENTS) throw new RangeError(`"${String(amount)}" does not fit in 64 bits`);
+  return fixed;
+}
+
+function numberToPlainString(amount: number, decimals: number): string {
+  if (!Number.isFinite(amount) || amount < 0) throw new RangeError(`${amount} is not a valid amount`);
+  // Beyond 2^53 a number no longer holds every fraction digit; callers should pass a string instead.
+  if (amount > Number.MAX_SAFE_INTEGER / 10 ** decimals) {
+    throw new RangeError(`${amount} is too large to convert exactly; pass it as a string`);
+  }
+  return amount.toString();
+}
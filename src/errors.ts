@@ -0,0 +1,110 @@
+import { Interface } from "ethers";
+
+/** Base class for every revert raised by ArtPortfolioFhe, carrying the Solidity error name. */
+export class ArtPortfolioError extends Error {
+  constructor(
+    readonly errorName: string,
+    message: string,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+export class NotOwnerError extends ArtPortfolioError {}
+export class NotProviderError extends ArtPortfolioError {}
+export class NotAuthenticatorError extends ArtPortfolioError {}
+export class ContractPausedError extends ArtPortfolioError {}
+export class CooldownActiveError extends ArtPortfolioError {}
+export class BatchClosedError extends ArtPortfolioError {}
+export class BatchAlreadyReservedError extends ArtPortfolioError {}
+export class PrivateBatchError extends ArtPortfolioError {}
+export class InvalidBatchError extends ArtPortfolioError {}
+export class InvalidStateHashError extends ArtPortfolioError {}
+export class ReplayAttemptError extends ArtPortfolioError {}
+export class InvalidProofError extends ArtPortfolioError {}
+export class AlreadyInitializedError extends ArtPortfolioError {}
+export class NotInitializedError extends ArtPortfolioError {}
+export class InvalidParameterError extends ArtPortfolioError {}
+export class NotSoleContributorError extends ArtPortfolioError {}
+export class NotLenderError extends ArtPortfolioError {}
+export class BundleNotActiveError extends ArtPortfolioError {}
+export class ArtworkLockedError extends ArtPortfolioError {}
+export class NotTransferPartyError extends ArtPortfolioError {}
+export class TransferNotPendingError extends ArtPortfolioError {}
+export class AuctionNotOpenError extends ArtPortfolioError {}
+export class AuctionNotEndedError extends ArtPortfolioError {}
+export class AlreadyBidError extends ArtPortfolioError {}
+export class NotAppraisalPartyError extends ArtPortfolioError {}
+export class InvalidAppraisalStateError extends ArtPortfolioError {}
+export class InvalidSignatureError extends ArtPortfolioError {}
+export class NotDisclosurePartyError extends ArtPortfolioError {}
+export class DisclosureInactiveError extends ArtPortfolioError {}
+export class NotArtworkOwnerError extends ArtPortfolioError {}
+export class SelfReviewError extends ArtPortfolioError {}
+
+/** Raised when waitForDecryption or waitForWealthProof gives up before the oracle called back. */
+export class DecryptionTimeoutError extends Error {
+  constructor(readonly requestId: bigint, timeoutMs: number) {
+    super(`Decryption request ${requestId} was not fulfilled within ${timeoutMs}ms`);
+    this.name = "DecryptionTimeoutError";
+  }
+}
+
+type ArtPortfolioErrorClass = new (errorName: string, message: string, options?: ErrorOptions) => ArtPortfolioError;
+
+const ERRORS: Record<string, [ArtPortfolioErrorClass, string]> = {
+  NotOwner: [NotOwnerError, "Only the contract owner can do this"],
+  NotProvider: [NotProviderError, "Caller is not a registered provider"],
+  NotAuthenticator: [NotAuthenticatorError, "Caller is not a registered authenticator"],
+  Paused: [ContractPausedError, "The contract is paused"],
+  CooldownActive: [CooldownActiveError, "Cooldown is still active for this address"],
+  BatchClosed: [BatchClosedError, "No batch is open"],
+  BatchAlreadyReserved: [BatchAlreadyReservedError, "The open batch is reserved for another prover or already holds submissions"],
+  PrivateBatch: [PrivateBatchError, "Only the total of a batch several providers submitted to can be decrypted publicly"],
+  InvalidBatch: [InvalidBatchError, "Batch does not exist or holds no submissions"],
+  InvalidStateHash: [InvalidStateHashError, "Batch ciphertexts changed since decryption was requested"],
+  ReplayAttempt: [ReplayAttemptError, "Decryption request was already processed"],
+  InvalidKMSSignatures: [InvalidProofError, "Decryption proof signatures are invalid"],
+  AlreadyInitialized: [AlreadyInitializedError, "Value is already initialized"],
+  NotInitialized: [NotInitializedError, "Encrypted value is not initialized"],
+  InvalidParameter: [InvalidParameterError, "Invalid parameter"],
+  NotSoleContributor: [NotSoleContributorError, "Only an account that made every submission to the batch can use its total"],
+  NotLender: [NotLenderError, "Only the bundle's lender can do this"],
+  BundleNotActive: [BundleNotActiveError, "Bundle does not exist or was already released"],
+  ArtworkLocked: [ArtworkLockedError, "Artwork is pledged, offered to someone or up for auction"],
+  NotTransferParty: [NotTransferPartyError, "Caller is not a party to this transfer offer"],
+  TransferNotPending: [TransferNotPendingError, "Transfer offer does not exist or was already accepted or cancelled"],
+  AuctionNotOpen: [AuctionNotOpenError, "Auction does not exist, has ended or was already closed"],
+  AuctionNotEnded: [AuctionNotEndedError, "Auction is still taking bids"],
+  AlreadyBid: [AlreadyBidError, "This account already bid in the auction"],
+  NotAppraisalParty: [NotAppraisalPartyError, "Caller is not the owner or appraiser of this appraisal"],
+  InvalidAppraisalState: [InvalidAppraisalStateError, "Appraisal does not exist or is not in a state that allows this"],
+  InvalidSignature: [InvalidSignatureError, "Signature is not the appraiser's signature over the appraisal digest"],
+  NotDisclosureParty: [NotDisclosurePartyError, "Caller is not the owner or grantee of this disclosure grant"],
+  DisclosureInactive: [DisclosureInactiveError, "Disclosure grant was revoked or has expired"],
+  NotArtworkOwner: [NotArtworkOwnerError, "Artwork was registered by another account"],
+  SelfReview: [SelfReviewError, "Authenticators cannot review an artwork registered to themselves"],
+};
+
+const findRevertData = (e: unknown, depth = 0): string | undefined => {
+  if (!e || typeof e !== "object" || depth > 5) return undefined;
+  const { data, error, info } = e as { data?: unknown; error?: unknown; info?: { error?: unknown } };
+  if (typeof data === "string" && data.startsWith("0x") && data.length >= 10) return data;
+  return findRevertData(error, depth + 1) ?? findRevertData(info?.error, depth + 1);
+};
+
+/**
+ * Maps a failed call or transaction to the typed error for the custom error it reverted with.
+ * Anything that is not an ArtPortfolioFhe revert is returned unchanged.
+ */
+export function decodeArtPortfolioError(e: unknown, iface: Interface): unknown {
+  if (e instanceof ArtPortfolioError) return e;
+  const data = findRevertData(e);
+  if (!data) return e;
+  const parsed = iface.parseError(data);
+  if (!parsed) return e;
+  const [ErrorClass, message] = ERRORS[parsed.name] ?? [ArtPortfolioError, `Reverted with ${parsed.name}`];
+  return new ErrorClass(parsed.name, message, { cause: e });
+}
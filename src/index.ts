@@ -0,0 +1,45 @@
+export {
+  AMOUNT_DECIMALS,
+  AMOUNT_SCALE,
+  FX_RATE_DECIMALS,
+  MAX_AMOUNT_CENTS,
+  fromCents,
+  toCents,
+  toFxRate,
+} from "./amounts";
+export { APPRAISAL_STATUSES, ArtPortfolioClient, DISCLOSURE_FIELDS } from "./ArtPortfolioClient";
+export type {
+  Appraisal,
+  AppraisalStatus,
+  ArtPortfolioClientOptions,
+  ArtworkValues,
+  Auction,
+  AuctionResult,
+  CollateralBundle,
+  DecryptionResult,
+  DisclosureField,
+  DisclosureGrant,
+  DisclosureRequest,
+  EncryptedValue,
+  EncryptedValues,
+  SubmittedValue,
+  TransferOffer,
+  ValueEncryptor,
+  ValuesEncryptor,
+  WaitForDecryptionOptions,
+  WealthProofResult,
+} from "./ArtPortfolioClient";
+export * from "./errors";
+export {
+  WEALTH_PROOF_RECEIPT_VERSION,
+  createWealthProofReceipt,
+  decodeWealthProofReceipt,
+  encodeWealthProofReceipt,
+  verifyWealthProofReceipt,
+} from "./wealthProof";
+export type {
+  VerifyWealthProofOptions,
+  WealthProofFields,
+  WealthProofReceipt,
+  WealthProofVerification,
+} from "./wealthProof";
@@ -0,0 +1,158 @@
+import { Interface } from "ethers";
+import type { ContractRunner } from "ethers";
+
+// Shared with the frontend (frontend/web/src/wealth.ts), so it runs in browsers as well as in Node:
+// no Buffer, and only the one event instead of the typechain factory and its bytecode.
+
+export const WEALTH_PROOF_RECEIPT_VERSION = 1;
+
+const wealthProofEvents = new Interface([
+  "event WealthProofCompleted(uint256 indexed requestId, uint256 indexed batchId, address indexed prover, uint64 threshold, bool meetsThreshold)",
+]);
+
+/**
+ * Everything a lender needs to look a wealth proof up on chain. The receipt itself proves nothing:
+ * verifyWealthProofReceipt checks it against the WealthProofCompleted event it points to.
+ */
+export interface WealthProofReceipt {
+  version: number;
+  chainId: bigint;
+  contractAddress: string;
+  requestId: bigint;
+  batchId: bigint;
+  prover: string;
+  /** In cents, as emitted by ArtPortfolioFhe. */
+  threshold: bigint;
+  /** Reporting currency the prover converted their pieces into. Informational: it is not on chain. */
+  currency?: string;
+  meetsThreshold: boolean;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+/** The on-chain part of a receipt, as ArtPortfolioClient.waitForWealthProof returns it. */
+export type WealthProofFields = Omit<WealthProofReceipt, "version" | "chainId" | "contractAddress" | "currency">;
+
+export interface WealthProofVerification {
+  valid: boolean;
+  /** Why the receipt was rejected; unset when valid. */
+  reason?: string;
+  /** Timestamp of the block the oracle answered in, in seconds. */
+  provedAt?: number;
+}
+
+export interface VerifyWealthProofOptions {
+  /** Only accept proofs from this deployment; a receipt can name any contract, including a fake one. */
+  contractAddress?: string;
+}
+
+export function createWealthProofReceipt(
+  result: WealthProofFields,
+  chainId: bigint,
+  contractAddress: string,
+  currency?: string,
+): WealthProofReceipt {
+  const { requestId, batchId, prover, threshold, meetsThreshold, blockNumber, transactionHash } = result;
+  return {
+    version: WEALTH_PROOF_RECEIPT_VERSION,
+    chainId,
+    contractAddress,
+    requestId,
+    batchId,
+    prover,
+    threshold,
+    ...(currency === undefined ? {} : { currency }),
+    meetsThreshold,
+    blockNumber,
+    transactionHash,
+  };
+}
+
+const toBase64Url = (text: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(text)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64Url = (encoded: string) => {
+  const base64 = encoded.trim().replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  return new TextDecoder().decode(Uint8Array.from(atob(padded), (c) => c.charCodeAt(0)));
+};
+
+/** Serialises a receipt to a URL-safe string that can be pasted or put in a link. */
+export function encodeWealthProofReceipt(receipt: WealthProofReceipt): string {
+  return toBase64Url(JSON.stringify(receipt, (_, value) => (typeof value === "bigint" ? value.toString() : value)));
+}
+
+/** Numbers may be strings or JSON numbers: receipts of earlier frontend versions stored the latter. */
+export function decodeWealthProofReceipt(encoded: string): WealthProofReceipt {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(fromBase64Url(encoded));
+  } catch (e) {
+    throw new Error("Wealth proof receipt is not valid base64url JSON", { cause: e });
+  }
+  if (raw?.version !== WEALTH_PROOF_RECEIPT_VERSION) {
+    throw new Error(`Unsupported wealth proof receipt version ${String(raw?.version)}`);
+  }
+  return {
+    version: WEALTH_PROOF_RECEIPT_VERSION,
+    chainId: BigInt(raw.chainId as string),
+    contractAddress: String(raw.contractAddress),
+    requestId: BigInt(raw.requestId as string),
+    batchId: BigInt(raw.batchId as string),
+    prover: String(raw.prover),
+    threshold: BigInt(raw.threshold as string),
+    ...(typeof raw.currency === "string" ? { currency: raw.currency } : {}),
+    meetsThreshold: raw.meetsThreshold === true,
+    blockNumber: Number(raw.blockNumber),
+    transactionHash: String(raw.transactionHash),
+  };
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Checks a receipt against the chain: the transaction it names must contain the
+ * WealthProofCompleted event of `receipt.contractAddress` with exactly the receipt's values.
+ * The contract only emits that event for a KMS-signed answer to a request made by the batch's
+ * sole contributor, so a matching event proves that the amounts the prover submitted to the batch
+ * add up to at least the threshold. It does not prove what those amounts are worth: the contract
+ * does not compare them with the registered artwork values, so the lender takes the prover's word
+ * that they are the portfolio's real valuations.
+ */
+export async function verifyWealthProofReceipt(
+  receipt: WealthProofReceipt,
+  runner: ContractRunner,
+  options: VerifyWealthProofOptions = {},
+): Promise<WealthProofVerification> {
+  const provider = runner.provider;
+  if (!provider) throw new Error("Verifying a wealth proof requires a provider");
+  if (options.contractAddress && !sameAddress(options.contractAddress, receipt.contractAddress)) {
+    return { valid: false, reason: "Receipt was issued by a different contract" };
+  }
+  const { chainId } = await provider.getNetwork();
+  if (chainId !== receipt.chainId) return { valid: false, reason: `Receipt is for chain ${receipt.chainId}` };
+
+  const txReceipt = await provider.getTransactionReceipt(receipt.transactionHash);
+  if (!txReceipt || txReceipt.status !== 1) return { valid: false, reason: "Proof transaction not found" };
+
+  for (const log of txReceipt.logs) {
+    if (!sameAddress(log.address, receipt.contractAddress)) continue;
+    const parsed = wealthProofEvents.parseLog({ topics: [...log.topics], data: log.data });
+    if (parsed?.name !== "WealthProofCompleted" || parsed.args.requestId !== receipt.requestId) continue;
+
+    const matches =
+      parsed.args.batchId === receipt.batchId &&
+      sameAddress(parsed.args.prover, receipt.prover) &&
+      parsed.args.threshold === receipt.threshold &&
+      parsed.args.meetsThreshold === receipt.meetsThreshold &&
+      txReceipt.blockNumber === receipt.blockNumber;
+    if (!matches) return { valid: false, reason: "Receipt does not match the on-chain proof" };
+
+    const block = await provider.getBlock(txReceipt.blockNumber);
+    return { valid: true, provedAt: block?.timestamp };
+  }
+  return { valid: false, reason: "Transaction did not complete this wealth proof" };
+}
@@ -0,0 +1,325 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  ArtPortfolioClient,
+  AlreadyBidError,
+  MAX_AMOUNT_CENTS,
+  ArtworkLockedError,
+  InvalidAppraisalStateError,
+  AuctionNotEndedError,
+  BatchAlreadyReservedError,
+  BatchClosedError,
+  CooldownActiveError,
+  DecryptionTimeoutError,
+  DisclosureInactiveError,
+  NotAppraisalPartyError,
+  NotArtworkOwnerError,
+  NotLenderError,
+  NotOwnerError,
+  NotProviderError,
+  NotSoleContributorError,
+  NotTransferPartyError,
+  PrivateBatchError,
+  TransferNotPendingError,
+  ValueEncryptor,
+  ValuesEncryptor,
+  createWealthProofReceipt,
+  decodeWealthProofReceipt,
+  encodeWealthProofReceipt,
+  fromCents,
+  toCents,
+  toFxRate,
+  verifyWealthProofReceipt,
+} from "../src";
+import { ArtPortfolioFhe__factory } from "../types";
+
+const encryptor: ValueEncryptor = async (value, contractAddress, userAddress) => {
+  const input = await fhevm.createEncryptedInput(contractAddress, userAddress).add64(value).encrypt();
+  return { handle: input.handles[0], inputProof: input.inputProof };
+};
+
+const valuesEncryptor: ValuesEncryptor = async (values, contractAddress, userAddress) => {
+  const input = fhevm.createEncryptedInput(contractAddress, userAddress);
+  values.forEach((value) => input.add64(value));
+  return input.encrypt();
+};
+
+describe("ArtPortfolioClient", function () {
+  let owner: ArtPortfolioClient;
+  let outsider: ArtPortfolioClient;
+  // A second provider, so batch totals can be decrypted publicly
+  let partner: ArtPortfolioClient;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    const [deployer, alice, bob] = await ethers.getSigners();
+    const factory = (await ethers.getContractFactory("ArtPortfolioFhe")) as ArtPortfolioFhe__factory;
+    const contract = await factory.deploy();
+    const address = await contract.getAddress();
+    owner = new ArtPortfolioClient(address, deployer, { encryptor, valuesEncryptor, pollIntervalMs: 10 });
+    outsider = new ArtPortfolioClient(address, alice, { encryptor, valuesEncryptor, pollIntervalMs: 10 });
+    partner = new ArtPortfolioClient(address, bob, { encryptor, valuesEncryptor, pollIntervalMs: 10 });
+    await contract.addProvider(bob.address);
+  });
+
+  // Artworks are offered, pledged, auctioned and disclosed by whoever registered their values
+  async function registerPieces() {
+    await owner.registerArtworkValues("piece-1", 250_000_00n, 300_000_00n);
+    await owner.registerArtworkValues("piece-2", 90_000_00n, 90_000_00n);
+  }
+
+  it("submits plain values and waits for the decrypted batch total", async function () {
+    const batchId = await owner.openBatch();
+    expect(await owner.isBatchOpen()).to.eq(true);
+
+    const submitted = await owner.submitPortfolioValue(1_234n);
+    expect(submitted.batchId).to.eq(batchId);
+    await partner.submitPortfolioValue(766n);
+
+    const requestId = await owner.requestBatchValueDecryption(batchId);
+    await fhevm.awaitDecryptionOracle();
+
+    const result = await owner.waitForDecryption(requestId);
+    expect(result).to.deep.eq({ requestId, batchId, totalValue: 2_000n, overflowed: false });
+  });
+
+  it("round-trips decimal amounts through encrypted batch totals", async function () {
+    const batchId = await owner.openBatch();
+    await owner.submitPortfolioValues([toCents("1234567.89"), toCents(0.01)]);
+    await partner.submitPortfolioValues([toCents(45_000_000)]);
+
+    const requestId = await owner.requestBatchValueDecryption(batchId);
+    await fhevm.awaitDecryptionOracle();
+
+    const { totalValue } = await owner.waitForDecryption(requestId);
+    expect(fromCents(totalValue)).to.eq("46234567.90");
+  });
+
+  it("converts values into the reporting currency and decrypts the total for the contributor", async function () {
+    const batchId = await owner.openBatch();
+    await owner.submitConvertedPortfolioValues([toCents("1000.00"), toCents("0.50")], [toFxRate("1.08"), toFxRate(1)]);
+
+    const { total, overflowed } = await owner.allowBatchTotal(batchId);
+    const [deployer] = await ethers.getSigners();
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, total, owner.address, deployer)).to.eq(toCents("1080.50"));
+    expect(await fhevm.userDecryptEbool(overflowed, owner.address, deployer)).to.eq(false);
+  });
+
+  it("converts amounts to cents without floating point rounding", function () {
+    expect(toCents("1234.5")).to.eq(123_450n);
+    expect(toCents(19.99)).to.eq(1_999n);
+    expect(fromCents(7n)).to.eq("0.07");
+    expect(toFxRate("0.000001")).to.eq(1n);
+    expect(toCents(fromCents(MAX_AMOUNT_CENTS))).to.eq(MAX_AMOUNT_CENTS);
+
+    expect(() => toCents(0.1 + 0.2)).to.throw(RangeError);
+    expect(() => toCents("1.005")).to.throw(RangeError);
+    expect(() => toCents("-1")).to.throw(RangeError);
+    expect(() => toFxRate("0.0000001")).to.throw(RangeError);
+    expect(() => toCents(fromCents(MAX_AMOUNT_CENTS + 1n))).to.throw(RangeError);
+  });
+
+  it("refuses to publicly decrypt a batch with a single contributor", async function () {
+    const batchId = await owner.openBatch();
+    await owner.submitPortfolioValue(1_234n);
+    await expect(owner.requestBatchValueDecryption(batchId)).to.be.rejectedWith(PrivateBatchError);
+    await expect(outsider.requestBatchValueDecryption(batchId)).to.be.rejectedWith(NotProviderError);
+  });
+
+  it("throws typed errors for contract reverts", async function () {
+    await expect(owner.closeBatch()).to.be.rejectedWith(BatchClosedError);
+    await expect(outsider.openBatch()).to.be.rejectedWith(NotOwnerError);
+
+    await owner.openBatch();
+    await expect(outsider.submitPortfolioValue(1n)).to.be.rejectedWith(NotProviderError);
+
+    await owner.submitPortfolioValue(1n);
+    await expect(owner.submitPortfolioValue(1n)).to.be.rejectedWith(CooldownActiveError);
+    await time.increase(60);
+    await expect(owner.submitPortfolioValue(1n)).to.be.fulfilled;
+  });
+
+  it("gives up waiting for a decryption that is never fulfilled", async function () {
+    await expect(owner.waitForDecryption(99n, { timeoutMs: 30 })).to.be.rejectedWith(DecryptionTimeoutError);
+  });
+
+  it("searches for the callback from the block of the request", async function () {
+    const batchId = await owner.openBatch();
+    await owner.submitPortfolioValue(1_000n);
+    await partner.submitPortfolioValue(234n);
+    const requestId = await owner.requestBatchValueDecryption(batchId);
+    await fhevm.awaitDecryptionOracle();
+
+    // outsider did not send the request and finds its block through DecryptionRequested.
+    expect((await outsider.waitForDecryption(requestId)).totalValue).to.eq(1_234n);
+    const afterCallback = (await ethers.provider.getBlockNumber()) + 1;
+    await expect(owner.waitForDecryption(requestId, { fromBlock: afterCallback, timeoutMs: 30 })).to.be.rejectedWith(
+      DecryptionTimeoutError,
+    );
+  });
+
+  it("proves a portfolio total against a threshold and verifies the receipt", async function () {
+    const batchId = await owner.openBatch();
+    const submitted = await owner.submitPortfolioValues([40_000n, 25_000n]);
+    expect(submitted).to.have.length(2);
+    expect(await owner.isSoleContributor(batchId, await owner.contract.owner())).to.eq(true);
+
+    const requestId = await owner.requestWealthProof(batchId, 50_000n);
+    await fhevm.awaitDecryptionOracle();
+    const result = await owner.waitForWealthProof(requestId);
+    expect(result.meetsThreshold).to.eq(true);
+    expect(result.threshold).to.eq(50_000n);
+
+    const { chainId } = await ethers.provider.getNetwork();
+    const receipt = createWealthProofReceipt(result, chainId, owner.address);
+    const decoded = decodeWealthProofReceipt(encodeWealthProofReceipt(receipt));
+    expect(decoded).to.deep.eq(receipt);
+
+    const verification = await verifyWealthProofReceipt(decoded, ethers.provider, { contractAddress: owner.address });
+    expect(verification.valid).to.eq(true);
+    expect(verification.provedAt).to.be.a("number");
+
+    const inflated = await verifyWealthProofReceipt({ ...decoded, threshold: 1_000_000n }, ethers.provider);
+    expect(inflated).to.deep.eq({ valid: false, reason: "Receipt does not match the on-chain proof" });
+    const elsewhere = await verifyWealthProofReceipt(decoded, ethers.provider, { contractAddress: ethers.ZeroAddress });
+    expect(elsewhere.valid).to.eq(false);
+  });
+
+  it("refuses wealth proofs for batches with other contributors", async function () {
+    const batchId = await owner.openBatch();
+    await owner.submitPortfolioValue(10n);
+    await expect(outsider.requestWealthProof(batchId, 1n)).to.be.rejectedWith(NotSoleContributorError);
+  });
+
+  it("reserves the open batch for one prover", async function () {
+    const batchId = await owner.openBatch();
+    expect(await owner.reserveBatch()).to.eq(batchId);
+    await expect(owner.reserveBatch()).to.be.rejectedWith(BatchAlreadyReservedError);
+  });
+
+  it("pledges artworks in a bundle and lets the lender release it", async function () {
+    await registerPieces();
+    const batchId = await owner.openBatch();
+    await owner.submitPortfolioValues([10_000n]);
+    const [, lender] = await ethers.getSigners();
+
+    const bundleId = await owner.createBundle(batchId, lender.address, 5_000n, ["piece-1"]);
+    const bundle = await owner.getBundle(bundleId);
+    expect(bundle).to.include({ lender: lender.address, loanAmount: 5_000n, active: true });
+    expect(bundle.artIds).to.deep.eq(["piece-1"]);
+
+    await expect(owner.createBundle(batchId, lender.address, 1n, ["piece-1"])).to.be.rejectedWith(ArtworkLockedError);
+    await expect(owner.releaseBundle(bundleId)).to.be.rejectedWith(NotLenderError);
+    await outsider.releaseBundle(bundleId);
+    expect((await owner.getBundle(bundleId)).active).to.eq(false);
+  });
+
+  it("registers artwork values the owner can decrypt and others cannot replace", async function () {
+    const [deployer] = await ethers.getSigners();
+    const registered = await owner.registerArtworkValues("piece-1", 250_000_00n, 300_000_00n);
+    expect(registered.owner).to.eq(deployer.address);
+    expect(await owner.getArtworkValues("piece-1")).to.deep.eq(registered);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, registered.valuation, owner.address, deployer)).to.eq(300_000_00n);
+
+    await expect(outsider.registerArtworkValues("piece-1", 1n, 1n)).to.be.rejectedWith(NotArtworkOwnerError);
+  });
+
+  it("offers an artwork and hands the cost basis over once the recipient accepts", async function () {
+    const [, alice] = await ethers.getSigners();
+    await expect(owner.offerTransfer("piece-1", alice.address)).to.be.rejectedWith(NotArtworkOwnerError);
+    await registerPieces();
+    const offerId = await owner.offerTransfer("piece-1", alice.address);
+    await expect(owner.acceptTransfer(offerId)).to.be.rejectedWith(NotTransferPartyError);
+
+    await outsider.acceptTransfer(offerId);
+    const offer = await outsider.getTransferOffer(offerId);
+    expect(offer).to.include({ artId: "piece-1", to: alice.address, pending: false });
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, offer.costBasis, owner.address, alice)).to.eq(250_000_00n);
+    await expect(owner.cancelTransfer(offerId)).to.be.rejectedWith(TransferNotPendingError);
+    expect((await owner.getArtworkValues("piece-1")).owner).to.eq(alice.address);
+  });
+
+  it("runs a sealed-bid auction and waits for the revealed winner", async function () {
+    const [, alice] = await ethers.getSigners();
+    await registerPieces();
+    const auctionId = await owner.createAuction("piece-1", BigInt(await time.latest()) + 600n);
+    await outsider.placeBid(auctionId, 42_000_00n);
+    await expect(outsider.placeBid(auctionId, 1n)).to.be.rejectedWith(AlreadyBidError);
+    await expect(owner.closeAuction(auctionId)).to.be.rejectedWith(AuctionNotEndedError);
+
+    await time.increase(600);
+    const requestId = await owner.closeAuction(auctionId);
+    expect(requestId).to.be.a("bigint");
+    await fhevm.awaitDecryptionOracle();
+    const result = await owner.waitForAuctionSettlement(requestId!);
+    expect(result).to.include({ auctionId, winner: alice.address, winningBid: 42_000_00n });
+    expect((await owner.getAuction(auctionId)).settled).to.eq(true);
+  });
+
+  it("requests an appraisal and receives the signed figure as the owner", async function () {
+    const [deployer, alice] = await ethers.getSigners();
+    await owner.contract.addProvider(alice.address);
+    const appraisalId = await owner.requestAppraisal("piece-1", alice.address);
+    await expect(owner.acceptAppraisal(appraisalId)).to.be.rejectedWith(NotAppraisalPartyError);
+    await outsider.acceptAppraisal(appraisalId);
+
+    const reportHash = ethers.id("report");
+    await outsider.deliverAppraisal(appraisalId, 310_000_00n, reportHash);
+    const appraisal = await owner.getAppraisal(appraisalId);
+    expect(appraisal).to.include({ artId: "piece-1", appraiser: alice.address, status: "delivered", reportHash });
+    const digest = await owner.contract.appraisalDigest(appraisalId, appraisal.valuation, reportHash);
+    expect(ethers.verifyMessage(ethers.getBytes(digest), appraisal.signature)).to.eq(alice.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, appraisal.valuation, owner.address, deployer)).to.eq(310_000_00n);
+
+    await owner.disputeAppraisal(appraisalId, "comparables disagree");
+    expect((await owner.getAppraisal(appraisalId)).status).to.eq("disputed");
+    await expect(owner.disputeAppraisal(appraisalId, "again")).to.be.rejectedWith(InvalidAppraisalStateError);
+  });
+
+  it("grants a time-limited disclosure the grantee can read until it is revoked", async function () {
+    await registerPieces();
+    const [, alice] = await ethers.getSigners();
+    const expiresAt = BigInt(await time.latest()) + 3_600n;
+    const [costBasisGrant, valuationGrant] = await owner.grantDisclosures(
+      alice.address,
+      [
+        { artId: "piece-1", field: "costBasis", amount: 250_000_00n },
+        { artId: "piece-1", field: "valuation", amount: 300_000_00n },
+      ],
+      expiresAt,
+    );
+    expect(await owner.getDisclosureGrant(valuationGrant)).to.include({ field: "valuation", grantee: alice.address });
+
+    const handle = await outsider.accessDisclosure(costBasisGrant);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, handle, owner.address, alice)).to.eq(250_000_00n);
+    expect((await owner.getDisclosureGrant(costBasisGrant)).accessCount).to.eq(1n);
+
+    await owner.revokeDisclosure(valuationGrant);
+    await expect(outsider.accessDisclosure(valuationGrant)).to.be.rejectedWith(DisclosureInactiveError);
+  });
+
+  it("discloses an insurance schedule the insurer reads in one access", async function () {
+    await registerPieces();
+    const [, insurer] = await ethers.getSigners();
+    const grantIds = await owner.grantDisclosures(
+      insurer.address,
+      [
+        { artId: "piece-1", field: "insuredValue", amount: 400_000_00n },
+        { artId: "piece-2", field: "insuredValue", amount: 90_000_00n },
+      ],
+      BigInt(await time.latest()) + 3_600n,
+    );
+    expect(await owner.getDisclosureGrant(grantIds[1])).to.include({ field: "insuredValue", artId: "piece-2" });
+
+    const handles = await outsider.accessDisclosures(grantIds);
+    expect(handles).to.have.length(2);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, handles[0], owner.address, insurer)).to.eq(400_000_00n);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, handles[1], owner.address, insurer)).to.eq(90_000_00n);
+  });
+});
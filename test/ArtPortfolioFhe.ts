@@ -0,0 +1,1227 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { ArtPortfolioFhe, ArtPortfolioFhe__factory } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const COOLDOWN_SECONDS = 60;
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("ArtPortfolioFhe")) as ArtPortfolioFhe__factory;
+  const contract = (await factory.deploy()) as ArtPortfolioFhe;
+  const contractAddress = await contract.getAddress();
+  return { contract, contractAddress };
+}
+
+describe("ArtPortfolioFhe", function () {
+  let signers: Signers;
+  let contract: ArtPortfolioFhe;
+  let contractAddress: string;
+
+  async function submit(signer: HardhatEthersSigner, value: number | bigint) {
+    const input = await fhevm.createEncryptedInput(contractAddress, signer.address).add64(value).encrypt();
+    return contract.connect(signer).submitPortfolioValue(input.handles[0], input.inputProof);
+  }
+
+  async function requestDecryption(batchId: bigint, signer: HardhatEthersSigner = signers.deployer) {
+    const tx = await contract.connect(signer).requestBatchValueDecryption(batchId);
+    const receipt = await tx.wait();
+    const event = receipt!.logs
+      .map((log) => contract.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "DecryptionRequested");
+    return event!.args.requestId as bigint;
+  }
+
+  // A sole contributor reads their batch total through a user decryption, never a public one
+  async function decryptOwnTotal(batchId: bigint, signer: HardhatEthersSigner) {
+    await contract.connect(signer).allowBatchTotal(batchId);
+    const [total, overflowed] = await Promise.all([contract.portfolioValues(batchId), contract.batchOverflowed(batchId)]);
+    return {
+      totalValue: await fhevm.userDecryptEuint(FhevmType.euint64, total, contractAddress, signer),
+      overflowed: await fhevm.userDecryptEbool(overflowed, contractAddress, signer),
+    };
+  }
+
+  async function requestWealthProof(batchId: bigint, threshold: number | bigint, signer: HardhatEthersSigner) {
+    const tx = await contract.connect(signer).requestWealthProof(batchId, threshold);
+    const receipt = await tx.wait();
+    const event = receipt!.logs
+      .map((log) => contract.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "WealthProofRequested");
+    return event!.args.requestId as bigint;
+  }
+
+  async function register(from: HardhatEthersSigner, artId: string, costBasis = 1_000, valuation = 1_000) {
+    const input = await fhevm
+      .createEncryptedInput(contractAddress, from.address)
+      .add64(costBasis)
+      .add64(valuation)
+      .encrypt();
+    return contract.connect(from).registerArtworkValues(artId, input.handles[0], input.handles[1], input.inputProof);
+  }
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    // The encrypted inputs and decryption oracle used here only exist in the fhevm mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ contract, contractAddress } = await deployFixture());
+  });
+
+  describe("deployment", function () {
+    it("makes the deployer owner and provider with a closed first batch", async function () {
+      expect(await contract.owner()).to.eq(signers.deployer.address);
+      expect(await contract.isProvider(signers.deployer.address)).to.eq(true);
+      expect(await contract.cooldownSeconds()).to.eq(COOLDOWN_SECONDS);
+      expect(await contract.currentBatchId()).to.eq(1);
+      expect(await contract.batchOpen()).to.eq(false);
+      expect(await contract.paused()).to.eq(false);
+    });
+  });
+
+  describe("provider management", function () {
+    it("lets the owner add and remove providers", async function () {
+      await expect(contract.addProvider(signers.alice.address))
+        .to.emit(contract, "ProviderAdded")
+        .withArgs(signers.alice.address);
+      expect(await contract.isProvider(signers.alice.address)).to.eq(true);
+
+      await expect(contract.removeProvider(signers.alice.address))
+        .to.emit(contract, "ProviderRemoved")
+        .withArgs(signers.alice.address);
+      expect(await contract.isProvider(signers.alice.address)).to.eq(false);
+    });
+
+    it("does not emit again for providers that are already in the requested state", async function () {
+      await contract.addProvider(signers.alice.address);
+      await expect(contract.addProvider(signers.alice.address)).not.to.emit(contract, "ProviderAdded");
+      await expect(contract.removeProvider(signers.bob.address)).not.to.emit(contract, "ProviderRemoved");
+    });
+
+    it("rejects provider changes from non-owners", async function () {
+      await expect(contract.connect(signers.alice).addProvider(signers.bob.address)).to.be.revertedWithCustomError(
+        contract,
+        "NotOwner",
+      );
+      await expect(
+        contract.connect(signers.alice).removeProvider(signers.deployer.address),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+    });
+
+    it("rejects submissions from non-providers", async function () {
+      await contract.openBatch();
+      await expect(submit(signers.alice, 10)).to.be.revertedWithCustomError(contract, "NotProvider");
+    });
+  });
+
+  describe("authenticator management", function () {
+    it("lets the owner add and remove authenticators", async function () {
+      expect(await contract.isAuthenticator(signers.deployer.address)).to.eq(false);
+      await expect(contract.addAuthenticator(signers.alice.address))
+        .to.emit(contract, "AuthenticatorAdded")
+        .withArgs(signers.alice.address);
+      expect(await contract.isAuthenticator(signers.alice.address)).to.eq(true);
+      await expect(contract.addAuthenticator(signers.alice.address)).not.to.emit(contract, "AuthenticatorAdded");
+
+      await expect(contract.removeAuthenticator(signers.alice.address))
+        .to.emit(contract, "AuthenticatorRemoved")
+        .withArgs(signers.alice.address);
+      expect(await contract.isAuthenticator(signers.alice.address)).to.eq(false);
+    });
+
+    it("rejects authenticator changes from non-owners", async function () {
+      await expect(
+        contract.connect(signers.alice).addAuthenticator(signers.alice.address),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(
+        contract.connect(signers.alice).removeAuthenticator(signers.bob.address),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+    });
+
+    it("records reviews from authenticators only", async function () {
+      await contract.addAuthenticator(signers.alice.address);
+      await expect(contract.connect(signers.alice).reviewArtwork("art-1", true))
+        .to.emit(contract, "ArtworkReviewed")
+        .withArgs(signers.alice.address, "art-1", true);
+
+      await expect(contract.connect(signers.bob).reviewArtwork("art-1", false)).to.be.revertedWithCustomError(
+        contract,
+        "NotAuthenticator",
+      );
+      await expect(contract.connect(signers.alice).reviewArtwork("", true)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidParameter",
+      );
+
+      await contract.pause();
+      await expect(contract.connect(signers.alice).reviewArtwork("art-1", true)).to.be.revertedWithCustomError(
+        contract,
+        "Paused",
+      );
+    });
+
+    it("refuses a review by the authenticator the artwork is registered to", async function () {
+      await contract.addAuthenticator(signers.alice.address);
+      await contract.addAuthenticator(signers.bob.address);
+      await register(signers.alice, "art-1");
+
+      await expect(contract.connect(signers.alice).reviewArtwork("art-1", true)).to.be.revertedWithCustomError(
+        contract,
+        "SelfReview",
+      );
+      await expect(contract.connect(signers.bob).reviewArtwork("art-1", true))
+        .to.emit(contract, "ArtworkReviewed")
+        .withArgs(signers.bob.address, "art-1", true);
+    });
+  });
+
+  describe("pause", function () {
+    it("pauses and unpauses", async function () {
+      await expect(contract.pause()).to.emit(contract, "ContractPaused").withArgs(signers.deployer.address);
+      expect(await contract.paused()).to.eq(true);
+      await expect(contract.unpause()).to.emit(contract, "ContractUnpaused").withArgs(signers.deployer.address);
+      expect(await contract.paused()).to.eq(false);
+    });
+
+    it("rejects pausing twice and pausing by non-owners", async function () {
+      await expect(contract.connect(signers.alice).pause()).to.be.revertedWithCustomError(contract, "NotOwner");
+      await contract.pause();
+      await expect(contract.pause()).to.be.revertedWithCustomError(contract, "Paused");
+      await expect(contract.connect(signers.alice).unpause()).to.be.revertedWithCustomError(contract, "NotOwner");
+    });
+
+    it("blocks batch operations, submissions and decryption requests while paused", async function () {
+      await contract.openBatch();
+      await submit(signers.deployer, 10);
+      await contract.pause();
+
+      await expect(contract.openBatch()).to.be.revertedWithCustomError(contract, "Paused");
+      await expect(contract.closeBatch()).to.be.revertedWithCustomError(contract, "Paused");
+      await time.increase(COOLDOWN_SECONDS);
+      await expect(submit(signers.deployer, 10)).to.be.revertedWithCustomError(contract, "Paused");
+      await expect(contract.requestBatchValueDecryption(1)).to.be.revertedWithCustomError(contract, "Paused");
+
+      await contract.unpause();
+      await expect(submit(signers.deployer, 10)).not.to.be.reverted;
+    });
+  });
+
+  describe("cooldown", function () {
+    beforeEach(async function () {
+      await contract.openBatch();
+    });
+
+    it("lets the owner change the cooldown but not to zero", async function () {
+      await expect(contract.setCooldownSeconds(120)).to.emit(contract, "CooldownChanged").withArgs(COOLDOWN_SECONDS, 120);
+      expect(await contract.cooldownSeconds()).to.eq(120);
+      await expect(contract.setCooldownSeconds(0)).to.be.revertedWithCustomError(contract, "InvalidParameter");
+      await expect(contract.connect(signers.alice).setCooldownSeconds(10)).to.be.revertedWithCustomError(
+        contract,
+        "NotOwner",
+      );
+    });
+
+    it("enforces the cooldown between submissions of the same provider", async function () {
+      await contract.addProvider(signers.alice.address);
+      await submit(signers.deployer, 10);
+
+      await expect(submit(signers.deployer, 10)).to.be.revertedWithCustomError(contract, "CooldownActive");
+      // Other providers are tracked separately
+      await expect(submit(signers.alice, 10)).not.to.be.reverted;
+
+      await time.increase(COOLDOWN_SECONDS);
+      await expect(submit(signers.deployer, 10)).not.to.be.reverted;
+    });
+
+    it("enforces the cooldown between decryption requests of the same caller", async function () {
+      await contract.addProvider(signers.alice.address);
+      await submit(signers.deployer, 10);
+      await submit(signers.alice, 10);
+      await requestDecryption(1n);
+
+      await expect(contract.requestBatchValueDecryption(1)).to.be.revertedWithCustomError(contract, "CooldownActive");
+      await expect(contract.connect(signers.alice).requestBatchValueDecryption(1)).not.to.be.reverted;
+
+      await time.increase(COOLDOWN_SECONDS);
+      await expect(contract.requestBatchValueDecryption(1)).not.to.be.reverted;
+    });
+  });
+
+  describe("batches", function () {
+    it("opens and closes the current batch", async function () {
+      await expect(contract.openBatch()).to.emit(contract, "BatchOpened").withArgs(1);
+      expect(await contract.batchOpen()).to.eq(true);
+      await expect(contract.closeBatch()).to.emit(contract, "BatchSealed").withArgs(1);
+      expect(await contract.batchOpen()).to.eq(false);
+      expect(await contract.currentBatchId()).to.eq(1);
+    });
+
+    it("starts a new batch when opening while a batch is already open", async function () {
+      await contract.openBatch();
+      await expect(contract.openBatch()).to.emit(contract, "BatchOpened").withArgs(2);
+      expect(await contract.currentBatchId()).to.eq(2);
+      expect(await contract.batchOpen()).to.eq(true);
+    });
+
+    it("reopens the same batch id after it was closed", async function () {
+      await contract.openBatch();
+      await contract.closeBatch();
+      await expect(contract.openBatch()).to.emit(contract, "BatchOpened").withArgs(1);
+    });
+
+    it("rejects closing when no batch is open", async function () {
+      await expect(contract.closeBatch()).to.be.revertedWithCustomError(contract, "BatchClosed");
+    });
+
+    it("rejects submissions when no batch is open", async function () {
+      await expect(submit(signers.deployer, 10)).to.be.revertedWithCustomError(contract, "BatchClosed");
+    });
+
+    it("restricts batch management to the owner", async function () {
+      await expect(contract.connect(signers.alice).openBatch()).to.be.revertedWithCustomError(contract, "NotOwner");
+      await contract.openBatch();
+      await expect(contract.connect(signers.alice).closeBatch()).to.be.revertedWithCustomError(contract, "NotOwner");
+    });
+  });
+
+  describe("encrypted aggregation", function () {
+    beforeEach(async function () {
+      await contract.addProvider(signers.alice.address);
+      await contract.addProvider(signers.bob.address);
+      await contract.openBatch();
+    });
+
+    it("adds every submission to the open batch total", async function () {
+      await expect(submit(signers.alice, 1_500)).to.emit(contract, "PortfolioSubmitted");
+      await submit(signers.bob, 2_250);
+      await time.increase(COOLDOWN_SECONDS);
+      await submit(signers.alice, 250);
+      await contract.closeBatch();
+
+      const requestId = await requestDecryption(1n);
+      await fhevm.awaitDecryptionOracle();
+
+      const [completed] = await contract.queryFilter(contract.filters.DecryptionCompleted(requestId));
+      expect(completed.args.batchId).to.eq(1);
+      expect(completed.args.totalValue).to.eq(4_000);
+      expect(completed.args.overflowed).to.eq(false);
+    });
+
+    it("carries cent amounts beyond the 32-bit range exactly", async function () {
+      // $45,000,000.01 and $1,234,567.89, both well past 2^32 cents
+      await submit(signers.alice, 4_500_000_001n);
+      await submit(signers.bob, 123_456_789n);
+
+      const requestId = await requestDecryption(1n);
+      await fhevm.awaitDecryptionOracle();
+
+      const [completed] = await contract.queryFilter(contract.filters.DecryptionCompleted(requestId));
+      expect(completed.args.totalValue).to.eq(4_623_456_790n);
+      expect(completed.args.overflowed).to.eq(false);
+    });
+
+    it("saturates the total and flags the batch instead of wrapping around", async function () {
+      const max = 2n ** 64n - 1n;
+      await submit(signers.alice, max - 5n);
+      await submit(signers.bob, 10);
+      await time.increase(COOLDOWN_SECONDS);
+      // Adding to a saturated total keeps it saturated
+      await submit(signers.alice, 3);
+
+      const requestId = await requestDecryption(1n);
+      await fhevm.awaitDecryptionOracle();
+
+      const [completed] = await contract.queryFilter(contract.filters.DecryptionCompleted(requestId));
+      expect(completed.args.totalValue).to.eq(max);
+      expect(completed.args.overflowed).to.eq(true);
+    });
+
+    it("keeps separate totals per batch", async function () {
+      await submit(signers.alice, 100);
+      await submit(signers.bob, 7);
+      await contract.openBatch();
+      await time.increase(COOLDOWN_SECONDS);
+      await submit(signers.alice, 3);
+      await submit(signers.bob, 4);
+
+      const firstRequest = await requestDecryption(1n);
+      const secondRequest = await requestDecryption(2n, signers.alice);
+      await fhevm.awaitDecryptionOracle();
+
+      const [first] = await contract.queryFilter(contract.filters.DecryptionCompleted(firstRequest));
+      const [second] = await contract.queryFilter(contract.filters.DecryptionCompleted(secondRequest));
+      expect(first.args.totalValue).to.eq(107);
+      expect(second.args.totalValue).to.eq(7);
+    });
+
+    it("refuses to publicly decrypt the total of a single contributor or for a non-provider", async function () {
+      await contract.removeProvider(signers.bob.address);
+      await submit(signers.alice, 1_500);
+      await expect(requestDecryption(1n, signers.alice)).to.be.revertedWithCustomError(contract, "PrivateBatch");
+      await expect(requestDecryption(1n)).to.be.revertedWithCustomError(contract, "PrivateBatch");
+      await expect(requestDecryption(1n, signers.bob)).to.be.revertedWithCustomError(contract, "NotProvider");
+
+      // A reserved batch only ever has its prover as contributor
+      await contract.openBatch();
+      await contract.connect(signers.alice).reserveBatch();
+      await time.increase(COOLDOWN_SECONDS);
+      await submit(signers.alice, 2_000);
+      await expect(requestDecryption(2n, signers.alice)).to.be.revertedWithCustomError(contract, "PrivateBatch");
+      expect(await contract.queryFilter(contract.filters.DecryptionRequested())).to.have.length(0);
+    });
+
+    it("rejects decryption of unknown or empty batches", async function () {
+      await expect(contract.requestBatchValueDecryption(0)).to.be.revertedWithCustomError(contract, "InvalidBatch");
+      await expect(contract.requestBatchValueDecryption(2)).to.be.revertedWithCustomError(contract, "InvalidBatch");
+      await expect(contract.requestBatchValueDecryption(1)).to.be.revertedWithCustomError(contract, "InvalidBatch");
+    });
+  });
+
+  describe("decryption callback", function () {
+    beforeEach(async function () {
+      await contract.addProvider(signers.alice.address);
+      await contract.openBatch();
+      await submit(signers.deployer, 40);
+      await submit(signers.alice, 2);
+    });
+
+    it("marks the request processed and rejects replays", async function () {
+      const requestId = await requestDecryption(1n);
+      await fhevm.awaitDecryptionOracle();
+
+      const context = await contract.decryptionContexts(requestId);
+      expect(context.processed).to.eq(true);
+      expect(context.batchId).to.eq(1);
+
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(["uint64", "bool"], [42, false]);
+      await expect(contract.myCallback(requestId, cleartexts, "0x")).to.be.revertedWithCustomError(
+        contract,
+        "ReplayAttempt",
+      );
+    });
+
+    it("rejects a callback once the batch total changed after the request", async function () {
+      const requestId = await requestDecryption(1n);
+      await time.increase(COOLDOWN_SECONDS);
+      await submit(signers.deployer, 1);
+
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(["uint64", "bool"], [43, false]);
+      await expect(contract.myCallback(requestId, cleartexts, "0x")).to.be.revertedWithCustomError(
+        contract,
+        "InvalidStateHash",
+      );
+      // The oracle's own delivery hits the same check; awaiting it also keeps the request out of later tests
+      await expect(fhevm.awaitDecryptionOracle()).to.be.rejected;
+    });
+
+    it("rejects a callback without valid KMS signatures", async function () {
+      const requestId = await requestDecryption(1n);
+
+      // Without a KMS proof the verifier rejects the result before the batch can be marked processed
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(["uint64", "bool"], [42, false]);
+      await expect(contract.myCallback(requestId, cleartexts, "0x")).to.be.reverted;
+      expect((await contract.decryptionContexts(requestId)).processed).to.eq(false);
+    });
+  });
+
+  describe("wealth proof", function () {
+    async function submitMany(signer: HardhatEthersSigner, values: (number | bigint)[]) {
+      const input = fhevm.createEncryptedInput(contractAddress, signer.address);
+      values.forEach((value) => input.add64(value));
+      const { handles, inputProof } = await input.encrypt();
+      return contract.connect(signer).submitPortfolioValues(handles, inputProof);
+    }
+
+    beforeEach(async function () {
+      await contract.addProvider(signers.alice.address);
+      await contract.addProvider(signers.bob.address);
+      await contract.openBatch();
+    });
+
+    it("adds every value of a multi-value submission to the batch", async function () {
+      await expect(submitMany(signers.alice, [1_000, 2_000, 500])).to.emit(contract, "PortfolioSubmitted");
+      expect(await contract.batchFirstContributor(1)).to.eq(signers.alice.address);
+      expect(await contract.batchHasMultipleContributors(1)).to.eq(false);
+
+      expect((await decryptOwnTotal(1n, signers.alice)).totalValue).to.eq(3_500n);
+    });
+
+    it("rejects empty multi-value submissions", async function () {
+      await expect(submitMany(signers.alice, [])).to.be.revertedWithCustomError(contract, "InvalidParameter");
+    });
+
+    it("reveals only whether the total meets the threshold", async function () {
+      await submitMany(signers.alice, [1_000, 2_000, 500]);
+
+      const metRequest = await requestWealthProof(1n, 3_500, signers.alice);
+      await time.increase(COOLDOWN_SECONDS);
+      const missedRequest = await requestWealthProof(1n, 3_501, signers.alice);
+      await fhevm.awaitDecryptionOracle();
+
+      const [met] = await contract.queryFilter(contract.filters.WealthProofCompleted(metRequest));
+      expect(met.args.batchId).to.eq(1);
+      expect(met.args.prover).to.eq(signers.alice.address);
+      expect(met.args.threshold).to.eq(3_500);
+      expect(met.args.meetsThreshold).to.eq(true);
+
+      const [missed] = await contract.queryFilter(contract.filters.WealthProofCompleted(missedRequest));
+      expect(missed.args.meetsThreshold).to.eq(false);
+      expect(await contract.queryFilter(contract.filters.DecryptionCompleted())).to.have.length(0);
+    });
+
+    it("still proves a threshold against a saturated total", async function () {
+      await submitMany(signers.alice, [2n ** 64n - 1n, 1]);
+
+      const requestId = await requestWealthProof(1n, 2n ** 63n, signers.alice);
+      await fhevm.awaitDecryptionOracle();
+
+      const [completed] = await contract.queryFilter(contract.filters.WealthProofCompleted(requestId));
+      expect(completed.args.meetsThreshold).to.eq(true);
+    });
+
+    it("only lets the sole contributor of a batch prove its total", async function () {
+      await submitMany(signers.alice, [1_000]);
+      await expect(requestWealthProof(1n, 1, signers.bob)).to.be.revertedWithCustomError(
+        contract,
+        "NotSoleContributor",
+      );
+
+      await submit(signers.bob, 5);
+      await expect(requestWealthProof(1n, 1, signers.alice)).to.be.revertedWithCustomError(
+        contract,
+        "NotSoleContributor",
+      );
+    });
+
+    it("keeps a reserved batch to its prover", async function () {
+      await expect(contract.connect(signers.alice).reserveBatch())
+        .to.emit(contract, "BatchReserved")
+        .withArgs(1, signers.alice.address);
+      expect(await contract.batchReservedFor(1)).to.eq(signers.alice.address);
+
+      await expect(contract.connect(signers.bob).reserveBatch()).to.be.revertedWithCustomError(
+        contract,
+        "BatchAlreadyReserved",
+      );
+      await expect(submit(signers.bob, 5)).to.be.revertedWithCustomError(contract, "BatchAlreadyReserved");
+
+      await submitMany(signers.alice, [1_000]);
+      const requestId = await requestWealthProof(1n, 1_000, signers.alice);
+      await fhevm.awaitDecryptionOracle();
+      const [completed] = await contract.queryFilter(contract.filters.WealthProofCompleted(requestId));
+      expect(completed.args.meetsThreshold).to.eq(true);
+    });
+
+    it("only reserves an open batch nobody has submitted to", async function () {
+      await submit(signers.bob, 5);
+      await expect(contract.connect(signers.alice).reserveBatch()).to.be.revertedWithCustomError(
+        contract,
+        "BatchAlreadyReserved",
+      );
+
+      await contract.closeBatch();
+      await expect(contract.connect(signers.alice).reserveBatch()).to.be.revertedWithCustomError(
+        contract,
+        "BatchClosed",
+      );
+    });
+
+    it("rejects proofs for unknown or empty batches and enforces the cooldown", async function () {
+      await expect(requestWealthProof(0n, 1, signers.alice)).to.be.revertedWithCustomError(contract, "InvalidBatch");
+      await expect(requestWealthProof(1n, 1, signers.alice)).to.be.revertedWithCustomError(contract, "InvalidBatch");
+
+      await submitMany(signers.alice, [10]);
+      await requestWealthProof(1n, 1, signers.alice);
+      await expect(requestWealthProof(1n, 1, signers.alice)).to.be.revertedWithCustomError(contract, "CooldownActive");
+    });
+
+    it("marks the proof processed and rejects replays", async function () {
+      await submitMany(signers.alice, [10]);
+      const requestId = await requestWealthProof(1n, 1, signers.alice);
+      await fhevm.awaitDecryptionOracle();
+
+      const context = await contract.wealthProofContexts(requestId);
+      expect(context.processed).to.eq(true);
+      expect(context.prover).to.eq(signers.alice.address);
+
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(["bool"], [true]);
+      await expect(contract.wealthProofCallback(requestId, cleartexts, "0x")).to.be.revertedWithCustomError(
+        contract,
+        "ReplayAttempt",
+      );
+    });
+  });
+
+  describe("currency conversion", function () {
+    async function submitConverted(signer: HardhatEthersSigner, values: (number | bigint)[], rates: bigint[]) {
+      const input = fhevm.createEncryptedInput(contractAddress, signer.address);
+      values.forEach((value) => input.add64(value));
+      const { handles, inputProof } = await input.encrypt();
+      return contract.connect(signer).submitConvertedPortfolioValues(handles, rates, inputProof);
+    }
+
+    beforeEach(async function () {
+      await contract.addProvider(signers.alice.address);
+      await contract.addProvider(signers.bob.address);
+      await contract.openBatch();
+    });
+
+    it("multiplies every value by its plaintext rate before adding it", async function () {
+      // EUR 1,000.00 at 1.08, GBP 500.50 at 1.27 and USD 20.00 at 1, all in cents
+      await expect(submitConverted(signers.alice, [100_000, 50_050, 2_000], [1_080_000n, 1_270_000n, 1_000_000n]))
+        .to.emit(contract, "PortfolioSubmitted");
+
+      // 108,000 + 63,563 (63,563.5 truncated) + 2,000
+      expect(await decryptOwnTotal(1n, signers.alice)).to.deep.eq({ totalValue: 173_563n, overflowed: false });
+    });
+
+    it("saturates and flags a conversion that overflows", async function () {
+      await submitConverted(signers.alice, [2n ** 62n], [4_000_000n]);
+
+      expect(await decryptOwnTotal(1n, signers.alice)).to.deep.eq({ totalValue: 2n ** 64n - 1n, overflowed: true });
+    });
+
+    it("rejects missing or zero rates", async function () {
+      await expect(submitConverted(signers.alice, [1, 2], [1_000_000n])).to.be.revertedWithCustomError(
+        contract,
+        "InvalidParameter",
+      );
+      await expect(submitConverted(signers.alice, [1], [0n])).to.be.revertedWithCustomError(contract, "InvalidParameter");
+    });
+
+    it("lets only the sole contributor decrypt the batch total", async function () {
+      await submitConverted(signers.alice, [10_000], [1_500_000n]);
+      await expect(contract.connect(signers.bob).allowBatchTotal(1)).to.be.revertedWithCustomError(
+        contract,
+        "NotSoleContributor",
+      );
+
+      await contract.connect(signers.alice).allowBatchTotal(1);
+      const total = await contract.portfolioValues(1);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, total, contractAddress, signers.alice)).to.eq(15_000n);
+      await expect(fhevm.userDecryptEuint(FhevmType.euint64, total, contractAddress, signers.bob)).to.be.rejected;
+
+      await expect(contract.connect(signers.alice).allowBatchTotal(2)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidBatch",
+      );
+    });
+  });
+
+  const artKey = (owner: string, artId: string) =>
+    ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["address", "string"], [owner, artId]));
+
+  describe("collateral bundles", function () {
+    async function fillBatch(signer: HardhatEthersSigner, values: number[]) {
+      const input = fhevm.createEncryptedInput(contractAddress, signer.address);
+      values.forEach((value) => input.add64(value));
+      const { handles, inputProof } = await input.encrypt();
+      await contract.connect(signer).submitPortfolioValues(handles, inputProof);
+    }
+
+    beforeEach(async function () {
+      await contract.addProvider(signers.alice.address);
+      await contract.addProvider(signers.bob.address);
+      await contract.openBatch();
+      for (const artId of ["a", "b", "c"]) await register(signers.alice, artId);
+    });
+
+    it("locks the pledged artworks and lets owner and lender decrypt value and LTV tier", async function () {
+      await fillBatch(signers.alice, [3_000, 1_000]);
+
+      await expect(contract.connect(signers.alice).createBundle(1, signers.bob.address, 2_000, ["a", "b"]))
+        .to.emit(contract, "BundleCreated")
+        .withArgs(1, signers.alice.address, signers.bob.address, 1, 2_000, ["a", "b"]);
+
+      const bundle = await contract.bundles(1);
+      expect(bundle.owner).to.eq(signers.alice.address);
+      expect(bundle.lender).to.eq(signers.bob.address);
+      expect(bundle.loanAmount).to.eq(2_000);
+      expect(bundle.active).to.eq(true);
+      expect(await contract.getBundleArtIds(1)).to.deep.eq(["a", "b"]);
+      expect(await contract.artworkBundle(artKey(signers.alice.address, "a"))).to.eq(1);
+
+      // 2,000 against 4,000 is a 50% LTV: under the 50%, 75% and 100% ceilings but not 25%
+      const tier = await fhevm.userDecryptEuint(FhevmType.euint8, bundle.ltvTier, contractAddress, signers.bob);
+      expect(tier).to.eq(3n);
+      const value = await fhevm.userDecryptEuint(FhevmType.euint64, bundle.value, contractAddress, signers.alice);
+      expect(value).to.eq(4_000n);
+    });
+
+    it("reports tier 0 when the loan exceeds the collateral", async function () {
+      await fillBatch(signers.alice, [1_000]);
+      await contract.connect(signers.alice).createBundle(1, signers.bob.address, 1_001, ["a"]);
+
+      const bundle = await contract.bundles(1);
+      const tier = await fhevm.userDecryptEuint(FhevmType.euint8, bundle.ltvTier, contractAddress, signers.bob);
+      expect(tier).to.eq(0n);
+    });
+
+    it("rejects artworks that are already pledged and batches with other contributors", async function () {
+      await fillBatch(signers.alice, [1_000]);
+      await contract.connect(signers.alice).createBundle(1, signers.bob.address, 100, ["a"]);
+      await expect(
+        contract.connect(signers.alice).createBundle(1, signers.bob.address, 100, ["b", "a"]),
+      ).to.be.revertedWithCustomError(contract, "ArtworkLocked");
+
+      await contract.openBatch();
+      await fillBatch(signers.bob, [5]);
+      await expect(
+        contract.connect(signers.alice).createBundle(2, signers.bob.address, 100, ["c"]),
+      ).to.be.revertedWithCustomError(contract, "NotSoleContributor");
+    });
+
+    it("only pledges artworks registered to the caller", async function () {
+      await fillBatch(signers.bob, [1_000]);
+      await expect(
+        contract.connect(signers.bob).createBundle(1, signers.alice.address, 100, ["a"]),
+      ).to.be.revertedWithCustomError(contract, "NotArtworkOwner");
+      await expect(
+        contract.connect(signers.bob).createBundle(1, signers.alice.address, 100, ["unregistered"]),
+      ).to.be.revertedWithCustomError(contract, "NotArtworkOwner");
+    });
+
+    it("rejects bundles without artworks, loan or a distinct lender", async function () {
+      await fillBatch(signers.alice, [1_000]);
+      const alice = contract.connect(signers.alice);
+      await expect(alice.createBundle(1, signers.bob.address, 100, [])).to.be.revertedWithCustomError(
+        contract,
+        "InvalidParameter",
+      );
+      await expect(alice.createBundle(1, signers.bob.address, 0, ["a"])).to.be.revertedWithCustomError(
+        contract,
+        "InvalidParameter",
+      );
+      await expect(alice.createBundle(1, signers.alice.address, 100, ["a"])).to.be.revertedWithCustomError(
+        contract,
+        "InvalidParameter",
+      );
+      await expect(alice.createBundle(2, signers.bob.address, 100, ["a"])).to.be.revertedWithCustomError(
+        contract,
+        "InvalidBatch",
+      );
+    });
+
+    it("lets only the lender release the bundle, which unlocks its artworks", async function () {
+      await fillBatch(signers.alice, [1_000]);
+      await contract.connect(signers.alice).createBundle(1, signers.bob.address, 100, ["a", "b"]);
+
+      await expect(contract.connect(signers.alice).releaseBundle(1)).to.be.revertedWithCustomError(
+        contract,
+        "NotLender",
+      );
+      await expect(contract.connect(signers.bob).releaseBundle(1))
+        .to.emit(contract, "BundleReleased")
+        .withArgs(1, signers.alice.address, signers.bob.address);
+
+      expect((await contract.bundles(1)).active).to.eq(false);
+      expect(await contract.artworkBundle(artKey(signers.alice.address, "a"))).to.eq(0);
+      await expect(contract.connect(signers.bob).releaseBundle(1)).to.be.revertedWithCustomError(
+        contract,
+        "BundleNotActive",
+      );
+      await expect(contract.connect(signers.alice).createBundle(1, signers.bob.address, 100, ["a"])).not.to.be
+        .reverted;
+    });
+  });
+
+  describe("artwork values", function () {
+    it("takes in both amounts and lets only the registering owner decrypt them", async function () {
+      await expect(register(signers.alice, "a", 1_234_500, 1_500_000))
+        .to.emit(contract, "ArtworkValuesRegistered")
+        .withArgs(signers.alice.address, "a", anyValue, anyValue);
+
+      const values = await contract.artworkValues(ethers.id("a"));
+      expect(values.owner).to.eq(signers.alice.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, values.costBasis, contractAddress, signers.alice)).to.eq(
+        1_234_500n,
+      );
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, values.valuation, contractAddress, signers.alice)).to.eq(
+        1_500_000n,
+      );
+      await expect(fhevm.userDecryptEuint(FhevmType.euint64, values.valuation, contractAddress, signers.bob)).to.be
+        .rejected;
+    });
+
+    it("lets the owner replace the amounts and nobody else", async function () {
+      await register(signers.alice, "a", 100, 100);
+      await expect(register(signers.bob, "a", 1, 1)).to.be.revertedWithCustomError(contract, "NotArtworkOwner");
+
+      await register(signers.alice, "a", 100, 250);
+      const values = await contract.artworkValues(ethers.id("a"));
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, values.valuation, contractAddress, signers.alice)).to.eq(250n);
+    });
+
+    it("rejects an empty artwork id", async function () {
+      await expect(register(signers.alice, "", 1, 1)).to.be.revertedWithCustomError(contract, "InvalidParameter");
+    });
+  });
+
+  describe("ownership transfer", function () {
+    async function offer(from: HardhatEthersSigner, artId: string, to: string) {
+      return contract.connect(from).offerTransfer(artId, to);
+    }
+
+    beforeEach(async function () {
+      await register(signers.alice, "a", 1_234_500, 1_500_000);
+      await register(signers.alice, "pledged");
+      await register(signers.alice, "offered");
+    });
+
+    it("hands the registered cost basis, valuation and ownership to the recipient once they accept", async function () {
+      await expect(offer(signers.alice, "a", signers.bob.address))
+        .to.emit(contract, "TransferOffered")
+        .withArgs(1, signers.alice.address, signers.bob.address, "a");
+      expect(await contract.artworkTransferOffer(artKey(signers.alice.address, "a"))).to.eq(1);
+
+      const pending = await contract.transferOffers(1);
+      expect(pending.pending).to.eq(true);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, pending.costBasis, contractAddress, signers.alice)).to.eq(
+        1_234_500n,
+      );
+      await expect(fhevm.userDecryptEuint(FhevmType.euint64, pending.costBasis, contractAddress, signers.bob)).to.be
+        .rejected;
+
+      await expect(contract.connect(signers.alice).acceptTransfer(1)).to.be.revertedWithCustomError(
+        contract,
+        "NotTransferParty",
+      );
+      await expect(contract.connect(signers.bob).acceptTransfer(1))
+        .to.emit(contract, "TransferAccepted")
+        .withArgs(1, signers.alice.address, signers.bob.address, "a");
+
+      const accepted = await contract.transferOffers(1);
+      expect(accepted.pending).to.eq(false);
+      expect(await contract.artworkTransferOffer(artKey(signers.alice.address, "a"))).to.eq(0);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, accepted.costBasis, contractAddress, signers.bob)).to.eq(
+        1_234_500n,
+      );
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, accepted.valuation, contractAddress, signers.bob)).to.eq(
+        1_500_000n,
+      );
+      await expect(contract.connect(signers.bob).acceptTransfer(1)).to.be.revertedWithCustomError(
+        contract,
+        "TransferNotPending",
+      );
+
+      const values = await contract.artworkValues(ethers.id("a"));
+      expect(values.owner).to.eq(signers.bob.address);
+      expect(values.valuation).to.eq(accepted.valuation);
+      await expect(offer(signers.alice, "a", signers.deployer.address)).to.be.revertedWithCustomError(
+        contract,
+        "NotArtworkOwner",
+      );
+      await expect(offer(signers.bob, "a", signers.deployer.address)).not.to.be.reverted;
+    });
+
+    it("only offers artworks registered to the caller", async function () {
+      await expect(offer(signers.bob, "a", signers.deployer.address)).to.be.revertedWithCustomError(
+        contract,
+        "NotArtworkOwner",
+      );
+      await expect(offer(signers.alice, "unregistered", signers.bob.address)).to.be.revertedWithCustomError(
+        contract,
+        "NotArtworkOwner",
+      );
+    });
+
+    it("lets either party cancel a pending offer and nobody else", async function () {
+      await offer(signers.alice, "a", signers.bob.address);
+      await expect(contract.cancelTransfer(1)).to.be.revertedWithCustomError(contract, "NotTransferParty");
+      await expect(contract.connect(signers.bob).cancelTransfer(1))
+        .to.emit(contract, "TransferCancelled")
+        .withArgs(1, signers.alice.address, signers.bob.address, signers.bob.address);
+      await expect(contract.connect(signers.bob).acceptTransfer(1)).to.be.revertedWithCustomError(
+        contract,
+        "TransferNotPending",
+      );
+
+      await expect(offer(signers.alice, "a", signers.bob.address)).not.to.be.reverted;
+      await expect(contract.connect(signers.alice).cancelTransfer(2))
+        .to.emit(contract, "TransferCancelled")
+        .withArgs(2, signers.alice.address, signers.bob.address, signers.alice.address);
+    });
+
+    it("keeps pledged artworks and artworks with a pending offer from being offered or pledged", async function () {
+      await contract.addProvider(signers.alice.address);
+      await contract.openBatch();
+      const input = await fhevm.createEncryptedInput(contractAddress, signers.alice.address).add64(1_000).encrypt();
+      await contract.connect(signers.alice).submitPortfolioValues([input.handles[0]], input.inputProof);
+      await contract.connect(signers.alice).createBundle(1, signers.bob.address, 100, ["pledged"]);
+
+      await expect(offer(signers.alice, "pledged", signers.bob.address)).to.be.revertedWithCustomError(
+        contract,
+        "ArtworkLocked",
+      );
+      await offer(signers.alice, "offered", signers.bob.address);
+      await expect(offer(signers.alice, "offered", signers.deployer.address)).to.be.revertedWithCustomError(
+        contract,
+        "ArtworkLocked",
+      );
+      await expect(
+        contract.connect(signers.alice).createBundle(1, signers.bob.address, 100, ["offered"]),
+      ).to.be.revertedWithCustomError(contract, "ArtworkLocked");
+    });
+
+    it("rejects offers without an artwork or a distinct recipient", async function () {
+      await expect(offer(signers.alice, "", signers.bob.address)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidParameter",
+      );
+      await expect(offer(signers.alice, "a", signers.alice.address)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidParameter",
+      );
+      await expect(offer(signers.alice, "a", ethers.ZeroAddress)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidParameter",
+      );
+    });
+  });
+
+  describe("sealed-bid auctions", function () {
+    const DURATION = 3_600;
+
+    async function listArtwork(artId = "a") {
+      const endTime = (await time.latest()) + DURATION;
+      await contract.createAuction(artId, endTime);
+      return endTime;
+    }
+
+    beforeEach(async function () {
+      await register(signers.deployer, "a");
+    });
+
+    async function bid(bidder: HardhatEthersSigner, amount: number, auctionId = 1) {
+      const input = await fhevm.createEncryptedInput(contractAddress, bidder.address).add64(amount).encrypt();
+      return contract.connect(bidder).placeBid(auctionId, input.handles[0], input.inputProof);
+    }
+
+    it("reveals only the highest bid and its bidder after the auction ended", async function () {
+      const endTime = await listArtwork();
+      await expect(bid(signers.alice, 50_000)).to.emit(contract, "BidPlaced").withArgs(1, signers.alice.address);
+      await bid(signers.bob, 90_000);
+
+      await expect(contract.closeAuction(1)).to.be.revertedWithCustomError(contract, "AuctionNotEnded");
+      await time.increaseTo(endTime);
+      await expect(contract.connect(signers.alice).closeAuction(1)).to.emit(contract, "AuctionClosed");
+      await fhevm.awaitDecryptionOracle();
+
+      const auction = await contract.auctions(1);
+      expect(auction.settled).to.eq(true);
+      expect(auction.winner).to.eq(signers.bob.address);
+      expect(auction.winningBid).to.eq(90_000n);
+      expect(await contract.artworkAuction(artKey(signers.deployer.address, "a"))).to.eq(0);
+
+      const settled = await contract.queryFilter(contract.filters.AuctionSettled(1));
+      expect(settled).to.have.length(1);
+      expect(settled[0].args.winner).to.eq(signers.bob.address);
+    });
+
+    it("lets bidders read their own bid and gives ties to the earlier bid", async function () {
+      const endTime = await listArtwork();
+      await bid(signers.alice, 70_000);
+      await bid(signers.bob, 70_000);
+
+      await expect(bid(signers.alice, 80_000)).to.be.revertedWithCustomError(contract, "AlreadyBid");
+      await expect(bid(signers.deployer, 80_000)).to.be.revertedWithCustomError(contract, "InvalidParameter");
+
+      await time.increaseTo(endTime);
+      await expect(bid(signers.deployer, 80_000)).to.be.revertedWithCustomError(contract, "AuctionNotOpen");
+      await contract.closeAuction(1);
+      await fhevm.awaitDecryptionOracle();
+      expect((await contract.auctions(1)).winner).to.eq(signers.alice.address);
+    });
+
+    it("gives the auction to the first bidder when every bid is 0", async function () {
+      const endTime = await listArtwork();
+      await bid(signers.alice, 0);
+      await bid(signers.bob, 0);
+
+      await time.increaseTo(endTime);
+      await contract.closeAuction(1);
+      await fhevm.awaitDecryptionOracle();
+      const auction = await contract.auctions(1);
+      expect(auction.winner).to.eq(signers.alice.address);
+      expect(auction.winningBid).to.eq(0n);
+    });
+
+    it("settles an auction without bids immediately and only once", async function () {
+      const endTime = await listArtwork();
+      await time.increaseTo(endTime);
+      await expect(contract.closeAuction(1))
+        .to.emit(contract, "AuctionSettled")
+        .withArgs(1, signers.deployer.address, ethers.ZeroAddress, 0);
+      await expect(contract.closeAuction(1)).to.be.revertedWithCustomError(contract, "AuctionNotOpen");
+      await expect(contract.closeAuction(2)).to.be.revertedWithCustomError(contract, "AuctionNotOpen");
+    });
+
+    it("locks the artwork while it is up for sale", async function () {
+      await listArtwork();
+      await expect(listArtwork()).to.be.revertedWithCustomError(contract, "ArtworkLocked");
+      await expect(contract.offerTransfer("a", signers.alice.address)).to.be.revertedWithCustomError(
+        contract,
+        "ArtworkLocked",
+      );
+
+      await expect(contract.createAuction("", (await time.latest()) + DURATION)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidParameter",
+      );
+      await expect(contract.createAuction("b", await time.latest())).to.be.revertedWithCustomError(
+        contract,
+        "InvalidParameter",
+      );
+      await expect(
+        contract.connect(signers.alice).createAuction("a", (await time.latest()) + DURATION),
+      ).to.be.revertedWithCustomError(contract, "NotArtworkOwner");
+    });
+  });
+
+  describe("appraisals", function () {
+    const REPORT_HASH = ethers.id("condition report");
+
+    async function requestFromAlice(artId = "a") {
+      await contract.addProvider(signers.alice.address);
+      return contract.connect(signers.bob).requestAppraisal(artId, signers.alice.address);
+    }
+
+    async function deliver(amount: number, reportHash = REPORT_HASH, signer: HardhatEthersSigner = signers.alice) {
+      const input = await fhevm.createEncryptedInput(contractAddress, signers.alice.address).add64(amount).encrypt();
+      const digest = await contract.appraisalDigest(1, input.handles[0], reportHash);
+      const signature = await signer.signMessage(ethers.getBytes(digest));
+      const tx = contract
+        .connect(signers.alice)
+        .deliverAppraisal(1, input.handles[0], input.inputProof, REPORT_HASH, signature);
+      return { tx, handle: ethers.hexlify(input.handles[0]), signature };
+    }
+
+    it("delivers a signed figure only the owner can decrypt", async function () {
+      await expect(requestFromAlice())
+        .to.emit(contract, "AppraisalRequested")
+        .withArgs(1, signers.bob.address, signers.alice.address, "a");
+      await expect(contract.acceptAppraisal(1)).to.be.revertedWithCustomError(contract, "NotAppraisalParty");
+      await expect(contract.connect(signers.alice).acceptAppraisal(1))
+        .to.emit(contract, "AppraisalAccepted")
+        .withArgs(1, signers.alice.address);
+
+      const { tx, handle, signature } = await deliver(4_250_000);
+      await expect(tx)
+        .to.emit(contract, "AppraisalDelivered")
+        .withArgs(1, signers.alice.address, handle, REPORT_HASH, signature);
+
+      const appraisal = await contract.appraisals(1);
+      expect(appraisal.status).to.eq(3);
+      expect(appraisal.valuation).to.eq(handle);
+      expect(appraisal.signature).to.eq(signature);
+      expect(appraisal.deliveredAt).to.eq(await time.latest());
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, appraisal.valuation, contractAddress, signers.bob)).to.eq(
+        4_250_000n,
+      );
+      await expect(fhevm.userDecryptEuint(FhevmType.euint64, appraisal.valuation, contractAddress, signers.alice)).to.be
+        .rejected;
+    });
+
+    it("rejects deliveries before acceptance and signatures over anything else", async function () {
+      await requestFromAlice();
+      await expect((await deliver(1_000)).tx).to.be.revertedWithCustomError(contract, "InvalidAppraisalState");
+      await contract.connect(signers.alice).acceptAppraisal(1);
+
+      await expect((await deliver(1_000, REPORT_HASH, signers.bob)).tx).to.be.revertedWithCustomError(
+        contract,
+        "InvalidSignature",
+      );
+      await expect((await deliver(1_000, ethers.id("another report"))).tx).to.be.revertedWithCustomError(
+        contract,
+        "InvalidSignature",
+      );
+      await expect((await deliver(1_000)).tx).not.to.be.reverted;
+    });
+
+    it("lets the owner dispute a delivery and the appraiser revise it", async function () {
+      await requestFromAlice();
+      await contract.connect(signers.alice).acceptAppraisal(1);
+      await expect(contract.connect(signers.bob).disputeAppraisal(1, "too low")).to.be.revertedWithCustomError(
+        contract,
+        "InvalidAppraisalState",
+      );
+      await (await deliver(1_000)).tx;
+
+      await expect(contract.connect(signers.alice).disputeAppraisal(1, "too low")).to.be.revertedWithCustomError(
+        contract,
+        "NotAppraisalParty",
+      );
+      await expect(contract.connect(signers.bob).disputeAppraisal(1, "too low"))
+        .to.emit(contract, "AppraisalDisputed")
+        .withArgs(1, signers.bob.address, "too low");
+      expect((await contract.appraisals(1)).status).to.eq(4);
+
+      await (await deliver(2_000)).tx;
+      const revised = await contract.appraisals(1);
+      expect(revised.status).to.eq(3);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, revised.valuation, contractAddress, signers.bob)).to.eq(
+        2_000n,
+      );
+    });
+
+    it("only lets owners ask registered providers other than themselves", async function () {
+      await expect(
+        contract.connect(signers.bob).requestAppraisal("a", signers.alice.address),
+      ).to.be.revertedWithCustomError(contract, "NotProvider");
+      await expect(contract.requestAppraisal("a", signers.deployer.address)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidParameter",
+      );
+
+      await requestFromAlice();
+      await contract.removeProvider(signers.alice.address);
+      await expect(contract.connect(signers.alice).acceptAppraisal(1)).to.be.revertedWithCustomError(
+        contract,
+        "NotProvider",
+      );
+    });
+  });
+
+  describe("selective disclosure", function () {
+    const COST_BASIS = 0;
+    const VALUATION = 1;
+    const INSURED_VALUE = 2;
+    const DAY = 24 * 60 * 60;
+
+    async function grant(artIds: string[], fields: number[], amounts: number[], expiresIn = DAY) {
+      const input = fhevm.createEncryptedInput(contractAddress, signers.alice.address);
+      amounts.forEach((amount) => input.add64(amount));
+      const { handles, inputProof } = await input.encrypt();
+      const expiresAt = (await time.latest()) + expiresIn;
+      return contract
+        .connect(signers.alice)
+        .grantDisclosures(signers.bob.address, artIds, fields, handles, inputProof, expiresAt);
+    }
+
+    beforeEach(async function () {
+      for (const artId of ["a", "b", "c"]) await register(signers.alice, artId);
+    });
+
+    async function access(grantId: number) {
+      await contract.connect(signers.bob).accessDisclosure(grantId);
+      return (await contract.disclosureGrants(grantId)).disclosed;
+    }
+
+    it("hands the grantee a readable copy of each granted field and logs every access", async function () {
+      await expect(grant(["a", "a"], [COST_BASIS, VALUATION], [1_000_000, 1_500_000]))
+        .to.emit(contract, "DisclosureGranted")
+        .withArgs(2, signers.alice.address, signers.bob.address, "a", VALUATION, anyValue);
+
+      const stored = await contract.disclosureGrants(2);
+      await expect(fhevm.userDecryptEuint(FhevmType.euint64, stored.value, contractAddress, signers.bob)).to.be
+        .rejected;
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, stored.value, contractAddress, signers.alice)).to.eq(
+        1_500_000n,
+      );
+
+      await expect(contract.connect(signers.bob).accessDisclosure(2)).to.emit(contract, "DisclosureAccessed");
+      const disclosed = (await contract.disclosureGrants(2)).disclosed;
+      expect(disclosed).not.to.eq(stored.value);
+      expect(await contract.isDisclosedTo(2, signers.bob.address)).to.eq(true);
+      expect(await contract.isDisclosedTo(2, signers.deployer.address)).to.eq(false);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, disclosed, contractAddress, signers.bob)).to.eq(1_500_000n);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, await access(1), contractAddress, signers.bob)).to.eq(
+        1_000_000n,
+      );
+
+      expect((await contract.disclosureGrants(2)).accessCount).to.eq(1);
+      await access(2);
+      expect((await contract.disclosureGrants(2)).accessCount).to.eq(2);
+      expect(await contract.queryFilter(contract.filters.DisclosureAccessed(2))).to.have.length(2);
+      await expect(contract.accessDisclosure(2)).to.be.revertedWithCustomError(contract, "NotDisclosureParty");
+    });
+
+    it("stops handing out copies once the grant expires or is revoked", async function () {
+      await grant(["a", "b"], [VALUATION, VALUATION], [1_000, 2_000], 600);
+      const copy = await access(1);
+
+      await expect(contract.revokeDisclosure(1)).to.be.revertedWithCustomError(contract, "NotDisclosureParty");
+      await expect(contract.connect(signers.alice).revokeDisclosure(1))
+        .to.emit(contract, "DisclosureRevoked")
+        .withArgs(1, signers.alice.address, signers.bob.address);
+      await expect(contract.connect(signers.alice).revokeDisclosure(1)).to.be.revertedWithCustomError(
+        contract,
+        "DisclosureInactive",
+      );
+      await expect(contract.connect(signers.bob).accessDisclosure(1)).to.be.revertedWithCustomError(
+        contract,
+        "DisclosureInactive",
+      );
+      // ACL grants are permanent: what was disclosed before revocation stays readable
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, copy, contractAddress, signers.bob)).to.eq(1_000n);
+
+      await time.increase(600);
+      await expect(contract.connect(signers.bob).accessDisclosure(2)).to.be.revertedWithCustomError(
+        contract,
+        "DisclosureInactive",
+      );
+    });
+
+    it("hands out a whole insurance schedule in one access and fails it as a whole if any line is inactive", async function () {
+      await grant(["a", "b", "c"], [INSURED_VALUE, INSURED_VALUE, INSURED_VALUE], [500_000, 250_000, 75_000]);
+
+      const handles = await contract.connect(signers.bob).accessDisclosures.staticCall([1, 2, 3]);
+      await expect(contract.connect(signers.bob).accessDisclosures([1, 2, 3])).to.emit(contract, "DisclosureAccessed");
+      for (const [i, amount] of [500_000n, 250_000n, 75_000n].entries()) {
+        const disclosed = (await contract.disclosureGrants(i + 1)).disclosed;
+        expect(disclosed).to.eq(handles[i]);
+        expect(await fhevm.userDecryptEuint(FhevmType.euint64, disclosed, contractAddress, signers.bob)).to.eq(amount);
+      }
+
+      await contract.connect(signers.alice).revokeDisclosure(3);
+      await expect(contract.connect(signers.bob).accessDisclosures([1, 2, 3])).to.be.revertedWithCustomError(
+        contract,
+        "DisclosureInactive",
+      );
+      expect((await contract.disclosureGrants(1)).accessCount).to.eq(1);
+    });
+
+    it("rejects grants to nobody, to the owner, already expired or with mismatched lists", async function () {
+      const input = await fhevm.createEncryptedInput(contractAddress, signers.alice.address).add64(1).encrypt();
+      const expiresAt = (await time.latest()) + DAY;
+      const owner = contract.connect(signers.alice);
+      await expect(
+        owner.grantDisclosures(ethers.ZeroAddress, ["a"], [VALUATION], input.handles, input.inputProof, expiresAt),
+      ).to.be.revertedWithCustomError(contract, "InvalidParameter");
+      await expect(
+        owner.grantDisclosures(signers.alice.address, ["a"], [VALUATION], input.handles, input.inputProof, expiresAt),
+      ).to.be.revertedWithCustomError(contract, "InvalidParameter");
+      await expect(
+        owner.grantDisclosures(signers.bob.address, ["a"], [VALUATION], input.handles, input.inputProof, 1),
+      ).to.be.revertedWithCustomError(contract, "InvalidParameter");
+      await expect(
+        owner.grantDisclosures(signers.bob.address, ["a", "b"], [VALUATION], input.handles, input.inputProof, expiresAt),
+      ).to.be.revertedWithCustomError(contract, "InvalidParameter");
+      await expect(
+        owner.grantDisclosures(signers.bob.address, [""], [VALUATION], input.handles, input.inputProof, expiresAt),
+      ).to.be.revertedWithCustomError(contract, "InvalidParameter");
+    });
+
+    it("only discloses artworks registered to the caller", async function () {
+      await expect(grant(["a", "unregistered"], [VALUATION, VALUATION], [1, 2])).to.be.revertedWithCustomError(
+        contract,
+        "NotArtworkOwner",
+      );
+    });
+  });
+});
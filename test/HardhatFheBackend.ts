@@ -0,0 +1,119 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { TypedDataDomain, TypedDataField } from "ethers";
+import { ethers, fhevm, network } from "hardhat";
+import { JsonRpcServer } from "hardhat/internal/hardhat-network/jsonrpc/server";
+import { ArtPortfolioFhe, ArtPortfolioFhe__factory } from "../types";
+
+// The frontend's backend for `npm run dev:local`, pointed at this test network served over HTTP. It is browser
+// code (window, import.meta.env) the root tsconfig cannot check, so it is loaded by a path tsc does not follow
+// and typed with the part of its FheBackend interface used here; frontend/web type-checks the module itself.
+const HARDHAT_BACKEND_MODULE = "../frontend/web/src/fhe/hardhat";
+
+interface FheBackend {
+  readonly name: string;
+  encrypt64(
+    values: bigint[],
+    ctx: { contractAddress: string; userAddress: string },
+  ): Promise<{ handles: string[]; inputProof: string }>;
+  generateKeypair(): Promise<{ publicKey: string; privateKey: string }>;
+  createDecryptionTypedData(
+    publicKey: string,
+    contractAddresses: string[],
+    chainId: number,
+    startTimestamp: number,
+    durationDays: number,
+  ): Promise<{
+    domain: TypedDataDomain;
+    types: Record<string, TypedDataField[]>;
+    message: Record<string, unknown>;
+  }>;
+  userDecrypt(request: {
+    handles: { handle: string; contractAddress: string }[];
+    session: Record<string, unknown>;
+  }): Promise<Record<string, bigint>>;
+}
+
+describe("HardhatFheBackend", function () {
+  let server: JsonRpcServer;
+  let backend: FheBackend;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let contract: ArtPortfolioFhe;
+  let contractAddress: string;
+
+  async function decrypt(signer: HardhatEthersSigner, handles: string[]) {
+    const chainId = Number((await ethers.provider.getNetwork()).chainId);
+    const startTimestamp = Math.floor(Date.now() / 1000);
+    const keypair = await backend.generateKeypair();
+    const { domain, types, message } = await backend.createDecryptionTypedData(
+      keypair.publicKey,
+      [contractAddress],
+      chainId,
+      startTimestamp,
+      1,
+    );
+    return backend.userDecrypt({
+      handles: handles.map((handle) => ({ handle, contractAddress })),
+      session: {
+        backend: backend.name,
+        userAddress: signer.address,
+        chainId,
+        contractAddresses: [contractAddress],
+        startTimestamp,
+        durationDays: 1,
+        keypair,
+        signature: await signer.signTypedData(domain, types, message),
+      },
+    });
+  }
+
+  before(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    server = new JsonRpcServer({ hostname: "127.0.0.1", port: 0, provider: network.provider });
+    const { address, port } = await server.listen();
+    const { HardhatFheBackend } = await import(HARDHAT_BACKEND_MODULE);
+    backend = new HardhatFheBackend(`http://${address}:${port}`);
+  });
+
+  after(async function () {
+    await server?.close();
+  });
+
+  beforeEach(async function () {
+    [, alice, bob] = await ethers.getSigners();
+    const factory = (await ethers.getContractFactory("ArtPortfolioFhe")) as ArtPortfolioFhe__factory;
+    contract = (await factory.deploy()) as ArtPortfolioFhe;
+    contractAddress = await contract.getAddress();
+  });
+
+  it("decrypts amounts it encrypted once ArtPortfolioFhe has registered them", async function () {
+    const { handles, inputProof } = await backend.encrypt64([123_456n, 150_000n], {
+      contractAddress,
+      userAddress: alice.address,
+    });
+    await (await contract.connect(alice).registerArtworkValues("art-1", handles[0], handles[1], inputProof)).wait();
+    const registered = await contract.artworkValues(ethers.id("art-1"));
+
+    const results = await decrypt(alice, [registered.costBasis, registered.valuation]);
+    expect(results[registered.costBasis]).to.eq(123_456n);
+    expect(results[registered.valuation]).to.eq(150_000n);
+  });
+
+  it("refuses amounts that were encrypted but never registered", async function () {
+    const { handles } = await backend.encrypt64([42n], { contractAddress, userAddress: alice.address });
+    await expect(decrypt(alice, handles)).to.be.rejected;
+  });
+
+  it("refuses accounts the registered amounts were not allowed to", async function () {
+    const { handles, inputProof } = await backend.encrypt64([1n, 2n], { contractAddress, userAddress: alice.address });
+    await (await contract.connect(alice).registerArtworkValues("art-1", handles[0], handles[1], inputProof)).wait();
+    const registered = await contract.artworkValues(ethers.id("art-1"));
+
+    await expect(decrypt(bob, [registered.valuation])).to.be.rejected;
+  });
+});
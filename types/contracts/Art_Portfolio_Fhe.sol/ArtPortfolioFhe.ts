@@ -0,0 +1,2965 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface ArtPortfolioFheInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "AMOUNT_DECIMALS"
+      | "FX_RATE_DECIMALS"
+      | "acceptAppraisal"
+      | "acceptTransfer"
+      | "accessDisclosure"
+      | "accessDisclosures"
+      | "addAuthenticator"
+      | "addProvider"
+      | "allowBatchTotal"
+      | "appraisalCount"
+      | "appraisalDigest"
+      | "appraisals"
+      | "artworkAuction"
+      | "artworkBundle"
+      | "artworkTransferOffer"
+      | "artworkValues"
+      | "auctionCallback"
+      | "auctionCount"
+      | "auctionDecryptionContexts"
+      | "auctions"
+      | "batchFirstContributor"
+      | "batchHasMultipleContributors"
+      | "batchOpen"
+      | "batchOverflowed"
+      | "batchReservedFor"
+      | "bundleCount"
+      | "bundles"
+      | "cancelTransfer"
+      | "closeAuction"
+      | "closeBatch"
+      | "cooldownSeconds"
+      | "createAuction"
+      | "createBundle"
+      | "currentBatchId"
+      | "decryptionContexts"
+      | "deliverAppraisal"
+      | "disclosureGrantCount"
+      | "disclosureGrants"
+      | "disputeAppraisal"
+      | "getBundleArtIds"
+      | "grantDisclosures"
+      | "isAuthenticator"
+      | "isDisclosedTo"
+      | "isProvider"
+      | "lastDecryptionRequestTime"
+      | "lastSubmissionTime"
+      | "ltvTiersBps"
+      | "myCallback"
+      | "offerTransfer"
+      | "openBatch"
+      | "owner"
+      | "pause"
+      | "paused"
+      | "placeBid"
+      | "portfolioValues"
+      | "protocolId"
+      | "registerArtworkValues"
+      | "releaseBundle"
+      | "removeAuthenticator"
+      | "removeProvider"
+      | "requestAppraisal"
+      | "requestBatchValueDecryption"
+      | "requestWealthProof"
+      | "reserveBatch"
+      | "reviewArtwork"
+      | "revokeDisclosure"
+      | "setCooldownSeconds"
+      | "submitConvertedPortfolioValues"
+      | "submitPortfolioValue"
+      | "submitPortfolioValues"
+      | "transferOfferCount"
+      | "transferOffers"
+      | "unpause"
+      | "wealthProofCallback"
+      | "wealthProofContexts"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AppraisalAccepted"
+      | "AppraisalDelivered"
+      | "AppraisalDisputed"
+      | "AppraisalRequested"
+      | "ArtworkReviewed"
+      | "ArtworkValuesRegistered"
+      | "AuctionClosed"
+      | "AuctionCreated"
+      | "AuctionSettled"
+      | "AuthenticatorAdded"
+      | "AuthenticatorRemoved"
+      | "BatchOpened"
+      | "BatchReserved"
+      | "BatchSealed"
+      | "BidPlaced"
+      | "BundleCreated"
+      | "BundleReleased"
+      | "ContractPaused"
+      | "ContractUnpaused"
+      | "CooldownChanged"
+      | "DecryptionCompleted"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "DisclosureAccessed"
+      | "DisclosureGranted"
+      | "DisclosureRevoked"
+      | "PortfolioSubmitted"
+      | "ProviderAdded"
+      | "ProviderRemoved"
+      | "TransferAccepted"
+      | "TransferCancelled"
+      | "TransferOffered"
+      | "WealthProofCompleted"
+      | "WealthProofRequested"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "AMOUNT_DECIMALS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "FX_RATE_DECIMALS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptAppraisal",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptTransfer",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "accessDisclosure",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "accessDisclosures",
+    values: [BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addAuthenticator",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allowBatchTotal",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "appraisalCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "appraisalDigest",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "appraisals",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "artworkAuction",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "artworkBundle",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "artworkTransferOffer",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "artworkValues",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "auctionCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "auctionCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "auctionDecryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "auctions",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchFirstContributor",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchHasMultipleContributors",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "batchOpen", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "batchOverflowed",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchReservedFor",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "bundleCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "bundles",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelTransfer",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeAuction",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeBatch",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cooldownSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createAuction",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createBundle",
+    values: [BigNumberish, AddressLike, BigNumberish, string[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentBatchId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "deliverAppraisal",
+    values: [BigNumberish, BytesLike, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "disclosureGrantCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "disclosureGrants",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "disputeAppraisal",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBundleArtIds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantDisclosures",
+    values: [
+      AddressLike,
+      string[],
+      BigNumberish[],
+      BytesLike[],
+      BytesLike,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAuthenticator",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isDisclosedTo",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastDecryptionRequestTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastSubmissionTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "ltvTiersBps",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "myCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "offerTransfer",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "openBatch", values?: undefined): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "pause", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "placeBid",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "portfolioValues",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerArtworkValues",
+    values: [string, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "releaseBundle",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeAuthenticator",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestAppraisal",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestBatchValueDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestWealthProof",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reserveBatch",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reviewArtwork",
+    values: [string, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeDisclosure",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCooldownSeconds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitConvertedPortfolioValues",
+    values: [BytesLike[], BigNumberish[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitPortfolioValue",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitPortfolioValues",
+    values: [BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOfferCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOffers",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "wealthProofCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "wealthProofContexts",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "AMOUNT_DECIMALS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "FX_RATE_DECIMALS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptAppraisal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptTransfer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "accessDisclosure",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "accessDisclosures",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addAuthenticator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "allowBatchTotal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "appraisalCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "appraisalDigest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "appraisals", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "artworkAuction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "artworkBundle",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "artworkTransferOffer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "artworkValues",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "auctionCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "auctionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "auctionDecryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "auctions", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "batchFirstContributor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchHasMultipleContributors",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "batchOpen", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "batchOverflowed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchReservedFor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "bundleCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "bundles", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelTransfer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "closeAuction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "closeBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createAuction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createBundle",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentBatchId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "deliverAppraisal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "disclosureGrantCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "disclosureGrants",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "disputeAppraisal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBundleArtIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "grantDisclosures",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isAuthenticator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isDisclosedTo",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isProvider", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "lastDecryptionRequestTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastSubmissionTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "ltvTiersBps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "myCallback", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "offerTransfer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "openBatch", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "placeBid", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "portfolioValues",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "registerArtworkValues",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "releaseBundle",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeAuthenticator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestAppraisal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestBatchValueDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestWealthProof",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reserveBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reviewArtwork",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revokeDisclosure",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitConvertedPortfolioValues",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitPortfolioValue",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitPortfolioValues",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOfferCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOffers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "wealthProofCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "wealthProofContexts",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AppraisalAcceptedEvent {
+  export type InputTuple = [appraisalId: BigNumberish, appraiser: AddressLike];
+  export type OutputTuple = [appraisalId: bigint, appraiser: string];
+  export interface OutputObject {
+    appraisalId: bigint;
+    appraiser: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AppraisalDeliveredEvent {
+  export type InputTuple = [
+    appraisalId: BigNumberish,
+    appraiser: AddressLike,
+    valuation: BytesLike,
+    reportHash: BytesLike,
+    signature: BytesLike
+  ];
+  export type OutputTuple = [
+    appraisalId: bigint,
+    appraiser: string,
+    valuation: string,
+    reportHash: string,
+    signature: string
+  ];
+  export interface OutputObject {
+    appraisalId: bigint;
+    appraiser: string;
+    valuation: string;
+    reportHash: string;
+    signature: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AppraisalDisputedEvent {
+  export type InputTuple = [
+    appraisalId: BigNumberish,
+    owner: AddressLike,
+    reason: string
+  ];
+  export type OutputTuple = [
+    appraisalId: bigint,
+    owner: string,
+    reason: string
+  ];
+  export interface OutputObject {
+    appraisalId: bigint;
+    owner: string;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AppraisalRequestedEvent {
+  export type InputTuple = [
+    appraisalId: BigNumberish,
+    owner: AddressLike,
+    appraiser: AddressLike,
+    artId: string
+  ];
+  export type OutputTuple = [
+    appraisalId: bigint,
+    owner: string,
+    appraiser: string,
+    artId: string
+  ];
+  export interface OutputObject {
+    appraisalId: bigint;
+    owner: string;
+    appraiser: string;
+    artId: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ArtworkReviewedEvent {
+  export type InputTuple = [
+    authenticator: AddressLike,
+    artId: string,
+    authentic: boolean
+  ];
+  export type OutputTuple = [
+    authenticator: string,
+    artId: string,
+    authentic: boolean
+  ];
+  export interface OutputObject {
+    authenticator: string;
+    artId: string;
+    authentic: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ArtworkValuesRegisteredEvent {
+  export type InputTuple = [
+    owner: AddressLike,
+    artId: string,
+    costBasis: BytesLike,
+    valuation: BytesLike
+  ];
+  export type OutputTuple = [
+    owner: string,
+    artId: string,
+    costBasis: string,
+    valuation: string
+  ];
+  export interface OutputObject {
+    owner: string;
+    artId: string;
+    costBasis: string;
+    valuation: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuctionClosedEvent {
+  export type InputTuple = [auctionId: BigNumberish, requestId: BigNumberish];
+  export type OutputTuple = [auctionId: bigint, requestId: bigint];
+  export interface OutputObject {
+    auctionId: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuctionCreatedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    seller: AddressLike,
+    artId: string,
+    endTime: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    seller: string,
+    artId: string,
+    endTime: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    seller: string;
+    artId: string;
+    endTime: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuctionSettledEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    seller: AddressLike,
+    winner: AddressLike,
+    winningBid: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    seller: string,
+    winner: string,
+    winningBid: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    seller: string;
+    winner: string;
+    winningBid: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuthenticatorAddedEvent {
+  export type InputTuple = [authenticator: AddressLike];
+  export type OutputTuple = [authenticator: string];
+  export interface OutputObject {
+    authenticator: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuthenticatorRemovedEvent {
+  export type InputTuple = [authenticator: AddressLike];
+  export type OutputTuple = [authenticator: string];
+  export interface OutputObject {
+    authenticator: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchOpenedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchReservedEvent {
+  export type InputTuple = [batchId: BigNumberish, prover: AddressLike];
+  export type OutputTuple = [batchId: bigint, prover: string];
+  export interface OutputObject {
+    batchId: bigint;
+    prover: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchSealedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BidPlacedEvent {
+  export type InputTuple = [auctionId: BigNumberish, bidder: AddressLike];
+  export type OutputTuple = [auctionId: bigint, bidder: string];
+  export interface OutputObject {
+    auctionId: bigint;
+    bidder: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BundleCreatedEvent {
+  export type InputTuple = [
+    bundleId: BigNumberish,
+    owner: AddressLike,
+    lender: AddressLike,
+    batchId: BigNumberish,
+    loanAmount: BigNumberish,
+    artIds: string[]
+  ];
+  export type OutputTuple = [
+    bundleId: bigint,
+    owner: string,
+    lender: string,
+    batchId: bigint,
+    loanAmount: bigint,
+    artIds: string[]
+  ];
+  export interface OutputObject {
+    bundleId: bigint;
+    owner: string;
+    lender: string;
+    batchId: bigint;
+    loanAmount: bigint;
+    artIds: string[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BundleReleasedEvent {
+  export type InputTuple = [
+    bundleId: BigNumberish,
+    owner: AddressLike,
+    lender: AddressLike
+  ];
+  export type OutputTuple = [bundleId: bigint, owner: string, lender: string];
+  export interface OutputObject {
+    bundleId: bigint;
+    owner: string;
+    lender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ContractPausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ContractUnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CooldownChangedEvent {
+  export type InputTuple = [
+    oldCooldownSeconds: BigNumberish,
+    newCooldownSeconds: BigNumberish
+  ];
+  export type OutputTuple = [
+    oldCooldownSeconds: bigint,
+    newCooldownSeconds: bigint
+  ];
+  export interface OutputObject {
+    oldCooldownSeconds: bigint;
+    newCooldownSeconds: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    totalValue: BigNumberish,
+    overflowed: boolean
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    totalValue: bigint,
+    overflowed: boolean
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    totalValue: bigint;
+    overflowed: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    caller: AddressLike
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    caller: string
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    caller: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DisclosureAccessedEvent {
+  export type InputTuple = [
+    grantId: BigNumberish,
+    grantee: AddressLike,
+    handle: BytesLike
+  ];
+  export type OutputTuple = [grantId: bigint, grantee: string, handle: string];
+  export interface OutputObject {
+    grantId: bigint;
+    grantee: string;
+    handle: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DisclosureGrantedEvent {
+  export type InputTuple = [
+    grantId: BigNumberish,
+    owner: AddressLike,
+    grantee: AddressLike,
+    artId: string,
+    field: BigNumberish,
+    expiresAt: BigNumberish
+  ];
+  export type OutputTuple = [
+    grantId: bigint,
+    owner: string,
+    grantee: string,
+    artId: string,
+    field: bigint,
+    expiresAt: bigint
+  ];
+  export interface OutputObject {
+    grantId: bigint;
+    owner: string;
+    grantee: string;
+    artId: string;
+    field: bigint;
+    expiresAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DisclosureRevokedEvent {
+  export type InputTuple = [
+    grantId: BigNumberish,
+    owner: AddressLike,
+    grantee: AddressLike
+  ];
+  export type OutputTuple = [grantId: bigint, owner: string, grantee: string];
+  export interface OutputObject {
+    grantId: bigint;
+    owner: string;
+    grantee: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PortfolioSubmittedEvent {
+  export type InputTuple = [
+    owner: AddressLike,
+    batchId: BigNumberish,
+    encryptedValue: BigNumberish
+  ];
+  export type OutputTuple = [
+    owner: string,
+    batchId: bigint,
+    encryptedValue: bigint
+  ];
+  export interface OutputObject {
+    owner: string;
+    batchId: bigint;
+    encryptedValue: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderAddedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderRemovedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TransferAcceptedEvent {
+  export type InputTuple = [
+    offerId: BigNumberish,
+    from: AddressLike,
+    to: AddressLike,
+    artId: string
+  ];
+  export type OutputTuple = [
+    offerId: bigint,
+    from: string,
+    to: string,
+    artId: string
+  ];
+  export interface OutputObject {
+    offerId: bigint;
+    from: string;
+    to: string;
+    artId: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TransferCancelledEvent {
+  export type InputTuple = [
+    offerId: BigNumberish,
+    from: AddressLike,
+    to: AddressLike,
+    cancelledBy: AddressLike
+  ];
+  export type OutputTuple = [
+    offerId: bigint,
+    from: string,
+    to: string,
+    cancelledBy: string
+  ];
+  export interface OutputObject {
+    offerId: bigint;
+    from: string;
+    to: string;
+    cancelledBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TransferOfferedEvent {
+  export type InputTuple = [
+    offerId: BigNumberish,
+    from: AddressLike,
+    to: AddressLike,
+    artId: string
+  ];
+  export type OutputTuple = [
+    offerId: bigint,
+    from: string,
+    to: string,
+    artId: string
+  ];
+  export interface OutputObject {
+    offerId: bigint;
+    from: string;
+    to: string;
+    artId: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WealthProofCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    prover: AddressLike,
+    threshold: BigNumberish,
+    meetsThreshold: boolean
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    prover: string,
+    threshold: bigint,
+    meetsThreshold: boolean
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    prover: string;
+    threshold: bigint;
+    meetsThreshold: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WealthProofRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    prover: AddressLike,
+    threshold: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    prover: string,
+    threshold: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    prover: string;
+    threshold: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface ArtPortfolioFhe extends BaseContract {
+  connect(runner?: ContractRunner | null): ArtPortfolioFhe;
+  waitForDeployment(): Promise<this>;
+
+  interface: ArtPortfolioFheInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  AMOUNT_DECIMALS: TypedContractMethod<[], [bigint], "view">;
+
+  FX_RATE_DECIMALS: TypedContractMethod<[], [bigint], "view">;
+
+  acceptAppraisal: TypedContractMethod<
+    [_appraisalId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  acceptTransfer: TypedContractMethod<
+    [_offerId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  accessDisclosure: TypedContractMethod<
+    [_grantId: BigNumberish],
+    [string],
+    "nonpayable"
+  >;
+
+  accessDisclosures: TypedContractMethod<
+    [_grantIds: BigNumberish[]],
+    [string[]],
+    "nonpayable"
+  >;
+
+  addAuthenticator: TypedContractMethod<
+    [_authenticator: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  addProvider: TypedContractMethod<
+    [_provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  allowBatchTotal: TypedContractMethod<
+    [_batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  appraisalCount: TypedContractMethod<[], [bigint], "view">;
+
+  appraisalDigest: TypedContractMethod<
+    [_appraisalId: BigNumberish, _valuation: BytesLike, _reportHash: BytesLike],
+    [string],
+    "view"
+  >;
+
+  appraisals: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, string, bigint, string, string, bigint, string] & {
+        artId: string;
+        owner: string;
+        appraiser: string;
+        status: bigint;
+        valuation: string;
+        reportHash: string;
+        deliveredAt: bigint;
+        signature: string;
+      }
+    ],
+    "view"
+  >;
+
+  artworkAuction: TypedContractMethod<[arg0: BytesLike], [bigint], "view">;
+
+  artworkBundle: TypedContractMethod<[arg0: BytesLike], [bigint], "view">;
+
+  artworkTransferOffer: TypedContractMethod<
+    [arg0: BytesLike],
+    [bigint],
+    "view"
+  >;
+
+  artworkValues: TypedContractMethod<
+    [arg0: BytesLike],
+    [
+      [string, string, string] & {
+        owner: string;
+        costBasis: string;
+        valuation: string;
+      }
+    ],
+    "view"
+  >;
+
+  auctionCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  auctionCount: TypedContractMethod<[], [bigint], "view">;
+
+  auctionDecryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        auctionId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  auctions: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        string,
+        string,
+        bigint,
+        bigint,
+        string,
+        string,
+        boolean,
+        boolean,
+        string,
+        bigint
+      ] & {
+        artId: string;
+        seller: string;
+        endTime: bigint;
+        bidCount: bigint;
+        highestBid: string;
+        highestBidder: string;
+        closed: boolean;
+        settled: boolean;
+        winner: string;
+        winningBid: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  batchFirstContributor: TypedContractMethod<
+    [arg0: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  batchHasMultipleContributors: TypedContractMethod<
+    [arg0: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  batchOpen: TypedContractMethod<[], [boolean], "view">;
+
+  batchOverflowed: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  batchReservedFor: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  bundleCount: TypedContractMethod<[], [bigint], "view">;
+
+  bundles: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, bigint, bigint, string, string, boolean] & {
+        owner: string;
+        lender: string;
+        batchId: bigint;
+        loanAmount: bigint;
+        value: string;
+        ltvTier: string;
+        active: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  cancelTransfer: TypedContractMethod<
+    [_offerId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  closeAuction: TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  closeBatch: TypedContractMethod<[], [void], "nonpayable">;
+
+  cooldownSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  createAuction: TypedContractMethod<
+    [_artId: string, _endTime: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  createBundle: TypedContractMethod<
+    [
+      _batchId: BigNumberish,
+      _lender: AddressLike,
+      _loanAmount: BigNumberish,
+      _artIds: string[]
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  currentBatchId: TypedContractMethod<[], [bigint], "view">;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  deliverAppraisal: TypedContractMethod<
+    [
+      _appraisalId: BigNumberish,
+      _valuation: BytesLike,
+      _inputProof: BytesLike,
+      _reportHash: BytesLike,
+      _signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  disclosureGrantCount: TypedContractMethod<[], [bigint], "view">;
+
+  disclosureGrants: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        string,
+        string,
+        string,
+        bigint,
+        bigint,
+        boolean,
+        bigint,
+        string,
+        string
+      ] & {
+        artId: string;
+        owner: string;
+        grantee: string;
+        field: bigint;
+        expiresAt: bigint;
+        revoked: boolean;
+        accessCount: bigint;
+        value: string;
+        disclosed: string;
+      }
+    ],
+    "view"
+  >;
+
+  disputeAppraisal: TypedContractMethod<
+    [_appraisalId: BigNumberish, _reason: string],
+    [void],
+    "nonpayable"
+  >;
+
+  getBundleArtIds: TypedContractMethod<
+    [_bundleId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  grantDisclosures: TypedContractMethod<
+    [
+      _grantee: AddressLike,
+      _artIds: string[],
+      _fields: BigNumberish[],
+      _values: BytesLike[],
+      _inputProof: BytesLike,
+      _expiresAt: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  isAuthenticator: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  isDisclosedTo: TypedContractMethod<
+    [_grantId: BigNumberish, _account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isProvider: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  lastDecryptionRequestTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lastSubmissionTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  ltvTiersBps: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  myCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  offerTransfer: TypedContractMethod<
+    [_artId: string, _to: AddressLike],
+    [bigint],
+    "nonpayable"
+  >;
+
+  openBatch: TypedContractMethod<[], [void], "nonpayable">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  pause: TypedContractMethod<[], [void], "nonpayable">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  placeBid: TypedContractMethod<
+    [_auctionId: BigNumberish, _bid: BytesLike, _inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  portfolioValues: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  registerArtworkValues: TypedContractMethod<
+    [
+      _artId: string,
+      _costBasis: BytesLike,
+      _valuation: BytesLike,
+      _inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  releaseBundle: TypedContractMethod<
+    [_bundleId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  removeAuthenticator: TypedContractMethod<
+    [_authenticator: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  removeProvider: TypedContractMethod<
+    [_provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  requestAppraisal: TypedContractMethod<
+    [_artId: string, _appraiser: AddressLike],
+    [bigint],
+    "nonpayable"
+  >;
+
+  requestBatchValueDecryption: TypedContractMethod<
+    [_batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestWealthProof: TypedContractMethod<
+    [_batchId: BigNumberish, _threshold: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  reserveBatch: TypedContractMethod<[], [void], "nonpayable">;
+
+  reviewArtwork: TypedContractMethod<
+    [_artId: string, _authentic: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeDisclosure: TypedContractMethod<
+    [_grantId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setCooldownSeconds: TypedContractMethod<
+    [_cooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  submitConvertedPortfolioValues: TypedContractMethod<
+    [
+      _encryptedInputs: BytesLike[],
+      _rates: BigNumberish[],
+      _inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  submitPortfolioValue: TypedContractMethod<
+    [_encryptedInput: BytesLike, _inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  submitPortfolioValues: TypedContractMethod<
+    [_encryptedInputs: BytesLike[], _inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  transferOfferCount: TypedContractMethod<[], [bigint], "view">;
+
+  transferOffers: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, string, string, string, boolean] & {
+        artId: string;
+        from: string;
+        to: string;
+        costBasis: string;
+        valuation: string;
+        pending: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  unpause: TypedContractMethod<[], [void], "nonpayable">;
+
+  wealthProofCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  wealthProofContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint, string, boolean] & {
+        batchId: bigint;
+        prover: string;
+        threshold: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "AMOUNT_DECIMALS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "FX_RATE_DECIMALS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "acceptAppraisal"
+  ): TypedContractMethod<[_appraisalId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "acceptTransfer"
+  ): TypedContractMethod<[_offerId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "accessDisclosure"
+  ): TypedContractMethod<[_grantId: BigNumberish], [string], "nonpayable">;
+  getFunction(
+    nameOrSignature: "accessDisclosures"
+  ): TypedContractMethod<[_grantIds: BigNumberish[]], [string[]], "nonpayable">;
+  getFunction(
+    nameOrSignature: "addAuthenticator"
+  ): TypedContractMethod<[_authenticator: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "addProvider"
+  ): TypedContractMethod<[_provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "allowBatchTotal"
+  ): TypedContractMethod<[_batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "appraisalCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "appraisalDigest"
+  ): TypedContractMethod<
+    [_appraisalId: BigNumberish, _valuation: BytesLike, _reportHash: BytesLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "appraisals"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, string, bigint, string, string, bigint, string] & {
+        artId: string;
+        owner: string;
+        appraiser: string;
+        status: bigint;
+        valuation: string;
+        reportHash: string;
+        deliveredAt: bigint;
+        signature: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "artworkAuction"
+  ): TypedContractMethod<[arg0: BytesLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "artworkBundle"
+  ): TypedContractMethod<[arg0: BytesLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "artworkTransferOffer"
+  ): TypedContractMethod<[arg0: BytesLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "artworkValues"
+  ): TypedContractMethod<
+    [arg0: BytesLike],
+    [
+      [string, string, string] & {
+        owner: string;
+        costBasis: string;
+        valuation: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "auctionCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "auctionCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "auctionDecryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        auctionId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "auctions"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        string,
+        string,
+        bigint,
+        bigint,
+        string,
+        string,
+        boolean,
+        boolean,
+        string,
+        bigint
+      ] & {
+        artId: string;
+        seller: string;
+        endTime: bigint;
+        bidCount: bigint;
+        highestBid: string;
+        highestBidder: string;
+        closed: boolean;
+        settled: boolean;
+        winner: string;
+        winningBid: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "batchFirstContributor"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "batchHasMultipleContributors"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "batchOpen"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "batchOverflowed"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "batchReservedFor"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "bundleCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "bundles"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, bigint, bigint, string, string, boolean] & {
+        owner: string;
+        lender: string;
+        batchId: bigint;
+        loanAmount: bigint;
+        value: string;
+        ltvTier: string;
+        active: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "cancelTransfer"
+  ): TypedContractMethod<[_offerId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "closeAuction"
+  ): TypedContractMethod<[_auctionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "closeBatch"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cooldownSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "createAuction"
+  ): TypedContractMethod<
+    [_artId: string, _endTime: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createBundle"
+  ): TypedContractMethod<
+    [
+      _batchId: BigNumberish,
+      _lender: AddressLike,
+      _loanAmount: BigNumberish,
+      _artIds: string[]
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "currentBatchId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "deliverAppraisal"
+  ): TypedContractMethod<
+    [
+      _appraisalId: BigNumberish,
+      _valuation: BytesLike,
+      _inputProof: BytesLike,
+      _reportHash: BytesLike,
+      _signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "disclosureGrantCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "disclosureGrants"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        string,
+        string,
+        string,
+        bigint,
+        bigint,
+        boolean,
+        bigint,
+        string,
+        string
+      ] & {
+        artId: string;
+        owner: string;
+        grantee: string;
+        field: bigint;
+        expiresAt: bigint;
+        revoked: boolean;
+        accessCount: bigint;
+        value: string;
+        disclosed: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "disputeAppraisal"
+  ): TypedContractMethod<
+    [_appraisalId: BigNumberish, _reason: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getBundleArtIds"
+  ): TypedContractMethod<[_bundleId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "grantDisclosures"
+  ): TypedContractMethod<
+    [
+      _grantee: AddressLike,
+      _artIds: string[],
+      _fields: BigNumberish[],
+      _values: BytesLike[],
+      _inputProof: BytesLike,
+      _expiresAt: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "isAuthenticator"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isDisclosedTo"
+  ): TypedContractMethod<
+    [_grantId: BigNumberish, _account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isProvider"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "lastDecryptionRequestTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastSubmissionTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "ltvTiersBps"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "myCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "offerTransfer"
+  ): TypedContractMethod<
+    [_artId: string, _to: AddressLike],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "openBatch"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "placeBid"
+  ): TypedContractMethod<
+    [_auctionId: BigNumberish, _bid: BytesLike, _inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "portfolioValues"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "registerArtworkValues"
+  ): TypedContractMethod<
+    [
+      _artId: string,
+      _costBasis: BytesLike,
+      _valuation: BytesLike,
+      _inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "releaseBundle"
+  ): TypedContractMethod<[_bundleId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "removeAuthenticator"
+  ): TypedContractMethod<[_authenticator: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "removeProvider"
+  ): TypedContractMethod<[_provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestAppraisal"
+  ): TypedContractMethod<
+    [_artId: string, _appraiser: AddressLike],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "requestBatchValueDecryption"
+  ): TypedContractMethod<[_batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestWealthProof"
+  ): TypedContractMethod<
+    [_batchId: BigNumberish, _threshold: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "reserveBatch"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "reviewArtwork"
+  ): TypedContractMethod<
+    [_artId: string, _authentic: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revokeDisclosure"
+  ): TypedContractMethod<[_grantId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setCooldownSeconds"
+  ): TypedContractMethod<
+    [_cooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitConvertedPortfolioValues"
+  ): TypedContractMethod<
+    [
+      _encryptedInputs: BytesLike[],
+      _rates: BigNumberish[],
+      _inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitPortfolioValue"
+  ): TypedContractMethod<
+    [_encryptedInput: BytesLike, _inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitPortfolioValues"
+  ): TypedContractMethod<
+    [_encryptedInputs: BytesLike[], _inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferOfferCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "transferOffers"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, string, string, string, boolean] & {
+        artId: string;
+        from: string;
+        to: string;
+        costBasis: string;
+        valuation: string;
+        pending: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "unpause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "wealthProofCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "wealthProofContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint, string, boolean] & {
+        batchId: bigint;
+        prover: string;
+        threshold: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getEvent(
+    key: "AppraisalAccepted"
+  ): TypedContractEvent<
+    AppraisalAcceptedEvent.InputTuple,
+    AppraisalAcceptedEvent.OutputTuple,
+    AppraisalAcceptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AppraisalDelivered"
+  ): TypedContractEvent<
+    AppraisalDeliveredEvent.InputTuple,
+    AppraisalDeliveredEvent.OutputTuple,
+    AppraisalDeliveredEvent.OutputObject
+  >;
+  getEvent(
+    key: "AppraisalDisputed"
+  ): TypedContractEvent<
+    AppraisalDisputedEvent.InputTuple,
+    AppraisalDisputedEvent.OutputTuple,
+    AppraisalDisputedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AppraisalRequested"
+  ): TypedContractEvent<
+    AppraisalRequestedEvent.InputTuple,
+    AppraisalRequestedEvent.OutputTuple,
+    AppraisalRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ArtworkReviewed"
+  ): TypedContractEvent<
+    ArtworkReviewedEvent.InputTuple,
+    ArtworkReviewedEvent.OutputTuple,
+    ArtworkReviewedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ArtworkValuesRegistered"
+  ): TypedContractEvent<
+    ArtworkValuesRegisteredEvent.InputTuple,
+    ArtworkValuesRegisteredEvent.OutputTuple,
+    ArtworkValuesRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuctionClosed"
+  ): TypedContractEvent<
+    AuctionClosedEvent.InputTuple,
+    AuctionClosedEvent.OutputTuple,
+    AuctionClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuctionCreated"
+  ): TypedContractEvent<
+    AuctionCreatedEvent.InputTuple,
+    AuctionCreatedEvent.OutputTuple,
+    AuctionCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuctionSettled"
+  ): TypedContractEvent<
+    AuctionSettledEvent.InputTuple,
+    AuctionSettledEvent.OutputTuple,
+    AuctionSettledEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuthenticatorAdded"
+  ): TypedContractEvent<
+    AuthenticatorAddedEvent.InputTuple,
+    AuthenticatorAddedEvent.OutputTuple,
+    AuthenticatorAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuthenticatorRemoved"
+  ): TypedContractEvent<
+    AuthenticatorRemovedEvent.InputTuple,
+    AuthenticatorRemovedEvent.OutputTuple,
+    AuthenticatorRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchOpened"
+  ): TypedContractEvent<
+    BatchOpenedEvent.InputTuple,
+    BatchOpenedEvent.OutputTuple,
+    BatchOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchReserved"
+  ): TypedContractEvent<
+    BatchReservedEvent.InputTuple,
+    BatchReservedEvent.OutputTuple,
+    BatchReservedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchSealed"
+  ): TypedContractEvent<
+    BatchSealedEvent.InputTuple,
+    BatchSealedEvent.OutputTuple,
+    BatchSealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BidPlaced"
+  ): TypedContractEvent<
+    BidPlacedEvent.InputTuple,
+    BidPlacedEvent.OutputTuple,
+    BidPlacedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BundleCreated"
+  ): TypedContractEvent<
+    BundleCreatedEvent.InputTuple,
+    BundleCreatedEvent.OutputTuple,
+    BundleCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BundleReleased"
+  ): TypedContractEvent<
+    BundleReleasedEvent.InputTuple,
+    BundleReleasedEvent.OutputTuple,
+    BundleReleasedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ContractPaused"
+  ): TypedContractEvent<
+    ContractPausedEvent.InputTuple,
+    ContractPausedEvent.OutputTuple,
+    ContractPausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ContractUnpaused"
+  ): TypedContractEvent<
+    ContractUnpausedEvent.InputTuple,
+    ContractUnpausedEvent.OutputTuple,
+    ContractUnpausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CooldownChanged"
+  ): TypedContractEvent<
+    CooldownChangedEvent.InputTuple,
+    CooldownChangedEvent.OutputTuple,
+    CooldownChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCompleted"
+  ): TypedContractEvent<
+    DecryptionCompletedEvent.InputTuple,
+    DecryptionCompletedEvent.OutputTuple,
+    DecryptionCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DisclosureAccessed"
+  ): TypedContractEvent<
+    DisclosureAccessedEvent.InputTuple,
+    DisclosureAccessedEvent.OutputTuple,
+    DisclosureAccessedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DisclosureGranted"
+  ): TypedContractEvent<
+    DisclosureGrantedEvent.InputTuple,
+    DisclosureGrantedEvent.OutputTuple,
+    DisclosureGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DisclosureRevoked"
+  ): TypedContractEvent<
+    DisclosureRevokedEvent.InputTuple,
+    DisclosureRevokedEvent.OutputTuple,
+    DisclosureRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PortfolioSubmitted"
+  ): TypedContractEvent<
+    PortfolioSubmittedEvent.InputTuple,
+    PortfolioSubmittedEvent.OutputTuple,
+    PortfolioSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderAdded"
+  ): TypedContractEvent<
+    ProviderAddedEvent.InputTuple,
+    ProviderAddedEvent.OutputTuple,
+    ProviderAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderRemoved"
+  ): TypedContractEvent<
+    ProviderRemovedEvent.InputTuple,
+    ProviderRemovedEvent.OutputTuple,
+    ProviderRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TransferAccepted"
+  ): TypedContractEvent<
+    TransferAcceptedEvent.InputTuple,
+    TransferAcceptedEvent.OutputTuple,
+    TransferAcceptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TransferCancelled"
+  ): TypedContractEvent<
+    TransferCancelledEvent.InputTuple,
+    TransferCancelledEvent.OutputTuple,
+    TransferCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "TransferOffered"
+  ): TypedContractEvent<
+    TransferOfferedEvent.InputTuple,
+    TransferOfferedEvent.OutputTuple,
+    TransferOfferedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WealthProofCompleted"
+  ): TypedContractEvent<
+    WealthProofCompletedEvent.InputTuple,
+    WealthProofCompletedEvent.OutputTuple,
+    WealthProofCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WealthProofRequested"
+  ): TypedContractEvent<
+    WealthProofRequestedEvent.InputTuple,
+    WealthProofRequestedEvent.OutputTuple,
+    WealthProofRequestedEvent.OutputObject
+  >;
+
+  filters: {
+    "AppraisalAccepted(uint256,address)": TypedContractEvent<
+      AppraisalAcceptedEvent.InputTuple,
+      AppraisalAcceptedEvent.OutputTuple,
+      AppraisalAcceptedEvent.OutputObject
+    >;
+    AppraisalAccepted: TypedContractEvent<
+      AppraisalAcceptedEvent.InputTuple,
+      AppraisalAcceptedEvent.OutputTuple,
+      AppraisalAcceptedEvent.OutputObject
+    >;
+
+    "AppraisalDelivered(uint256,address,bytes32,bytes32,bytes)": TypedContractEvent<
+      AppraisalDeliveredEvent.InputTuple,
+      AppraisalDeliveredEvent.OutputTuple,
+      AppraisalDeliveredEvent.OutputObject
+    >;
+    AppraisalDelivered: TypedContractEvent<
+      AppraisalDeliveredEvent.InputTuple,
+      AppraisalDeliveredEvent.OutputTuple,
+      AppraisalDeliveredEvent.OutputObject
+    >;
+
+    "AppraisalDisputed(uint256,address,string)": TypedContractEvent<
+      AppraisalDisputedEvent.InputTuple,
+      AppraisalDisputedEvent.OutputTuple,
+      AppraisalDisputedEvent.OutputObject
+    >;
+    AppraisalDisputed: TypedContractEvent<
+      AppraisalDisputedEvent.InputTuple,
+      AppraisalDisputedEvent.OutputTuple,
+      AppraisalDisputedEvent.OutputObject
+    >;
+
+    "AppraisalRequested(uint256,address,address,string)": TypedContractEvent<
+      AppraisalRequestedEvent.InputTuple,
+      AppraisalRequestedEvent.OutputTuple,
+      AppraisalRequestedEvent.OutputObject
+    >;
+    AppraisalRequested: TypedContractEvent<
+      AppraisalRequestedEvent.InputTuple,
+      AppraisalRequestedEvent.OutputTuple,
+      AppraisalRequestedEvent.OutputObject
+    >;
+
+    "ArtworkReviewed(address,string,bool)": TypedContractEvent<
+      ArtworkReviewedEvent.InputTuple,
+      ArtworkReviewedEvent.OutputTuple,
+      ArtworkReviewedEvent.OutputObject
+    >;
+    ArtworkReviewed: TypedContractEvent<
+      ArtworkReviewedEvent.InputTuple,
+      ArtworkReviewedEvent.OutputTuple,
+      ArtworkReviewedEvent.OutputObject
+    >;
+
+    "ArtworkValuesRegistered(address,string,bytes32,bytes32)": TypedContractEvent<
+      ArtworkValuesRegisteredEvent.InputTuple,
+      ArtworkValuesRegisteredEvent.OutputTuple,
+      ArtworkValuesRegisteredEvent.OutputObject
+    >;
+    ArtworkValuesRegistered: TypedContractEvent<
+      ArtworkValuesRegisteredEvent.InputTuple,
+      ArtworkValuesRegisteredEvent.OutputTuple,
+      ArtworkValuesRegisteredEvent.OutputObject
+    >;
+
+    "AuctionClosed(uint256,uint256)": TypedContractEvent<
+      AuctionClosedEvent.InputTuple,
+      AuctionClosedEvent.OutputTuple,
+      AuctionClosedEvent.OutputObject
+    >;
+    AuctionClosed: TypedContractEvent<
+      AuctionClosedEvent.InputTuple,
+      AuctionClosedEvent.OutputTuple,
+      AuctionClosedEvent.OutputObject
+    >;
+
+    "AuctionCreated(uint256,address,string,uint64)": TypedContractEvent<
+      AuctionCreatedEvent.InputTuple,
+      AuctionCreatedEvent.OutputTuple,
+      AuctionCreatedEvent.OutputObject
+    >;
+    AuctionCreated: TypedContractEvent<
+      AuctionCreatedEvent.InputTuple,
+      AuctionCreatedEvent.OutputTuple,
+      AuctionCreatedEvent.OutputObject
+    >;
+
+    "AuctionSettled(uint256,address,address,uint64)": TypedContractEvent<
+      AuctionSettledEvent.InputTuple,
+      AuctionSettledEvent.OutputTuple,
+      AuctionSettledEvent.OutputObject
+    >;
+    AuctionSettled: TypedContractEvent<
+      AuctionSettledEvent.InputTuple,
+      AuctionSettledEvent.OutputTuple,
+      AuctionSettledEvent.OutputObject
+    >;
+
+    "AuthenticatorAdded(address)": TypedContractEvent<
+      AuthenticatorAddedEvent.InputTuple,
+      AuthenticatorAddedEvent.OutputTuple,
+      AuthenticatorAddedEvent.OutputObject
+    >;
+    AuthenticatorAdded: TypedContractEvent<
+      AuthenticatorAddedEvent.InputTuple,
+      AuthenticatorAddedEvent.OutputTuple,
+      AuthenticatorAddedEvent.OutputObject
+    >;
+
+    "AuthenticatorRemoved(address)": TypedContractEvent<
+      AuthenticatorRemovedEvent.InputTuple,
+      AuthenticatorRemovedEvent.OutputTuple,
+      AuthenticatorRemovedEvent.OutputObject
+    >;
+    AuthenticatorRemoved: TypedContractEvent<
+      AuthenticatorRemovedEvent.InputTuple,
+      AuthenticatorRemovedEvent.OutputTuple,
+      AuthenticatorRemovedEvent.OutputObject
+    >;
+
+    "BatchOpened(uint256)": TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+    BatchOpened: TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+
+    "BatchReserved(uint256,address)": TypedContractEvent<
+      BatchReservedEvent.InputTuple,
+      BatchReservedEvent.OutputTuple,
+      BatchReservedEvent.OutputObject
+    >;
+    BatchReserved: TypedContractEvent<
+      BatchReservedEvent.InputTuple,
+      BatchReservedEvent.OutputTuple,
+      BatchReservedEvent.OutputObject
+    >;
+
+    "BatchSealed(uint256)": TypedContractEvent<
+      BatchSealedEvent.InputTuple,
+      BatchSealedEvent.OutputTuple,
+      BatchSealedEvent.OutputObject
+    >;
+    BatchSealed: TypedContractEvent<
+      BatchSealedEvent.InputTuple,
+      BatchSealedEvent.OutputTuple,
+      BatchSealedEvent.OutputObject
+    >;
+
+    "BidPlaced(uint256,address)": TypedContractEvent<
+      BidPlacedEvent.InputTuple,
+      BidPlacedEvent.OutputTuple,
+      BidPlacedEvent.OutputObject
+    >;
+    BidPlaced: TypedContractEvent<
+      BidPlacedEvent.InputTuple,
+      BidPlacedEvent.OutputTuple,
+      BidPlacedEvent.OutputObject
+    >;
+
+    "BundleCreated(uint256,address,address,uint256,uint64,string[])": TypedContractEvent<
+      BundleCreatedEvent.InputTuple,
+      BundleCreatedEvent.OutputTuple,
+      BundleCreatedEvent.OutputObject
+    >;
+    BundleCreated: TypedContractEvent<
+      BundleCreatedEvent.InputTuple,
+      BundleCreatedEvent.OutputTuple,
+      BundleCreatedEvent.OutputObject
+    >;
+
+    "BundleReleased(uint256,address,address)": TypedContractEvent<
+      BundleReleasedEvent.InputTuple,
+      BundleReleasedEvent.OutputTuple,
+      BundleReleasedEvent.OutputObject
+    >;
+    BundleReleased: TypedContractEvent<
+      BundleReleasedEvent.InputTuple,
+      BundleReleasedEvent.OutputTuple,
+      BundleReleasedEvent.OutputObject
+    >;
+
+    "ContractPaused(address)": TypedContractEvent<
+      ContractPausedEvent.InputTuple,
+      ContractPausedEvent.OutputTuple,
+      ContractPausedEvent.OutputObject
+    >;
+    ContractPaused: TypedContractEvent<
+      ContractPausedEvent.InputTuple,
+      ContractPausedEvent.OutputTuple,
+      ContractPausedEvent.OutputObject
+    >;
+
+    "ContractUnpaused(address)": TypedContractEvent<
+      ContractUnpausedEvent.InputTuple,
+      ContractUnpausedEvent.OutputTuple,
+      ContractUnpausedEvent.OutputObject
+    >;
+    ContractUnpaused: TypedContractEvent<
+      ContractUnpausedEvent.InputTuple,
+      ContractUnpausedEvent.OutputTuple,
+      ContractUnpausedEvent.OutputObject
+    >;
+
+    "CooldownChanged(uint256,uint256)": TypedContractEvent<
+      CooldownChangedEvent.InputTuple,
+      CooldownChangedEvent.OutputTuple,
+      CooldownChangedEvent.OutputObject
+    >;
+    CooldownChanged: TypedContractEvent<
+      CooldownChangedEvent.InputTuple,
+      CooldownChangedEvent.OutputTuple,
+      CooldownChangedEvent.OutputObject
+    >;
+
+    "DecryptionCompleted(uint256,uint256,uint256,bool)": TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+    DecryptionCompleted: TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,uint256,address)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "DisclosureAccessed(uint256,address,bytes32)": TypedContractEvent<
+      DisclosureAccessedEvent.InputTuple,
+      DisclosureAccessedEvent.OutputTuple,
+      DisclosureAccessedEvent.OutputObject
+    >;
+    DisclosureAccessed: TypedContractEvent<
+      DisclosureAccessedEvent.InputTuple,
+      DisclosureAccessedEvent.OutputTuple,
+      DisclosureAccessedEvent.OutputObject
+    >;
+
+    "DisclosureGranted(uint256,address,address,string,uint8,uint64)": TypedContractEvent<
+      DisclosureGrantedEvent.InputTuple,
+      DisclosureGrantedEvent.OutputTuple,
+      DisclosureGrantedEvent.OutputObject
+    >;
+    DisclosureGranted: TypedContractEvent<
+      DisclosureGrantedEvent.InputTuple,
+      DisclosureGrantedEvent.OutputTuple,
+      DisclosureGrantedEvent.OutputObject
+    >;
+
+    "DisclosureRevoked(uint256,address,address)": TypedContractEvent<
+      DisclosureRevokedEvent.InputTuple,
+      DisclosureRevokedEvent.OutputTuple,
+      DisclosureRevokedEvent.OutputObject
+    >;
+    DisclosureRevoked: TypedContractEvent<
+      DisclosureRevokedEvent.InputTuple,
+      DisclosureRevokedEvent.OutputTuple,
+      DisclosureRevokedEvent.OutputObject
+    >;
+
+    "PortfolioSubmitted(address,uint256,uint256)": TypedContractEvent<
+      PortfolioSubmittedEvent.InputTuple,
+      PortfolioSubmittedEvent.OutputTuple,
+      PortfolioSubmittedEvent.OutputObject
+    >;
+    PortfolioSubmitted: TypedContractEvent<
+      PortfolioSubmittedEvent.InputTuple,
+      PortfolioSubmittedEvent.OutputTuple,
+      PortfolioSubmittedEvent.OutputObject
+    >;
+
+    "ProviderAdded(address)": TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+    ProviderAdded: TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+
+    "ProviderRemoved(address)": TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+    ProviderRemoved: TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+
+    "TransferAccepted(uint256,address,address,string)": TypedContractEvent<
+      TransferAcceptedEvent.InputTuple,
+      TransferAcceptedEvent.OutputTuple,
+      TransferAcceptedEvent.OutputObject
+    >;
+    TransferAccepted: TypedContractEvent<
+      TransferAcceptedEvent.InputTuple,
+      TransferAcceptedEvent.OutputTuple,
+      TransferAcceptedEvent.OutputObject
+    >;
+
+    "TransferCancelled(uint256,address,address,address)": TypedContractEvent<
+      TransferCancelledEvent.InputTuple,
+      TransferCancelledEvent.OutputTuple,
+      TransferCancelledEvent.OutputObject
+    >;
+    TransferCancelled: TypedContractEvent<
+      TransferCancelledEvent.InputTuple,
+      TransferCancelledEvent.OutputTuple,
+      TransferCancelledEvent.OutputObject
+    >;
+
+    "TransferOffered(uint256,address,address,string)": TypedContractEvent<
+      TransferOfferedEvent.InputTuple,
+      TransferOfferedEvent.OutputTuple,
+      TransferOfferedEvent.OutputObject
+    >;
+    TransferOffered: TypedContractEvent<
+      TransferOfferedEvent.InputTuple,
+      TransferOfferedEvent.OutputTuple,
+      TransferOfferedEvent.OutputObject
+    >;
+
+    "WealthProofCompleted(uint256,uint256,address,uint64,bool)": TypedContractEvent<
+      WealthProofCompletedEvent.InputTuple,
+      WealthProofCompletedEvent.OutputTuple,
+      WealthProofCompletedEvent.OutputObject
+    >;
+    WealthProofCompleted: TypedContractEvent<
+      WealthProofCompletedEvent.InputTuple,
+      WealthProofCompletedEvent.OutputTuple,
+      WealthProofCompletedEvent.OutputObject
+    >;
+
+    "WealthProofRequested(uint256,uint256,address,uint64)": TypedContractEvent<
+      WealthProofRequestedEvent.InputTuple,
+      WealthProofRequestedEvent.OutputTuple,
+      WealthProofRequestedEvent.OutputObject
+    >;
+    WealthProofRequested: TypedContractEvent<
+      WealthProofRequestedEvent.InputTuple,
+      WealthProofRequestedEvent.OutputTuple,
+      WealthProofRequestedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,2605 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  ArtPortfolioFhe,
+  ArtPortfolioFheInterface,
+} from "../../../contracts/Art_Portfolio_Fhe.sol/ArtPortfolioFhe";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "AlreadyBid",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AlreadyInitialized",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ArtworkLocked",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AuctionNotEnded",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AuctionNotOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchAlreadyReserved",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchClosed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BundleNotActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "DisclosureInactive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidAppraisalState",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidParameter",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidSignature",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidStateHash",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotAppraisalParty",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotArtworkOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotAuthenticator",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotDisclosureParty",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotInitialized",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotLender",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotSoleContributor",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotTransferParty",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "Paused",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PrivateBatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayAttempt",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "SelfReview",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TransferNotPending",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "appraisalId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "appraiser",
+        type: "address",
+      },
+    ],
+    name: "AppraisalAccepted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "appraisalId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "appraiser",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "valuation",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "reportHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    name: "AppraisalDelivered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "appraisalId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "AppraisalDisputed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "appraisalId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "appraiser",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "artId",
+        type: "string",
+      },
+    ],
+    name: "AppraisalRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "authenticator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "artId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "authentic",
+        type: "bool",
+      },
+    ],
+    name: "ArtworkReviewed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "artId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "costBasis",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "valuation",
+        type: "bytes32",
+      },
+    ],
+    name: "ArtworkValuesRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "AuctionClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "artId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "endTime",
+        type: "uint64",
+      },
+    ],
+    name: "AuctionCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "winningBid",
+        type: "uint64",
+      },
+    ],
+    name: "AuctionSettled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "authenticator",
+        type: "address",
+      },
+    ],
+    name: "AuthenticatorAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "authenticator",
+        type: "address",
+      },
+    ],
+    name: "AuthenticatorRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "prover",
+        type: "address",
+      },
+    ],
+    name: "BatchReserved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchSealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+    ],
+    name: "BidPlaced",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "bundleId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "lender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "loanAmount",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "string[]",
+        name: "artIds",
+        type: "string[]",
+      },
+    ],
+    name: "BundleCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "bundleId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "lender",
+        type: "address",
+      },
+    ],
+    name: "BundleReleased",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "ContractPaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "ContractUnpaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldCooldownSeconds",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "totalValue",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "overflowed",
+        type: "bool",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "caller",
+        type: "address",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "grantId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "grantee",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "handle",
+        type: "bytes32",
+      },
+    ],
+    name: "DisclosureAccessed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "grantId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "grantee",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "artId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "enum ArtPortfolioFhe.DisclosureField",
+        name: "field",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "expiresAt",
+        type: "uint64",
+      },
+    ],
+    name: "DisclosureGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "grantId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "grantee",
+        type: "address",
+      },
+    ],
+    name: "DisclosureRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "encryptedValue",
+        type: "uint256",
+      },
+    ],
+    name: "PortfolioSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "offerId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "artId",
+        type: "string",
+      },
+    ],
+    name: "TransferAccepted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "offerId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "cancelledBy",
+        type: "address",
+      },
+    ],
+    name: "TransferCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "offerId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "artId",
+        type: "string",
+      },
+    ],
+    name: "TransferOffered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "prover",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "threshold",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "meetsThreshold",
+        type: "bool",
+      },
+    ],
+    name: "WealthProofCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "prover",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "threshold",
+        type: "uint64",
+      },
+    ],
+    name: "WealthProofRequested",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "AMOUNT_DECIMALS",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "FX_RATE_DECIMALS",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_appraisalId",
+        type: "uint256",
+      },
+    ],
+    name: "acceptAppraisal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_offerId",
+        type: "uint256",
+      },
+    ],
+    name: "acceptTransfer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_grantId",
+        type: "uint256",
+      },
+    ],
+    name: "accessDisclosure",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "_grantIds",
+        type: "uint256[]",
+      },
+    ],
+    name: "accessDisclosures",
+    outputs: [
+      {
+        internalType: "bytes32[]",
+        name: "handles",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_authenticator",
+        type: "address",
+      },
+    ],
+    name: "addAuthenticator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_provider",
+        type: "address",
+      },
+    ],
+    name: "addProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_batchId",
+        type: "uint256",
+      },
+    ],
+    name: "allowBatchTotal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "appraisalCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_appraisalId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "_valuation",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "_reportHash",
+        type: "bytes32",
+      },
+    ],
+    name: "appraisalDigest",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "appraisals",
+    outputs: [
+      {
+        internalType: "string",
+        name: "artId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "appraiser",
+        type: "address",
+      },
+      {
+        internalType: "enum ArtPortfolioFhe.AppraisalStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "euint64",
+        name: "valuation",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "reportHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint64",
+        name: "deliveredAt",
+        type: "uint64",
+      },
+      {
+        internalType: "bytes",
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "artworkAuction",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "artworkBundle",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "artworkTransferOffer",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "artworkValues",
+    outputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "euint64",
+        name: "costBasis",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "valuation",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "auctionCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "auctionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "auctionDecryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "auctions",
+    outputs: [
+      {
+        internalType: "string",
+        name: "artId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "endTime",
+        type: "uint64",
+      },
+      {
+        internalType: "uint32",
+        name: "bidCount",
+        type: "uint32",
+      },
+      {
+        internalType: "euint64",
+        name: "highestBid",
+        type: "bytes32",
+      },
+      {
+        internalType: "eaddress",
+        name: "highestBidder",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "closed",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "settled",
+        type: "bool",
+      },
+      {
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "winningBid",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchFirstContributor",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchHasMultipleContributors",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "batchOpen",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchOverflowed",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchReservedFor",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "bundleCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "bundles",
+    outputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "lender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "loanAmount",
+        type: "uint64",
+      },
+      {
+        internalType: "euint64",
+        name: "value",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint8",
+        name: "ltvTier",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "active",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_offerId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelTransfer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "closeAuction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "closeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_artId",
+        type: "string",
+      },
+      {
+        internalType: "uint64",
+        name: "_endTime",
+        type: "uint64",
+      },
+    ],
+    name: "createAuction",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_lender",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "_loanAmount",
+        type: "uint64",
+      },
+      {
+        internalType: "string[]",
+        name: "_artIds",
+        type: "string[]",
+      },
+    ],
+    name: "createBundle",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_appraisalId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "_valuation",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "_inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes32",
+        name: "_reportHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "_signature",
+        type: "bytes",
+      },
+    ],
+    name: "deliverAppraisal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "disclosureGrantCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "disclosureGrants",
+    outputs: [
+      {
+        internalType: "string",
+        name: "artId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "grantee",
+        type: "address",
+      },
+      {
+        internalType: "enum ArtPortfolioFhe.DisclosureField",
+        name: "field",
+        type: "uint8",
+      },
+      {
+        internalType: "uint64",
+        name: "expiresAt",
+        type: "uint64",
+      },
+      {
+        internalType: "bool",
+        name: "revoked",
+        type: "bool",
+      },
+      {
+        internalType: "uint32",
+        name: "accessCount",
+        type: "uint32",
+      },
+      {
+        internalType: "euint64",
+        name: "value",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "disclosed",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_appraisalId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "_reason",
+        type: "string",
+      },
+    ],
+    name: "disputeAppraisal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_bundleId",
+        type: "uint256",
+      },
+    ],
+    name: "getBundleArtIds",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_grantee",
+        type: "address",
+      },
+      {
+        internalType: "string[]",
+        name: "_artIds",
+        type: "string[]",
+      },
+      {
+        internalType: "enum ArtPortfolioFhe.DisclosureField[]",
+        name: "_fields",
+        type: "uint8[]",
+      },
+      {
+        internalType: "externalEuint64[]",
+        name: "_values",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "_inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint64",
+        name: "_expiresAt",
+        type: "uint64",
+      },
+    ],
+    name: "grantDisclosures",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "firstGrantId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isAuthenticator",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_grantId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_account",
+        type: "address",
+      },
+    ],
+    name: "isDisclosedTo",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isProvider",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "ltvTiersBps",
+    outputs: [
+      {
+        internalType: "uint16",
+        name: "",
+        type: "uint16",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "myCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_artId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "_to",
+        type: "address",
+      },
+    ],
+    name: "offerTransfer",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "openBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "_bid",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "_inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "placeBid",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "portfolioValues",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_artId",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "_costBasis",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "_valuation",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "_inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "registerArtworkValues",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_bundleId",
+        type: "uint256",
+      },
+    ],
+    name: "releaseBundle",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_authenticator",
+        type: "address",
+      },
+    ],
+    name: "removeAuthenticator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_provider",
+        type: "address",
+      },
+    ],
+    name: "removeProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_artId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "_appraiser",
+        type: "address",
+      },
+    ],
+    name: "requestAppraisal",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_batchId",
+        type: "uint256",
+      },
+    ],
+    name: "requestBatchValueDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "_threshold",
+        type: "uint64",
+      },
+    ],
+    name: "requestWealthProof",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "reserveBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_artId",
+        type: "string",
+      },
+      {
+        internalType: "bool",
+        name: "_authentic",
+        type: "bool",
+      },
+    ],
+    name: "reviewArtwork",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_grantId",
+        type: "uint256",
+      },
+    ],
+    name: "revokeDisclosure",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_cooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setCooldownSeconds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint64[]",
+        name: "_encryptedInputs",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "uint64[]",
+        name: "_rates",
+        type: "uint64[]",
+      },
+      {
+        internalType: "bytes",
+        name: "_inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitConvertedPortfolioValues",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint64",
+        name: "_encryptedInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "_inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitPortfolioValue",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint64[]",
+        name: "_encryptedInputs",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "_inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitPortfolioValues",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "transferOfferCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "transferOffers",
+    outputs: [
+      {
+        internalType: "string",
+        name: "artId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "euint64",
+        name: "costBasis",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "valuation",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "pending",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "wealthProofCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "wealthProofContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "prover",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "threshold",
+        type: "uint64",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6040608081523462000212576200001562000216565b5f81525f6060602092826020820152828582015201526200003562000216565b9060607350157cffd6bbfa2dece204a89ec419c23ef5755d9283815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c28812918287820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319947f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090868254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970390838254161790556200015862000216565b6109c481526113886020820152611d4c848201526127106060820152915f90815b60049081841015620001a657855195850195600185019461ffff918216931b92831b921b19161762000179565b82879160105533905f5416175f55335f526001602052805f209060ff19916001838254161790555190337fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2603c600455600160075560085416600855615fc190816200024b8239f35b5f80fd5b60405190608082016001600160401b038111838210176200023657604052565b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f3560e01c806304c7a7cd146104c45780630a763da1146104bf5780630d201638146104ba5780630de46c1f146104b55780630f56e56b146104b05780630fde4f40146104ab578063124bd04b146104a65780631390a69f146104a15780631f96c1a81461049c578063224cf9c314610497578063236ed8f314610492578063248ead0c1461048d5780632543d74314610488578063274fae7c1461048357806327c47ab61461047e5780632ad7157314610479578063395b4e80146104745780633ec04a7d1461046f5780633f4ba83a1461046a5780634015e12a14610465578063410b27241461046057806342f3b0e91461045b57806346e2577a1461045657806355ea171914610451578063565c51911461044c578063571a26a014610447578063576fff2c1461044257806359caecb51461043d5780635a94a079146104385780635c975abb146104335780635cf45d4c1461042e5780636b074a07146104295780636cd764fb1461042457806375bca1c71461041f5780637724bf461461041a57806377bd5d09146104155780637ac38570146104105780637b5b11571461040b5780637dcc6d961461040657806380000cb2146104015780638456cb59146103fc5780638a355a57146103f75780638da5cb5b146103f257806394ca6a9e146103ed5780639699a82d146103e857806398b49d04146103e3578063a175c84f146103de578063a1998f11146103d9578063a4365476146103d4578063a9f9eb80146103cf578063aaa61e40146103ca578063ac9deeba146103c5578063acd75103146103c0578063b19c1432146103bb578063b65e8941146103b6578063b8221bc4146103b1578063ba294818146103ac578063c2cf7745146103a7578063c69b7f49146103a2578063c86026ce1461039d578063ca45704f14610398578063ccaa128914610393578063ce257db11461038e578063cf19384b14610389578063d4d2ac5c14610384578063d5c191511461037f578063d711004e1461037a578063da1f12ab14610375578063de35fca014610370578063e8c9e6991461036b578063e94e37a914610366578063faf540f614610361578063fb0b6a301461035c578063fcfeee76146103575763fdf72cf014610352575f80fd5b6138fb565b613863565b61372d565b61361d565b613588565b6134f2565b61338e565b613372565b613279565b613252565b6131ff565b61316c565b61308d565b613070565b612f18565b612e46565b612e14565b612d86565b612cd9565b612cbc565b612c7f565b612c3f565b612c1d565b612bee565b6129e2565b6129a7565b612938565b612766565b612690565b612673565b6125fd565b612533565b61250c565b612496565b612433565b6123ad565b612320565b6122bb565b61220b565b6121e1565b6121b7565b611e8f565b611e41565b611e01565b611d91565b611d2e565b611cf3565b611bff565b611b29565b611a96565b6118fa565b6118b1565b611837565b61170b565b611691565b6115c2565b61156b565b6112d5565b6112b8565b61129b565b611269565b6110bd565b610eca565b610e46565b610daa565b610d41565b610cbb565b610c7e565b610b76565b61084b565b6106d9565b610682565b610658565b610578565b6104d7565b5f9103126104d357565b5f80fd5b346104d3575f3660031901126104d3575f546001600160a01b031633036105665760ff6003541661055457600160085460ff8116610541575b60ff1916176008556007547fe80225e70e6677ae32f4a6ac9fd478d50cf5e1bc489994c68c7075fe35ec5ee25f80a2005b61054c600754613a7b565b600755610510565b6040516313d0ff5960e31b8152600490fd5b6040516330cd747160e01b8152600490fd5b346104d3575f3660031901126104d3576020600754604051908152f35b5f52601e60205260405f2090565b5f52601660205260405f2090565b5f52600b60205260405f2090565b5f52601960205260405f2090565b5f526020805260405f2090565b5f52600c60205260405f2090565b5f52601360205260405f2090565b5f52600960205260405f2090565b5f52601260205260405f2090565b5f52600a60205260405f2090565b5f52600d60205260405f2090565b5f52600f60205260405f2090565b5f52600e60205260405f2090565b5f52601a60205260405f2090565b346104d35760203660031901126104d3576004355f526014602052602060405f2054604051908152f35b346104d35760203660031901126104d3576004355f526017602052602060405f2054604051908152f35b9181601f840112156104d3578235916001600160401b0383116104d357602083818601950101116104d357565b346104d35760403660031901126104d3576004356024356001600160401b0381116104d35761070c9036906004016106ac565b60ff600393929354166105545761072d600161072784610595565b01610d34565b336001600160a01b03909116036107d2576003610759600261074e85610595565b015460a01c60ff1690565b61076281613516565b036107c1576107bc7f4bec0ccc60eb464294a6c729f57cfa178ab8b3827898eaad452062d76a3033fb916107ae600261079a86610595565b01805460ff60a01b1916600160a21b179055565b604051918291339683613ac7565b0390a3005b604051626cdbe360e11b8152600490fd5b60405163264f8a3160e01b8152600490fd5b6001600160a01b031690565b6001600160a01b038116036104d357565b6004359061080e826107f0565b565b60406003198201126104d357600435906001600160401b0382116104d35761083a916004016106ac565b9091602435610848816107f0565b90565b346104d35761085936610810565b9160ff60035416610554576001600160a01b03831690811580156109b7575b80156109af575b61099d5761088d83826148d9565b60405160208101906108b3816108a588873387613ad8565b03601f198101835282610a23565b519020906108c08261491b565b61098b5761097461091a956107ae610987987fb9e3f24d24e09965aacc934d0ad90eaf3f109b4a98ff3983f739c0a131f552f8946108ff601554613a7b565b809a819861090c83601555565b5f52601760205260405f2090565b556002600182015491015490610955610931610a46565b9361093d36888d610ad0565b855261094c3360208701613afa565b60408501613afa565b60608301526080820152600160a082015261096f866105a3565b613c4b565b0390a46040519081529081906020820190565b0390f35b604051637e6f43a760e01b8152600490fd5b604051630309cb8760e51b8152600490fd5b50821561087f565b50338214610878565b634e487b7160e01b5f52604160045260245ffd5b6001600160401b0381116109e757604052565b6109c0565b606081019081106001600160401b038211176109e757604052565b61010081019081106001600160401b038211176109e757604052565b601f909101601f19168101906001600160401b038211908210176109e757604052565b6040519060c082016001600160401b038111838210176109e757604052565b6040519060e082016001600160401b038111838210176109e757604052565b6040519061014082016001600160401b038111838210176109e757604052565b6040519060a082016001600160401b038111838210176109e757604052565b6040519061080e826109ec565b9192916001600160401b0382116109e75760405191610af9601f8201601f191660200184610a23565b8294818452818301116104d3578281602093845f960137010152565b9080601f830112156104d35781602061084893359101610ad0565b60606003198201126104d357600435916001600160401b036024358181116104d35783610b5f91600401610b15565b926044359182116104d35761084891600401610b15565b346104d357610b8436610b30565b610b9c6002610b948594956105b1565b015460ff1690565b610c5357610bb2610bac836105b1565b5461495b565b6001610bbd846105b1565b015403610c415782610bf4610c10927f29c13030bb38fea41bd358d5dbc48fec88c678fd7795a96d11bfa762cf37b5ab9585614967565b610c016040825114613d73565b60208082518301019101613dd1565b610c276002610c21859694966105b1565b01613a89565b610c30836105b1565b54936107bc60405192839283613df6565b6040516349bebc3160e11b8152600490fd5b60405163dbde098160e01b8152600490fd5b9081526020810191909152901515604082015260600190565b346104d35760203660031901126104d3576004355f52601a60205260405f20805461098760ff600260018501549401541660405193849384610c65565b346104d3575f3660031901126104d3575f546001600160a01b031633036105665760ff600354166105545760085460ff811615610d225760ff19166008556007547f94c46039bbb142b26a1597ea8eb7da05e59f17fb8243b882a24f30d0c53aa6845f80a2005b60405163680fbce360e01b8152600490fd5b546001600160a01b031690565b346104d35760203660031901126104d3576004355f52600c60205260a060405f2080549060018101549060ff600360028301549201541691604051938452600180861b038116602085015260018060401b0390851c166040840152606083015215156080820152f35b346104d35760203660031901126104d35760ff6003541661055457610dd0600435613e32565b005b9181601f840112156104d3578235916001600160401b0383116104d3576020808501948460051b0101116104d357565b9081518082526020808093019301915f5b828110610e21575050505090565b835185529381019392810192600101610e13565b906020610848928181520190610e02565b346104d35760203660031901126104d3576004356001600160401b0381116104d357610e76903690600401610dd2565b9060ff6003541661055457610e8a82613f97565b915f5b818110610ea257604051806109878682610e35565b80610eb9610eb36001938587613fc9565b35614c2f565b610ec38287613fe6565b5201610e8d565b346104d35760a03660031901126104d357600460243581356001600160401b036044358181116104d357610f0190369086016106ac565b9094606435916084358481116104d357610f1e90369084016106ac565b979094335f52600160205260409360ff855f205416156110af5760ff600354166110a157610f4b88610595565b92600284019485543360018060a01b038216036110915760a01c60ff16610f7181613516565b836002821415918261107c575b505061106d578b610fae610fa9610f968b8f8f614813565b610fa38d33953691610ad0565b90614d0b565b6107e4565b0361105d579a8860066107bc98966110388e9f977f4aa01f5788dacd49f7453393efe86bdfc47712a6841031f731be3ed72135452b9e9f869b986110058f92610fff61103e9b6110519e3691610ad0565b90614dd5565b61100e81614ec5565b5061102561101f60018801546107e4565b826159cd565b6003860155840155421660058301613ffa565b01614019565b805460ff60a01b1916600360a01b179055565b519384933398856140c8565b8651638baa579f60e01b81528390fd5b8651626cdbe360e11b81528390fd5b90915061108881613516565b1415835f610f7e565b875163264f8a3160e01b81528490fd5b84516313d0ff5960e31b8152fd5b8451631a40715960e11b8152fd5b346104d35760203660031901126104d35760043560ff60035416610554576110f06110ec6005610b94846105a3565b1590565b611244576111026002610727836105a3565b6001600160a01b039033908216036112325761112d6005611122846105a3565b01805460ff19169055565b5f61117061113f6001610727866105a3565b6108a561115f61114e876105a3565b6040519283916020830195866140e4565b5190205f52601760205260405f2090565b556111e061119d611188611183856105a3565b614106565b602081519101205f52602160205260405f2090565b6111a73382613c2c565b6111d860036111b5866105a3565b0154806001840155600260046111ca886105a3565b0154930192835533906159cd565b3390546159cd565b6111ee6001610727846105a3565b917f45de9f4df6e5c265b8c4aa966b66981cc871b4c0845bd7d6eedf3c64252daf5e61122d61121c836105a3565b93604051918291339716958261411a565b0390a4005b604051638c40266960e01b8152600490fd5b6040516308cd5ef960e31b8152600490fd5b6001600160a01b03909116815260200190565b346104d35760203660031901126104d3576004355f52600d602052602060018060a01b0360405f205416604051908152f35b346104d3575f3660031901126104d3576020601854604051908152f35b346104d3575f3660031901126104d3576020601d54604051908152f35b346104d35760603660031901126104d35760048035906044356001600160401b0381116104d35761130990369083016106ac565b909160ff6003541661155c576001600160a01b038061132c6001610727886105bf565b16158015611549575b6115395761136761135b600161134a886105bf565b015460a01c6001600160401b031690565b6001600160401b031690565b4210156115395761137c6001610727876105bf565b16331461152a57604051602081019061139a816108a533898661412b565b519020906113ba6113b3835f52601c60205260405f2090565b5460ff1690565b61151b5750916113e8916113e16113dc6113f0955f52601c60205260405f2090565b613a89565b3691610ad0565b602435614dd5565b6113f981614ec5565b5061140433826159cd565b8061140e33615a7d565b9163ffffffff61142a6001611422876105bf565b015460e01c90565b166114cd575b5061143a81614ec5565b5061144482614ec5565b506002611450846105bf565b0155600361145d836105bf565b01556114a5600161146d836105bf565b0161148161147c825460e01c90565b614144565b9080546001600160e01b031660e09290921b6001600160e01b031916919091179055565b33907f5445de3f4fe13efb115ec05c57e09cc0e277801d0cd2ae780457ebcd8688c3915f80a3005b61151491506115006114eb60026114e3876105bf565b015483614ecf565b9160026114f7876105bf565b01549083615cc1565b92600361150c866105bf565b015491615cc1565b905f611430565b604051630697833b60e11b8152fd5b604051630309cb8760e51b8152fd5b5060405163f046007760e01b8152fd5b5061155782610b94876105bf565b611335565b6040516313d0ff5960e31b8152fd5b346104d3575f3660031901126104d3575f546001600160a01b031633036105665760ff19600354166003557f5b65b0c1363b3003db9bcc5e1fd8805a6d6bf5bf6dc9d3431ee4494cd7d117666020604051338152a1005b346104d35760203660031901126104d3576004356115e46001610727836105cd565b6001600160a01b0390339082160361167f5761160f6002611604846105cd565b015460e81c60ff1690565b61166d576116356002611621846105cd565b01805460ff60e81b1916600160e81b179055565b6116436002610727846105cd565b169033907fec6bea8f62083905de309d1b203a2a035d40b9dbf9cbb56fd2f84f8323011c305f80a4005b604051636600e8dd60e01b8152600490fd5b60405163174e7d6760e21b8152600490fd5b346104d35760203660031901126104d3576004356116ae816107f0565b5f546001600160a01b039190821633036105665716805f52600260205260405f20805460ff8116156116dc57005b60ff191660011790557f2e142bacfe6b57292ba4dd8ddfe17d2c0aa0360b54f5247560bb60f74af5abcf5f80a2005b346104d3576040806003193601126104d3576001600160401b03600480358281116104d35761173d9036908301610dd2565b90926024359081116104d35761175690369084016106ac565b9092335f52600195600160205260ff815f2054161561182a5760ff6003541661181d57335f526005602052805f20548254810180911161181857421061180b576117a56110ec60085460ff1690565b6117fe5783156117f1575050426117bb33611cc1565b555f5b8281106117c757005b806117eb6117e66117da8994878a613fc9565b35610fff36878a610ad0565b614f6c565b016117be565b51630309cb8760e51b8152fd5b5163680fbce360e01b8152fd5b5163aa9a98df60e01b8152fd5b613a67565b516313d0ff5960e31b8152fd5b51631a40715960e11b8152fd5b346104d35760203660031901126104d357600435611854816107f0565b5f546001600160a01b039190821633036105665716805f52600160205260405f20805460ff81161561188257005b60ff191660011790557fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2005b346104d35760203660031901126104d3576004355f526021602052606060405f2060018060a01b0381541690600260018201549101549060405192835260208301526040820152f35b346104d3575f3660031901126104d357602060405160068152f35b90600182811c92168015611943575b602083101461192f57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691611924565b80545f939261195b82611915565b918282526020936001916001811690815f146119bf5750600114611981575b5050505050565b90939495505f92919252835f2092845f945b8386106119ab57505050500101905f8080808061197a565b805485870183015294019385908201611993565b60ff19168685015250505090151560051b010191505f8080808061197a565b5f5b8381106119ef5750505f910152565b81810151838201526020016119e0565b90602091611a18815180928185528580860191016119de565b601f01601f1916010190565b98939a9995909463ffffffff611a4a6101209a959994978c6101408091528d01906119ff565b6001600160a01b0397881660208d01526001600160401b03998a1660408d01529c1660608b015260808a015260a0890152151560c0880152151560e08701521661010085015216910152565b346104d35760203660031901126104d3576004355f52601960205260405f2060405190611ace82611ac7818461194d565b0383610a23565b610987600182015460018060a01b039360018060401b03936002810154956004600383015492015491604051978789988560b01c1696848660101c169660ff808860081c169716958260e01c938360a01c169216908b611a24565b346104d357611b3736610b30565b90611b466003610b94856105da565b610c5357611b56610bac846105da565b6002611b61856105da565b015403610c4157611b76611b88928285614967565b611b836020825114613d73565b614174565b151590611b996003610c21836105da565b611ba2816105da565b54907faa5e66b4dff7451ada18ad291ba5b2aa377a25dec3231fd0cedf801424c2a587611bd36001610727846105da565b93611be2600161134a856105da565b6040516001600160a01b039096169591829161122d919083613df6565b346104d35760203660031901126104d357600435611c246110ec6005610b94846105a3565b61124457611c366001610727836105a3565b611c446002610727846105a3565b916001600160a01b0382811692903384141580611cb5575b611232575f611ca37f348d0c20b0da65263c85f5b7413f67331931ba6d1b37ac7308753a01bc08581793611c946005611122886105a3565b6108a561115f61114e886105a3565b556040519416938061122d3382611256565b50808516331415611c5c565b6001600160a01b03165f90815260056020526040902090565b6001600160a01b03165f90815260066020526040902090565b346104d35760203660031901126104d357600435611d10816107f0565b60018060a01b03165f526006602052602060405f2054604051908152f35b346104d3575f3660031901126104d357602060ff600354166040519015158152f35b9491611d6b60a095929897949860c0885260c08801906119ff565b97600180871b038092166020880152166040860152606085015260808401521515910152565b346104d35760203660031901126104d3576004355f52601660205260405f20604051611dc881611dc1818561194d565b0382610a23565b61098760018060a01b0392836001820154169360028201541690600381015460ff60056004840154930154169260405196879687611d50565b346104d35760203660031901126104d357600435611e1e816107f0565b60018060a01b03165f526001602052602060ff60405f2054166040519015158152f35b346104d35760203660031901126104d35760ff60035416610554576020611e69600435614c2f565b604051908152f35b6001600160401b038116036104d357565b60a4359061080e82611e71565b346104d35760803660031901126104d35760048035602435611eb0816107f0565b60443591611ebd83611e71565b6001600160401b03926064358481116104d357611edd9036908701610dd2565b60ff600393929354166121a6576001600160a01b038516948515801561219d575b8015612193575b801561218b575b61217a57611f1c859897986150eb565b611f27601154613a7b565b96611f3188601155565b5f5b8381106120de5750611f44866105f6565b54611f4d615ad0565b915f908b87169b5b818310612030575050506109879950926120227f02a550ff1ed2d4d1cc9e9c949869f967d16e34f392ab4a7fb44cc49a0bf6a34095936109749386611f9b8d9a98614ec5565b50611fa633826159cd565b611fb083826159cd565b611fb982614ec5565b50611fc433836159cd565b611fce83836159cd565b611fed611fd9610a65565b93611fe43386613afa565b60208501613afa565b604083018b90526001600160401b0387166060840152608083015260a0820152600160c082015261201d88610604565b614272565b6040519384933398856142e4565b90919361208a6120756120708f6120469061422f565b61206a6120636120558b612987565b905461ffff9160031b1c1690565b61ffff1690565b90614167565b614246565b61208461206361205589612987565b90614254565b8281116120d4576001916120c46120ae6120a8866120ca9516615c22565b88615179565b6120b6615b23565b6120be615ad0565b91615cc1565b906151fd565b945b019190611f55565b50936001906120cc565b6120f56120ef8286899d959d614196565b906148d9565b50612101818588614196565b906108a561211c604093845192839160208301953387613ad8565b519020906121298261491b565b61216b575090896121446001935f52601460205260405f2090565b556121626121518b6105e8565b61215c83888b614196565b916141ec565b01989098611f33565b51637e6f43a760e01b81528b90fd5b604051630309cb8760e51b81528890fd5b508115611f0c565b5086831615611f05565b50338614611efe565b6040516313d0ff5960e31b81528790fd5b346104d35760203660031901126104d3576004355f52600a602052602060405f2054604051908152f35b346104d35760203660031901126104d3576004355f526009602052602060405f2054604051908152f35b346104d35760c03660031901126104d357612224610801565b6001600160401b036024358181116104d357612244903690600401610dd2565b6044939193358381116104d35761225f903690600401610dd2565b6064959195358581116104d35761227a903690600401610dd2565b916084359687116104d3576109879761229a6122ab9836906004016106ac565b9690956122a5611e82565b98614388565b6040519081529081906020820190565b346104d35760203660031901126104d3575f54600435906001600160a01b0316330361056657801561099d5760407f0731af75921ee6c66096a5c95daa1adcf95ff01e0ce8063a2369cb218ee4bcc991600454908060045582519182526020820152a1005b346104d35760203660031901126104d3576004355f52601b602052602060405f2054604051908152f35b6020808201906020835283518092526040830192602060408460051b8301019501935f915b84831061237f5750505050505090565b909192939495848061239d600193603f198682030187528a516119ff565b980193019301919493929061236f565b346104d3576020806003193601126104d3576004355f52601360205260409060405f208054906123dc82613f3b565b926123ea6040519485610a23565b82845260208401915f5260205f205f925b8484106124105760405180610987888261234a565b6001838192895161242581611dc1818961194d565b8152019201930192906123fb565b346104d3575f3660031901126104d3575f546001600160a01b031633036105665760035460ff81166105545760019060ff1916176003557f81990fd9a5c552b8e3677917d8a03c07678f0d2cb68f88b634aca2022e9bd19f6020604051338152a1005b346104d35760203660031901126104d3576004356124b3816107f0565b5f546001600160a01b039190821633036105665716805f52600160205260405f20805460ff81166124e057005b60ff191690557f1589f8555933761a3cff8aa925061be3b46e2dd43f621322ab611d300f62b1d95f80a2005b346104d3575f3660031901126104d3575f546040516001600160a01b039091168152602090f35b346104d35760203660031901126104d357600435335f52600160205260ff60405f205416156125eb5760ff6003541661055457336001600160a01b0361257d600261072785610595565b16036107d2576001612593600261074e84610595565b61259c81613516565b036107c1576125c360026125af83610595565b01805460ff60a01b1916600160a11b179055565b33907ffc4e6960d5f74f6e59335300e018769134ce5df2ca893772a24365601036d77e5f80a3005b604051631a40715960e11b8152600490fd5b346104d35760203660031901126104d35760043561261a816107f0565b5f546001600160a01b039190821633036105665716805f52600260205260405f20805460ff811661264757005b60ff191690557f2f8dd3c38085692ad44231e5f8ac8db54a1680b3770f8fbeeb9e1bc10b6830495f80a2005b346104d3575f3660031901126104d3576020601f54604051908152f35b346104d35760403660031901126104d3576024356126ad816107f0565b6004355f5260208052600560405f2001549081151590816126d6575b6040518215158152602090f35b5f80516020615f75833981519152546040516382027b6d60e01b8152936020935084926001600160a01b039092169183918291612716916004840161412b565b03915afa801561276157610987915f91612732575b505f6126c9565b612754915060203d60201161275a575b61274c8183610a23565b810190615510565b5f61272b565b503d612742565b614d00565b346104d3576040806003193601126104d3576001600160401b036004358181116104d3576127989036906004016106ac565b9091602435906127a782611e71565b60ff60035416612927578215908115612919575b50612908576127ca82846148d9565b50835160208101906127e2816108a586883387613ad8565b519020916127ef8361491b565b6128f757917fc105614c00acea36565773973a30f4319b947c8d71a0be496a646a14f59b592a61286c949261098796946128d661282a615b76565b612832615a2a565b61283b82614ec5565b5061284581614ec5565b50612851601854613a7b565b809a819861285e83601855565b5f52601b60205260405f2090565b55612875610a84565b9161288136868b610ad0565b83526128903360208501613afa565b6001600160401b038616838b01525f6060840152608083015260a08201525f60c08201525f60e08201525f6101008201525f6101208201526128d1866105bf565b614693565b6128e6865192839233978461476d565b0390a3519081529081906020820190565b8451637e6f43a760e01b8152600490fd5b8351630309cb8760e51b8152600490fd5b90504290821611155f6127bb565b84516313d0ff5960e31b8152600490fd5b346104d35760203660031901126104d357600435612955816107f0565b60018060a01b03165f526005602052602060405f2054604051908152f35b634e487b7160e01b5f52603260045260245ffd5b9060048210156129a257601e8260041c6010019260011b1690565b612973565b346104d35760203660031901126104d35760043560048110156104d35761ffff6129d2602092612987565b9190546040519260031b1c168152f35b346104d35760603660031901126104d3576001600160401b03600480358281116104d357612a139036908301610dd2565b6024939193358281116104d357612a2d9036908501610dd2565b9190926044359081116104d357612a4790369086016106ac565b91335f52600196600160205260409660ff885f20541615612be05760ff60035416612bd257335f526005602052875f205481548101809111611818574210612bc457612a986110ec60085460ff1690565b612bb65782158015612bac575b612b9e5742612ab333611cc1565b555f5b838110612abf57005b612ad561135b612ad0838a8c613fc9565b614796565b15612b8f5780612b88612b828a612b5b6117e68f9683612b3d8f8f8f948f928f612b2b612ad08484612b25612ad098610fff612b429e612b1c86612b379e612b319b613fc9565b35923691610ad0565b9a613fc9565b8761522c565b99613fc9565b86615328565b6153aa565b92612b54612b4e615bc9565b916152ae565b9084615cc1565b612b71600791612b6b8354610612565b5461542e565b612b7b8254610612565b5554610612565b54614ec5565b5001612ab6565b508751630309cb8760e51b8152fd5b8751630309cb8760e51b8152fd5b5085831415612aa5565b875163680fbce360e01b8152fd5b875163aa9a98df60e01b8152fd5b87516313d0ff5960e31b8152fd5b8751631a40715960e11b8152fd5b346104d35760203660031901126104d3576004355f52600e602052602060ff60405f2054166040519015158152f35b346104d3575f3660031901126104d357602060ff600854166040519015158152f35b346104d35760203660031901126104d357600435612c5c816107f0565b60018060a01b03165f526002602052602060ff60405f2054166040519015158152f35b346104d35760203660031901126104d3576004355f52600b60205260405f20805461098760ff600260018501549401541660405193849384610c65565b346104d3575f3660031901126104d3576020600454604051908152f35b346104d3575f3660031901126104d357602060405160028152f35b634e487b7160e01b5f52602160045260245ffd5b906003821015612d155752565b612cf4565b959163ffffffff94612d6291612d416101009a969d9c9b9894610120808c528b01906119ff565b6001600160a01b0391821660208b01529c1660408901526060880190612d08565b6001600160401b03166080860152151560a08501521660c083015260e08201520152565b346104d35760203660031901126104d3576004355f526020805260405f20604051612db581611dc1818561194d565b6001820154600283015460038401549093610987926001600160a01b03929083169063ffffffff1690600560048401549301549360405197889760ff8260e81c169360018060401b038360a81c169360ff8460a01c169316918a612d1a565b346104d35760203660031901126104d3576004355f52600f602052602060018060a01b0360405f205416604051908152f35b346104d3575f3660031901126104d357335f52600160205260ff60405f205416156125eb5760ff6003541661055457612e846110ec60085460ff1690565b610d22576007546001600160a01b03612ea4612e9f83610620565b610d34565b1615801590612f01575b612eef57612ec590612ec0339161062e565b613c2c565b336007547f06497a8fb64dae54ce46add56cdea035e7a676b95b09d77e7f2b7d48892681205f80a3005b6040516310cc1abd60e31b8152600490fd5b50612f11610fa9612e9f8361062e565b1515612eae565b346104d3576040806003193601126104d35760043560243591612f3a83611e71565b60ff6003541661306057335f526006602052805f2054600454810180911161181857421061305057612f6b826150eb565b42612f7533611cda565b557fee3be522d39cd6af21a3606f23b7d859508ce0226e28c04f3be52a6fd6135e78612fe1612fbf612fa6856105f6565b54612fb96001600160401b038816615c22565b90615179565b612fc881614ec5565b50612fd1613f52565b90612fdb82613fd9565b52615689565b91613036612ff6612ff1866154b2565b614bfe565b612ffe610aa4565b9086825261300f3360208401613afa565b6001600160401b0388168285015260608201525f6080820152613031856105da565b6147a0565b516001600160401b0390941684523393806020810161122d565b5163aa9a98df60e01b8152600490fd5b516313d0ff5960e31b8152600490fd5b346104d3575f3660031901126104d3576020601554604051908152f35b346104d3576040806003193601126104d3576004906024356001600160401b0381116104d3576130c090369084016106ac565b9091335f52600160205260ff815f2054161561315d5760ff6003541661314e57335f526005602052805f20548454810180911161181857421061313f5760ff6008541615613130576117e692610dd0949261312992335f52600560205242905f20553691610ad0565b9035614dd5565b5163680fbce360e01b81528390fd5b5163aa9a98df60e01b81528390fd5b516313d0ff5960e31b81528390fd5b51631a40715960e11b81528390fd5b346104d35760203660031901126104d357600480355f90815260126020908152604091829020805460018201546002830154600384015496840154600585015460069095015487516001600160a01b0395861681529490931695840195909552948201949094526001600160401b039094166060850152608084019190915260a083015260ff16151560c082015260e090f35b346104d35760203660031901126104d35760043560ff6003541661055457613226816150eb565b805f52600960205261323d60405f205433906159cd565b5f52600a602052610dd03360405f20546159cd565b346104d3575f3660031901126104d3576020601154604051908152f35b801515036104d357565b346104d3576040806003193601126104d357600480356001600160401b0381116104d3576132aa90369083016106ac565b602492919235916132ba8361326f565b335f52600260205260ff855f205416156133645760ff600354166110a1578115613356576132e9368386610ad0565b602081519101205f5260216020523360018060a01b0361330a875f20610d34565b161461334857506133437fb403718f705efec82676be0aa46102880e1f4a869e2d7ea7b045cf58f0a199649394519283923396846147f2565b0390a2005b8451633c82b95f60e11b8152fd5b8451630309cb8760e51b8152fd5b845163fcb0879160e01b8152fd5b346104d3575f3660031901126104d35760206040516127118152f35b346104d35760203660031901126104d3576004803590335f52600160205260409060ff825f205416156134e45760ff600354166134d657335f526006602052815f2054815481018091116118185742106134c857821580156134bd575b80156134a2575b613494576134056110ec6113b38561063c565b61348657504261341433611cda565b557f389e206af32a0f894aae2a19ffb367b9bf8f7e785470c496e3648822c9949dad61343f836154b2565b9161347a61345561344f85614bfe565b94615795565b9361345e610ac3565b9086825260208201525f83820152613475856105b1565b613e11565b51806107bc3382611256565b9051639cc424cf60e01b8152fd5b90516333b094a160e01b8152fd5b506134b86110ec6134b2856105f6565b54151590565b6133f2565b5060075483116133eb565b905163aa9a98df60e01b8152fd5b90516313d0ff5960e31b8152fd5b9051631a40715960e11b8152fd5b346104d35760603660031901126104d3576020611e69604435602435600435614813565b60051115612d1557565b94919061353b909896939794986101008088528701906119ff565b6001600160a01b039182166020870152961660408501526005871015612d1557610848966060850152608084015260a083015260018060401b031660c082015260e08184039101526119ff565b346104d35760203660031901126104d3576004355f52601e60205260405f20604051906135b982611ac7818461194d565b610987600660018060a01b03928360018201541694600282015460038301549060048401549261360760018060401b0360058701541695613600604051809981930161194d565b0387610a23565b60405198899860ff8460a01c1693169189613520565b346104d35761362b36610810565b9060ff60035416610554578015801561371b575b61099d576001600160a01b0382165f908152600160205260409020613667906110ec906113b3565b6125eb5761098792610974927f36782be31775a118ee083e2faf08424ac350bdc27df74ee099a33d56f7f0bbe761369f601d54613a7b565b9485926136ab84601d55565b6136be86866136b987610595565b614019565b6136d33360016136cd87610595565b01613c2c565b6136e28160026136cd87610595565b61370460026136f086610595565b01805460ff60a01b1916600160a01b179055565b60405191829160018060a01b031696339683613ac7565b506001600160a01b038216331461363f565b346104d3576020806003193601126104d35760043560ff600354166105545761375d6110ec6006610b9484610604565b613851576001613771600161072784610604565b6001600160a01b039390339085160361383f575f90825b6137d4575b50505061379e600661112283610604565b33916137ac612e9f83610604565b16907fa49fae8f2b757f693c82377017837c27b193100b2294905ed57e267d5918ed7b5f80a4005b6137dd846105e8565b5482101561383a578280925f6138326137f8612e9f89610604565b6108a56138216138108661380b8d6105e8565b6141d7565b506040519283918a830195866140e4565b5190205f52601460205260405f2090565b550191613788565b61378d565b604051638c38000360e01b8152600490fd5b60405163fe3588fb60e01b8152600490fd5b346104d35761387136610b30565b91906138816002610b948461064a565b610c535761388e8261064a565b549061389c612ff183614bb8565b60016138a78561064a565b015403610c41576138ec60026138e4836138c8610dd098610c219689614967565b6138d56040825114613d73565b60208082518301019101614890565b93909561064a565b6001600160a01b031690614aff565b346104d35760803660031901126104d35760046001600160401b0381358181116104d35761392c90369084016106ac565b9290916064359081116104d35761394690369083016106ac565b939060ff60035416613a56578115613a4557613966611188368487610ad0565b9260018060a01b0361397885546107e4565b1680613a0e5750505f80516020615f35833981519152939460026139cb6139c3613343946139a63389613c2c565b6139b46113e8368784610ad0565b94600189019586553691610ad0565b604435614dd5565b94019384556139da8154614ec5565b506139e7815433906159cd565b6139f18454614ec5565b506139fd3385546159cd565b5492546040519384933397856148b5565b3303613a3657505f80516020615f35833981519152939460026139cb6139c3613343946139a6565b604051633bb4b9bb60e01b8152fd5b604051630309cb8760e51b81528390fd5b6040516313d0ff5960e31b81528390fd5b634e487b7160e01b5f52601160045260245ffd5b5f1981146118185760010190565b805460ff19166001179055565b9060ff801983541691151516179055565b908060209392818452848401375f828201840152601f01601f1916010190565b916020610848938181520191613aa7565b6001600160a01b03909116815260406020820181905261084893910191613aa7565b6001600160a01b039091169052565b601f8211613b1657505050565b5f5260205f20906020601f840160051c83019310613b4e575b601f0160051c01905b818110613b43575050565b5f8155600101613b38565b9091508190613b2f565b8160011b915f199060031b1c19161790565b81519192916001600160401b0381116109e757613b9181613b8b8454611915565b84613b09565b602080601f8311600114613bc557508190613bb69394955f92613bba575b5050613b58565b9055565b015190505f80613baf565b90601f19831695613bd9855f5260205f2090565b925f905b888210613c1457505083600195969710613bfc575b505050811b019055565b01515f1960f88460031b161c191690555f8080613bf2565b80600185968294968601518155019501930190613bdd565b80546001600160a01b0319166001600160a01b03909216919091179055565b81518051909392906001600160401b0381116109e757613c7581613c6f8554611915565b85613b09565b602080601f8311600114613cfb5750600592613ca483613cf49460a09461080e999a5f92613bba575050613b58565b85555b613cc0613cb760208301516107e4565b60018701613c2c565b613cd9613cd060408301516107e4565b60028701613c2c565b60608101516003860155608081015160048601550151151590565b9101613a96565b90601f19831696613d0f865f5260205f2090565b925f905b898210613d5b5750508360a09360059693600193613cf49761080e9b9c10613d43575b505050811b018555613ca7565b01515f1960f88460031b161c191690555f8080613d36565b80600185968294968601518155019501930190613d13565b15613d7a57565b60405162461bcd60e51b815260206004820152602960248201527f417274506f7274666f6c696f4668653a20496e76616c696420636c65617274656044820152680f0e840d8cadccee8d60bb1b6064820152608490fd5b91908260409103126104d35760208251613dea81611e71565b9201516108488161326f565b6001600160401b039091168152901515602082015260400190565b6002604061080e938051845560208101516001850155015115159101613a96565b6001600160a01b03613e486001610727846105bf565b16158015613f27575b613f1557613e6661135b600161134a846105bf565b4210613f0357613e7a6004610c21836105bf565b63ffffffff613e8d6001611422846105bf565b1615613efa57613ea4613e9f82614bb8565b615855565b90613ed4613eb4612ff183614bb8565b613ebc610ac3565b9083825260208201525f60408201526134758461064a565b7f4603db6e379bfc34597f7d0b7ed8bc30d6dc6456875942e8abaf2f15e36edc985f80a3565b61080e90614a38565b604051636463738960e01b8152600490fd5b60405163f046007760e01b8152600490fd5b50613f366004610b94836105bf565b613e51565b6001600160401b0381116109e75760051b60200190565b60408051919082016001600160401b038111838210176109e7576040526001825260203681840137565b60405190613f89826109ec565b600282526040366020840137565b90613fa182613f3b565b613fae6040519182610a23565b8281528092613fbf601f1991613f3b565b0190602036910137565b91908110156129a25760051b0190565b8051156129a25760200190565b80518210156129a25760209160051b010190565b80546001600160401b0319166001600160401b03909216919091179055565b9092916001600160401b0381116109e75761403881613b8b8454611915565b5f601f8211600114614064578190613bb69394955f92614059575050613b58565b013590505f80613baf565b601f19821694614077845f5260205f2090565b915f5b8781106140b057508360019596971061409757505050811b019055565b01355f19600384901b60f8161c191690555f8080613bf2565b9092602060018192868601358155019401910161407a565b6108489492606092825260208201528160408201520191613aa7565b6001600160a01b0390911681526040602082018190526108489291019061194d565b9061080e611ac7926040519384809261194d565b90602061084892818152019061194d565b9081526001600160a01b03909116602082015260400190565b63ffffffff8091169081146118185760010190565b906001820180921161181857565b9190820180921161181857565b602081519101519060208110614188575090565b5f199060200360031b1b1690565b91908110156129a25760051b81013590601e19813603018212156104d35701803591906001600160401b0383116104d35760200182360381136104d3579190565b80548210156129a2575f5260205f2001905f90565b8054919291600160401b8110156109e75761420c916001820181556141d7565b92909261421c5761080e92614019565b634e487b7160e01b5f525f60045260245ffd5b906127109182810292818404149015171561181857565b5f1981019190821161181857565b811561425e570490565b634e487b7160e01b5f52601260045260245ffd5b600660c061080e936142a060018060a01b036142918184511687613c2c565b60208301511660018601613c2c565b6040810151600285015560608101516142c5906001600160401b031660038601613ffa565b6080810151600485015560a08101516005850155015115159101613a96565b939193606081019181528260209260018060401b0380971660208401526060604084015252608081019460808460051b83010195855f935b86851061432e57505050505050505090565b9091929394959697607f198282030184528835601e19843603018112156104d35783018781019190358681116104d35780360383136104d35761437689928392600195613aa7565b9a01940195019392969594919061431c565b949893959896919660ff60035416610554576001600160a01b03861697881580156145ad575b801561459a575b61099d5780158015614590575b8015614586575b61099d57601f6143da601f54614159565b9b5f5b8381106143f4575050505050505050505050505090565b6143ff818588614196565b90501561099d578b8b8b8f8b858b8f938b8f9184928f848e61442282878a614196565b61442b916148d9565b5061443592613fc9565b3591369061444292610ad0565b61444b91614dd5565b61445481614ec5565b5061445f33826159cd565b868d5461446b90613a7b565b986144758a601f55565b614480858588614196565b6144898c6105cd565b9161449392614019565b3361449d8b6105cd565b600101906144aa91613c2c565b600290816144b78c6105cd565b01906144c291613c2c565b6144cd858c8a613fc9565b6144d6906145b6565b816144e08c6105cd565b01906144eb916145c3565b6144f48a6105cd565b018054600160a81b600160e81b03191660a89290921b600160a81b600160e81b0316919091179055614525886105cd565b6004015561453292614196565b9561453e929193613fc9565b614547906145b6565b90604051928392339661455a93856145e7565b037f93fbf35836b4597dbeabc1734e3042f341551ef7a8835f5663eefc8cef2b524391a46001016143dd565b508a8114156143c9565b50878114156143c2565b50426001600160401b03871611156143b5565b503389146143ae565b3560038110156104d35790565b906003811015612d1557815460ff60a01b191660a09190911b60ff60a01b16179055565b9294939061460361460e91604094606087526060870191613aa7565b956020850190612d08565b600180831b0316910152565b8054600160a01b600160e01b03191660a09290921b600160a01b600160e01b0316919091179055565b805462010000600160b01b03191660109290921b62010000600160b01b0316919091179055565b8054600160b01b600160f01b03191660b09290921b600160b01b600160f01b0316919091179055565b90614767610120600461080e946146ab855182613b6a565b6146f0600182016146c86146c260208901516107e4565b82613c2c565b60408701516146e0906001600160401b03168261461a565b606087015163ffffffff16611481565b6080850151600282015560a08501516003820155019261471c61471660c0830151151590565b85613a96565b61474261472c60e0830151151590565b855461ff00191690151560081b61ff0016178555565b6147596147536101008301516107e4565b85614643565b01516001600160401b031690565b9061466a565b9160209161478691959495604085526040850191613aa7565b6001600160401b03909416910152565b3561084881611e71565b6003608061080e93805184556147dd600185016147c960018060a01b0360208501511682613c2c565b60408301516001600160401b03169061461a565b60608101516002850155015115159101613a96565b9160209161480b91959495604085526040850191613aa7565b931515910152565b91825f52601e602052611dc161483260405f206040519283809261194d565b6020815191012091835f52601e60205260018060a01b03600160405f200154166040519360208501953087524660408701526060860152608085015260a084015260c083015260e082015260e0815261488a81610a07565b51902090565b91908260409103126104d357602082516148a981611e71565b920151610848816107f0565b906148cf9060409396959496606084526060840191613aa7565b9460208201520152565b6148e4913691610ad0565b602081519101205f52602160205260405f209060018060a01b03825416330361490957565b604051633bb4b9bb60e01b8152600490fd5b5f52601460205260405f205415801590614949575b80156149395790565b50601b60205260405f2054151590565b50601760205260405f20541515614930565b612ff1610848916154b2565b9190825f525f80516020615ef58339815191526020908060205260405f205415614a2657845f5260205260405f206040519182602083549182815201925f5260205f20915f905b828210614a0f575050505091816149ce6149d395936110ec950382610a23565b61555c565b6149fd577f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b60405163cf6c44e960e01b8152600490fd5b8354855293840193600193840193909101906149ae565b60405163d66ca67560e01b8152600490fd5b5f818152601960205260408120600401805461ff001916610100179055906004614a61826105bf565b01805462010000600160b01b03191690556004614a7d826105bf565b018054600160b01b600160f01b031916905581614ac1614aa16001610727856105bf565b6108a5614ab061114e866105bf565b5190205f52601b60205260405f2090565b556001600160a01b03614ad86001610727846105bf565b16905f80516020615ed583398151915260405180614afa81905f602083019252565b0390a4565b805f526019602052614b20600460405f200161010061ff0019825416179055565b614b35826004614b2f846105bf565b01614643565b614b4a836004614b44846105bf565b0161466a565b5f80516020615ed583398151915260206001600160a01b035f614b94826001614b72886105bf565b0154166108a5614ab0614b84896105bf565b60405192839189830195866140e4565b55806001614ba1866105bf565b015416946040519660018060401b031687521694a4565b90614bc1613f7c565b91805f526019602052600260405f2001548351156129a25760208401525f526019602052600360405f2001548251600110156129a2576040830152565b60405161488a81614c1b6020820194604086526060830190610e02565b30604083015203601f198101835282610a23565b614c38816105cd565b6002810154909190336001600160a01b0382160361167f5760ff8160e81c16908115614ce9575b5061166d57614cb76003614c766004850154615915565b93614c8085614ec5565b50614c8b33866159cd565b84600582015501614ca361147c825463ffffffff1690565b63ffffffff1663ffffffff19825416179055565b6040518281523391907f6e3aadfb2dc2a9e2f5459ed266c2e778c0e206fa64e2b9e5a2e61a8afd200cc990602090a390565b60a81c6001600160401b031642101590505f614c5f565b6040513d5f823e3d90fd5b906041815103614dcf57602081015160408201516060909201516fa2a8918ca85bafe22016d0b997e4df60600160ff1b038311614dc757614db45f93602095604051614d87816108a58a82019485603c917b0ca2ba3432b932bab69029b4b3b732b21026b2b9b9b0b3b29d05199960211b8252601c8201520190565b51902093604051948594871a90859094939260ff6060936080840197845216602083015260408201520152565b838052039060015afa15612761575f5190565b505050505f90565b50505f90565b614e1991602091614df9610fa9610fa95f80516020615f15833981519152546107e4565b905f60405180968195829463196d0b9b60e01b845233906004850161599c565b03925af1908115612761575f91614e96575b50614e49610fa9610fa95f80516020615f75833981519152546107e4565b803b156104d3575f6040518092630f8e573b60e21b8252818381614e7133896004840161412b565b03925af1801561276157614e83575090565b80614e90610848926109d4565b806104c9565b614eb8915060203d602011614ebe575b614eb08183610a23565b81019061598d565b5f614e2b565b503d614ea6565b61084830826159cd565b908115614f5c575b8015614f4a575b602090606460018060a01b035f80516020615f158339815191525416935f60405195869485936385362ee760e01b8552600485015260248401528160448401525af1908115612761575f91614f31575090565b610848915060203d602011614ebe57614eb08183610a23565b506020614f55615b76565b9050614ede565b9050614f66615b76565b90614ed7565b80156150d957600780546001600160a01b0380614f8b612e9f8461062e565b1680151590816150ce575b50612eef57614faa610fa9612e9f84610620565b6150a1575050614fbe33612ec08354610620565b818154614fcd6134b2826105f6565b1561507f5750614fea61502591614fe484546105f6565b54615d13565b615010615001614ffa85546105f6565b5483615d3c565b9161500a615bc9565b83615cc1565b61501a84546105f6565b55612b6b8354610612565b61502f8254610612565b555b61503e612b8282546105f6565b5061504c612b828254610612565b50546040519182529033907f63fea4feb3b317e6dee0a0a053eb7f83c335c50b4c4251c286db3a687c26721f90602090a3565b615088906105f6565b55615091615c75565b61509b8254610612565b55615031565b6150ad612e9f83610620565b339116036150bc575b50614fbe565b6113dc6150c89161063c565b5f6150b6565b90503314155f614f96565b6040516321c4e35760e21b8152600490fd5b8015801561516e575b801561515d575b61514b576001600160a01b0361511082610620565b5416331490811591615136575b5061512457565b6040516305c8838760e11b8152600490fd5b60ff91506151439061063c565b54165f61511d565b6040516333b094a160e01b8152600490fd5b50615167816105f6565b54156150fb565b5060075481116150f4565b9081156151ed575b80156151db575b602090606460018060a01b035f80516020615f158339815191525416935f6040519586948593631391547f60e01b8552600485015260248401528160448401525af1908115612761575f91614f31575090565b5060206151e6615b76565b9050615188565b90506151f7615b76565b90615181565b9061084891801561521e575b81615dc0579050615218615ad0565b90615dc0565b50615227615ad0565b615209565b90811561529a575b5f80516020615f1583398151915254604051630afe14ad60e31b815260048101939093526001600160401b039091166024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115612761575f91614f31575090565b905060206152a6615b76565b919050615234565b8015615314575b5f80516020615f1583398151915254604051635a53accb60e01b81526004810192909252620f42406024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115612761575f91614f31575090565b505f6020615320615b76565b9150506152b5565b908115615396575b5f80516020615f1583398151915254604051635a53accb60e01b815260048101939093526001600160401b039091166024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115612761575f91614f31575090565b905060206153a2615b76565b919050615330565b90811561541e575b801561540c575b602090606460018060a01b035f80516020615f158339815191525416935f60405195869485936336024b2f60e21b8552600485015260248401528160448401525af1908115612761575f91614f31575090565b506020615417615b76565b90506153b9565b9050615428615b76565b906153b2565b9081156154a2575b8015615490575b602090606460018060a01b035f80516020615f158339815191525416935f60405195869485936363a2db2960e01b8552600485015260248401528160448401525af1908115612761575f91614f31575090565b50602061549b615c75565b905061543d565b90506154ac615c75565b90615436565b906154bb613f7c565b91805f52600960205260405f20548351156129a25760208401525f52600a60205260405f20548251600110156129a2576040830152565b60209291906155088492828151948592016119de565b019081520190565b908160209103126104d357516108488161326f565b9161554e906155406108489593606086526060860190610e02565b9084820360208601526119ff565b9160408184039101526119ff565b91908051916020938385019384861161181857604001809411611818576155e29361559386946108a56040519384928884016154f2565b5f6155c4610fa9610fa97f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703546107e4565b92604051968795869485936378542ead60e01b855260048501615525565b03925af1918215612761575f926155f857505090565b6108489250803d1061275a5761274c8183610a23565b9291615627918452606060208501526060840190610e02565b9160406315dbffcb60e21b910152565b9291615650918452606060208501526060840190610e02565b91604063124bd04b60e01b910152565b9291615679918452606060208501526060840190610e02565b916040637e7f773b60e11b910152565b905f80516020615f95833981519152918254926156b9610fa9610fa95f80516020615f75833981519152546107e4565b803b156104d3575f6040518092637d6e912360e11b82528183816156e08960048301610e35565b03925af1801561276157615782575b5061570d610fa9610fa95f80516020615f55833981519152546107e4565b90813b156104d3575f6040518093633263b83b60e01b8252818381615736898c6004840161560e565b03925af180156127615761080e9361575e936157589261576f575b5086615e14565b54613a7b565b5f80516020615f9583398151915255565b80614e9061577c926109d4565b5f615751565b80614e9061578f926109d4565b5f6156ef565b905f80516020615f95833981519152918254926157c5610fa9610fa95f80516020615f75833981519152546107e4565b803b156104d3575f6040518092637d6e912360e11b82528183816157ec8960048301610e35565b03925af1801561276157615842575b50615819610fa9610fa95f80516020615f55833981519152546107e4565b90813b156104d3575f6040518093633263b83b60e01b8252818381615736898c60048401615637565b80614e9061584f926109d4565b5f6157fb565b905f80516020615f9583398151915291825492615885610fa9610fa95f80516020615f75833981519152546107e4565b803b156104d3575f6040518092637d6e912360e11b82528183816158ac8960048301610e35565b03925af1801561276157615902575b506158d9610fa9610fa95f80516020615f55833981519152546107e4565b90813b156104d3575f6040518093633263b83b60e01b8252818381615736898c60048401615660565b80614e9061590f926109d4565b5f6158bb565b8015615979575b5f80516020615f158339815191525460405163022f65e760e31b815260048101929092525f60248301819052600160f81b604484015260209183916064918391906001600160a01b03165af1908115612761575f91614f31575090565b505f6020615985615b76565b91505061591c565b908160209103126104d3575190565b93926159c890600593606093875260018060a01b031660208701526080604087015260808601906119ff565b930152565b5f80516020615f75833981519152546001600160a01b031691823b156104d357615a10925f9283604051809681958294635ca4b5b160e11b84526004840161412b565b03925af1801561276157615a215750565b61080e906109d4565b5f80516020615f1583398151915254604051639cd07acb60e01b81525f60048201819052600760248301529091602091839160449183916001600160a01b03165af1908115612761575f91614f31575090565b5f80516020615f1583398151915254604051639cd07acb60e01b8152600481019290925260076024830152602090829060449082905f906001600160a01b03165af1908115612761575f91614f31575090565b5f80516020615f1583398151915254604051639cd07acb60e01b81525f60048201819052600260248301529091602091839160449183916001600160a01b03165af1908115612761575f91614f31575090565b5f80516020615f1583398151915254604051639cd07acb60e01b8152600160048201526002602482015290602090829060449082905f906001600160a01b03165af1908115612761575f91614f31575090565b5f80516020615f1583398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115612761575f91614f31575090565b5f80516020615f1583398151915254604051639cd07acb60e01b81526001600160401b0360048201526005602482015290602090829060449082905f906001600160a01b03165af1908115612761575f91614f31575090565b5f80516020615f1583398151915254604051639cd07acb60e01b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af1908115612761575f91614f31575090565b5f602060018060a01b035f80516020615f158339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af1908115612761575f91614f31575090565b9060646020925f60018060a01b035f80516020615f1583398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115612761575f91614f31575090565b90610848918015615d2e575b81615dc0579050615218615b76565b50615d37615b76565b615d1f565b908115615db0575b8015615d9e575b602090606460018060a01b035f80516020615f158339815191525416935f6040519586948593637210768160e01b8552600485015260248401528160448401525af1908115612761575f91614f31575090565b506020615da9615b76565b9050615d4b565b9050615dba615b76565b90615d44565b90602090606460018060a01b035f80516020615f158339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115612761575f91614f31575090565b805f525f80516020615ef58339815191526020918160205260405f2054615ec2575f5260205260405f209082519260018060401b0384116109e757600160401b84116109e7578254848455808510615e9c575b506020615e799101925f5260205f2090565b905f5b848110615e8a575050505050565b83518382015592810192600101615e7c565b835f528460205f2091820191015b818110615eb75750615e67565b5f8155600101615eaa565b604051633f06d22b60e01b8152600490fdfe825abdab48941f5dba69f3fee6372f28af91d1bbc846a0e0c4e97e1b615df126878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701e23b5dcf228db10914e650ab722a25e99df741db1714190f826f8dc630434abe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497029e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00a164736f6c6343000818000a";
+
+type ArtPortfolioFheConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ArtPortfolioFheConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ArtPortfolioFhe__factory extends ContractFactory {
+  constructor(...args: ArtPortfolioFheConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      ArtPortfolioFhe & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): ArtPortfolioFhe__factory {
+    return super.connect(runner) as ArtPortfolioFhe__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ArtPortfolioFheInterface {
+    return new Interface(_abi) as ArtPortfolioFheInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ArtPortfolioFhe {
+    return new Contract(address, _abi, runner) as unknown as ArtPortfolioFhe;
+  }
+}